@@ -1,31 +1,25 @@
 'use client';
 import { useState, useEffect } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import { useStore } from "@/contexts/StoreContext";
 
 export default function ShopifyStoreManager() {
   const [form, setForm] = useState({
     storeId: "",
-    SHOPIFY_STORE_NAME: "",
-    SHOPIFY_API_KEY: "",
-    SHOPIFY_API_SECRET: "",
-    SHOPIFY_STORE_URL: "",
-    SHOPIFY_ADMIN_SESSION: ""
+    shop: "",
   });
 
-  const [userId, setUserId] = useState<string>("");
-
-  useEffect(() => {
-    const user = sessionStorage.getItem("user");
-    if (user) {
-      setUserId(user);
-    }
-  }, []);
+  const { user } = useAuth();
+  const { refreshStores } = useStore();
+  const userId = user?.uid || "";
 
   const [stores, setStores] = useState([]);
   const [loading, setLoading] = useState(false);
+  const [status, setStatus] = useState<{ type: "success" | "error"; text: string } | null>(null);
 
   const fetchStores = async () => {
     try {
-      const res = await fetch(`/api/store-add?userId=${userId}`);
+      const res = await fetch('/api/store-add');
       const data = await res.json();
       setStores(data);
     } catch (error) {
@@ -37,51 +31,47 @@ export default function ShopifyStoreManager() {
     if (userId) fetchStores();
   }, [userId]);
 
+  // The OAuth callback redirects back here with ?installed=<storeId> or ?error=<message>
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const installed = params.get("installed");
+    const error = params.get("error");
+    if (installed) {
+      setStatus({ type: "success", text: `Store "${installed}" connected!` });
+      refreshStores(); // Make the new store available in the store switcher
+    } else if (error) {
+      setStatus({ type: "error", text: error });
+    }
+  }, [refreshStores]);
+
   const handleChange = (e : any) => {
     setForm({ ...form, [e.target.name]: e.target.value });
   };
 
-  const handleSubmit = async (e : any) => {
+  const handleSubmit = (e : any) => {
     e.preventDefault();
-    if (!form.storeId) return alert("Store ID is required");
+    const shop = form.shop.trim().toLowerCase().replace(/^https?:\/\//, "").replace(/\/$/, "");
+    if (!shop) return alert("Shop domain is required");
     setLoading(true);
 
-    const res = await fetch("/api/store-add", {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ userId, ...form }),
+    // Hand over to Shopify: install -> approve scopes -> /api/shopify/callback
+    const params = new URLSearchParams({
+      shop: shop.endsWith(".myshopify.com") ? shop : `${shop}.myshopify.com`,
+      storeId: form.storeId.trim(),
     });
-
-    const result = await res.json();
-    setLoading(false);
-
-    if (result.success) {
-      alert("Store added!");
-      setForm({
-        storeId: "",
-        SHOPIFY_STORE_NAME: "",
-        SHOPIFY_API_KEY: "",
-        SHOPIFY_API_SECRET: "",
-        SHOPIFY_STORE_URL: "",
-        SHOPIFY_ADMIN_SESSION: ""
-      });
-      fetchStores(); // Refresh store list
-    } else {
-      alert(result.error || "Failed to add store");
-    }
+    window.location.href = `/api/shopify/install?${params.toString()}`;
   };
 
   return (
     <div style={{ maxWidth: "800px", margin: "auto", padding: "2rem" }}>
-      <h2>Add Shopify Store</h2>
+      <h2>Connect Shopify Store</h2>
+      {status && (
+        <p style={{ color: status.type === "error" ? "#b91c1c" : "#15803d" }}>{status.text}</p>
+      )}
       <form onSubmit={handleSubmit} style={{ display: "grid", gap: "1rem" }}>
-        <input name="storeId" value={form.storeId} onChange={handleChange} placeholder="Unique Store ID" required />
-        <input name="SHOPIFY_STORE_NAME" value={form.SHOPIFY_STORE_NAME} onChange={handleChange} placeholder="Store Name" required />
-        <input name="SHOPIFY_API_KEY" value={form.SHOPIFY_API_KEY} onChange={handleChange} placeholder="API Key" required />
-        <input name="SHOPIFY_API_SECRET" value={form.SHOPIFY_API_SECRET} onChange={handleChange} placeholder="API Secret" required />
-        <input name="SHOPIFY_STORE_URL" value={form.SHOPIFY_STORE_URL} onChange={handleChange} placeholder="Store URL" required />
-        <input name="SHOPIFY_ADMIN_SESSION" value={form.SHOPIFY_ADMIN_SESSION} onChange={handleChange} placeholder="Admin Session" />
-        <button type="submit" disabled={loading}>{loading ? "Adding..." : "Add Store"}</button>
+        <input name="shop" value={form.shop} onChange={handleChange} placeholder="your-store.myshopify.com" required />
+        <input name="storeId" value={form.storeId} onChange={handleChange} placeholder="Unique Store ID (optional)" />
+        <button type="submit" disabled={loading || !userId}>{loading ? "Redirecting to Shopify..." : "Connect with Shopify"}</button>
       </form>
 
       <hr style={{ margin: "2rem 0" }} />
@@ -93,9 +83,19 @@ export default function ShopifyStoreManager() {
         <ul style={{ listStyle: "none", padding: 0 }}>
           {stores.map((store : any) => (
             <li key={store.id} style={{ padding: "1rem", borderBottom: "1px solid #ccc" }}>
-              <strong>{store.SHOPIFY_STORE_NAME}</strong><br />
-              <small>URL: {store.SHOPIFY_STORE_URL}</small><br />
-              <small>Store ID: {store.id}</small>
+              <strong>{store.name}</strong><br />
+              <small>Domain: {store.domain}</small><br />
+              <small>Store ID: {store.id}</small><br />
+              <small>Added: {store.createdAt ? new Date(store.createdAt).toLocaleDateString() : "Unknown"}</small><br />
+              <small style={{ color: store.health === "connected" ? "#15803d" : "#b91c1c" }}>
+                {store.health === "connected"
+                  ? "Connected"
+                  : store.health === "uninstalled"
+                    ? "App uninstalled - reconnect to restore access"
+                    : store.health === "unauthorized"
+                      ? "Access token rejected - reconnect the store"
+                      : "Connection error"}
+              </small>
             </li>
           ))}
         </ul>
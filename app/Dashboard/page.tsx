@@ -15,6 +15,11 @@ import {
   DollarSign,
   History,
   Home,
+  Users,
+  RefreshCw,
+  ShieldAlert,
+  Gem,
+  FileSpreadsheet,
 } from "lucide-react"
 import Image from "next/image"
 import Link from "next/link"
@@ -33,9 +38,15 @@ import { ProductEditModal } from "@/components/product-edit-modal"
 import { BulkUploadModal } from "@/components/bulk-upload-modal"
 import { UniversalHistoryModal } from "@/components/universal-history-modal"
 import { BulkPriceEditModal } from "@/components/bulk-price-edit-modal"
+import { MetalRepricingModal } from "@/components/metal-repricing-modal"
+import { CatalogCsvModal } from "@/components/catalog-csv-modal"
 import { BulkDiscountSystem } from "@/components/bulk-discount-system"
 import { ProtectedRoute } from "@/components/auth/ProtectedRoute"
 import { UserProfile } from "@/components/auth/UserProfile"
+import { StoreSwitcher } from "@/components/store-switcher"
+import { TeamAccessModal } from "@/components/team-access-modal"
+import { PriceGuardrailsModal } from "@/components/price-guardrails-modal"
+import { useStore } from "@/contexts/StoreContext"
 import { createProductHistoryEntry } from "@/lib/universal-history"
 
 interface Product {
@@ -97,10 +108,17 @@ export default function ShopifyAdminPage() {
   const [showBulkUpload, setShowBulkUpload] = useState(false)
   const [showUniversalHistory, setShowUniversalHistory] = useState(false)
   const [showBulkPriceEdit, setShowBulkPriceEdit] = useState(false)
+  const [showMetalRepricing, setShowMetalRepricing] = useState(false)
+  const [showCatalogCsv, setShowCatalogCsv] = useState(false)
   const [activeTab, setActiveTab] = useState("products")
   const [showProductHistory, setShowProductHistory] = useState(false)
   const [selectedProductForHistory, setSelectedProductForHistory] = useState<Product | null>(null)
+  const [showTeamAccess, setShowTeamAccess] = useState(false)
+  const [showGuardrails, setShowGuardrails] = useState(false)
+  const [syncedAt, setSyncedAt] = useState<string | null>(null)
+  const [resyncing, setResyncing] = useState(false)
   const router = useRouter()
+  const { can } = useStore()
 
   useEffect(() => {
     // Check if there are URL parameters (like ?tab=bulk-upload)
@@ -220,12 +238,32 @@ export default function ShopifyAdminPage() {
       console.log("Debug info:", productsData.debug)
 
       setProducts(productsData.products || [])
+      setSyncedAt(productsData.syncedAt || null)
     } catch (error) {
       console.error("Error fetching products:", error)
       setProducts([])
     }
   }, [collectionFilter])
 
+  // Rebuild the server-side product cache from Shopify, e.g. after deleting products in the Shopify admin
+  const handleFullResync = useCallback(async () => {
+    setResyncing(true)
+    try {
+      const response = await fetch("/api/products/resync", { method: "POST" })
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to resync products")
+      }
+      console.log(`Resynced ${result.count} products`)
+      await fetchProducts()
+    } catch (error) {
+      console.error("Error resyncing products:", error)
+      alert(`Full resync failed: ${error instanceof Error ? error.message : "Unknown error"}`)
+    } finally {
+      setResyncing(false)
+    }
+  }, [fetchProducts])
+
   const handleProductSelect = useCallback((productId: string) => {
     setSelectedProducts((prev) =>
       prev.includes(productId) ? prev.filter((id) => id !== productId) : [...prev, productId],
@@ -332,13 +370,27 @@ export default function ShopifyAdminPage() {
 
     if (confirm(`Are you sure you want to delete ${selectedProducts.length} products? This action cannot be undone.`)) {
       try {
-        const deletePromises = selectedProducts.map((productId) =>
-          fetch(`/api/products?id=${productId}`, { method: "DELETE" }),
-        )
+        const response = await fetch("/api/products", {
+          method: "DELETE",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ productIds: selectedProducts }),
+        })
+        const result = await response.json()
+
+        // Parked until another team member approves it (see Team & Approvals)
+        if (response.status === 202 && result.approvalRequired) {
+          alert(result.message)
+          setSelectedProducts([])
+          return
+        }
+
+        if (!response.ok) {
+          throw new Error(result.error || `HTTP ${response.status}`)
+        }
 
-        await Promise.all(deletePromises)
+        const deletedIds: string[] = result.results.filter((r: any) => r.success).map((r: any) => r.productId)
 
-        selectedProducts.forEach((productId) => {
+        deletedIds.forEach((productId) => {
           const product = products.find((p) => p.id === productId)
           if (product) {
             createProductHistoryEntry(
@@ -351,8 +403,12 @@ export default function ShopifyAdminPage() {
           }
         })
 
-        setProducts((prev) => prev.filter((p) => !selectedProducts.includes(p.id)))
+        setProducts((prev) => prev.filter((p) => !deletedIds.includes(p.id)))
         setSelectedProducts([])
+
+        if (result.failed > 0) {
+          alert(`${result.failed} products could not be deleted`)
+        }
       } catch (error) {
         console.error("Error deleting products:", error)
         alert("Error deleting products: " + error)
@@ -394,10 +450,12 @@ export default function ShopifyAdminPage() {
                 <p className="text-gray-600">
                   Manage your jewelry collection ({products.length} total products
                   {collectionFilter !== "all" && ` in selected collection`})
+                  {syncedAt && ` · Synced ${new Date(syncedAt).toLocaleTimeString()}`}
                 </p>
               </div>
             </div>
             <div className="flex items-center gap-2">
+              <StoreSwitcher />
               <Button variant="outline" onClick={() => router.push("/AddStore")}>
                 Add Store 
               </Button>
@@ -407,22 +465,52 @@ export default function ShopifyAdminPage() {
                   Landing Page
                 </Button>
               </Link>
+              {can("products:edit") && (
+                <Button variant="outline" onClick={handleFullResync} disabled={resyncing}>
+                  <RefreshCw className={`w-4 h-4 mr-2 ${resyncing ? "animate-spin" : ""}`} />
+                  {resyncing ? "Resyncing..." : "Full Resync"}
+                </Button>
+              )}
               <Button variant="outline" onClick={() => setShowUniversalHistory(true)}>
                 <History className="w-4 h-4 mr-2" />
                 History
               </Button>
-              <Button variant="outline" onClick={() => setShowBulkUpload(true)}>
-                <Upload className="w-4 h-4 mr-2" />
-                Bulk Upload
+              <Button variant="outline" onClick={() => setShowTeamAccess(true)}>
+                <Users className="w-4 h-4 mr-2" />
+                Team
               </Button>
-              <Button variant="outline" onClick={() => setShowBulkPriceEdit(true)}>
-                <DollarSign className="w-4 h-4 mr-2" />
-                Bulk Pricing
+              <Button variant="outline" onClick={() => setShowGuardrails(true)}>
+                <ShieldAlert className="w-4 h-4 mr-2" />
+                Guardrails
               </Button>
-              <Button className="bg-green-600 hover:bg-green-700" onClick={handleCreateNew}>
-                <Plus className="w-4 h-4 mr-2" />
-                Add Product
+              <Button variant="outline" onClick={() => setShowCatalogCsv(true)}>
+                <FileSpreadsheet className="w-4 h-4 mr-2" />
+                CSV
               </Button>
+              {can("products:edit") && (
+                <Button variant="outline" onClick={() => setShowBulkUpload(true)}>
+                  <Upload className="w-4 h-4 mr-2" />
+                  Bulk Upload
+                </Button>
+              )}
+              {can("prices:edit") && (
+                <Button variant="outline" onClick={() => setShowBulkPriceEdit(true)}>
+                  <DollarSign className="w-4 h-4 mr-2" />
+                  Bulk Pricing
+                </Button>
+              )}
+              {can("prices:edit") && (
+                <Button variant="outline" onClick={() => setShowMetalRepricing(true)}>
+                  <Gem className="w-4 h-4 mr-2" />
+                  Metal Rates
+                </Button>
+              )}
+              {can("products:edit") && (
+                <Button className="bg-green-600 hover:bg-green-700" onClick={handleCreateNew}>
+                  <Plus className="w-4 h-4 mr-2" />
+                  Add Product
+                </Button>
+              )}
               <UserProfile />
             </div>
           </div>
@@ -696,10 +784,12 @@ export default function ShopifyAdminPage() {
                                   </Button>
                                 </DropdownMenuTrigger>
                                 <DropdownMenuContent align="end">
-                                  <DropdownMenuItem onClick={() => setEditingProduct(product)}>
-                                    <Edit className="w-4 h-4 mr-2" />
-                                    Edit Product
-                                  </DropdownMenuItem>
+                                  {can("products:edit") && (
+                                    <DropdownMenuItem onClick={() => setEditingProduct(product)}>
+                                      <Edit className="w-4 h-4 mr-2" />
+                                      Edit Product
+                                    </DropdownMenuItem>
+                                  )}
                                   <DropdownMenuItem onClick={() => handleShowProductHistory(product)}>
                                     <History className="w-4 h-4 mr-2" />
                                     View History
@@ -747,10 +837,12 @@ export default function ShopifyAdminPage() {
                             <div className="flex justify-between items-center mt-2">
                               <span className="text-sm text-gray-500">{getInventory(product)} units</span>
                               <div className="flex gap-1">
-                                <Button size="sm" variant="outline" onClick={() => setEditingProduct(product)}>
-                                  <Edit className="w-3 h-3 mr-1" />
-                                  Edit
-                                </Button>
+                                {can("products:edit") && (
+                                  <Button size="sm" variant="outline" onClick={() => setEditingProduct(product)}>
+                                    <Edit className="w-3 h-3 mr-1" />
+                                    Edit
+                                  </Button>
+                                )}
                               </div>
                             </div>
                           </CardContent>
@@ -788,10 +880,12 @@ export default function ShopifyAdminPage() {
                         <Button variant="outline" size="sm">
                           Add to Collection
                         </Button>
-                        <Button variant="destructive" size="sm" onClick={handleBulkDelete}>
-                          <Trash2 className="w-4 h-4 mr-2" />
-                          Delete Selected
-                        </Button>
+                        {can("products:delete") && (
+                          <Button variant="destructive" size="sm" onClick={handleBulkDelete}>
+                            <Trash2 className="w-4 h-4 mr-2" />
+                            Delete Selected
+                          </Button>
+                        )}
                       </div>
                     </div>
                   </CardContent>
@@ -812,7 +906,11 @@ export default function ShopifyAdminPage() {
                     <p className="text-gray-500 mb-4">
                       Upload ZIP files containing folders named with SKU numbers for bulk image management.
                     </p>
-                    <Button onClick={() => setShowBulkUpload(true)}>Start Bulk Upload</Button>
+                    {can("products:edit") ? (
+                      <Button onClick={() => setShowBulkUpload(true)}>Start Bulk Upload</Button>
+                    ) : (
+                      <p className="text-sm text-gray-500">Your role does not allow uploading images.</p>
+                    )}
                   </div>
                 </CardContent>
               </Card>
@@ -875,6 +973,24 @@ export default function ShopifyAdminPage() {
           />
         )}
 
+        {/* Team & Approvals Modal */}
+        {showTeamAccess && (
+          <TeamAccessModal
+            isOpen={showTeamAccess}
+            onClose={() => setShowTeamAccess(false)}
+            onApprovalExecuted={fetchProducts}
+          />
+        )}
+
+        {/* Price Guardrails Modal */}
+        {showGuardrails && (
+          <PriceGuardrailsModal
+            isOpen={showGuardrails}
+            onClose={() => setShowGuardrails(false)}
+            collections={collections}
+          />
+        )}
+
         {/* Bulk Pricing Modal */}
         {showBulkPriceEdit && (
           <BulkPriceEditModal
@@ -884,6 +1000,25 @@ export default function ShopifyAdminPage() {
             collections={collections}
           />
         )}
+
+        {/* Metal Rate Repricing Modal */}
+        {showMetalRepricing && (
+          <MetalRepricingModal
+            isOpen={showMetalRepricing}
+            onClose={() => setShowMetalRepricing(false)}
+            onRepriced={fetchProducts}
+          />
+        )}
+
+        {/* Catalog CSV Export/Import Modal */}
+        {showCatalogCsv && (
+          <CatalogCsvModal
+            isOpen={showCatalogCsv}
+            onClose={() => setShowCatalogCsv(false)}
+            collections={collections}
+            onImported={fetchProducts}
+          />
+        )}
       </div>
     </ProtectedRoute>
   )
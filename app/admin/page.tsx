@@ -16,6 +16,7 @@ import {
   XCircle,
   AlertCircle,
   ArrowRight,
+  ListChecks,
 } from "lucide-react"
 import Image from "next/image"
 import Link from "next/link"
@@ -424,6 +425,12 @@ export default function AdminDashboard() {
 
           {/* Store Connection Status in Header */}
           <div className="flex items-center space-x-4">
+            <Link href="/jobs">
+              <Button variant="outline" size="sm">
+                <ListChecks className="w-4 h-4 mr-2" />
+                Background Jobs
+              </Button>
+            </Link>
             <div className="flex items-center space-x-2 bg-gray-50 px-3 py-2 rounded-lg">
               {getStatusIcon()}
               <div className="text-right">
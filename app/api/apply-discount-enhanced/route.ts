@@ -1,227 +1,142 @@
 import { NextResponse } from "next/server"
-import { shopifyRestFetch } from "@/lib/shopify"
-
-interface DiscountRequest {
+import { withStoreAuth } from "@/lib/api-auth"
+import { completeApproval, gateWithApproval } from "@/lib/approvals"
+import { CAMPAIGN_CONFLICT_MODES, createCampaign, type CampaignConflictMode } from "@/lib/campaigns"
+import {
+  applyDiscount,
+  CONFLICT_MODES,
+  estimateDiscountChangePercent,
+  findDiscountConflicts,
+  type ConflictMode,
+} from "@/lib/discounts"
+import { isValidDiscountBatchId, newDiscountBatchId } from "@/lib/discount-batches"
+import { describeRules, rulesFromRequest, validateRules, type DiscountRequestFields } from "@/lib/discount-modes"
+import { enqueueJob } from "@/lib/jobs"
+
+interface DiscountRequest extends DiscountRequestFields {
   variantIds: string[]
-  discountPercentage: number
+  startDate?: string | null // Future start: stored as a scheduled campaign instead of applied now
   expiryDate?: string | null
+  dryRun?: boolean // Compute the per-variant diff against live prices without writing anything
+  conflictMode?: ConflictMode // Required when a selected variant already has a discount; skip or stack when scheduled
+  batchId?: string // Record into this discount batch, for runs sent one variant at a time
+  background?: boolean // Queue the run as a job (lib/jobs) instead of applying it in this request
 }
 
-interface DiscountResult {
-  variantId: string
-  productTitle: string
-  variantTitle: string
-  success: boolean
-  error?: string
-  originalPrice: string
-  newPrice: string
-  compareAtPrice: string
-}
-
-export async function POST(request: Request) {
+export const POST = withStoreAuth(async (request, context, auth) => {
+  let approvalId: string | null = null
   try {
-    const { variantIds, discountPercentage, expiryDate }: DiscountRequest = await request.json()
+    // Valid discounts deeper than the store's approval threshold wait for a reviewer
+    const gate = await gateWithApproval<DiscountRequest>(request, auth, async (payload) => {
+      const rules = rulesFromRequest(payload)
+      const valid = Array.isArray(payload.variantIds) && payload.variantIds.length > 0 && !validateRules(rules)
+      return valid && !payload.dryRun
+        ? {
+            action: "price_change",
+            summary: `${describeRules(rules)} on ${payload.variantIds.length} variants`,
+            changePercent: await estimateDiscountChangePercent(auth, payload.variantIds, rules, payload.conflictMode),
+          }
+        : null
+    })
+    if (gate instanceof Response) return gate
+    approvalId = gate.approvalId
+    const { variantIds, startDate, expiryDate, dryRun, conflictMode, batchId, background } = gate.payload
+    const rules = rulesFromRequest(gate.payload)
 
     // Validate inputs
     if (!Array.isArray(variantIds) || variantIds.length === 0) {
       return NextResponse.json({ error: "Please provide valid variant IDs" }, { status: 400 })
     }
 
-    if (typeof discountPercentage !== "number" || discountPercentage <= 0 || discountPercentage >= 100) {
-      return NextResponse.json({ error: "Discount percentage must be between 1 and 99" }, { status: 400 })
+    const rulesError = validateRules(rules)
+    if (rulesError) {
+      return NextResponse.json({ error: rulesError }, { status: 400 })
     }
 
     if (expiryDate && new Date(expiryDate) <= new Date()) {
       return NextResponse.json({ error: "Expiry date must be in the future" }, { status: 400 })
     }
 
-    const results: DiscountResult[] = []
-
-    // Process each variant
-    for (const variantId of variantIds) {
-      try {
-        // Convert GraphQL ID to REST ID if needed
-        const numericVariantId = variantId.replace("gid://shopify/ProductVariant/", "")
-
-        // Fetch current variant data
-        const variantResponse = await shopifyRestFetch(`variants/${numericVariantId}.json`)
-
-        if (variantResponse.status !== 200) {
-          results.push({
-            variantId,
-            productTitle: "Unknown",
-            variantTitle: "Unknown",
-            success: false,
-            error: "Failed to fetch variant data",
-            originalPrice: "0.00",
-            newPrice: "0.00",
-            compareAtPrice: "0.00",
-          })
-          continue
-        }
-
-        const variant = variantResponse.body.variant
-        const currentPrice = Number.parseFloat(variant.price)
-        const currentCompareAtPrice = variant.compare_at_price ? Number.parseFloat(variant.compare_at_price) : null
-
-        // Fetch product data for title
-        const productResponse = await shopifyRestFetch(`products/${variant.product_id}.json`)
-        const productTitle = productResponse.status === 200 ? productResponse.body.product.title : "Unknown Product"
-
-        // Store current price in metafield before applying discount
-        const timestamp = new Date().toISOString()
-        const metafieldKey = `price_history_${Date.now()}`
-        const metafieldValue = {
-          price: variant.price,
-          compare_at_price: variant.compare_at_price,
-          date: timestamp,
-          action: `Applied ${discountPercentage}% discount`,
-          discount_percentage: discountPercentage,
-          expiry_date: expiryDate,
-        }
-
-        // Create metafield to store price history
-        const metafieldData = {
-          metafield: {
-            namespace: "discount_history",
-            key: metafieldKey,
-            value: JSON.stringify(metafieldValue),
-            type: "json",
-          },
-        }
-
-        await shopifyRestFetch(`variants/${numericVariantId}/metafields.json`, {
-          method: "POST",
-          body: JSON.stringify(metafieldData),
-        })
+    if (startDate) {
+      if (Number.isNaN(Date.parse(startDate)) || new Date(startDate) <= new Date()) {
+        return NextResponse.json({ error: "Start date must be in the future" }, { status: 400 })
+      }
+      if (expiryDate && new Date(expiryDate) <= new Date(startDate)) {
+        return NextResponse.json({ error: "Expiry date must be after the start date" }, { status: 400 })
+      }
+      if (conflictMode && !CAMPAIGN_CONFLICT_MODES.includes(conflictMode as CampaignConflictMode)) {
+        const error = "Scheduled discounts can only skip or stack on existing ones"
+        return NextResponse.json({ error }, { status: 400 })
+      }
+    }
 
-        let newPrice: number
-        let newCompareAtPrice: number
+    // A scheduled start is previewed against today's prices
+    if (startDate && !dryRun) {
+      const campaign = await createCampaign(auth, {
+        name: `${describeRules(rules)} starting ${new Date(startDate).toLocaleDateString()}`,
+        variantIds,
+        rules,
+        conflictMode: conflictMode as CampaignConflictMode | undefined,
+        startDate,
+        expiryDate,
+      })
+      await completeApproval(approvalId, true, `Scheduled to start ${campaign.startDate}`)
+      return NextResponse.json({ scheduled: true, campaign })
+    }
 
-        // Apply discount logic based on product type
-        if (currentCompareAtPrice && currentCompareAtPrice > currentPrice) {
-          // Type 2: Product already has compare_at_price (already discounted)
-          // Apply discount to compare_at_price to get new price
-          newPrice = currentCompareAtPrice * (1 - discountPercentage / 100)
-          newCompareAtPrice = currentCompareAtPrice
-        } else {
-          // Type 1: Product has only original price (no discount)
-          // Set compare_at_price to current price, then apply discount
-          newPrice = currentPrice * (1 - discountPercentage / 100)
-          newCompareAtPrice = currentPrice
-        }
+    if (batchId !== undefined && !isValidDiscountBatchId(batchId)) {
+      return NextResponse.json({ error: "Invalid batch ID" }, { status: 400 })
+    }
 
-        // Ensure compare_at_price > price (Shopify rule)
-        if (newPrice >= newCompareAtPrice) {
-          results.push({
-            variantId,
-            productTitle,
-            variantTitle: variant.title || "Default Title",
-            success: false,
-            error: "New price would be equal or greater than compare-at price",
-            originalPrice: currentPrice.toFixed(2),
-            newPrice: newPrice.toFixed(2),
-            compareAtPrice: newCompareAtPrice.toFixed(2),
-          })
-          continue
-        }
+    if (conflictMode && !CONFLICT_MODES.includes(conflictMode)) {
+      return NextResponse.json({ error: "Conflict mode must be replace, skip or stack" }, { status: 400 })
+    }
 
-        // Update variant in Shopify
-        const updateData = {
-          variant: {
-            id: variant.id,
-            price: newPrice.toFixed(2),
-            compare_at_price: newCompareAtPrice.toFixed(2),
+    // Variants with a live discount or pending revert need an explicit choice before anything is written
+    if (!conflictMode && !dryRun) {
+      const conflicts = Array.from((await findDiscountConflicts(variantIds)).values())
+      if (conflicts.length > 0) {
+        await completeApproval(approvalId, false, `${conflicts.length} variants already have a discount`)
+        return NextResponse.json(
+          {
+            error: `${conflicts.length} of ${variantIds.length} variants already have a discount; choose replace, skip or stack`,
+            conflicts,
           },
-        }
-
-        const updateResponse = await shopifyRestFetch(`variants/${numericVariantId}.json`, {
-          method: "PUT",
-          body: JSON.stringify(updateData),
-        })
-
-        if (updateResponse.status === 200) {
-          // Schedule automatic reversion if expiry date is provided
-          if (expiryDate) {
-            await scheduleDiscountReversion(numericVariantId, expiryDate, {
-              price: variant.price,
-              compare_at_price: variant.compare_at_price,
-            })
-          }
-
-          results.push({
-            variantId,
-            productTitle,
-            variantTitle: variant.title || "Default Title",
-            success: true,
-            originalPrice: currentPrice.toFixed(2),
-            newPrice: newPrice.toFixed(2),
-            compareAtPrice: newCompareAtPrice.toFixed(2),
-          })
-        } else {
-          results.push({
-            variantId,
-            productTitle,
-            variantTitle: variant.title || "Default Title",
-            success: false,
-            error: `Shopify API error: ${updateResponse.status}`,
-            originalPrice: currentPrice.toFixed(2),
-            newPrice: newPrice.toFixed(2),
-            compareAtPrice: newCompareAtPrice.toFixed(2),
-          })
-        }
-
-        // Add delay to respect Shopify rate limits (2 requests per second)
-        await new Promise((resolve) => setTimeout(resolve, 500))
-      } catch (error) {
-        results.push({
-          variantId,
-          productTitle: "Unknown",
-          variantTitle: "Unknown",
-          success: false,
-          error: error instanceof Error ? error.message : "Unknown error",
-          originalPrice: "0.00",
-          newPrice: "0.00",
-          compareAtPrice: "0.00",
-        })
+          { status: 409 },
+        )
       }
     }
 
-    return NextResponse.json({ results })
-  } catch (error) {
-    console.error("Apply discount error:", error)
-    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
-  }
-}
+    // The job records every chunk into one discount batch, reserved here
+    if (background && !dryRun) {
+      const job = await enqueueJob(
+        auth,
+        "discount",
+        describeRules(rules),
+        { rules, expiryDate: expiryDate || null, conflictMode, batchId: batchId || newDiscountBatchId() },
+        variantIds.map((variantId) => ({
+          id: variantId,
+          label: `Variant ${variantId.split("/").pop()}`,
+          input: { variantId },
+        })),
+      )
+      await completeApproval(approvalId, true, `Queued as job ${job.id}`)
+      return NextResponse.json({ queued: true, job })
+    }
 
-// Schedule discount reversion (simplified version - in production, use a proper job queue)
-async function scheduleDiscountReversion(
-  variantId: string,
-  expiryDate: string,
-  originalPrices: { price: string; compare_at_price: string | null },
-) {
-  try {
-    // Store reversion schedule in metafield
-    const scheduleData = {
-      metafield: {
-        namespace: "discount_schedule",
-        key: `revert_${Date.now()}`,
-        value: JSON.stringify({
-          variant_id: variantId,
-          expiry_date: expiryDate,
-          original_price: originalPrices.price,
-          original_compare_at_price: originalPrices.compare_at_price,
-          scheduled_at: new Date().toISOString(),
-        }),
-        type: "json",
-      },
+    const run = await applyDiscount(auth, variantIds, rules, expiryDate, { dryRun, conflictMode, batchId })
+    const { results } = run
+    if (dryRun) {
+      return NextResponse.json({ dryRun: true, results })
     }
 
-    await shopifyRestFetch(`variants/${variantId}/metafields.json`, {
-      method: "POST",
-      body: JSON.stringify(scheduleData),
-    })
+    const applied = results.filter((r) => r.success).length
+    await completeApproval(approvalId, applied > 0, `Discounted ${applied} of ${results.length} variants`)
+
+    return NextResponse.json({ batchId: run.batchId, results })
   } catch (error) {
-    console.error("Error scheduling reversion:", error)
+    await completeApproval(approvalId, false, error instanceof Error ? error.message : "Unknown error")
+    console.error("Apply discount error:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
   }
-}
+}, "prices:edit")
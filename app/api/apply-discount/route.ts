@@ -1,155 +1,78 @@
 import { NextResponse } from "next/server"
-import { shopifyRestFetch } from "@/lib/shopify"
-
-interface DiscountRequest {
+import { withStoreAuth } from "@/lib/api-auth"
+import { completeApproval, gateWithApproval } from "@/lib/approvals"
+import {
+  applyDiscount,
+  CONFLICT_MODES,
+  estimateDiscountChangePercent,
+  findDiscountConflicts,
+  type ConflictMode,
+} from "@/lib/discounts"
+import { describeRules, rulesFromRequest, validateRules, type DiscountRequestFields } from "@/lib/discount-modes"
+
+interface DiscountRequest extends DiscountRequestFields {
   variantIds: string[]
-  discountPercentage: number
-}
-
-interface DiscountResult {
-  variantId: string
-  productTitle: string
-  variantTitle: string
-  success: boolean
-  error?: string
-  originalPrice: string
-  newPrice: string
-  compareAtPrice: string
+  conflictMode?: ConflictMode // Required when a selected variant already has a discount
 }
 
-export async function POST(request: Request) {
+// Applied through lib/discounts like /api/apply-discount-enhanced, so the run is recorded and can be rolled back
+export const POST = withStoreAuth(async (request, context, auth) => {
+  let approvalId: string | null = null
   try {
-    const { variantIds, discountPercentage }: DiscountRequest = await request.json()
+    // Valid discounts deeper than the store's approval threshold wait for a reviewer
+    const gate = await gateWithApproval<DiscountRequest>(request, auth, async (payload) => {
+      const rules = rulesFromRequest(payload)
+      return Array.isArray(payload.variantIds) && payload.variantIds.length > 0 && !validateRules(rules)
+        ? {
+            action: "price_change",
+            summary: `${describeRules(rules)} on ${payload.variantIds.length} variants`,
+            changePercent: await estimateDiscountChangePercent(auth, payload.variantIds, rules, payload.conflictMode),
+          }
+        : null
+    })
+    if (gate instanceof Response) return gate
+    approvalId = gate.approvalId
+    const { variantIds, conflictMode } = gate.payload
+    const rules = rulesFromRequest(gate.payload)
 
     // Validate inputs
     if (!Array.isArray(variantIds) || variantIds.length === 0) {
       return NextResponse.json({ error: "Please provide valid variant IDs" }, { status: 400 })
     }
 
-    if (typeof discountPercentage !== "number" || discountPercentage <= 0 || discountPercentage >= 100) {
-      return NextResponse.json({ error: "Discount percentage must be between 1 and 99" }, { status: 400 })
+    const rulesError = validateRules(rules)
+    if (rulesError) {
+      return NextResponse.json({ error: rulesError }, { status: 400 })
     }
 
-    const results: DiscountResult[] = []
-
-    // Process each variant
-    for (const variantId of variantIds) {
-      try {
-        // Convert GraphQL ID to REST ID if needed
-        const numericVariantId = variantId.replace("gid://shopify/ProductVariant/", "")
-
-        // Fetch current variant data
-        const variantResponse = await shopifyRestFetch(`variants/${numericVariantId}.json`)
-
-        if (variantResponse.status !== 200) {
-          results.push({
-            variantId,
-            productTitle: "Unknown",
-            variantTitle: "Unknown",
-            success: false,
-            error: "Failed to fetch variant data",
-            originalPrice: "0.00",
-            newPrice: "0.00",
-            compareAtPrice: "0.00",
-          })
-          continue
-        }
-
-        const variant = variantResponse.body.variant
-        const currentPrice = Number.parseFloat(variant.price)
-        const currentCompareAtPrice = variant.compare_at_price ? Number.parseFloat(variant.compare_at_price) : null
-
-        // Fetch product data for title
-        const productResponse = await shopifyRestFetch(`products/${variant.product_id}.json`)
-        const productTitle = productResponse.status === 200 ? productResponse.body.product.title : "Unknown Product"
-
-        let newPrice: number
-        let newCompareAtPrice: number
-
-        // Apply discount logic based on product type
-        if (currentCompareAtPrice && currentCompareAtPrice > currentPrice) {
-          // Type 2: Product already has compare_at_price (already discounted)
-          // Apply discount to compare_at_price to get new price
-          newPrice = currentCompareAtPrice * (1 - discountPercentage / 100)
-          newCompareAtPrice = currentCompareAtPrice
-        } else {
-          // Type 1: Product has only original price (no discount)
-          // Set compare_at_price to current price, then apply discount
-          newPrice = currentPrice * (1 - discountPercentage / 100)
-          newCompareAtPrice = currentPrice
-        }
-
-        // Ensure compare_at_price > price (Shopify rule)
-        if (newPrice >= newCompareAtPrice) {
-          results.push({
-            variantId,
-            productTitle,
-            variantTitle: variant.title || "Default Title",
-            success: false,
-            error: "New price would be equal or greater than compare-at price",
-            originalPrice: currentPrice.toFixed(2),
-            newPrice: newPrice.toFixed(2),
-            compareAtPrice: newCompareAtPrice.toFixed(2),
-          })
-          continue
-        }
+    if (conflictMode && !CONFLICT_MODES.includes(conflictMode)) {
+      return NextResponse.json({ error: "Conflict mode must be replace, skip or stack" }, { status: 400 })
+    }
 
-        // Update variant in Shopify
-        const updateData = {
-          variant: {
-            id: variant.id,
-            price: newPrice.toFixed(2),
-            compare_at_price: newCompareAtPrice.toFixed(2),
+    // Variants with a live discount or pending revert need an explicit choice before anything is written
+    if (!conflictMode) {
+      const conflicts = Array.from((await findDiscountConflicts(variantIds)).values())
+      if (conflicts.length > 0) {
+        await completeApproval(approvalId, false, `${conflicts.length} variants already have a discount`)
+        return NextResponse.json(
+          {
+            error: `${conflicts.length} of ${variantIds.length} variants already have a discount; choose replace, skip or stack`,
+            conflicts,
           },
-        }
-
-        const updateResponse = await shopifyRestFetch(`variants/${numericVariantId}.json`, {
-          method: "PUT",
-          body: JSON.stringify(updateData),
-        })
-
-        if (updateResponse.status === 200) {
-          results.push({
-            variantId,
-            productTitle,
-            variantTitle: variant.title || "Default Title",
-            success: true,
-            originalPrice: currentPrice.toFixed(2),
-            newPrice: newPrice.toFixed(2),
-            compareAtPrice: newCompareAtPrice.toFixed(2),
-          })
-        } else {
-          results.push({
-            variantId,
-            productTitle,
-            variantTitle: variant.title || "Default Title",
-            success: false,
-            error: `Shopify API error: ${updateResponse.status}`,
-            originalPrice: currentPrice.toFixed(2),
-            newPrice: newPrice.toFixed(2),
-            compareAtPrice: newCompareAtPrice.toFixed(2),
-          })
-        }
-
-        // Add delay to respect Shopify rate limits (2 requests per second)
-        await new Promise((resolve) => setTimeout(resolve, 500))
-      } catch (error) {
-        results.push({
-          variantId,
-          productTitle: "Unknown",
-          variantTitle: "Unknown",
-          success: false,
-          error: error instanceof Error ? error.message : "Unknown error",
-          originalPrice: "0.00",
-          newPrice: "0.00",
-          compareAtPrice: "0.00",
-        })
+          { status: 409 },
+        )
       }
     }
 
-    return NextResponse.json({ results })
+    const { batchId, results } = await applyDiscount(auth, variantIds, rules, null, { conflictMode })
+
+    const applied = results.filter((r) => r.success).length
+    await completeApproval(approvalId, applied > 0, `Discounted ${applied} of ${results.length} variants`)
+
+    return NextResponse.json({ batchId, results })
   } catch (error) {
+    await completeApproval(approvalId, false, error instanceof Error ? error.message : "Unknown error")
     console.error("Apply discount error:", error)
     return NextResponse.json({ error: "Internal server error" }, { status: 500 })
   }
-}
+}, "prices:edit")
@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server"
+import { withStoreAuth } from "@/lib/api-auth"
+import { reviewApproval } from "@/lib/approvals"
+
+// Approve or reject a pending request: { decision: "approve" | "reject", note?: string }.
+// Approving does not run anything; the reviewer's client then replays the original route with the approval id.
+export const POST = withStoreAuth(async (request, { params }, auth) => {
+  try {
+    const { decision, note } = await request.json()
+
+    if (decision !== "approve" && decision !== "reject") {
+      return NextResponse.json({ error: 'Decision must be "approve" or "reject"' }, { status: 400 })
+    }
+
+    const approval = await reviewApproval(params.id, auth, decision, note)
+    return NextResponse.json({ success: true, approval })
+  } catch (error) {
+    console.error("Approval review error:", error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to review approval request" },
+      { status: 400 },
+    )
+  }
+})
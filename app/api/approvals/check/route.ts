@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server"
+import { withStoreAuth } from "@/lib/api-auth"
+import { requiresApproval } from "@/lib/approvals"
+
+// Lets clients that split work into many requests (e.g. per-variant discounts) find out up front
+// whether the operation will be parked, so they can submit it as a single approval request instead
+export const POST = withStoreAuth(async (request, context, auth) => {
+  try {
+    const { action, summary, changePercent } = await request.json()
+
+    if (action !== "bulk_delete" && action !== "price_change") {
+      return NextResponse.json({ error: "Unknown approval action" }, { status: 400 })
+    }
+
+    const required = await requiresApproval(auth, { action, summary: summary || "", changePercent: Number(changePercent) || 0 })
+    return NextResponse.json({ required })
+  } catch (error) {
+    console.error("Approval check error:", error)
+    return NextResponse.json({ error: "Failed to check approval policy" }, { status: 500 })
+  }
+})
@@ -0,0 +1,14 @@
+import { NextResponse } from "next/server"
+import { withStoreAuth } from "@/lib/api-auth"
+import { listApprovals } from "@/lib/approvals"
+
+// Approval requests for the selected store, newest first
+export const GET = withStoreAuth(async (request, context, auth) => {
+  try {
+    const approvals = await listApprovals(auth)
+    return NextResponse.json({ approvals: approvals.slice(0, 100) })
+  } catch (error) {
+    console.error("Failed to list approvals:", error)
+    return NextResponse.json({ error: "Failed to load approval requests" }, { status: 500 })
+  }
+})
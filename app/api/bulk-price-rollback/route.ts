@@ -1,6 +1,8 @@
 import { type NextRequest, NextResponse } from "next/server"
+import { shopifyRestFetch } from "@/lib/shopify"
+import { withStoreAuth } from "@/lib/api-auth"
 
-export async function POST(request: NextRequest) {
+export const POST = withStoreAuth(async (request) => {
   try {
     const { variants } = await request.json()
 
@@ -14,27 +16,23 @@ export async function POST(request: NextRequest) {
 
     for (const variant of variants) {
       try {
+        // Convert GraphQL ID to REST ID if needed
+        const numericVariantId = String(variant.variantId).replace("gid://shopify/ProductVariant/", "")
+
         // Restore original prices
         const updateData = {
-          id: variant.variantId,
+          id: numericVariantId,
           price: variant.originalPrice,
-          compareAtPrice: variant.originalCompareAtPrice || null,
+          compare_at_price: variant.originalCompareAtPrice || null,
         }
 
         // Make API call to update variant
-        const response = await fetch(
-          `${process.env.SHOPIFY_STORE_URL}/admin/api/2023-10/variants/${variant.variantId}.json`,
-          {
-            method: "PUT",
-            headers: {
-              "X-Shopify-Access-Token": process.env.SHOPIFY_ADMIN_SESSION!,
-              "Content-Type": "application/json",
-            },
-            body: JSON.stringify({ variant: updateData }),
-          },
-        )
+        const response = await shopifyRestFetch(`variants/${numericVariantId}.json`, {
+          method: "PUT",
+          body: JSON.stringify({ variant: updateData }),
+        })
 
-        if (response.ok) {
+        if (response.status === 200) {
           successful++
           results.push({
             variantId: variant.variantId,
@@ -70,4 +68,4 @@ export async function POST(request: NextRequest) {
     console.error("Bulk price rollback error:", error)
     return NextResponse.json({ error: "Internal server error" }, { status: 500 })
   }
-}
+}, "prices:edit")
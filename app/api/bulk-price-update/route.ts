@@ -1,59 +1,137 @@
 import { NextResponse } from "next/server"
 import { shopifyAdminFetch } from "@/lib/shopify"
+import { withStoreAuth } from "@/lib/api-auth"
+import { completeApproval, gateWithApproval, maxPriceChangePercent } from "@/lib/approvals"
 import { createBulkUploadLog, saveBulkUploadLogs } from "@/lib/bulk-upload"
+import {
+  planBulkPriceUpdate,
+  priceUpdateInput,
+  rescaleRepricedSchedules,
+  validatePriceRule,
+  type PlannedPriceChange,
+} from "@/lib/bulk-price-update"
+import { enqueueJob } from "@/lib/jobs"
+import { describePriceRule } from "@/lib/pricing"
 
-export async function POST(request: Request) {
+// Body: { variants, rule, action, dryRun?, background? }. New prices are computed here from live Shopify
+// prices, or taken from each variant's newPrice/newCompareAtPrice for "explicit" rules (spreadsheet imports);
+// `dryRun: true` returns that per-variant diff without writing anything. `background: true` queues the
+// planned prices as a job (lib/jobs) that writes them chunk by chunk, and returns it right away.
+export const POST = withStoreAuth(async (request, context, auth) => {
+  let approvalId: string | null = null
+  // The plan the approval check was made on, reused below when the request runs right away
+  let checkedPlan: PlannedPriceChange[] | null = null
   try {
-    const { variants, rule, action } = await request.json()
+    // Changes larger than the store's approval threshold wait for a reviewer; dry runs write nothing.
+    // The change is measured on the server's own plan, never on prices the client sent.
+    const gate = await gateWithApproval<any>(request, auth, async ({ variants, rule, action, dryRun }) => {
+      if (dryRun || !Array.isArray(variants) || variants.length === 0 || validatePriceRule(rule, action)) {
+        return null
+      }
+      checkedPlan = await planBulkPriceUpdate(auth, variants, rule, action)
+      return {
+        action: "price_change",
+        summary: `Bulk price update of ${variants.length} variants (${describePriceRule(rule, action)})`,
+        changePercent: maxPriceChangePercent(
+          checkedPlan
+            .filter((change) => change.status === "update")
+            .flatMap((change) => [
+              { from: change.currentPrice, to: change.newPrice },
+              { from: change.currentCompareAtPrice, to: change.newCompareAtPrice },
+            ]),
+        ),
+      }
+    })
+    if (gate instanceof Response) return gate
+    approvalId = gate.approvalId
+    const { variants, rule, action, dryRun, background } = gate.payload
+
+    if (!Array.isArray(variants) || variants.length === 0) {
+      return NextResponse.json({ error: "Please select at least one variant" }, { status: 400 })
+    }
+    const ruleError = validatePriceRule(rule, action)
+    if (ruleError) {
+      return NextResponse.json({ error: ruleError }, { status: 400 })
+    }
 
     console.log("Bulk price update request:", {
       variantCount: variants.length,
       rule,
       action,
+      dryRun: !!dryRun,
+      background: !!background,
     })
 
+    const plan = checkedPlan ?? (await planBulkPriceUpdate(auth, variants, rule, action))
+
+    if (background && !dryRun) {
+      const job = await enqueueJob(
+        auth,
+        "bulk_price_update",
+        `Bulk price update (${describePriceRule(rule, action)})`,
+        { rule, action },
+        plan.map((change) => ({
+          id: change.variantId,
+          label: `${change.productTitle} - ${change.variantTitle}`,
+          input: change,
+        })),
+      )
+      await completeApproval(approvalId, true, `Queued as job ${job.id}`)
+      return NextResponse.json({ queued: true, job })
+    }
+
+    // Blocked by the store's price guardrails, reported apart from errors
+    const blocked = plan
+      .filter((change) => change.status === "blocked")
+      .map((change) => ({
+        variantId: change.variantId,
+        productTitle: change.productTitle,
+        variantTitle: change.variantTitle,
+        sku: change.sku,
+        currentPrice: change.currentPrice,
+        newPrice: change.newPrice,
+        floor: change.floor,
+        reason: change.error,
+      }))
+    const invalid = plan.filter((change) => change.status === "invalid")
+
+    if (dryRun) {
+      return NextResponse.json({
+        dryRun: true,
+        total: variants.length,
+        toUpdate: plan.filter((change) => change.status === "update").length,
+        unchanged: plan.filter((change) => change.status === "unchanged").length,
+        diff: plan,
+        blocked,
+        errors: invalid.map((change) => `${change.productTitle} - ${change.variantTitle}: ${change.error}`),
+      })
+    }
+
     const results = []
-    const errors = []
+    const written: PlannedPriceChange[] = []
+    const errors: string[] = []
     const logs = []
 
-    for (const variant of variants) {
-      try {
-        console.log(`Processing variant ${variant.sku}:`, {
-          currentPrice: variant.currentPrice,
-          currentCompareAtPrice: variant.currentCompareAtPrice,
-          newPrice: variant.newPrice,
-          newCompareAtPrice: variant.newCompareAtPrice,
-          rule,
-          action,
-        })
+    for (const change of invalid) {
+      errors.push(`${change.productTitle} - ${change.variantTitle} (${change.sku}): ${change.error}`)
+    }
+    for (const change of plan.filter((c) => c.status === "blocked")) {
+      logs.push(
+        createBulkUploadLog("bulk_price_update", `Blocked by price guardrails: ${change.error}`, "error", {
+          id: change.productId,
+          title: change.productTitle,
+          sku: change.sku,
+        }),
+      )
+    }
 
+    for (const variant of plan.filter((c) => c.status === "update")) {
+      try {
         // Build the update input based on what needs to be updated
-        const updateInput = {
-          id: variant.variantId,
-        }
-
-        // Only update price if it's different and we're applying to price
-        if ((rule.applyTo === "price" || rule.applyTo === "both") && variant.newPrice !== variant.currentPrice) {
-          updateInput.price = variant.newPrice
-        }
-
-        // Only update compareAtPrice if it's different and we're applying to it
-        if (
-          (rule.applyTo === "compareAtPrice" || rule.applyTo === "both") &&
-          variant.newCompareAtPrice &&
-          variant.newCompareAtPrice !== variant.currentCompareAtPrice
-        ) {
-          updateInput.compareAtPrice = variant.newCompareAtPrice
-        }
+        const updateInput = priceUpdateInput(variant)
 
         console.log(`Update input for ${variant.sku}:`, updateInput)
 
-        // Skip if no changes needed
-        if (!updateInput.price && !updateInput.compareAtPrice) {
-          console.log(`No changes needed for ${variant.sku}`)
-          continue
-        }
-
         // Update variant using GraphQL
         const updateVariantMutation = `
           mutation productVariantUpdate($input: ProductVariantInput!) {
@@ -102,20 +180,25 @@ export async function POST(request: Request) {
             newPrice: updatedVariant.price,
             oldCompareAtPrice: variant.currentCompareAtPrice,
             newCompareAtPrice: updatedVariant.compareAtPrice,
+            clampedFrom: variant.clampedFrom,
             success: true,
           })
+          written.push(variant)
 
           // Create success log
           const priceChange = updateInput.price ? `price: $${variant.currentPrice} → $${updatedVariant.price}` : ""
-          const compareChange = updateInput.compareAtPrice
-            ? `compare: $${variant.currentCompareAtPrice} → $${updatedVariant.compareAtPrice}`
-            : ""
+          const compareChange =
+            updateInput.compareAtPrice !== undefined
+              ? `compare: $${variant.currentCompareAtPrice} → ${updatedVariant.compareAtPrice ? `$${updatedVariant.compareAtPrice}` : "none"}`
+              : ""
           const changes = [priceChange, compareChange].filter(Boolean).join(", ")
 
           logs.push(
             createBulkUploadLog(
               "bulk_price_update",
-              `${action === "increase" ? "Increased" : "Decreased"} ${changes} (${rule.type}: ${rule.value}${rule.type === "percentage" ? "%" : ""})`,
+              rule.type === "formula" || rule.type === "metal_rate" || rule.type === "explicit"
+                ? `Set ${changes} (${describePriceRule(rule, action)})`
+                : `${action === "increase" ? "Increased" : "Decreased"} ${changes} (${rule.type}: ${rule.value}${rule.type === "percentage" ? "%" : ""})`,
               "success",
               {
                 id: variant.productId,
@@ -169,6 +252,8 @@ export async function POST(request: Request) {
       }
     }
 
+    await rescaleRepricedSchedules(rule, written)
+
     // Save all logs to history
     if (logs.length > 0) {
       saveBulkUploadLogs(logs)
@@ -177,9 +262,12 @@ export async function POST(request: Request) {
     console.log("Bulk price update summary:", {
       successful: results.length,
       failed: errors.length,
+      blocked: blocked.length,
       total: variants.length,
     })
 
+    await completeApproval(approvalId, results.length > 0, `Updated ${results.length} of ${variants.length} variants`)
+
     return NextResponse.json({
       success: results.length > 0,
       successful: results.length,
@@ -187,9 +275,11 @@ export async function POST(request: Request) {
       total: variants.length,
       results,
       errors,
+      blocked,
     })
   } catch (error) {
     console.error("Bulk price update error:", error)
+    await completeApproval(approvalId, false, error instanceof Error ? error.message : "Unknown error")
     return NextResponse.json(
       {
         success: false,
@@ -199,8 +289,9 @@ export async function POST(request: Request) {
         total: 0,
         results: [],
         errors: [error instanceof Error ? error.message : "Unknown server error"],
+        blocked: [],
       },
       { status: 500 },
     )
   }
-}
+}, "prices:edit")
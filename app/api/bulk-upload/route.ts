@@ -1,8 +1,56 @@
-import { NextResponse } from "next/server"
+import { type NextRequest, NextResponse } from "next/server"
 import { uploadProductImage, uploadProductImageStaged } from "@/lib/shopify"
+import { withStoreAuth, type StoreAuth } from "@/lib/api-auth"
+import { enqueueJob } from "@/lib/jobs"
+
+interface StagedUploadRequest {
+  uploads: Array<{
+    productId: string
+    productTitle?: string
+    sku?: string
+    images: Array<{ filename: string; resourceUrl: string }> // From /api/bulk-upload/stage
+  }>
+}
+
+// Queue images already staged through /api/bulk-upload/stage as a background job, one item per product
+async function queueStagedUploads(request: NextRequest, auth: StoreAuth) {
+  const { uploads }: StagedUploadRequest = await request.json()
+  const valid = (Array.isArray(uploads) ? uploads : []).filter(
+    (upload) =>
+      typeof upload?.productId === "string" &&
+      Array.isArray(upload.images) &&
+      upload.images.length > 0 &&
+      upload.images.every((image) => typeof image?.filename === "string" && typeof image.resourceUrl === "string"),
+  )
+  if (valid.length === 0) {
+    return NextResponse.json({ success: false, error: "Provide products with staged images" }, { status: 400 })
+  }
 
-export async function POST(request: Request) {
+  const job = await enqueueJob(
+    auth,
+    "image_upload",
+    `Image upload for ${valid.length} products`,
+    {},
+    valid.map((upload) => ({
+      id: upload.productId,
+      label: [upload.productTitle || upload.productId, upload.sku && `(${upload.sku})`].filter(Boolean).join(" "),
+      input: {
+        productId: upload.productId,
+        images: upload.images.map(({ filename, resourceUrl }) => ({ filename, resourceUrl })),
+      },
+    })),
+  )
+  return NextResponse.json({ success: true, queued: true, job })
+}
+
+// Multipart form (productId, images) uploads the images in this request; a JSON body
+// ({ uploads }, see StagedUploadRequest) queues staged images as a background job instead
+export const POST = withStoreAuth(async (request, context, auth) => {
   try {
+    if (request.headers.get("content-type")?.includes("application/json")) {
+      return await queueStagedUploads(request, auth)
+    }
+
     const formData = await request.formData()
     const productId = formData.get("productId") as string
     const images = formData.getAll("images") as File[]
@@ -129,4 +177,4 @@ export async function POST(request: Request) {
       { status: 500 },
     )
   }
-}
+}, "products:edit")
@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server"
+import { stageImageFile } from "@/lib/shopify"
+import { withStoreAuth } from "@/lib/api-auth"
+
+// Uploads images to Shopify's staged storage without attaching them to a product yet. The returned
+// resourceUrls are what a background image upload job (POST /api/bulk-upload with JSON) attaches.
+export const POST = withStoreAuth(async (request) => {
+  try {
+    const formData = await request.formData()
+    const images = formData.getAll("images") as File[]
+    if (images.length === 0) {
+      return NextResponse.json({ error: "Images are required" }, { status: 400 })
+    }
+
+    const staged: Array<{ filename: string; resourceUrl: string }> = []
+    const errors: string[] = []
+    for (const image of images) {
+      if (!image.type.startsWith("image/")) {
+        errors.push(`${image.name}: Not a valid image file`)
+        continue
+      }
+      if (image.size > 20 * 1024 * 1024) {
+        // 20MB limit for Shopify
+        errors.push(`${image.name}: File too large (max 20MB)`)
+        continue
+      }
+      try {
+        staged.push({ filename: image.name, resourceUrl: await stageImageFile(image) })
+      } catch (error) {
+        errors.push(`${image.name}: ${error instanceof Error ? error.message : "Upload failed"}`)
+      }
+    }
+
+    return NextResponse.json({ staged, errors })
+  } catch (error) {
+    console.error("Staged image upload error:", error)
+    return NextResponse.json({ error: error instanceof Error ? error.message : "Unknown error" }, { status: 500 })
+  }
+}, "products:edit")
@@ -0,0 +1,142 @@
+import { NextResponse } from "next/server"
+import { withStoreAuth } from "@/lib/api-auth"
+import { completeApproval, gateWithApproval } from "@/lib/approvals"
+import {
+  deleteCampaign,
+  getCampaign,
+  getCampaignItems,
+  launchCampaign,
+  revertCampaign,
+  updateCampaign,
+  type CampaignInput,
+} from "@/lib/campaigns"
+import { describeRules, hasDiscountFields, rulesFromRequest, validateRules } from "@/lib/discount-modes"
+import { estimateDiscountChangePercent } from "@/lib/discounts"
+
+// A campaign with its per-variant prices
+export const GET = withStoreAuth(async (request, { params }, auth) => {
+  try {
+    const campaign = await getCampaign(auth, params.id)
+    if (!campaign) {
+      return NextResponse.json({ error: "Campaign not found" }, { status: 404 })
+    }
+    return NextResponse.json({ campaign, items: await getCampaignItems(campaign.id) })
+  } catch (error) {
+    console.error("Failed to load campaign:", error)
+    return NextResponse.json({ error: "Failed to load campaign" }, { status: 500 })
+  }
+})
+
+// Edit a draft or scheduled campaign
+export const PATCH = withStoreAuth(async (request, { params }, auth) => {
+  let approvalId: string | null = null
+  try {
+    const current = await getCampaign(auth, params.id)
+    if (!current) {
+      return NextResponse.json({ error: "Campaign not found" }, { status: 404 })
+    }
+
+    // Scheduling (or rescheduling) a campaign is gated like creating a scheduled one
+    const gate = await gateWithApproval<CampaignInput>(request, auth, async (input) => {
+      const startDate = input.startDate === undefined ? current.startDate : input.startDate
+      const rules = hasDiscountFields(input) ? rulesFromRequest(input) : current.rules
+      const variantIds = input.variantIds ?? current.variantIds
+      const conflictMode = input.conflictMode ?? current.conflictMode ?? "skip"
+      return startDate && Array.isArray(variantIds) && variantIds.length > 0 && !validateRules(rules)
+        ? {
+            action: "price_change",
+            summary: `Campaign "${input.name ?? current.name}": ${describeRules(rules)} on ${variantIds.length} variants`,
+            changePercent: await estimateDiscountChangePercent(auth, variantIds, rules, conflictMode),
+          }
+        : null
+    })
+    if (gate instanceof Response) return gate
+    approvalId = gate.approvalId
+
+    const campaign = await updateCampaign(auth, params.id, gate.payload)
+    await completeApproval(approvalId, true, `Campaign "${campaign.name}" updated`)
+    return NextResponse.json({ success: true, campaign })
+  } catch (error) {
+    await completeApproval(approvalId, false, error instanceof Error ? error.message : "Unknown error")
+    console.error("Campaign update error:", error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to update campaign" },
+      { status: 400 },
+    )
+  }
+}, "prices:edit")
+
+// Delete a campaign that never changed prices (draft or scheduled)
+export const DELETE = withStoreAuth(async (request, { params }, auth) => {
+  try {
+    await deleteCampaign(auth, params.id)
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error("Campaign delete error:", error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to delete campaign" },
+      { status: 400 },
+    )
+  }
+}, "prices:edit")
+
+interface CampaignAction {
+  action: "launch" | "end" | "rollback"
+}
+
+// Run a campaign: { action: "launch" } applies it now; "end" and "rollback" restore its variants'
+// pre-launch prices (ended vs rolled back is only how it is recorded)
+export const POST = withStoreAuth(async (request, { params }, auth) => {
+  let approvalId: string | null = null
+  try {
+    const campaign = await getCampaign(auth, params.id)
+    if (!campaign) {
+      return NextResponse.json({ error: "Campaign not found" }, { status: 404 })
+    }
+
+    const gate = await gateWithApproval<CampaignAction>(request, auth, async ({ action }) =>
+      action === "launch"
+        ? {
+            action: "price_change",
+            summary: `Launch campaign "${campaign.name}": ${describeRules(campaign.rules)} on ${campaign.variantIds.length} variants`,
+            changePercent: await estimateDiscountChangePercent(
+              auth,
+              campaign.variantIds,
+              campaign.rules,
+              campaign.conflictMode ?? "skip",
+            ),
+          }
+        : null,
+    )
+    if (gate instanceof Response) return gate
+    approvalId = gate.approvalId
+    const { action } = gate.payload
+
+    if (action === "launch") {
+      const launched = await launchCampaign(campaign)
+      if (!launched) {
+        await completeApproval(approvalId, false, `Campaign is already ${campaign.status}`)
+        return NextResponse.json({ error: `Campaign is already ${campaign.status}` }, { status: 409 })
+      }
+      await completeApproval(approvalId, launched.status === "live", `Discounted ${launched.applied} of ${campaign.variantIds.length} variants`)
+      return NextResponse.json({ success: true, campaign: launched })
+    }
+
+    if (action === "end" || action === "rollback") {
+      const result = await revertCampaign(campaign, action === "end" ? "ended" : "rolled_back")
+      if (!result) {
+        return NextResponse.json({ error: `Only live campaigns can be ended; this one is ${campaign.status}` }, { status: 409 })
+      }
+      return NextResponse.json({ success: true, ...result })
+    }
+
+    return NextResponse.json({ error: 'Action must be "launch", "end" or "rollback"' }, { status: 400 })
+  } catch (error) {
+    await completeApproval(approvalId, false, error instanceof Error ? error.message : "Unknown error")
+    console.error("Campaign action error:", error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Campaign action failed" },
+      { status: 500 },
+    )
+  }
+}, "prices:edit")
@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server"
+import { withStoreAuth } from "@/lib/api-auth"
+import { completeApproval, gateWithApproval } from "@/lib/approvals"
+import { createCampaign, listCampaigns, type CampaignInput } from "@/lib/campaigns"
+import { describeRules, rulesFromRequest, validateRules } from "@/lib/discount-modes"
+import { estimateDiscountChangePercent } from "@/lib/discounts"
+
+// Discount campaigns for the selected store, newest first; `?status=scheduled` for upcoming starts only
+export const GET = withStoreAuth(async (request, context, auth) => {
+  try {
+    const status = request.nextUrl.searchParams.get("status")
+    const campaigns = await listCampaigns(auth)
+    return NextResponse.json({ campaigns: status ? campaigns.filter((c) => c.status === status) : campaigns })
+  } catch (error) {
+    console.error("Failed to list campaigns:", error)
+    return NextResponse.json({ error: "Failed to load campaigns" }, { status: 500 })
+  }
+})
+
+// Create a campaign: a draft, or scheduled when it has a start date
+export const POST = withStoreAuth(async (request, context, auth) => {
+  let approvalId: string | null = null
+  try {
+    // A scheduled campaign changes prices without anyone launching it, so it is gated like a discount
+    const gate = await gateWithApproval<CampaignInput>(request, auth, async (input) => {
+      const rules = rulesFromRequest(input)
+      const { name, variantIds, conflictMode, startDate } = input
+      return startDate && Array.isArray(variantIds) && variantIds.length > 0 && !validateRules(rules)
+        ? {
+            action: "price_change",
+            summary: `Campaign "${name}": ${describeRules(rules)} on ${variantIds.length} variants`,
+            changePercent: await estimateDiscountChangePercent(auth, variantIds, rules, conflictMode ?? "skip"),
+          }
+        : null
+    })
+    if (gate instanceof Response) return gate
+    approvalId = gate.approvalId
+
+    const campaign = await createCampaign(auth, gate.payload)
+    await completeApproval(approvalId, true, `Campaign "${campaign.name}" created`)
+    return NextResponse.json({ success: true, campaign })
+  } catch (error) {
+    await completeApproval(approvalId, false, error instanceof Error ? error.message : "Unknown error")
+    console.error("Campaign create error:", error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to create campaign" },
+      { status: 400 },
+    )
+  }
+}, "prices:edit")
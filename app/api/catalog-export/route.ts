@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server"
+import { withStoreAuth } from "@/lib/api-auth"
+import { CATALOG_COLUMN_GROUPS, catalogCsvRows, isCatalogColumnGroup } from "@/lib/catalog-csv"
+import { getProductSnapshot } from "@/lib/product-cache"
+import { toCsv } from "@/lib/spreadsheet"
+
+// Download the catalog as a Shopify product CSV.
+// ?columns=product,prices,... picks column groups (all by default); ?collection=<id> and
+// ?status=active|draft|archived filter the products.
+export const GET = withStoreAuth(async (request) => {
+  try {
+    const { searchParams } = new URL(request.url)
+    const columns = searchParams.get("columns")
+    const collectionId = searchParams.get("collection")
+    const status = searchParams.get("status")
+
+    const groups = columns ? columns.split(",") : CATALOG_COLUMN_GROUPS.map((group) => group.id)
+    if (!groups.every(isCatalogColumnGroup)) {
+      return NextResponse.json({ error: "Unknown column group" }, { status: 400 })
+    }
+
+    let products = (await getProductSnapshot()).products
+    if (collectionId && collectionId !== "all") {
+      products = products.filter((product: any) =>
+        product.collections?.edges?.some((edge: any) => edge.node.id === collectionId),
+      )
+    }
+    if (status && status !== "all") {
+      products = products.filter((product: any) => product.status?.toLowerCase() === status)
+    }
+
+    // Leading BOM so Excel reads the file as UTF-8
+    const csv = `\uFEFF${toCsv(catalogCsvRows(products, groups))}`
+    return new NextResponse(csv, {
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="products-${new Date().toISOString().slice(0, 10)}.csv"`,
+      },
+    })
+  } catch (error) {
+    console.error("Catalog export error:", error)
+    return NextResponse.json(
+      { error: "Failed to export products", details: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 },
+    )
+  }
+})
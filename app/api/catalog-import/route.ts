@@ -0,0 +1,87 @@
+import { NextResponse } from "next/server"
+import { withStoreAuth } from "@/lib/api-auth"
+import { completeApproval, gateWithApproval, maxPriceChangePercent } from "@/lib/approvals"
+import { checkImportPrices, importPriceChanges, loadCatalogImportPlan, runCatalogImport } from "@/lib/catalog-import"
+import { hasPermission } from "@/lib/roles"
+
+// Body: { rows, dryRun? } with rows parsed from a catalog CSV (header first). `dryRun: true` returns the
+// planned changes and per-row errors without writing anything.
+export const POST = withStoreAuth(async (request, context, auth) => {
+  let approvalId: string | null = null
+  try {
+    const canEditPrices = hasPermission(auth.role, "prices:edit")
+    // Price changes larger than the store's approval threshold wait for a reviewer
+    const gate = await gateWithApproval<{ rows: string[][]; dryRun?: boolean }>(
+      request,
+      auth,
+      async ({ rows, dryRun }) => {
+        if (dryRun || !canEditPrices || !Array.isArray(rows)) return null
+        // Measured on the plan as it will run: live prices, guardrail clamps and blocks applied
+        const { plan } = await loadCatalogImportPlan(rows)
+        if (plan) await checkImportPrices(auth, plan)
+        const priceChanges = plan ? importPriceChanges(plan) : []
+        return priceChanges.length > 0
+          ? {
+              action: "price_change",
+              summary: `Catalog import of ${plan?.products.length} products with ${priceChanges.length} price changes`,
+              changePercent: maxPriceChangePercent(priceChanges),
+            }
+          : null
+      },
+    )
+    if (gate instanceof Response) return gate
+    approvalId = gate.approvalId
+    const { rows, dryRun } = gate.payload
+
+    if (!Array.isArray(rows) || rows.length < 2) {
+      return NextResponse.json({ error: "The file has no rows to import" }, { status: 400 })
+    }
+
+    const { plan, error } = await loadCatalogImportPlan(rows)
+    if (!plan) {
+      return NextResponse.json({ error }, { status: 400 })
+    }
+    if (!canEditPrices && importPriceChanges(plan).length > 0) {
+      return NextResponse.json(
+        { error: "Your role cannot change prices; remove the price columns or ask a pricing manager" },
+        { status: 403 },
+      )
+    }
+    await checkImportPrices(auth, plan)
+
+    console.log("Catalog import request:", {
+      rows: rows.length - 1,
+      products: plan.products.length,
+      unchanged: plan.unchanged,
+      errors: plan.errors.length,
+      dryRun: !!dryRun,
+    })
+
+    if (dryRun) {
+      return NextResponse.json({ dryRun: true, plan })
+    }
+
+    const { results, errors } = await runCatalogImport(plan)
+    const count = (action: string) => results.filter((result) => result.action === action).length
+
+    await completeApproval(
+      approvalId,
+      count("failed") < results.length,
+      `Created ${count("created")} and updated ${count("updated")} of ${results.length} products`,
+    )
+
+    return NextResponse.json({
+      success: errors.length === 0,
+      created: count("created"),
+      updated: count("updated"),
+      failed: count("failed"),
+      unchanged: plan.unchanged,
+      results,
+      errors,
+    })
+  } catch (error) {
+    console.error("Catalog import error:", error)
+    await completeApproval(approvalId, false, error instanceof Error ? error.message : "Unknown error")
+    return NextResponse.json({ error: error instanceof Error ? error.message : "Unknown error" }, { status: 500 })
+  }
+}, "products:edit")
@@ -1,7 +1,8 @@
 import { NextResponse } from "next/server"
 import { getAllCollections } from "@/lib/shopify"
+import { withStoreAuth } from "@/lib/api-auth"
 
-export async function GET() {
+export const GET = withStoreAuth(async () => {
   try {
     console.log("Fetching collections from Pure Jewels store...")
     const response = await getAllCollections()
@@ -46,4 +47,4 @@ export async function GET() {
       { status: 500 },
     )
   }
-}
+})
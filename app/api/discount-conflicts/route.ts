@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server"
+import { withStoreAuth } from "@/lib/api-auth"
+import { findDiscountConflicts } from "@/lib/discounts"
+
+// Which of { variantIds } already have a live discount or a pending revert, checked before applying a new one
+export const POST = withStoreAuth(async (request) => {
+  try {
+    const { variantIds } = await request.json()
+
+    if (!Array.isArray(variantIds) || variantIds.length === 0) {
+      return NextResponse.json({ error: "Please provide valid variant IDs" }, { status: 400 })
+    }
+
+    const conflicts = await findDiscountConflicts(variantIds)
+    return NextResponse.json({ conflicts: Array.from(conflicts.values()) })
+  } catch (error) {
+    console.error("Discount conflict check error:", error)
+    return NextResponse.json({ error: "Failed to check existing discounts" }, { status: 500 })
+  }
+})
@@ -0,0 +1,17 @@
+import { NextResponse } from "next/server"
+import { withStoreAuth } from "@/lib/api-auth"
+import { listExternalChanges } from "@/lib/external-changes"
+
+// Changes made to the selected store outside this app, merged into UniversalHistory by the client
+export const GET = withStoreAuth(async (request, context, auth) => {
+  try {
+    const changes = await listExternalChanges(auth.store.storeDomain)
+    return NextResponse.json({ changes, storeDomain: auth.store.storeDomain })
+  } catch (error) {
+    console.error("Failed to load external changes:", error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to load external changes" },
+      { status: 500 },
+    )
+  }
+})
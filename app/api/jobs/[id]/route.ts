@@ -0,0 +1,77 @@
+import { NextResponse } from "next/server"
+import { withStoreAuth } from "@/lib/api-auth"
+import { JOB_ACTIONS, controlJob, getJob, getJobItems, jobPermission, runJobChunk, type JobAction } from "@/lib/jobs"
+import { hasPermission } from "@/lib/roles"
+
+interface JobControlRequest {
+  action: JobAction
+  itemIds?: string[] // Retry only these failed items
+}
+
+// A job with its per-item status
+export const GET = withStoreAuth(async (request, { params }, auth) => {
+  try {
+    const job = await getJob(auth, params.id)
+    if (!job) {
+      return NextResponse.json({ error: "Job not found" }, { status: 404 })
+    }
+    return NextResponse.json({ job, items: await getJobItems(job.id) })
+  } catch (error) {
+    console.error("Failed to load job:", error)
+    return NextResponse.json({ error: "Failed to load job" }, { status: 500 })
+  }
+})
+
+// Process the job's next chunk; call again while the returned job is still queued or running.
+// The scheduler does the same through /api/process-jobs, so this only speeds things up.
+export const POST = withStoreAuth(async (request, { params }, auth) => {
+  try {
+    const job = await getJob(auth, params.id)
+    if (!job) {
+      return NextResponse.json({ error: "Job not found" }, { status: 404 })
+    }
+    if (!hasPermission(auth.role, jobPermission(job.type))) {
+      return NextResponse.json({ error: "Your role does not allow this action" }, { status: 403 })
+    }
+    return NextResponse.json({ job: await runJobChunk(auth, job.id) })
+  } catch (error) {
+    console.error("Job run error:", error)
+    return NextResponse.json({ error: error instanceof Error ? error.message : "Job failed" }, { status: 500 })
+  }
+})
+
+// Body: { action: "pause" | "resume" | "cancel" | "retry", itemIds? }
+export const PATCH = withStoreAuth(async (request, { params }, auth) => {
+  try {
+    const { action, itemIds }: JobControlRequest = await request.json()
+    if (!JOB_ACTIONS.includes(action)) {
+      return NextResponse.json({ error: "Action must be pause, resume, cancel or retry" }, { status: 400 })
+    }
+    if (itemIds !== undefined && (!Array.isArray(itemIds) || itemIds.some((id) => typeof id !== "string"))) {
+      return NextResponse.json({ error: "Item IDs must be a list of strings" }, { status: 400 })
+    }
+
+    const job = await getJob(auth, params.id)
+    if (!job) {
+      return NextResponse.json({ error: "Job not found" }, { status: 404 })
+    }
+    if (!hasPermission(auth.role, jobPermission(job.type))) {
+      return NextResponse.json({ error: "Your role does not allow this action" }, { status: 403 })
+    }
+
+    const result = await controlJob(auth, job.id, action, itemIds)
+    if (!result) {
+      return NextResponse.json({ error: "Job not found" }, { status: 404 })
+    }
+    if (result.error) {
+      return NextResponse.json({ error: result.error, job: result.job }, { status: 409 })
+    }
+    return NextResponse.json({ job: result.job })
+  } catch (error) {
+    console.error("Job control error:", error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to update job" },
+      { status: 500 },
+    )
+  }
+})
@@ -0,0 +1,15 @@
+import { NextResponse } from "next/server"
+import { withStoreAuth } from "@/lib/api-auth"
+import { listJobs } from "@/lib/jobs"
+
+// Background jobs of the selected store, newest first. Jobs are queued by the bulk routes that take
+// `background: true` (/api/bulk-price-update, /api/apply-discount-enhanced, /api/bulk-upload).
+export const GET = withStoreAuth(async (request, context, auth) => {
+  try {
+    const jobs = await listJobs(auth)
+    return NextResponse.json({ jobs: jobs.slice(0, 50) })
+  } catch (error) {
+    console.error("Failed to list jobs:", error)
+    return NextResponse.json({ error: "Failed to load jobs" }, { status: 500 })
+  }
+})
@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server"
+import { withStoreAuth } from "@/lib/api-auth"
+import { getMetalRates, listMetalRateProviders } from "@/lib/metal-rates"
+import { findMetalLinkedVariants } from "@/lib/shopify"
+
+// Current metal rates and every variant linked to them, for a repricing run. The run itself goes
+// through /api/bulk-price-update with a metal_rate rule. `?provider=` picks the rate provider.
+export const GET = withStoreAuth(async (request) => {
+  try {
+    const quote = await getMetalRates(new URL(request.url).searchParams.get("provider"))
+    if (!quote) {
+      return NextResponse.json({ error: "Unknown rate provider" }, { status: 400 })
+    }
+
+    const variants = await findMetalLinkedVariants()
+    return NextResponse.json({ quote, providers: listMetalRateProviders(), variants })
+  } catch (error) {
+    console.error("Failed to load metal repricing data:", error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to load metal rates" },
+      { status: 500 },
+    )
+  }
+})
@@ -0,0 +1,46 @@
+import { NextResponse } from "next/server"
+import { withStoreAuth } from "@/lib/api-auth"
+import { getPriceGuardrails, updatePriceGuardrails, validateGuardrails, type PriceGuardrails } from "@/lib/price-guardrails"
+
+// The selected store's price guardrails
+export const GET = withStoreAuth(async (request, context, auth) => {
+  try {
+    const guardrails = await getPriceGuardrails(auth.ownerId, auth.storeId)
+    return NextResponse.json({ guardrails })
+  } catch (error) {
+    console.error("Failed to load price guardrails:", error)
+    return NextResponse.json({ error: "Failed to load price guardrails" }, { status: 500 })
+  }
+})
+
+// Replace the guardrails: { enforcement, rules }. Like the approval policy, they constrain pricing
+// managers, so only team managers may change them.
+export const PUT = withStoreAuth(async (request, context, auth) => {
+  try {
+    const { enforcement, rules } = await request.json()
+    const guardrails: PriceGuardrails = {
+      enforcement,
+      rules: Array.isArray(rules)
+        ? rules.map((rule: any, index: number) => ({
+            id: rule.id || `rule_${Date.now()}_${index}`,
+            scope: rule.scope,
+            minMarginPercent: rule.minMarginPercent == null || rule.minMarginPercent === "" ? null : Number(rule.minMarginPercent),
+            minPrice: rule.minPrice == null || rule.minPrice === "" ? null : Number(rule.minPrice),
+          }))
+        : rules,
+      updatedAt: new Date().toISOString(),
+      updatedBy: auth.uid,
+    }
+
+    const validationError = validateGuardrails(guardrails)
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    await updatePriceGuardrails(auth.ownerId, auth.storeId, guardrails)
+    return NextResponse.json({ success: true, guardrails })
+  } catch (error) {
+    console.error("Failed to update price guardrails:", error)
+    return NextResponse.json({ error: "Failed to update price guardrails" }, { status: 500 })
+  }
+}, "team:manage")
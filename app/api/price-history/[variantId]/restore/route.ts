@@ -0,0 +1,99 @@
+import { NextResponse } from "next/server"
+import { shopifyRestFetch } from "@/lib/shopify"
+import { withStoreAuth } from "@/lib/api-auth"
+import { completeApproval, gateWithApproval, maxPriceChangePercent } from "@/lib/approvals"
+import { cancelSchedules, findDiscountConflicts } from "@/lib/discounts"
+import { getPriceHistory, restoreToHistoryEntry } from "@/lib/price-history"
+
+interface RestoreRequest {
+  key: string // Entry key from GET /api/price-history/[variantId]
+  dryRun?: boolean
+}
+
+// The variant's live prices and the history entry to restore, or an error response
+async function loadRestorePoint(numericVariantId: string, key: string) {
+  const variantResponse = await shopifyRestFetch(`variants/${numericVariantId}.json`)
+  if (variantResponse.status !== 200) {
+    return { error: NextResponse.json({ error: "Variant not found" }, { status: 404 }) }
+  }
+  const history = await getPriceHistory(numericVariantId)
+  if (!history) {
+    return { error: NextResponse.json({ error: "Failed to fetch price history" }, { status: 502 }) }
+  }
+  const entry = history.find((e) => e.key === key)
+  if (!entry) {
+    return { error: NextResponse.json({ error: "Price history entry not found" }, { status: 404 }) }
+  }
+  return { variant: variantResponse.body.variant, entry }
+}
+
+// Restore a variant to the exact prices recorded by one of its price history entries
+export const POST = withStoreAuth(async (request, { params }, auth) => {
+  let approvalId: string | null = null
+  try {
+    const numericVariantId = params.variantId.replace("gid://shopify/ProductVariant/", "")
+
+    const gate = await gateWithApproval<RestoreRequest>(request, auth, async ({ key, dryRun }) => {
+      if (dryRun || typeof key !== "string") return null
+      const point = await loadRestorePoint(numericVariantId, key)
+      if (point.error) return null
+      return {
+        action: "price_change",
+        summary: `Restore ${point.variant.title || "variant"} to prices from ${new Date(point.entry.date).toLocaleString()}`,
+        changePercent: maxPriceChangePercent([
+          { from: point.variant.price, to: point.entry.price },
+          { from: point.variant.compare_at_price, to: point.entry.compareAtPrice },
+        ]),
+      }
+    })
+    if (gate instanceof Response) return gate
+    approvalId = gate.approvalId
+    const { key, dryRun } = gate.payload
+
+    if (typeof key !== "string" || !key) {
+      return NextResponse.json({ error: "Choose a price history entry to restore" }, { status: 400 })
+    }
+
+    // Reloaded so an approved request runs against the prices at the time it is executed
+    const loaded = await loadRestorePoint(numericVariantId, key)
+    if (loaded.error) {
+      await completeApproval(approvalId, false, "Price history entry is no longer available")
+      return loaded.error
+    }
+    const { variant, entry } = loaded
+
+    const gid = `gid://shopify/ProductVariant/${numericVariantId}`
+    const conflict = (await findDiscountConflicts([gid])).get(gid)
+    const result = {
+      variantId: gid,
+      variantTitle: variant.title || "Default Title",
+      key: entry.key,
+      currentPrice: variant.price,
+      currentCompareAtPrice: variant.compare_at_price,
+      restoredPrice: entry.price,
+      restoredCompareAtPrice: entry.compareAtPrice,
+      // Pending discount reversions would later overwrite the restored prices, so restoring cancels them
+      pendingSchedules: conflict?.pendingSchedules.length || 0,
+    }
+
+    if (dryRun) {
+      return NextResponse.json({ dryRun: true, ...result })
+    }
+
+    await restoreToHistoryEntry(numericVariantId, entry)
+    if (conflict && conflict.pendingSchedules.length > 0) {
+      await cancelSchedules(conflict, "Prices restored to an earlier point")
+    }
+
+    const message = `Restored ${result.variantTitle} to ${entry.price}${
+      entry.compareAtPrice ? ` (compare at ${entry.compareAtPrice})` : ""
+    }`
+    await completeApproval(approvalId, true, message)
+
+    return NextResponse.json({ success: true, ...result, message })
+  } catch (error) {
+    console.error("Restore price history error:", error)
+    await completeApproval(approvalId, false, error instanceof Error ? error.message : "Unknown error")
+    return NextResponse.json({ error: error instanceof Error ? error.message : "Internal server error" }, { status: 500 })
+  }
+}, "prices:edit")
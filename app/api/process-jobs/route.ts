@@ -0,0 +1,67 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getVerifiedUid, withStoreAuth } from "@/lib/api-auth"
+import { jobPermission, processStoreJobs, type Job } from "@/lib/jobs"
+import { hasPermission } from "@/lib/roles"
+import { withShopifyStore } from "@/lib/shopify"
+import { getStoreConfig, listConnectedShops } from "@/lib/store-credentials"
+
+// Stop starting chunks after this long, so the run ends inside the function timeout
+const RUN_BUDGET_MS = 45 * 1000
+
+function summarize(jobs: Job[]) {
+  return jobs.map(({ id, type, label, status, processed, total }) => ({ id, type, label, status, processed, total }))
+}
+
+// Works through queued and running background jobs (lib/jobs). Called every minute or so by the scheduler
+// (middleware checks `Bearer $CRON_SECRET`) for every connected store, or by a signed-in user for the
+// selected store's jobs their role may run. Safe to run while another run is in progress.
+export async function POST(request: NextRequest, context: { params: Record<string, string> }) {
+  if (getVerifiedUid(request)) {
+    return processSelectedStore(request, context)
+  }
+
+  try {
+    const deadline = Date.now() + RUN_BUDGET_MS
+    const advanced: Job[] = []
+    const errors: Array<{ storeDomain: string; error: string }> = []
+
+    for (const shop of await listConnectedShops()) {
+      if (Date.now() >= deadline) {
+        break // The next run picks up the remaining stores
+      }
+      const config = await getStoreConfig(shop.userId, shop.storeId)
+      if (!config?.adminAccessToken) {
+        continue // Removed or uninstalled
+      }
+
+      try {
+        await withShopifyStore(config, async () => {
+          advanced.push(...(await processStoreJobs({ ownerId: shop.userId, storeId: shop.storeId }, deadline)))
+        })
+      } catch (error) {
+        console.error(`Background jobs failed for ${shop.shopDomain}:`, error)
+        errors.push({ storeDomain: shop.shopDomain, error: error instanceof Error ? error.message : "Unknown error" })
+      }
+    }
+
+    return NextResponse.json({ success: errors.length === 0, jobs: summarize(advanced), errors })
+  } catch (error) {
+    console.error("Error processing background jobs:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
+
+const processSelectedStore = withStoreAuth(async (request, context, auth) => {
+  try {
+    const advanced = await processStoreJobs(auth, Date.now() + RUN_BUDGET_MS, (type) =>
+      hasPermission(auth.role, jobPermission(type)),
+    )
+    return NextResponse.json({ success: true, jobs: summarize(advanced), errors: [] })
+  } catch (error) {
+    console.error("Error processing background jobs:", error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Internal server error" },
+      { status: 500 },
+    )
+  }
+})
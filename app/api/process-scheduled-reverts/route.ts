@@ -1,26 +1,90 @@
-import { NextResponse } from "next/server"
+import { type NextRequest, NextResponse } from "next/server"
+import { getVerifiedUid, withStoreAuth } from "@/lib/api-auth"
+import { withShopifyStore } from "@/lib/shopify"
+import { processDueCampaigns } from "@/lib/campaigns"
+import { processDueReverts, type RevertReport } from "@/lib/scheduled-reverts"
+import { getStoreConfig, listConnectedShops } from "@/lib/store-credentials"
+
+// Stop starting reverts after this long, so the run ends inside the function timeout
+const RUN_BUDGET_MS = 45 * 1000
+
+// Starts and ends scheduled discount campaigns and reverts expired discounts.
+// Called by the scheduler (middleware checks `Bearer $CRON_SECRET`) for every connected store,
+// or by a signed-in user for their selected store. Safe to run while another run is in progress.
+export async function POST(request: NextRequest, context: { params: Record<string, string> }) {
+  if (getVerifiedUid(request)) {
+    return processSelectedStore(request, context)
+  }
 
-// This endpoint should be called by a cron job to process scheduled discount reversions
-export async function POST() {
   try {
-    console.log("Processing scheduled discount reversions...")
+    console.log("Processing scheduled discount reversions for all stores...")
+    const deadline = Date.now() + RUN_BUDGET_MS
+
+    const reports: RevertReport[] = []
+    const started: Awaited<ReturnType<typeof processDueCampaigns>>["started"] = []
+    const ended: Awaited<ReturnType<typeof processDueCampaigns>>["ended"] = []
+    const errors: Array<{ storeDomain: string; error: string }> = []
 
-    // This is a simplified version - in production, you'd want to:
-    // 1. Query all variants with scheduled reversions
-    // 2. Check if any have expired
-    // 3. Process the reversions
-    // 4. Clean up the schedule metafields
+    for (const shop of await listConnectedShops()) {
+      if (Date.now() >= deadline) {
+        break // The next run picks up the remaining stores
+      }
+      const config = await getStoreConfig(shop.userId, shop.storeId)
+      if (!config?.adminAccessToken) {
+        continue // Removed or uninstalled
+      }
 
-    // For now, we'll return a success response
-    // In a real implementation, you'd use a proper job queue system
+      try {
+        await withShopifyStore(config, async () => {
+          const campaigns = await processDueCampaigns()
+          started.push(...campaigns.started)
+          ended.push(...campaigns.ended)
+          reports.push(await processDueReverts(deadline))
+        })
+      } catch (error) {
+        console.error(`Scheduled reversions failed for ${shop.shopDomain}:`, error)
+        errors.push({ storeDomain: shop.shopDomain, error: error instanceof Error ? error.message : "Unknown error" })
+      }
+    }
 
     return NextResponse.json({
-      success: true,
+      success: errors.length === 0,
       message: "Scheduled reversions processed",
-      processed: 0,
+      started,
+      ended,
+      processed: reports.reduce((sum, report) => sum + report.reverted, 0),
+      skipped: reports.reduce((sum, report) => sum + report.skipped, 0),
+      failed: reports.reduce((sum, report) => sum + report.failed, 0),
+      reports,
+      errors,
     })
   } catch (error) {
     console.error("Error processing scheduled reversions:", error)
     return NextResponse.json({ error: "Internal server error" }, { status: 500 })
   }
 }
+
+const processSelectedStore = withStoreAuth(async () => {
+  try {
+    const deadline = Date.now() + RUN_BUDGET_MS
+    const { started, ended } = await processDueCampaigns()
+    const report = await processDueReverts(deadline)
+    return NextResponse.json({
+      success: true,
+      message: "Scheduled reversions processed",
+      started,
+      ended,
+      processed: report.reverted,
+      skipped: report.skipped,
+      failed: report.failed,
+      reports: [report],
+      errors: [],
+    })
+  } catch (error) {
+    console.error("Error processing scheduled reversions:", error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Internal server error" },
+      { status: 500 },
+    )
+  }
+}, "prices:edit")
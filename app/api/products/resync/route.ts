@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server"
+import { withStoreAuth } from "@/lib/api-auth"
+import { getProductSnapshot } from "@/lib/product-cache"
+
+// Rebuild the store's product cache from a full catalog export. It holds the shop's only bulk operation
+// slot while it runs, so it is limited to roles that edit products.
+export const POST = withStoreAuth(async () => {
+  try {
+    const snapshot = await getProductSnapshot({ fullResync: true })
+
+    return NextResponse.json({
+      success: true,
+      count: snapshot.products.length,
+      syncedAt: snapshot.syncedAt,
+    })
+  } catch (error) {
+    console.error("Product resync failed:", error)
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 },
+    )
+  }
+}, "products:edit")
@@ -1,76 +1,62 @@
-import { NextResponse } from "next/server"
-import { getAllProducts, getProductsByCollection, createProduct, updateProduct, deleteProduct } from "@/lib/shopify"
-
-export async function GET(request: Request) {
+import { type NextRequest, NextResponse } from "next/server"
+import {
+  getShopifyConfig,
+  createProduct,
+  updateProduct,
+  deleteProduct,
+} from "@/lib/shopify"
+import { withStoreAuth, type StoreAuth } from "@/lib/api-auth"
+import { completeApproval, gateWithApproval } from "@/lib/approvals"
+import { getProductSnapshot, removeCachedProducts } from "@/lib/product-cache"
+
+export const GET = withStoreAuth(async (request) => {
   try {
     const { searchParams } = new URL(request.url)
     const collectionId = searchParams.get("collection")
 
     console.log("Fetching products from Shopify store...")
     console.log("Collection filter:", collectionId)
-    console.log("Environment check:", {
-      hasStoreDomain: !!process.env.SHOPIFY_STORE_DOMAIN,
-      hasStoreUrl: !!process.env.SHOPIFY_STORE_URL,
-      hasAdminSession: !!process.env.SHOPIFY_ADMIN_SESSION,
+    const storeConfig = await getShopifyConfig()
+    console.log("Store check:", {
+      storeDomain: storeConfig.storeDomain,
+      hasAdminSession: !!storeConfig.adminAccessToken,
     })
 
-    let response
-
-    // Use different query based on whether collection filter is applied
-    if (collectionId && collectionId !== "all") {
-      console.log(`Fetching products for collection: ${collectionId}`)
-      response = await getProductsByCollection(collectionId)
-    } else {
-      console.log("Fetching all products")
-      response = await getAllProducts()
-    }
-
-    if (response.status !== 200) {
-      console.error("Shopify API Error:", response.error)
+    let snapshot
+    try {
+      snapshot = await getProductSnapshot()
+    } catch (syncError) {
+      console.error("Product cache sync failed:", syncError)
       return NextResponse.json(
         {
           error: "Failed to fetch products from Shopify",
-          details: response.error,
+          details: syncError instanceof Error ? syncError.message : "Unknown error",
           debug: {
-            status: response.status,
-            hasStoreDomain: !!process.env.SHOPIFY_STORE_DOMAIN,
-            hasToken: !!process.env.SHOPIFY_ADMIN_SESSION,
+            hasStoreDomain: !!storeConfig.storeDomain,
+            hasToken: !!storeConfig.adminAccessToken,
             collectionId,
           },
         },
-        { status: response.status },
+        { status: 500 },
       )
     }
 
-    // Check if response has the expected structure
-    if (!response.body?.data?.products) {
-      console.error("Unexpected response structure:", response.body)
-      return NextResponse.json(
-        {
-          error: "Invalid response structure from Shopify",
-          details: "Missing products data",
-          response: response.body,
-        },
-        { status: 500 },
-      )
+    // Same snapshot version as the client already has
+    const cacheHeaders = { ETag: snapshot.etag, "Cache-Control": "private, no-cache" }
+    if (request.headers.get("if-none-match") === snapshot.etag) {
+      return new NextResponse(null, { status: 304, headers: cacheHeaders })
     }
 
-    if (response.body.errors) {
-      console.error("GraphQL Errors:", response.body.errors)
-      return NextResponse.json(
-        {
-          error: "GraphQL errors",
-          details: response.body.errors,
-        },
-        { status: 400 },
-      )
+    let nodes = snapshot.products
+    if (collectionId && collectionId !== "all") {
+      console.log(`Filtering cached products for collection: ${collectionId}`)
+      nodes = nodes.filter((node: any) => node.collections?.edges?.some((c: any) => c.node.id === collectionId))
     }
 
     // Transform Shopify data to our format with better error handling
-    let products = []
+    let products: any[] = []
     try {
-      products = response.body.data.products.edges.map((edge: any) => {
-        const product = edge.node
+      products = nodes.map((product: any) => {
         return {
           id: product.id,
           title: product.title || "Untitled Product",
@@ -90,6 +76,7 @@ export async function GET(request: Request) {
               title: varEdge.node.title,
               price: varEdge.node.price,
               compareAtPrice: varEdge.node.compareAtPrice,
+              unitCost: varEdge.node.inventoryItem?.unitCost?.amount ?? null,
               inventoryQuantity: varEdge.node.inventoryQuantity || 0,
               sku: varEdge.node.sku || "",
               selectedOptions: varEdge.node.selectedOptions || [],
@@ -122,19 +109,24 @@ export async function GET(request: Request) {
     console.log(`Successfully fetched ${products.length} products`)
     console.log("Sample product collections:", products[0]?.collections)
 
-    return NextResponse.json({
-      products,
-      count: products.length,
-      collectionFilter: collectionId,
-      debug: {
-        totalProducts: products.length,
-        hasCollectionFilter: !!collectionId && collectionId !== "all",
-        sampleCollections: products.slice(0, 3).map((p) => ({
-          title: p.title,
-          collections: p.collections,
-        })),
+    return NextResponse.json(
+      {
+        products,
+        count: products.length,
+        collectionFilter: collectionId,
+        syncedAt: snapshot.syncedAt,
+        fullSyncedAt: snapshot.fullSyncedAt,
+        debug: {
+          totalProducts: products.length,
+          hasCollectionFilter: !!collectionId && collectionId !== "all",
+          sampleCollections: products.slice(0, 3).map((p) => ({
+            title: p.title,
+            collections: p.collections,
+          })),
+        },
       },
-    })
+      { headers: cacheHeaders },
+    )
   } catch (error) {
     console.error("API Error:", error)
     return NextResponse.json(
@@ -146,9 +138,9 @@ export async function GET(request: Request) {
       { status: 500 },
     )
   }
-}
+})
 
-export async function POST(request: Request) {
+export const POST = withStoreAuth(async (request) => {
   try {
     const productData = await request.json()
 
@@ -194,9 +186,9 @@ export async function POST(request: Request) {
       { status: 500 },
     )
   }
-}
+}, "products:edit")
 
-export async function PUT(request: Request) {
+export const PUT = withStoreAuth(async (request) => {
   try {
     const productData = await request.json()
 
@@ -243,15 +235,16 @@ export async function PUT(request: Request) {
       { status: 500 },
     )
   }
-}
+}, "products:edit")
 
-export async function DELETE(request: Request) {
+// Delete one product (?id=...) or several ({ productIds: [...] } body, subject to approval)
+export const DELETE = withStoreAuth(async (request, context, auth) => {
   try {
     const { searchParams } = new URL(request.url)
     const productId = searchParams.get("id")
 
     if (!productId) {
-      return NextResponse.json({ success: false, error: "Product ID is required" }, { status: 400 })
+      return bulkDeleteProducts(request, auth)
     }
 
     const response = await deleteProduct(productId)
@@ -273,6 +266,8 @@ export async function DELETE(request: Request) {
       return NextResponse.json({ success: false, error: userErrors }, { status: 422 })
     }
 
+    await removeCachedProducts([productDelete.deletedProductId])
+
     return NextResponse.json({
       success: true,
       deletedProductId: productDelete.deletedProductId,
@@ -284,4 +279,52 @@ export async function DELETE(request: Request) {
       { status: 500 },
     )
   }
+}, "products:delete")
+
+async function bulkDeleteProducts(request: NextRequest, auth: StoreAuth) {
+  let approvalId: string | null = null
+  try {
+    const gate = await gateWithApproval<{ productIds: string[] }>(request, auth, ({ productIds }) =>
+      Array.isArray(productIds) && productIds.length > 1
+        ? { action: "bulk_delete", summary: `Delete ${productIds.length} products` }
+        : null,
+    )
+    if (gate instanceof Response) return gate
+    approvalId = gate.approvalId
+    const { productIds } = gate.payload
+
+    if (!Array.isArray(productIds) || productIds.length === 0) {
+      return NextResponse.json({ success: false, error: "Product IDs are required" }, { status: 400 })
+    }
+
+    const results = []
+    for (const id of productIds) {
+      const response = await deleteProduct(id)
+      const productDelete = (response.body as any)?.data?.productDelete
+      const error =
+        response.status !== 200
+          ? response.error
+          : (response.body as any)?.errors?.[0]?.message || productDelete?.userErrors?.[0]?.message
+
+      results.push({ productId: id, success: !error && !!productDelete?.deletedProductId, error })
+    }
+
+    const deleted = results.filter((r) => r.success).length
+    await removeCachedProducts(results.filter((r) => r.success).map((r) => r.productId))
+    await completeApproval(approvalId, deleted > 0, `Deleted ${deleted} of ${productIds.length} products`)
+
+    return NextResponse.json({
+      success: deleted > 0,
+      deleted,
+      failed: productIds.length - deleted,
+      results,
+    })
+  } catch (error) {
+    console.error("Bulk Delete Error:", error)
+    await completeApproval(approvalId, false, error instanceof Error ? error.message : "Unknown error")
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 },
+    )
+  }
 }
@@ -1,129 +1,249 @@
 import { NextResponse } from "next/server"
 import { shopifyRestFetch } from "@/lib/shopify"
+import { withStoreAuth } from "@/lib/api-auth"
+import { completeApproval, gateWithApproval, maxPriceChangePercent } from "@/lib/approvals"
+import { cancelSchedules, findDiscountConflicts, type DiscountConflict } from "@/lib/discounts"
 
 interface RollbackRequest {
   variantIds: string[]
+  dryRun?: boolean // Work out what each variant would be restored to without writing anything
 }
 
-export async function POST(request: Request) {
+interface RollbackResult {
+  variantId: string
+  variantTitle: string
+  success: boolean
+  error?: string
+  source?: "history" | "compare_at" // Latest discount_history entry, or the compare-at fallback
+  currentPrice?: string
+  currentCompareAtPrice?: string | null
+  restoredPrice?: string
+  restoredCompareAtPrice?: string | null
+}
+
+function keyTimestamp(key: string) {
+  return Number.parseInt(key.slice(key.lastIndexOf("_") + 1)) || 0
+}
+
+// The variant's pending reversion belonged to the discount just rolled back; left alone it would revert again
+async function cancelPendingSchedules(conflict?: DiscountConflict) {
+  if (conflict && conflict.pendingSchedules.length > 0) {
+    await cancelSchedules(conflict, "Rolled back")
+  }
+}
+
+// Restore one variant to the prices before its latest discount that was not rolled back yet
+async function rollbackVariant(
+  variantId: string,
+  dryRun?: boolean,
+  conflict?: DiscountConflict,
+): Promise<RollbackResult> {
+  // Convert GraphQL ID to REST ID if needed
+  const numericVariantId = variantId.replace("gid://shopify/ProductVariant/", "")
+
+  const variantResponse = await shopifyRestFetch(`variants/${numericVariantId}.json`)
+  if (variantResponse.status !== 200) {
+    return { variantId, variantTitle: "Unknown", success: false, error: "Failed to fetch variant data" }
+  }
+  const variant = variantResponse.body.variant
+  const current = {
+    variantId,
+    variantTitle: variant.title || "Default Title",
+    currentPrice: variant.price,
+    currentCompareAtPrice: variant.compare_at_price,
+  }
+
+  // Fetch metafields to get price history
+  const metafieldsResponse = await shopifyRestFetch(`variants/${numericVariantId}/metafields.json`)
+
+  if (metafieldsResponse.status !== 200) {
+    return { ...current, success: false, error: "Failed to fetch price history" }
+  }
+
+  const history = metafieldsResponse.body.metafields.filter((field: any) => field.namespace === "discount_history")
+  // A rollback undoes every discount before it, so only later entries are still in effect
+  const latestRollback = Math.max(
+    0,
+    ...history.filter((field: any) => field.key.startsWith("rollback_")).map((field: any) => keyTimestamp(field.key)),
+  )
+  const priceHistoryFields = history
+    .filter((field: any) => field.key.startsWith("price_history_") && keyTimestamp(field.key) > latestRollback)
+    .sort((a: any, b: any) => keyTimestamp(b.key) - keyTimestamp(a.key)) // Most recent first
+
+  if (latestRollback > 0 && priceHistoryFields.length === 0) {
+    return { ...current, success: false, error: "Its discounts were already rolled back" }
+  }
+
+  if (priceHistoryFields.length === 0) {
+    // No history found, try fallback method
+    const currentCompareAtPrice = variant.compare_at_price ? Number.parseFloat(variant.compare_at_price) : null
+
+    if (!currentCompareAtPrice) {
+      return { ...current, success: false, error: "No price history or compare-at price to restore" }
+    }
+
+    // Rollback: Set price to compare_at_price and remove compare_at_price
+    const updateData = {
+      variant: {
+        id: variant.id,
+        price: currentCompareAtPrice.toFixed(2),
+        compare_at_price: null,
+      },
+    }
+    const planned: RollbackResult = {
+      ...current,
+      success: true,
+      source: "compare_at",
+      restoredPrice: updateData.variant.price,
+      restoredCompareAtPrice: null,
+    }
+
+    if (dryRun) {
+      return planned
+    }
+
+    const updateResponse = await shopifyRestFetch(`variants/${numericVariantId}.json`, {
+      method: "PUT",
+      body: JSON.stringify(updateData),
+    })
+
+    if (updateResponse.status !== 200) {
+      return { ...planned, success: false, error: `Shopify API error: ${updateResponse.status}` }
+    }
+    await cancelPendingSchedules(conflict)
+    return planned
+  }
+
+  // Get the most recent price history entry. A discount that replaced or stacked on an earlier one
+  // records the chain's original prices (root_*), so rolling it back removes the whole chain.
+  const latestHistory = JSON.parse(priceHistoryFields[0].value)
+  const restoreTo =
+    latestHistory.root_price !== undefined
+      ? { price: latestHistory.root_price, compare_at_price: latestHistory.root_compare_at_price }
+      : { price: latestHistory.price, compare_at_price: latestHistory.compare_at_price }
+  const planned: RollbackResult = {
+    ...current,
+    success: true,
+    source: "history",
+    restoredPrice: restoreTo.price,
+    restoredCompareAtPrice: restoreTo.compare_at_price,
+  }
+
+  if (dryRun) {
+    return planned
+  }
+
+  // Update variant with previous prices
+  const updateData = {
+    variant: {
+      id: numericVariantId,
+      price: restoreTo.price,
+      compare_at_price: restoreTo.compare_at_price,
+    },
+  }
+
+  const updateResponse = await shopifyRestFetch(`variants/${numericVariantId}.json`, {
+    method: "PUT",
+    body: JSON.stringify(updateData),
+  })
+
+  if (updateResponse.status === 200) {
+    // Store rollback action in metafield
+    const rollbackMetafield = {
+      metafield: {
+        namespace: "discount_history",
+        key: `rollback_${Date.now()}`,
+        value: JSON.stringify({
+          action: "Rollback to previous price",
+          date: new Date().toISOString(),
+          rolled_back_key: priceHistoryFields[0].key,
+          reverted_to_price: restoreTo.price,
+          reverted_to_compare_at_price: restoreTo.compare_at_price,
+        }),
+        type: "json",
+      },
+    }
+
+    await shopifyRestFetch(`variants/${numericVariantId}/metafields.json`, {
+      method: "POST",
+      body: JSON.stringify(rollbackMetafield),
+    })
+
+    await cancelPendingSchedules(conflict)
+    return planned
+  }
+  return { ...planned, success: false, error: `Shopify API error: ${updateResponse.status}` }
+}
+
+async function rollbackVariants(variantIds: string[], dryRun?: boolean) {
+  const conflicts = dryRun ? new Map<string, DiscountConflict>() : await findDiscountConflicts(variantIds)
+  const results: RollbackResult[] = []
+  for (const variantId of variantIds) {
+    const conflict = conflicts.get(`gid://shopify/ProductVariant/${variantId.split("/").pop()}`)
+    try {
+      results.push(await rollbackVariant(variantId, dryRun, conflict))
+    } catch (error) {
+      console.error(`Error rolling back variant ${variantId}:`, error)
+      results.push({
+        variantId,
+        variantTitle: "Unknown",
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+  return results
+}
+
+export const POST = withStoreAuth(async (request, context, auth) => {
+  let approvalId: string | null = null
   try {
-    const { variantIds }: RollbackRequest = await request.json()
+    // Restoring pre-discount prices raises them; measured on a dry run like a discount
+    const gate = await gateWithApproval<RollbackRequest>(request, auth, async ({ variantIds, dryRun }) => {
+      if (dryRun || !Array.isArray(variantIds) || variantIds.length === 0) return null
+      const planned = (await rollbackVariants(variantIds, true)).filter((result) => result.success)
+      return {
+        action: "price_change",
+        summary: `Roll back discounts on ${variantIds.length} variants`,
+        changePercent: maxPriceChangePercent(
+          planned.flatMap((result) => [
+            { from: result.currentPrice ?? null, to: result.restoredPrice ?? null },
+            { from: result.currentCompareAtPrice ?? null, to: result.restoredCompareAtPrice ?? null },
+          ]),
+        ),
+      }
+    })
+    if (gate instanceof Response) return gate
+    approvalId = gate.approvalId
+    const { variantIds, dryRun } = gate.payload
 
     // Validate inputs
     if (!Array.isArray(variantIds) || variantIds.length === 0) {
       return NextResponse.json({ error: "Please provide valid variant IDs" }, { status: 400 })
     }
 
-    let successCount = 0
-
-    // Process each variant
-    for (const variantId of variantIds) {
-      try {
-        // Convert GraphQL ID to REST ID if needed
-        const numericVariantId = variantId.replace("gid://shopify/ProductVariant/", "")
-
-        // Fetch metafields to get price history
-        const metafieldsResponse = await shopifyRestFetch(`variants/${numericVariantId}/metafields.json`)
-
-        if (metafieldsResponse.status !== 200) {
-          continue
-        }
-
-        const metafields = metafieldsResponse.body.metafields
-        const priceHistoryFields = metafields
-          .filter((field: any) => field.namespace === "discount_history" && field.key.startsWith("price_history_"))
-          .sort((a: any, b: any) => {
-            const timestampA = Number.parseInt(a.key.replace("price_history_", ""))
-            const timestampB = Number.parseInt(b.key.replace("price_history_", ""))
-            return timestampB - timestampA // Most recent first
-          })
-
-        if (priceHistoryFields.length === 0) {
-          // No history found, try fallback method
-          const variantResponse = await shopifyRestFetch(`variants/${numericVariantId}.json`)
-          if (variantResponse.status === 200) {
-            const variant = variantResponse.body.variant
-            const currentCompareAtPrice = variant.compare_at_price ? Number.parseFloat(variant.compare_at_price) : null
-
-            if (currentCompareAtPrice) {
-              // Rollback: Set price to compare_at_price and remove compare_at_price
-              const updateData = {
-                variant: {
-                  id: variant.id,
-                  price: currentCompareAtPrice.toFixed(2),
-                  compare_at_price: null,
-                },
-              }
-
-              const updateResponse = await shopifyRestFetch(`variants/${numericVariantId}.json`, {
-                method: "PUT",
-                body: JSON.stringify(updateData),
-              })
-
-              if (updateResponse.status === 200) {
-                successCount++
-              }
-            }
-          }
-          continue
-        }
-
-        // Get the most recent price history entry
-        const latestHistory = JSON.parse(priceHistoryFields[0].value)
-
-        // Update variant with previous prices
-        const updateData = {
-          variant: {
-            id: numericVariantId,
-            price: latestHistory.price,
-            compare_at_price: latestHistory.compare_at_price,
-          },
-        }
-
-        const updateResponse = await shopifyRestFetch(`variants/${numericVariantId}.json`, {
-          method: "PUT",
-          body: JSON.stringify(updateData),
-        })
-
-        if (updateResponse.status === 200) {
-          // Store rollback action in metafield
-          const rollbackMetafield = {
-            metafield: {
-              namespace: "discount_history",
-              key: `rollback_${Date.now()}`,
-              value: JSON.stringify({
-                action: "Rollback to previous price",
-                date: new Date().toISOString(),
-                reverted_to_price: latestHistory.price,
-                reverted_to_compare_at_price: latestHistory.compare_at_price,
-              }),
-              type: "json",
-            },
-          }
-
-          await shopifyRestFetch(`variants/${numericVariantId}/metafields.json`, {
-            method: "POST",
-            body: JSON.stringify(rollbackMetafield),
-          })
-
-          successCount++
-        }
-
-        // Add delay to respect Shopify rate limits
-        await new Promise((resolve) => setTimeout(resolve, 500))
-      } catch (error) {
-        console.error(`Error rolling back variant ${variantId}:`, error)
-        continue
-      }
+    const results = await rollbackVariants(variantIds, dryRun)
+    const successCount = results.filter((r) => r.success).length
+
+    if (dryRun) {
+      return NextResponse.json({
+        dryRun: true,
+        count: successCount,
+        results,
+        message: `${successCount} of ${variantIds.length} variants can be rolled back`,
+      })
     }
+    await completeApproval(approvalId, successCount > 0, `Rolled back ${successCount} of ${variantIds.length} variants`)
 
     return NextResponse.json({
       success: true,
       count: successCount,
+      results,
       message: `Successfully rolled back ${successCount} variants`,
     })
   } catch (error) {
+    await completeApproval(approvalId, false, error instanceof Error ? error.message : "Unknown error")
     console.error("Rollback discount error:", error)
     return NextResponse.json({ error: "Internal server error" }, { status: 500 })
   }
-}
+}, "prices:edit")
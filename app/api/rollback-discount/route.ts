@@ -1,11 +1,12 @@
 import { NextResponse } from "next/server"
 import { shopifyRestFetch } from "@/lib/shopify"
+import { withStoreAuth } from "@/lib/api-auth"
 
 interface RollbackRequest {
   variantIds: string[]
 }
 
-export async function POST(request: Request) {
+export const POST = withStoreAuth(async (request) => {
   try {
     const { variantIds }: RollbackRequest = await request.json()
 
@@ -52,9 +53,6 @@ export async function POST(request: Request) {
             successCount++
           }
         }
-
-        // Add delay to respect Shopify rate limits
-        await new Promise((resolve) => setTimeout(resolve, 500))
       } catch (error) {
         console.error(`Error rolling back variant ${variantId}:`, error)
         continue
@@ -70,4 +68,4 @@ export async function POST(request: Request) {
     console.error("Rollback discount error:", error)
     return NextResponse.json({ error: "Internal server error" }, { status: 500 })
   }
-}
+}, "prices:edit")
@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server"
+import { withStoreAuth } from "@/lib/api-auth"
+import { getRollbackJob, getRollbackJobItems, rollbackReportCsv } from "@/lib/rollback-jobs"
+
+// Download a rollback job's per-variant results as CSV
+export const GET = withStoreAuth(async (request, { params }, auth) => {
+  try {
+    const job = await getRollbackJob(auth, params.id)
+    if (!job) {
+      return NextResponse.json({ error: "Rollback job not found" }, { status: 404 })
+    }
+
+    const csv = rollbackReportCsv(await getRollbackJobItems(job.id))
+    return new NextResponse(csv, {
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="rollback-${job.id}-${job.createdAt.slice(0, 10)}.csv"`,
+      },
+    })
+  } catch (error) {
+    console.error("Failed to build rollback report:", error)
+    return NextResponse.json({ error: "Failed to build rollback report" }, { status: 500 })
+  }
+})
@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server"
+import { withStoreAuth } from "@/lib/api-auth"
+import { getRollbackJob, getRollbackJobItems, runRollbackJob } from "@/lib/rollback-jobs"
+
+// A rollback job with its per-variant results
+export const GET = withStoreAuth(async (request, { params }, auth) => {
+  try {
+    const job = await getRollbackJob(auth, params.id)
+    if (!job) {
+      return NextResponse.json({ error: "Rollback job not found" }, { status: 404 })
+    }
+    return NextResponse.json({ job, items: await getRollbackJobItems(job.id) })
+  } catch (error) {
+    console.error("Failed to load rollback job:", error)
+    return NextResponse.json({ error: "Failed to load rollback job" }, { status: 500 })
+  }
+})
+
+// Restore the next chunk of the job's variants; call again while the returned job is still running
+export const POST = withStoreAuth(async (request, { params }, auth) => {
+  try {
+    const job = await runRollbackJob(auth, params.id)
+    if (!job) {
+      return NextResponse.json({ error: "Rollback job not found" }, { status: 404 })
+    }
+    return NextResponse.json({ job })
+  } catch (error) {
+    console.error("Rollback job run error:", error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Rollback job failed" },
+      { status: 500 },
+    )
+  }
+}, "prices:edit")
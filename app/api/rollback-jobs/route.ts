@@ -0,0 +1,87 @@
+import { NextResponse } from "next/server"
+import { withStoreAuth } from "@/lib/api-auth"
+import { completeApproval, gateWithApproval, maxPriceChangePercent } from "@/lib/approvals"
+import { listDiscountBatches } from "@/lib/discount-batches"
+import {
+  createRollbackJob,
+  listRollbackJobs,
+  resolveRollbackScope,
+  validateRollbackScope,
+  type RollbackScope,
+} from "@/lib/rollback-jobs"
+
+interface RollbackJobRequest {
+  scope: RollbackScope
+  dryRun?: boolean // Resolve the variants and what they go back to without creating the job
+}
+
+// Rollback jobs for the selected store, newest first, plus recent discount batches to pick from
+export const GET = withStoreAuth(async (request, context, auth) => {
+  try {
+    const [jobs, batches] = await Promise.all([listRollbackJobs(auth), listDiscountBatches(auth)])
+    return NextResponse.json({ jobs: jobs.slice(0, 20), batches: batches.slice(0, 50) })
+  } catch (error) {
+    console.error("Failed to list rollback jobs:", error)
+    return NextResponse.json({ error: "Failed to load rollback jobs" }, { status: 500 })
+  }
+})
+
+// Start a rollback of a discount batch, a date range of batches or a live campaign; run it with
+// POST /api/rollback-jobs/[id] until it completes
+export const POST = withStoreAuth(async (request, context, auth) => {
+  let approvalId: string | null = null
+  try {
+    // Restoring a batch, a date range (every batch in it) or a campaign moves prices back up store-wide, so it is
+    // gated like the discounts it undoes
+    const gate = await gateWithApproval<RollbackJobRequest>(request, auth, async ({ scope, dryRun }) => {
+      if (dryRun || validateRollbackScope(scope)) return null
+      const resolved = await resolveRollbackScope(auth, scope)
+      return resolved && resolved.items.length > 0
+        ? {
+            action: "price_change",
+            summary: `Roll back ${resolved.label}: ${resolved.items.length} variants`,
+            changePercent: maxPriceChangePercent(
+              resolved.items.flatMap((item) => [
+                { from: item.expectedPrice, to: item.restorePrice },
+                { from: item.expectedCompareAtPrice, to: item.restoreCompareAtPrice },
+              ]),
+            ),
+          }
+        : null
+    })
+    if (gate instanceof Response) return gate
+    approvalId = gate.approvalId
+    const { scope, dryRun } = gate.payload
+
+    const scopeError = validateRollbackScope(scope)
+    if (scopeError) {
+      return NextResponse.json({ error: scopeError }, { status: 400 })
+    }
+
+    const resolved = await resolveRollbackScope(auth, scope)
+    if (!resolved) {
+      return NextResponse.json(
+        { error: scope.type === "campaign" ? "Campaign not found" : "Discount batch not found" },
+        { status: 404 },
+      )
+    }
+    if (resolved.items.length === 0) {
+      return NextResponse.json({ error: `Nothing to roll back for ${resolved.label}` }, { status: 400 })
+    }
+
+    if (dryRun) {
+      return NextResponse.json({ dryRun: true, label: resolved.label, total: resolved.items.length, items: resolved.items })
+    }
+
+    const job = await createRollbackJob(auth, scope, resolved)
+    await completeApproval(approvalId, true, `Started rollback job ${job.id}`)
+    return NextResponse.json({ success: true, job })
+  } catch (error) {
+    await completeApproval(approvalId, false, error instanceof Error ? error.message : "Unknown error")
+    console.error("Rollback job create error:", error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to start rollback" },
+      { status: 500 },
+    )
+  }
+}, "prices:edit")
@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server"
+import { rotateUserStoreSecrets } from "@/lib/store-credentials"
+import { withUserAuth } from "@/lib/api-auth"
+
+// Re-wrap the signed-in user's store secrets with the active STORE_ENCRYPTION_KEYS entry.
+// Run after adding a new key at the front of the list, before removing the old one.
+export const POST = withUserAuth(async (request, context, { uid }) => {
+  try {
+    const { total, rotated } = await rotateUserStoreSecrets(uid)
+
+    return NextResponse.json({
+      success: true,
+      total,
+      rotated,
+      message: `Rotated secrets for ${rotated} of ${total} stores`,
+    })
+  } catch (error) {
+    console.error("Store secret rotation error:", error)
+    return NextResponse.json(
+      { error: "Failed to rotate store secrets", details: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 },
+    )
+  }
+})
@@ -1,30 +1,17 @@
-import { type NextRequest, NextResponse } from "next/server"
+import { NextResponse } from "next/server"
+import { shopifyRestFetch } from "@/lib/shopify"
+import { withStoreAuth } from "@/lib/api-auth"
 
-export async function GET(request: NextRequest) {
+export const GET = withStoreAuth(async () => {
   try {
-    const shopDomain = process.env.SHOPIFY_STORE_DOMAIN
-    const accessToken = process.env.SHOPIFY_ADMIN_ACCESS_TOKEN
+    const response = await shopifyRestFetch("shop.json")
 
-    if (!shopDomain || !accessToken) {
-      return NextResponse.json({ error: "Missing Shopify configuration" }, { status: 500 })
+    if (response.status !== 200) {
+      console.error("Shopify API error:", response.status, response.error)
+      return NextResponse.json({ error: "Failed to fetch shop info", details: response.error }, { status: response.status })
     }
 
-    const shopUrl = `https://${shopDomain}/admin/api/2023-10/shop.json`
-
-    const response = await fetch(shopUrl, {
-      headers: {
-        "X-Shopify-Access-Token": accessToken,
-        "Content-Type": "application/json",
-      },
-    })
-
-    if (!response.ok) {
-      const errorText = await response.text()
-      console.error("Shopify API error:", response.status, errorText)
-      return NextResponse.json({ error: "Failed to fetch shop info", details: errorText }, { status: response.status })
-    }
-
-    const data = await response.json()
+    const data = response.body
 
     return NextResponse.json({
       shop: {
@@ -43,4 +30,4 @@ export async function GET(request: NextRequest) {
       { status: 500 },
     )
   }
-}
+})
@@ -0,0 +1,91 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { shopifyRestFetch, withShopifyStore, type ShopifyConfig } from "@/lib/shopify"
+import {
+  OAUTH_STATE_COOKIE,
+  exchangeCodeForToken,
+  getAppCredentials,
+  isValidShopDomain,
+  verifyOAuthHmac,
+  type OAuthState,
+} from "@/lib/shopify-oauth"
+import { registerWebhooks } from "@/lib/shopify-webhooks"
+import { saveUserStore } from "@/lib/store-credentials"
+
+// Shopify redirects here after the merchant approves the requested scopes
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl
+  const appUrl = process.env.SHOPIFY_APP_URL || request.nextUrl.origin
+  const fail = (error: string) => {
+    const response = NextResponse.redirect(`${appUrl}/AddStore?error=${encodeURIComponent(error)}`)
+    response.cookies.delete({ name: OAUTH_STATE_COOKIE, path: "/api/shopify" })
+    return response
+  }
+
+  try {
+    const shop = searchParams.get("shop")
+    const code = searchParams.get("code")
+    const { apiKey, apiSecret } = getAppCredentials()
+
+    if (!verifyOAuthHmac(searchParams, apiSecret)) {
+      return fail("Invalid HMAC signature")
+    }
+
+    if (!isValidShopDomain(shop) || !code) {
+      return fail("Missing shop or authorization code")
+    }
+
+    let state: OAuthState | null = null
+    try {
+      state = JSON.parse(request.cookies.get(OAUTH_STATE_COOKIE)?.value || "null")
+    } catch {
+      state = null
+    }
+
+    if (!state || state.nonce !== searchParams.get("state") || state.shop !== shop) {
+      return fail("Install session expired or state mismatch. Please try again.")
+    }
+
+    const tokenResponse = await exchangeCodeForToken(shop, code)
+    if (tokenResponse.status !== 200 || !tokenResponse.body) {
+      return fail(tokenResponse.error || "Failed to obtain access token")
+    }
+
+    const config: ShopifyConfig = {
+      storeDomain: shop,
+      adminAccessToken: tokenResponse.body.accessToken,
+      apiKey,
+      apiSecret,
+    }
+
+    // Use the new token right away for the store name and the webhook subscriptions
+    const { storeName, webhooksFailed } = await withShopifyStore(config, async () => {
+      const shopResponse = await shopifyRestFetch("shop.json")
+
+      const webhooksFailed = await registerWebhooks(appUrl)
+
+      return { storeName: shopResponse.status === 200 ? shopResponse.body.shop.name : shop, webhooksFailed }
+    })
+
+    const saveError = await saveUserStore(state.userId, state.storeId, {
+      SHOPIFY_STORE_NAME: storeName,
+      SHOPIFY_API_KEY: apiKey,
+      SHOPIFY_API_SECRET: apiSecret,
+      SHOPIFY_STORE_URL: `https://${shop}`,
+      SHOPIFY_ADMIN_SESSION: tokenResponse.body.accessToken,
+      createdAt: new Date().toISOString(),
+      installMethod: "oauth",
+      scopes: tokenResponse.body.scope,
+      ...(webhooksFailed.length === 0 ? { webhooksRegisteredAt: new Date().toISOString() } : {}),
+    })
+    if (saveError) {
+      return fail(saveError)
+    }
+
+    const response = NextResponse.redirect(`${appUrl}/AddStore?installed=${encodeURIComponent(state.storeId)}`)
+    response.cookies.delete({ name: OAUTH_STATE_COOKIE, path: "/api/shopify" })
+    return response
+  } catch (error) {
+    console.error("Shopify OAuth callback error:", error)
+    return fail("Failed to complete Shopify install")
+  }
+}
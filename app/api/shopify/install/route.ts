@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server"
+import {
+  OAUTH_STATE_COOKIE,
+  buildAuthorizeUrl,
+  createNonce,
+  getAppCredentials,
+  isValidShopDomain,
+  type OAuthState,
+} from "@/lib/shopify-oauth"
+import { withUserAuth } from "@/lib/api-auth"
+
+// Start the Shopify app install: /api/shopify/install?shop=my-store.myshopify.com&storeId=my-store
+export const GET = withUserAuth(async (request, context, { uid: userId }) => {
+  const shop = request.nextUrl.searchParams.get("shop")?.trim().toLowerCase() || null
+  const storeId = request.nextUrl.searchParams.get("storeId")?.trim() || shop?.replace(".myshopify.com", "") || ""
+
+  if (!isValidShopDomain(shop)) {
+    return NextResponse.json({ error: "A valid *.myshopify.com shop domain is required" }, { status: 400 })
+  }
+
+  if (!getAppCredentials().apiKey) {
+    console.error("Missing SHOPIFY_API_KEY for OAuth install")
+    return NextResponse.json({ error: "Shopify app is not configured" }, { status: 500 })
+  }
+
+  const appUrl = process.env.SHOPIFY_APP_URL || request.nextUrl.origin
+  const state: OAuthState = { nonce: createNonce(), shop, userId, storeId }
+
+  const response = NextResponse.redirect(buildAuthorizeUrl(shop, state.nonce, `${appUrl}/api/shopify/callback`))
+  response.cookies.set(OAUTH_STATE_COOKIE, JSON.stringify(state), {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax",
+    path: "/api/shopify",
+    maxAge: 10 * 60,
+  })
+  return response
+})
@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server"
+import { getAppCredentials, verifyWebhookHmac } from "@/lib/shopify-oauth"
+import { markStoreUninstalled } from "@/lib/store-credentials"
+
+// app/uninstalled webhook for stores installed before all topics moved to /api/webhooks/shopify
+export async function POST(request: Request) {
+  try {
+    const rawBody = await request.text()
+    const shopDomain = request.headers.get("x-shopify-shop-domain")
+
+    if (!verifyWebhookHmac(rawBody, request.headers.get("x-shopify-hmac-sha256"), getAppCredentials().apiSecret)) {
+      return NextResponse.json({ error: "Invalid webhook signature" }, { status: 401 })
+    }
+
+    if (!shopDomain) {
+      return NextResponse.json({ error: "Missing shop domain" }, { status: 400 })
+    }
+
+    const owner = await markStoreUninstalled(shopDomain)
+    console.log("App uninstalled:", { shopDomain, matchedStore: !!owner })
+
+    // Always acknowledge so Shopify doesn't retry for unknown shops
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error("Uninstall webhook error:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -1,13 +1,25 @@
 import { db } from "../../../db/db";
 import { doc, setDoc, collection, getDocs, updateDoc, getDoc } from "firebase/firestore";
 import { NextResponse } from 'next/server';
+import {
+  claimShop,
+  findStoreByShop,
+  getUserStores,
+  saveUserStore,
+  storeRecordToConfig,
+  toStoreSummary,
+} from "../../../lib/store-credentials";
+import { shopifyRestFetch, withShopifyStore } from "../../../lib/shopify";
+import { withUserAuth } from "../../../lib/api-auth";
+import { ensureWebhooks } from "../../../lib/shopify-webhooks";
+import { getSharedStores, toStoreKey } from "../../../lib/store-team";
 
 
-export async function POST(request) {
+// Stores are always saved under the verified caller - a userId in the body is ignored
+export const POST = withUserAuth(async (request, context, { uid: userId }) => {
     try {
       const body = await request.json();
       const {
-        userId,
         storeId,
         SHOPIFY_STORE_NAME,
         SHOPIFY_API_KEY,
@@ -16,8 +28,8 @@ export async function POST(request) {
         SHOPIFY_ADMIN_SESSION,
       } = body;
   
-      if (!userId || !storeId) {
-        return NextResponse.json({ error: 'Missing userId or storeId' }, { status: 400 });
+      if (!storeId) {
+        return NextResponse.json({ error: 'Missing storeId' }, { status: 400 });
       }
   
       const userRef = doc(db, 'users', userId);
@@ -34,12 +46,23 @@ export async function POST(request) {
         SHOPIFY_STORE_URL,
         SHOPIFY_ADMIN_SESSION,
         createdAt: new Date().toISOString(),
+        installMethod: "manual",
       };
   
+      // The token must work against the shop before the store can claim its domain (see claimShop)
+      const shopResponse = await withShopifyStore(storeRecordToConfig(storeData), () => shopifyRestFetch("shop.json"));
+      if (shopResponse.status !== 200) {
+        return NextResponse.json({ error: 'Could not connect to the shop with this access token' }, { status: 400 });
+      }
+
       // Update the `stores.storeId` field inside user document
-      await updateDoc(userRef, {
-        [`stores.${storeId}`]: storeData
-      });
+      const saveError = await saveUserStore(userId, storeId, storeData);
+      if (saveError) {
+        return NextResponse.json({ error: saveError }, { status: 409 });
+      }
+
+      // OAuth installs subscribe in the callback; token-connected stores do it here
+      await ensureWebhooks(userId, storeId, storeData, getAppUrl(request));
   
       return NextResponse.json({ success: true, message: 'Store added under user' }, { status: 200 });
   
@@ -47,24 +70,62 @@ export async function POST(request) {
       console.error('Error adding store to user:', error);
       return NextResponse.json({ error: 'Failed to add store to user' }, { status: 500 });
     }
-  }
+  });
 
 
-export async function GET(request) {
-    // Extract 'userId' from the query string
-    const userId = request.nextUrl.searchParams.get('userId');
-    if (!userId) {
-      // Missing parameter: return 400 Bad Request with JSON error
-      return NextResponse.json({ error: "Missing userId" }, { status: 400 });
-    }
+// Lists the verified caller's own stores
+export const GET = withUserAuth(async (request, context, { uid: userId }) => {
     try {
-      // Fetch Firestore documents
-      const storeSnap = await getDocs(collection(db, "users", userId, "stores"));
-      const stores = storeSnap.docs.map(doc => ({ id: doc.id, ...doc.data() }));
-      // Return the stores data as JSON
+      // Stores live in the `stores` map on the user document (see POST above)
+      const storeMap = await getUserStores(userId);
+      const appUrl = getAppUrl(request);
+      const ownStores = await Promise.all(
+        Object.entries(storeMap).map(async ([id, record]) =>
+          toStoreSummary(id, record, await checkStoreHealth(record, userId, id, appUrl))
+        )
+      );
+      // Plus stores other users have shared with this user, keyed "ownerId/storeId"
+      const sharedStores = await Promise.all(
+        (await getSharedStores(userId)).map(async ({ ownerId, storeId, role }) => {
+          const record = (await getUserStores(ownerId))[storeId];
+          if (!record) return null;
+          const health = await checkStoreHealth(record, ownerId, storeId, appUrl);
+          return toStoreSummary(toStoreKey(userId, ownerId, storeId), record, health, role);
+        })
+      );
+      const stores = [...ownStores, ...sharedStores.filter(Boolean)];
+      // Return masked store metadata only - secrets never leave the server
       return NextResponse.json(stores, { status: 200 });
     } catch (err) {
       // Error case: return 500 Internal Server Error
       return NextResponse.json({ error: "Failed to fetch stores" }, { status: 500 });
     }
-  }
\ No newline at end of file
+  });
+
+function getAppUrl(request) {
+    return process.env.SHOPIFY_APP_URL || request.nextUrl.origin;
+}
+
+// Ping shop.json with the store's own token to report connection health; connected stores that were
+// never subscribed to webhooks are subscribed now
+async function checkStoreHealth(record, ownerId, storeId, appUrl) {
+    if (record.uninstalledAt || !record.SHOPIFY_ADMIN_SESSION) {
+      return "uninstalled";
+    }
+    try {
+      const response = await withShopifyStore(storeRecordToConfig(record), () => shopifyRestFetch("shop.json"));
+      if (response.status === 200) {
+        // Stores added before domains were claimed get theirs once the token is shown to work
+        const shopMapping = await findStoreByShop(record.SHOPIFY_STORE_URL);
+        if (!shopMapping?.verifiedAt) {
+          await claimShop(ownerId, storeId, record.SHOPIFY_STORE_URL, record.installMethod ?? "manual");
+        }
+        await ensureWebhooks(ownerId, storeId, record, appUrl);
+        return "connected";
+      }
+      return /status: 40[13]/.test(response.error || "") ? "unauthorized" : "error";
+    } catch (error) {
+      console.error('Store health check failed:', error);
+      return "error";
+    }
+  }
@@ -0,0 +1,100 @@
+import { NextResponse } from "next/server"
+import { withStoreAuth } from "@/lib/api-auth"
+import { isMemberRole } from "@/lib/roles"
+import {
+  addTeamMember,
+  getStoreTeam,
+  removeTeamMember,
+  updateApprovalPolicy,
+  updateTeamMemberRole,
+} from "@/lib/store-team"
+
+// Team members, the caller's role and the approval policy for the selected store
+export const GET = withStoreAuth(async (request, context, auth) => {
+  try {
+    const team = await getStoreTeam(auth.ownerId, auth.storeId)
+    return NextResponse.json({
+      role: auth.role,
+      ownerId: auth.ownerId,
+      members: Object.values(team.members),
+      approvalPolicy: team.approvalPolicy,
+    })
+  } catch (error) {
+    console.error("Failed to load store team:", error)
+    return NextResponse.json({ error: "Failed to load team" }, { status: 500 })
+  }
+})
+
+// Add a member by email: { email, role }
+export const POST = withStoreAuth(async (request, context, auth) => {
+  try {
+    const { email, role } = await request.json()
+
+    if (!email || !isMemberRole(role)) {
+      return NextResponse.json(
+        { error: "A member email and a role (pricing manager, content editor or viewer) are required" },
+        { status: 400 },
+      )
+    }
+
+    const member = await addTeamMember(auth.ownerId, auth.storeId, email, role, auth.uid)
+    return NextResponse.json({ success: true, member })
+  } catch (error) {
+    console.error("Failed to add team member:", error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to add team member" },
+      { status: 400 },
+    )
+  }
+}, "team:manage")
+
+// Change a member's role ({ uid, role }) or the approval policy ({ approvalPolicy })
+export const PATCH = withStoreAuth(async (request, context, auth) => {
+  try {
+    const { uid, role, approvalPolicy } = await request.json()
+
+    if (approvalPolicy) {
+      const threshold = approvalPolicy.priceChangeThresholdPercent
+      if (threshold !== null && (typeof threshold !== "number" || threshold < 0)) {
+        return NextResponse.json({ error: "Price change threshold must be a positive percentage" }, { status: 400 })
+      }
+      await updateApprovalPolicy(auth.ownerId, auth.storeId, {
+        priceChangeThresholdPercent: threshold,
+        requireBulkDeleteApproval: !!approvalPolicy.requireBulkDeleteApproval,
+      })
+      return NextResponse.json({ success: true })
+    }
+
+    if (!uid || !isMemberRole(role)) {
+      return NextResponse.json(
+        { error: "A member uid and a role (pricing manager, content editor or viewer) are required" },
+        { status: 400 },
+      )
+    }
+
+    await updateTeamMemberRole(auth.ownerId, auth.storeId, uid, role)
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error("Failed to update team:", error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to update team" },
+      { status: 400 },
+    )
+  }
+}, "team:manage")
+
+export const DELETE = withStoreAuth(async (request, context, auth) => {
+  try {
+    const uid = request.nextUrl.searchParams.get("uid")
+
+    if (!uid) {
+      return NextResponse.json({ error: "Member uid is required" }, { status: 400 })
+    }
+
+    await removeTeamMember(auth.ownerId, auth.storeId, uid)
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error("Failed to remove team member:", error)
+    return NextResponse.json({ error: "Failed to remove team member" }, { status: 500 })
+  }
+}, "team:manage")
@@ -1,7 +1,8 @@
 import { NextResponse } from "next/server"
 import { uploadProductImage, uploadProductImageStaged } from "@/lib/shopify"
+import { withStoreAuth } from "@/lib/api-auth"
 
-export async function POST(request: Request) {
+export const POST = withStoreAuth(async (request) => {
   try {
     const formData = await request.formData()
     const file = formData.get("file") as File
@@ -72,4 +73,4 @@ export async function POST(request: Request) {
       { status: 500 },
     )
   }
-}
+}, "products:edit")
@@ -0,0 +1,90 @@
+import { NextResponse } from "next/server"
+import { getInventoryItemProductId, withShopifyStore } from "@/lib/shopify"
+import { recordExternalChanges } from "@/lib/external-changes"
+import { applyCollectionUpdate, applyProductDelete, refreshCachedProduct } from "@/lib/product-cache"
+import { isWebhookTopic, verifyWebhookStore, type WebhookStore } from "@/lib/shopify-webhooks"
+import { markStoreUninstalled } from "@/lib/store-credentials"
+
+// Shopify webhook receiver: keeps the product cache current and records changes made outside the app.
+// Handlers are idempotent (they compare against the cache), so Shopify's redeliveries are harmless.
+export async function POST(request: Request) {
+  const topic = request.headers.get("x-shopify-topic")
+  const shopDomain = request.headers.get("x-shopify-shop-domain")
+
+  try {
+    const rawBody = await request.text()
+
+    if (!shopDomain) {
+      return NextResponse.json({ error: "Missing shop domain" }, { status: 400 })
+    }
+
+    const store = await verifyWebhookStore(shopDomain, rawBody, request.headers.get("x-shopify-hmac-sha256"))
+    if (!store) {
+      return NextResponse.json({ error: "Invalid webhook signature" }, { status: 401 })
+    }
+
+    // Acknowledge topics we don't handle so Shopify doesn't retry them
+    if (!isWebhookTopic(topic)) {
+      console.log("Ignoring webhook topic:", topic)
+      return NextResponse.json({ success: true })
+    }
+
+    console.log("Shopify webhook:", { topic, shopDomain: store.storeDomain, matchedStore: !!store.owner })
+    await handleWebhook(topic, store, JSON.parse(rawBody))
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    // A 500 makes Shopify redeliver later
+    console.error(`Webhook ${topic} error:`, error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
+
+async function handleWebhook(topic: string, store: WebhookStore, payload: any) {
+  const { storeDomain, config } = store
+
+  switch (topic) {
+    case "products/update":
+      if (!config) return
+      await withShopifyStore(config, () => refreshCachedProduct(`gid://shopify/Product/${payload.id}`))
+      return
+
+    case "inventory_levels/update":
+      // Inventory moves with every sale, so it only refreshes the cache (no external change entry
+      // unless prices differ too)
+      if (!config) return
+      await withShopifyStore(config, async () => {
+        const productId = await getInventoryItemProductId(`gid://shopify/InventoryItem/${payload.inventory_item_id}`)
+        if (productId) {
+          await refreshCachedProduct(productId)
+        }
+      })
+      return
+
+    case "products/delete":
+      await applyProductDelete(storeDomain, `gid://shopify/Product/${payload.id}`)
+      return
+
+    case "collections/update":
+      await applyCollectionUpdate(storeDomain, {
+        id: `gid://shopify/Collection/${payload.id}`,
+        title: payload.title || "",
+        handle: payload.handle || "",
+      })
+      return
+
+    case "app/uninstalled": {
+      const owner = await markStoreUninstalled(storeDomain)
+      if (owner) {
+        await recordExternalChanges(storeDomain, [
+          {
+            kind: "app_uninstalled",
+            source: "webhook",
+            description: `App uninstalled from ${storeDomain}; reconnect the store to keep managing it`,
+          },
+        ])
+      }
+      return
+    }
+  }
+}
@@ -14,6 +14,8 @@ import {
   TrendingDown,
   Percent,
   Loader2,
+  Flag,
+  RotateCcw,
 } from "lucide-react"
 import Image from "next/image"
 import Link from "next/link"
@@ -21,6 +23,9 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Input } from "@/components/ui/input"
 import { Badge } from "@/components/ui/badge"
 import { BulkDiscountSystem } from "@/components/bulk-discount-system"
+import { CampaignsView } from "@/components/campaigns-view"
+import { RollbackJobsView } from "@/components/rollback-jobs-view"
+import { useStore } from "@/contexts/StoreContext"
 
 interface Product {
   id: string
@@ -75,6 +80,10 @@ export default function BulkDiscountPage() {
   const [connectionStatus, setConnectionStatus] = useState<"checking" | "connected" | "error">("checking")
   const [storeInfo, setStoreInfo] = useState<any>(null)
   const [errorDetails, setErrorDetails] = useState<string>("")
+  const [campaignsRefreshKey, setCampaignsRefreshKey] = useState(0)
+  const [productsRefreshKey, setProductsRefreshKey] = useState(0) // Bumped when a campaign changes prices
+  const [rollbackJobsRefreshKey, setRollbackJobsRefreshKey] = useState(0) // Bumped when new discount batches exist
+  const { can } = useStore()
 
   // Optimized search with debouncing
   const [debouncedSearchTerm, setDebouncedSearchTerm] = useState("")
@@ -269,10 +278,11 @@ export default function BulkDiscountPage() {
     }
 
     fetchData()
-  }, [])
+  }, [productsRefreshKey])
 
   const handleProductsUpdate = useCallback((updatedProducts: Product[]) => {
     setProducts(updatedProducts)
+    setRollbackJobsRefreshKey((key) => key + 1)
   }, [])
 
   const getStatusIcon = () => {
@@ -448,11 +458,49 @@ export default function BulkDiscountPage() {
                 </div>
               </div>
             ) : (
-              <BulkDiscountSystem products={products} onProductsUpdate={handleProductsUpdate} />
+              <BulkDiscountSystem
+                products={products}
+                onProductsUpdate={handleProductsUpdate}
+                onCampaignsChanged={() => setCampaignsRefreshKey((key) => key + 1)}
+              />
             )}
           </CardContent>
         </Card>
 
+        {/* Campaigns */}
+        <Card className="mb-8">
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <Flag className="w-5 h-5 mr-2 text-purple-600" />
+              Campaigns
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <CampaignsView
+              refreshKey={campaignsRefreshKey}
+              canEdit={can("prices:edit")}
+              onPricesChanged={() => setProductsRefreshKey((key) => key + 1)}
+            />
+          </CardContent>
+        </Card>
+
+        {/* Rollback Jobs */}
+        <Card className="mb-8">
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <RotateCcw className="w-5 h-5 mr-2 text-purple-600" />
+              Rollback Jobs
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <RollbackJobsView
+              refreshKey={campaignsRefreshKey + rollbackJobsRefreshKey}
+              canEdit={can("prices:edit")}
+              onPricesChanged={() => setProductsRefreshKey((key) => key + 1)}
+            />
+          </CardContent>
+        </Card>
+
         {/* Product Preview */}
         <Card>
           <CardHeader>
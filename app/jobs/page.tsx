@@ -0,0 +1,48 @@
+"use client"
+
+import { ArrowLeft, ListChecks } from "lucide-react"
+import Link from "next/link"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { JobsView } from "@/components/jobs-view"
+
+export default function JobsPage() {
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white border-b border-gray-200 px-6 py-4">
+        <div className="flex items-center space-x-4">
+          <Link href="/admin" className="flex items-center space-x-2 text-gray-600 hover:text-gray-900">
+            <ArrowLeft className="w-5 h-5" />
+            <span>Back to Dashboard</span>
+          </Link>
+          <div className="h-6 w-px bg-gray-300"></div>
+          <Link href="/landing" className="flex items-center space-x-3 hover:opacity-80 transition-opacity">
+            <div className="w-8 h-8 bg-gradient-to-r from-blue-600 to-purple-600 rounded-lg flex items-center justify-center shadow-lg">
+              <ListChecks className="w-5 h-5 text-white" />
+            </div>
+            <div>
+              <span className="text-lg font-bold text-gray-900">RankOptim</span>
+              <div className="text-xs text-gray-500">Background Jobs</div>
+            </div>
+          </Link>
+        </div>
+      </header>
+
+      <div className="p-6">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Background Jobs</h1>
+          <p className="text-gray-600">Running and past bulk operations for this store, with per-item results</p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Jobs</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <JobsView />
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
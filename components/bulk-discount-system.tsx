@@ -17,6 +17,7 @@ import {
   Tag,
   AlertTriangle,
   RefreshCw,
+  Save,
 } from "lucide-react"
 import Image from "next/image"
 
@@ -28,10 +29,26 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Checkbox } from "@/components/ui/checkbox"
 import { Label } from "@/components/ui/label"
 import { Alert, AlertDescription } from "@/components/ui/alert"
+import { useStore } from "@/contexts/StoreContext"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger, DialogClose } from "@/components/ui/dialog"
 import { ScrollArea } from "@/components/ui/scroll-area"
 import { createBulkHistoryEntry } from "@/lib/universal-history"
+import { UpcomingDiscounts } from "@/components/upcoming-discounts"
+import { DEFAULT_TIERED_RULES, DiscountRulesEditor } from "@/components/discount-rules-editor"
+import {
+  DISCOUNT_MODES,
+  describeDiscount,
+  describeRule,
+  describeRules,
+  findMatchingRule,
+  validateRules,
+  type DiscountMode,
+  type DiscountRule,
+} from "@/lib/discount-modes"
+import { calculateDiscountedPrices, effectiveDiscountPercent } from "@/lib/pricing"
+import type { ConflictMode, DiscountConflict } from "@/lib/discounts"
+import type { CampaignConflictMode } from "@/lib/campaigns"
 
 interface Product {
   id: string
@@ -85,14 +102,23 @@ interface DiscountResult {
   originalPrice: string
   newPrice: string
   compareAtPrice: string
+  ruleIndex?: number
+  ruleLabel?: string
+  blocked?: boolean // Refused by the store's price guardrails
+  clampedFrom?: string
+  skipped?: boolean // Already discounted and left alone (conflict mode "skip")
 }
 
+// Per-variant requests sent in parallel while applying or rolling back discounts
+const CONCURRENT_VARIANT_REQUESTS = 8
+
 interface BulkDiscountSystemProps {
   products: Product[]
   onProductsUpdate?: (updatedProducts: Product[]) => void
+  onCampaignsChanged?: () => void // A campaign was created or scheduled from the panel
 }
 
-export function BulkDiscountSystem({ products, onProductsUpdate }: BulkDiscountSystemProps) {
+export function BulkDiscountSystem({ products, onProductsUpdate, onCampaignsChanged }: BulkDiscountSystemProps) {
   // Search and filter states
   const [searchTerm, setSearchTerm] = useState("")
   const [debouncedSearchTerm, setDebouncedSearchTerm] = useState("")
@@ -104,14 +130,27 @@ export function BulkDiscountSystem({ products, onProductsUpdate }: BulkDiscountS
   const [isTagDialogOpen, setIsTagDialogOpen] = useState(false)
 
   // Discount settings
-  const [discountPercentage, setDiscountPercentage] = useState<number>(10)
+  const [discountMode, setDiscountMode] = useState<DiscountMode>("percentage")
+  const [discountValue, setDiscountValue] = useState<number>(10) // percent, amount off or target price
+  const [useTieredRules, setUseTieredRules] = useState(false)
+  const [tieredRules, setTieredRules] = useState<DiscountRule[]>(DEFAULT_TIERED_RULES)
   const [expiryDate, setExpiryDate] = useState("")
+  const [startDate, setStartDate] = useState("") // datetime-local value; empty applies right away
+  const [scheduledRefreshKey, setScheduledRefreshKey] = useState(0)
+  const [campaignName, setCampaignName] = useState("")
+  // What a campaign or scheduled start does with variants already discounted when it launches
+  const [campaignConflictMode, setCampaignConflictMode] = useState<CampaignConflictMode>("skip")
+  const [isSavingCampaign, setIsSavingCampaign] = useState(false)
   const [showDiscountPanel, setShowDiscountPanel] = useState(false)
   const [isPanelCollapsed, setIsPanelCollapsed] = useState(false)
 
   // UI states
   const [isApplying, setIsApplying] = useState(false)
+  // Queue the run as a server job (see /jobs) instead of sending variants from this tab
+  const [runInBackground, setRunInBackground] = useState(false)
   const [results, setResults] = useState<DiscountResult[]>([])
+  // Selected variants that already have a discount, waiting for a replace / skip / stack choice
+  const [pendingConflicts, setPendingConflicts] = useState<DiscountConflict[] | null>(null)
   const [message, setMessage] = useState<{ type: "success" | "error" | "info"; text: string } | null>(null)
   const [isLoadingCollections, setIsLoadingCollections] = useState(true)
   const [isSearching, setIsSearching] = useState(false)
@@ -120,6 +159,10 @@ export function BulkDiscountSystem({ products, onProductsUpdate }: BulkDiscountS
   const [localProducts, setLocalProducts] = useState<Product[]>(products)
   const [collections, setCollections] = useState<Collection[]>([])
 
+  // Discount controls are hidden for roles without pricing access
+  const { can } = useStore()
+  const canEditPrices = can("prices:edit")
+
   // Progress tracking states
   const [isProcessing, setIsProcessing] = useState(false)
   const [processProgress, setProcessProgress] = useState({
@@ -339,9 +382,13 @@ export function BulkDiscountSystem({ products, onProductsUpdate }: BulkDiscountS
     )
   }, [filteredProducts, calculateCurrentDiscount])
 
-  // Get failed results for display
+  // Get failed results for display; guardrail blocks are listed on their own and not retried
   const failedResults = useMemo(() => {
-    return results.filter(result => !result.success)
+    return results.filter(result => !result.success && !result.blocked && !result.skipped)
+  }, [results])
+
+  const blockedResults = useMemo(() => {
+    return results.filter(result => result.blocked)
   }, [results])
 
   // Get successful results for display
@@ -422,42 +469,71 @@ export function BulkDiscountSystem({ products, onProductsUpdate }: BulkDiscountS
     }
   }, [])
 
-  // Calculate preview prices
+  // The request's rule list: the tiered rules, or one rule for the single discount
+  const rules = useMemo<DiscountRule[]>(
+    () =>
+      useTieredRules
+        ? tieredRules
+        : [{ match: { type: "all" }, discount: { mode: discountMode, value: discountValue } }],
+    [useTieredRules, tieredRules, discountMode, discountValue],
+  )
+  const discountLabel = useTieredRules ? "Tiered" : describeDiscount({ mode: discountMode, value: discountValue })
+
+  // Calculate preview prices with the rule each variant would take
   const calculatePreviewPrice = useCallback(
-    (currentPrice: string, compareAtPrice: string | undefined, discount: number) => {
+    (currentPrice: string, compareAtPrice: string | undefined, tags: string[], rules: DiscountRule[]) => {
       const price = Number.parseFloat(currentPrice)
       const comparePrice = compareAtPrice ? Number.parseFloat(compareAtPrice) : null
+      const match = findMatchingRule(rules, { price, tags })
+      if (!match) {
+        return null
+      }
+      const { newPrice, newCompareAtPrice, alreadyDiscounted, error } = calculateDiscountedPrices(
+        price,
+        comparePrice,
+        match.rule.discount,
+      )
 
-      if (comparePrice && comparePrice > price) {
-        // Type 2: Has compare_at_price (already discounted)
-        const newPrice = comparePrice * (1 - discount / 100)
-        return {
-          newPrice: newPrice.toFixed(2),
-          newCompareAtPrice: comparePrice.toFixed(2),
-          type: "Type 2: Already has discount",
-        }
-      } else {
-        // Type 1: No compare_at_price (original price)
-        const newPrice = price * (1 - discount / 100)
-        return {
-          newPrice: newPrice.toFixed(2),
-          newCompareAtPrice: price.toFixed(2),
-          type: "Type 1: Original price",
-        }
+      return {
+        newPrice: newPrice.toFixed(2),
+        newCompareAtPrice: newCompareAtPrice.toFixed(2),
+        // Shopify needs 0 < price < compare_at_price; the API rejects these variants
+        invalid: error !== null,
+        type: alreadyDiscounted ? "Type 2: Already has discount" : "Type 1: Original price",
+        ruleIndex: match.index,
+        ruleLabel: describeRule(match.rule),
       }
     },
     [],
   )
 
+  // Largest change the discount makes to the selection, for the approval check
+  const maxSelectedChangePercent = useMemo(() => {
+    if (rules.every((rule) => rule.discount.mode === "percentage")) {
+      return Math.max(...rules.map((rule) => rule.discount.value))
+    }
+    let max = 0
+    for (const variant of allVariants) {
+      if (!selectedVariants.includes(variant.id)) continue
+      const price = Number.parseFloat(variant.price)
+      const preview = calculatePreviewPrice(variant.price, variant.compareAtPrice, variant.productTags, rules)
+      if (preview && price > 0) {
+        max = Math.max(max, (Math.abs(Number.parseFloat(preview.newPrice) - price) / price) * 100)
+      }
+    }
+    return Math.round(max * 100) / 100
+  }, [rules, allVariants, selectedVariants, calculatePreviewPrice])
+
   // Apply discount function with parallel processing for speed
-const applyDiscount = useCallback(async () => {
+const applyDiscount = useCallback(async (conflictMode?: ConflictMode) => {
   if (selectedVariants.length === 0) {
     setMessage({ type: "error", text: "Please select at least one variant to apply discount." })
     return
   }
 
-  if (discountPercentage <= 0 || discountPercentage >= 100) {
-    setMessage({ type: "error", text: "Please enter a valid discount percentage between 1 and 99." })
+  const rulesError = validateRules(rules)
+  if (rulesError) {
+    setMessage({ type: "error", text: `${rulesError}.` })
     return
   }
 
@@ -466,11 +542,162 @@ const applyDiscount = useCallback(async () => {
     return
   }
 
+  if (startDate) {
+    if (new Date(startDate) <= new Date()) {
+      setMessage({ type: "error", text: "Start date must be in the future." })
+      return
+    }
+    if (expiryDate && new Date(expiryDate) <= new Date(startDate)) {
+      setMessage({ type: "error", text: "Expiry date must be after the start date." })
+      return
+    }
+  }
+
   setIsApplying(true)
   setIsProcessing(true)
   setMessage(null)
   setResults([])
 
+  // A future start is stored as one scheduled campaign for the whole selection
+  if (startDate) {
+    try {
+      const response = await fetch("/api/apply-discount-enhanced", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          variantIds: selectedVariants,
+          rules,
+          conflictMode: campaignConflictMode,
+          startDate: new Date(startDate).toISOString(),
+          expiryDate: expiryDate || null,
+        }),
+      })
+      const data = await response.json()
+
+      if (response.status === 202) {
+        setMessage({ type: "info", text: `⏳ ${data.message}` })
+      } else if (response.ok && data.scheduled) {
+        setMessage({
+          type: "success",
+          text: `🗓️ ${describeRules(rules)} on ${selectedVariants.length} variants scheduled to start ${new Date(
+            data.campaign.startDate,
+          ).toLocaleString()}.`,
+        })
+        setSelectedVariants([])
+        setStartDate("")
+        setScheduledRefreshKey((key) => key + 1)
+        onCampaignsChanged?.()
+      } else {
+        setMessage({ type: "error", text: data.error || "Failed to schedule discount" })
+      }
+    } catch (error) {
+      setMessage({ type: "error", text: "❌ Network error occurred. Please try again." })
+    } finally {
+      setIsApplying(false)
+      setIsProcessing(false)
+    }
+    return
+  }
+
+  // Variants with a live discount or pending revert need an explicit replace / skip / stack choice
+  if (!conflictMode) {
+    try {
+      const conflictResponse = await fetch("/api/discount-conflicts", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ variantIds: selectedVariants }),
+      })
+      const conflictData = await conflictResponse.json()
+      if (!conflictResponse.ok) {
+        throw new Error(conflictData.error || "Failed to check existing discounts")
+      }
+      if (conflictData.conflicts.length > 0) {
+        setPendingConflicts(conflictData.conflicts)
+        setMessage({
+          type: "info",
+          text: `${conflictData.conflicts.length} selected variants already have a discount. Choose how to handle them below.`,
+        })
+        setIsApplying(false)
+        setIsProcessing(false)
+        return
+      }
+    } catch (error) {
+      setMessage({ type: "error", text: error instanceof Error ? error.message : "Failed to check existing discounts" })
+      setIsApplying(false)
+      setIsProcessing(false)
+      return
+    }
+  }
+  setPendingConflicts(null)
+
+  // Discounts above the store's approval threshold are submitted once, for the whole selection
+  try {
+    const checkResponse = await fetch("/api/approvals/check", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ action: "price_change", changePercent: maxSelectedChangePercent }),
+    })
+    const check = await checkResponse.json()
+
+    if (check.required) {
+      const response = await fetch("/api/apply-discount-enhanced", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          variantIds: selectedVariants,
+          rules,
+          expiryDate: expiryDate || null,
+          conflictMode,
+          background: runInBackground,
+        }),
+      })
+      const data = await response.json()
+      setMessage(
+        response.status === 202
+          ? { type: "info", text: `⏳ ${data.message}` }
+          : { type: "error", text: data.error || "Failed to submit discount for approval" },
+      )
+      setIsApplying(false)
+      setIsProcessing(false)
+      return
+    }
+  } catch (error) {
+    console.error("Approval check failed:", error)
+  }
+
+  // One request queues the whole selection; the server works through it even if this tab is closed
+  if (runInBackground) {
+    try {
+      const response = await fetch("/api/apply-discount-enhanced", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          variantIds: selectedVariants,
+          rules,
+          expiryDate: expiryDate || null,
+          conflictMode,
+          background: true,
+        }),
+      })
+      const data = await response.json()
+      if (response.ok && data.queued) {
+        setMessage({
+          type: "success",
+          text: `📋 Queued ${describeRules(rules)} on ${data.job.total} variants as a background job. Follow it on the Background Jobs page (/jobs).`,
+        })
+        setSelectedVariants([])
+      } else {
+        setMessage({ type: "error", text: data.error || "Failed to queue discount" })
+      }
+    } catch (error) {
+      setMessage({ type: "error", text: "❌ Network error occurred. Please try again." })
+    } finally {
+      setIsApplying(false)
+      setIsProcessing(false)
+    }
+    return
+  }
+
   // Initialize progress tracking
   setProcessProgress({
     total: selectedVariants.length,
@@ -484,10 +711,12 @@ const applyDiscount = useCallback(async () => {
   let completed = 0
   let successful = 0
   let failed = 0
+  // Every request of this run records into one discount batch, so the run can be rolled back as a whole
+  const discountBatchId = `batch_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
 
   try {
-    // Process variants in batches of 2 to respect Shopify rate limits
-    const batchSize = 2
+    // The API routes pace Shopify calls per store, so just keep a few requests in flight
+    const batchSize = CONCURRENT_VARIANT_REQUESTS
     const batches = []
     
     for (let i = 0; i < selectedVariants.length; i += batchSize) {
@@ -510,16 +739,18 @@ const applyDiscount = useCallback(async () => {
         const displayName = variant ? `${variant.productTitle} - ${variant.title}` : `Variant`
         
         try {
-          // Process single variant
-          const response = await fetch("/api/apply-discount", {
+          // Process single variant; the enhanced route records history and schedules the expiry
+          const response = await fetch("/api/apply-discount-enhanced", {
             method: "POST",
             headers: {
               "Content-Type": "application/json",
             },
             body: JSON.stringify({
               variantIds: [variantId],
-              discountPercentage: discountPercentage,
+              rules,
               expiryDate: expiryDate || null,
+              conflictMode,
+              batchId: discountBatchId,
             }),
           })
 
@@ -590,11 +821,6 @@ const applyDiscount = useCallback(async () => {
         // Update results in real-time
         setResults([...allResults])
       })
-
-      // Respect Shopify rate-limit: pause 1.1s between batches
-      if (batchIndex < batches.length - 1) {
-        await new Promise(resolve => setTimeout(resolve, 1100))
-      }
     }
 
     // Final completion status
@@ -624,7 +850,11 @@ const applyDiscount = useCallback(async () => {
           newValues: {
             price: result.newPrice,
             compareAtPrice: result.compareAtPrice,
-            discountPercentage: discountPercentage,
+            discountPercentage: effectiveDiscountPercent(
+              Number.parseFloat(result.newPrice),
+              Number.parseFloat(result.compareAtPrice),
+            ),
+            discountRule: result.ruleLabel,
           },
         }
       })
@@ -633,28 +863,36 @@ const applyDiscount = useCallback(async () => {
       createBulkHistoryEntry(
         "bulk_discount",
         "pricing",
-        `Bulk Discount Applied: ${discountPercentage}% off`,
+        `Bulk Discount Applied: ${describeRules(rules)}`,
         affectedItems,
         {
           variantIds: selectedVariants,
-          originalDiscountPercentage: discountPercentage,
+          discountRules: rules,
           expiryDate: expiryDate || null,
         },
       )
     }
 
-    // Set final message
-    if (failed === 0) {
+    // Set final message; variants skipped as already discounted are not failures
+    const skippedCount = allResults.filter((r) => r.skipped).length
+    failed -= skippedCount
+    const batchNote = successful > 0 ? ` Batch ID: ${discountBatchId}` : ""
+    if (skippedCount > 0 && failed === 0) {
       setMessage({
         type: "success",
-        text: `🚀 Successfully applied ${discountPercentage}% discount to all ${successful} variants${
+        text: `🚀 Applied ${describeRules(rules)} to ${successful} variants; skipped ${skippedCount} already discounted.${batchNote}`,
+      })
+    } else if (failed === 0) {
+      setMessage({
+        type: "success",
+        text: `🚀 Successfully applied ${describeRules(rules)} to all ${successful} variants${
           expiryDate ? ` (expires ${new Date(expiryDate).toLocaleDateString()})` : ""
-        }!`,
+        }!${batchNote}`,
       })
     } else if (successful > 0) {
       setMessage({
         type: "info",
-        text: `⚡ Applied discount to ${successful} variants. ${failed} failed - see failed products below for details.`,
+        text: `⚡ Applied discount to ${successful} variants. ${failed} failed - see failed products below for details.${batchNote}`,
       })
     } else {
       setMessage({
@@ -687,7 +925,73 @@ const applyDiscount = useCallback(async () => {
       })
     }, 2000)
   }
-}, [selectedVariants, discountPercentage, expiryDate, allVariants, fetchUpdatedProducts])
+}, [
+  selectedVariants,
+  rules,
+  maxSelectedChangePercent,
+  startDate,
+  expiryDate,
+  allVariants,
+  fetchUpdatedProducts,
+  onCampaignsChanged,
+  runInBackground,
+  campaignConflictMode,
+])
+
+  // Save the selection as a named campaign, to launch later from the campaigns view (or at its start date)
+  const saveCampaign = async () => {
+    if (!campaignName.trim()) {
+      setMessage({ type: "error", text: "Please enter a campaign name." })
+      return
+    }
+    if (selectedVariants.length === 0) {
+      setMessage({ type: "error", text: "Please select at least one variant for the campaign." })
+      return
+    }
+    const rulesError = validateRules(rules)
+    if (rulesError) {
+      setMessage({ type: "error", text: `${rulesError}.` })
+      return
+    }
+
+    setIsSavingCampaign(true)
+    setMessage(null)
+    try {
+      const response = await fetch("/api/campaigns", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: campaignName.trim(),
+          variantIds: selectedVariants,
+          rules,
+          conflictMode: campaignConflictMode,
+          startDate: startDate ? new Date(startDate).toISOString() : null,
+          expiryDate: expiryDate || null,
+        }),
+      })
+      const data = await response.json()
+
+      if (response.status === 202) {
+        setMessage({ type: "info", text: `⏳ ${data.message}` })
+      } else if (response.ok) {
+        setMessage({
+          type: "success",
+          text: `✅ Campaign "${data.campaign.name}" saved as ${data.campaign.status} with ${selectedVariants.length} variants.`,
+        })
+        setCampaignName("")
+        setSelectedVariants([])
+        setStartDate("")
+        setScheduledRefreshKey((key) => key + 1)
+        onCampaignsChanged?.()
+      } else {
+        setMessage({ type: "error", text: data.error || "Failed to save campaign" })
+      }
+    } catch (error) {
+      setMessage({ type: "error", text: "❌ Network error occurred. Please try again." })
+    } finally {
+      setIsSavingCampaign(false)
+    }
+  }
 
   // ---------- place this AFTER the applyDiscount definition ----------
   const retryFailedItems = useCallback(() => {
@@ -732,8 +1036,8 @@ const applyDiscount = useCallback(async () => {
     let failed = 0
 
     try {
-      // Process variants in batches of 2 to respect Shopify rate limits
-      const batchSize = 2
+      // The API routes pace Shopify calls per store, so just keep a few requests in flight
+      const batchSize = CONCURRENT_VARIANT_REQUESTS
       const batches = []
       
       for (let i = 0; i < selectedVariants.length; i += batchSize) {
@@ -793,11 +1097,6 @@ const applyDiscount = useCallback(async () => {
             current: `✅ Rolled back: ${displayName}`,
           })
         })
-
-        // Pause 1.1s after each batch to stay under 2 req/s
-        if (batchIndex < batches.length - 1) {
-          await new Promise(resolve => setTimeout(resolve, 1100))
-        }
       }
 
       // Final completion status
@@ -1029,7 +1328,7 @@ const applyDiscount = useCallback(async () => {
         )}
 
       {/* Sticky Discount Panel - Top Right */}
-      {showDiscountPanel && (
+      {showDiscountPanel && canEditPrices && (
         <div className="fixed top-4 right-4 z-50 w-80 bg-white border border-gray-200 rounded-lg shadow-lg">
           <div className="bg-blue-600 text-white p-3 rounded-t-lg flex items-center justify-between">
             <div className="flex items-center">
@@ -1068,17 +1367,97 @@ const applyDiscount = useCallback(async () => {
               {/* Discount Settings */}
               <div className="space-y-3">
                 <div>
-                  <Label htmlFor="panel-discount" className="text-sm font-medium">
-                    Discount %
+                  <Label htmlFor="panel-campaign-name" className="text-sm font-medium">
+                    Campaign Name (optional)
                   </Label>
                   <Input
-                    id="panel-discount"
-                    type="number"
-                    min="1"
-                    max="99"
-                    value={discountPercentage}
-                    onChange={(e) => setDiscountPercentage(Number(e.target.value))}
-                    placeholder="Enter %"
+                    id="panel-campaign-name"
+                    value={campaignName}
+                    onChange={(e) => setCampaignName(e.target.value)}
+                    placeholder="e.g. Summer Sale"
+                    className="mt-1"
+                  />
+                </div>
+
+                <div>
+                  <Label htmlFor="panel-campaign-conflicts" className="text-sm font-medium">
+                    Already Discounted Variants (campaigns)
+                  </Label>
+                  <Select
+                    value={campaignConflictMode}
+                    onValueChange={(value) => setCampaignConflictMode(value as CampaignConflictMode)}
+                  >
+                    <SelectTrigger id="panel-campaign-conflicts" className="mt-1">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="skip">Skip them at launch</SelectItem>
+                      <SelectItem value="stack">Stack on their current sale price</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="panel-tiered"
+                    checked={useTieredRules}
+                    onCheckedChange={(checked) => setUseTieredRules(checked as boolean)}
+                  />
+                  <Label htmlFor="panel-tiered" className="text-sm font-medium">
+                    Tiered rules (by price band or tag)
+                  </Label>
+                </div>
+
+                {useTieredRules ? (
+                  <DiscountRulesEditor rules={tieredRules} onChange={setTieredRules} availableTags={availableTags} />
+                ) : (
+                  <>
+                    <div>
+                      <Label htmlFor="panel-discount-mode" className="text-sm font-medium">
+                        Discount Type
+                      </Label>
+                      <Select value={discountMode} onValueChange={(value) => setDiscountMode(value as DiscountMode)}>
+                        <SelectTrigger id="panel-discount-mode" className="mt-1">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {DISCOUNT_MODES.map((mode) => (
+                            <SelectItem key={mode.value} value={mode.value}>
+                              {mode.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+
+                    <div>
+                      <Label htmlFor="panel-discount" className="text-sm font-medium">
+                        {discountMode === "percentage" ? "Discount %" : discountMode === "fixed_amount" ? "Amount Off (₹)" : "Sale Price (₹)"}
+                      </Label>
+                      <Input
+                        id="panel-discount"
+                        type="number"
+                        min={discountMode === "percentage" ? "1" : "0.01"}
+                        max={discountMode === "percentage" ? "99" : undefined}
+                        step={discountMode === "percentage" ? "1" : "0.01"}
+                        value={discountValue}
+                        onChange={(e) => setDiscountValue(Number(e.target.value))}
+                        placeholder={discountMode === "percentage" ? "Enter %" : "Enter amount"}
+                        className="mt-1"
+                      />
+                    </div>
+                  </>
+                )}
+
+                <div>
+                  <Label htmlFor="panel-start" className="text-sm font-medium">
+                    Start (optional)
+                  </Label>
+                  <Input
+                    id="panel-start"
+                    type="datetime-local"
+                    value={startDate}
+                    onChange={(e) => setStartDate(e.target.value)}
                     className="mt-1"
                   />
                 </div>
@@ -1098,10 +1477,23 @@ const applyDiscount = useCallback(async () => {
                 </div>
               </div>
 
+              {!startDate && (
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="panel-background"
+                    checked={runInBackground}
+                    onCheckedChange={(checked) => setRunInBackground(checked as boolean)}
+                  />
+                  <Label htmlFor="panel-background" className="text-sm font-medium">
+                    Run in background (keeps going if this tab is closed)
+                  </Label>
+                </div>
+              )}
+
               {/* Action Buttons */}
               <div className="space-y-2">
                 <Button
-                  onClick={applyDiscount}
+                  onClick={() => applyDiscount()}
                   disabled={isApplying || selectedVariants.length === 0 || isProcessing}
                   className="w-full bg-green-600 hover:bg-green-700"
                   size="sm"
@@ -1119,11 +1511,22 @@ const applyDiscount = useCallback(async () => {
                   ) : (
                     <>
                       <Calendar className="w-4 h-4 mr-2" />
-                      Apply {discountPercentage}% Discount
+                      {startDate ? "Schedule" : "Apply"} {discountLabel} Discount
                     </>
                   )}
                 </Button>
 
+                <Button
+                  onClick={saveCampaign}
+                  disabled={isSavingCampaign || isApplying || selectedVariants.length === 0 || !campaignName.trim()}
+                  variant="outline"
+                  className="w-full bg-transparent"
+                  size="sm"
+                >
+                  {isSavingCampaign ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Save className="w-4 h-4 mr-2" />}
+                  {startDate ? "Save as Scheduled Campaign" : "Save as Draft Campaign"}
+                </Button>
+
                 <Button
                   onClick={rollbackDiscounts}
                   disabled={isApplying || selectedVariants.length === 0}
@@ -1136,12 +1539,14 @@ const applyDiscount = useCallback(async () => {
                 </Button>
               </div>
 
+              <UpcomingDiscounts refreshKey={scheduledRefreshKey} canCancel={canEditPrices} />
+
               {/* Quick Preview */}
               {selectedVariants.length > 0 && (
                 <div className="bg-blue-50 p-3 rounded-lg">
                   <div className="text-xs font-medium text-blue-800 mb-1">Preview Impact</div>
                   <div className="text-xs text-blue-700">
-                    {discountPercentage}% discount on {selectedVariants.length} variants
+                    {describeRules(rules)} on {selectedVariants.length} variants
                   </div>
                 </div>
               )}
@@ -1393,12 +1798,12 @@ const applyDiscount = useCallback(async () => {
                 <TableHead>Current Price</TableHead>
                 <TableHead>Compare-At Price</TableHead>
                 <TableHead>Current Discount</TableHead>
-                <TableHead>Preview ({discountPercentage}% off)</TableHead>
+                <TableHead>Preview ({useTieredRules ? `${rules.length} rules` : discountLabel})</TableHead>
               </TableRow>
             </TableHeader>
             <TableBody>
               {allVariants.map((variant) => {
-                const preview = calculatePreviewPrice(variant.price, variant.compareAtPrice, discountPercentage)
+                const preview = calculatePreviewPrice(variant.price, variant.compareAtPrice, variant.productTags, rules)
                 const isSelected = selectedVariants.includes(variant.id)
 
                 return (
@@ -1475,12 +1880,24 @@ const applyDiscount = useCallback(async () => {
                       )}
                     </TableCell>
                     <TableCell>
-                      <div className="space-y-1">
-                        <div className="text-sm">
-                          <span className="text-green-600 font-medium">₹{preview.newPrice}</span>
-                          <span className="text-gray-400 ml-2">Compare: ₹{preview.newCompareAtPrice}</span>
+                      {preview ? (
+                        <div className="space-y-1">
+                          <div className="text-sm">
+                            <span className={preview.invalid ? "text-red-600 font-medium" : "text-green-600 font-medium"}>
+                              ₹{preview.newPrice}
+                            </span>
+                            <span className="text-gray-400 ml-2">Compare: ₹{preview.newCompareAtPrice}</span>
+                          </div>
+                          {useTieredRules && (
+                            <div className="text-xs text-blue-600">
+                              Rule {preview.ruleIndex + 1}: {preview.ruleLabel}
+                            </div>
+                          )}
+                          {preview.invalid && <div className="text-xs text-red-600">Not a valid sale price; will be skipped</div>}
                         </div>
-                      </div>
+                      ) : (
+                        <span className="text-gray-400 text-sm">No rule matches</span>
+                      )}
                     </TableCell>
                   </TableRow>
                 )
@@ -1505,6 +1922,172 @@ const applyDiscount = useCallback(async () => {
         </CardContent>
       </Card>
 
+      {/* Applied Discounts - which rule each variant took */}
+      {successfulResults.length > 0 && (
+        <Card className="border-green-200">
+          <CardHeader>
+            <CardTitle className="flex items-center text-green-800">
+              <Check className="w-5 h-5 mr-2" />
+              Applied Discounts ({successfulResults.length})
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ScrollArea className="max-h-80">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Product Name</TableHead>
+                    <TableHead>Variant</TableHead>
+                    <TableHead>Old Price</TableHead>
+                    <TableHead>New Price</TableHead>
+                    <TableHead>Rule</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {successfulResults.map((result) => (
+                    <TableRow key={result.variantId}>
+                      <TableCell className="font-medium">{result.productTitle}</TableCell>
+                      <TableCell>{result.variantTitle}</TableCell>
+                      <TableCell>₹{result.originalPrice}</TableCell>
+                      <TableCell>
+                        <span className="text-green-600 font-medium">₹{result.newPrice}</span>
+                        <span className="text-gray-400 ml-2">Compare: ₹{result.compareAtPrice}</span>
+                        {result.clampedFrom && (
+                          <div className="text-xs text-orange-600">
+                            Raised from ₹{result.clampedFrom} to the guardrail floor
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm text-gray-600">
+                        {result.ruleIndex !== undefined ? `${result.ruleIndex + 1}. ${result.ruleLabel}` : "-"}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </ScrollArea>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Selected variants that already have a discount */}
+      {pendingConflicts && pendingConflicts.length > 0 && (
+        <Card className="border-blue-200 bg-blue-50">
+          <CardHeader>
+            <CardTitle className="flex items-center text-blue-800">
+              <AlertTriangle className="w-5 h-5 mr-2" />
+              Existing Discounts ({pendingConflicts.length})
+            </CardTitle>
+            <div className="text-sm text-blue-800">
+              These variants already have a live discount or a pending revert. Replace discounts from their original
+              price, skip them, or stack the new discount on their current sale price. Rollbacks restore the original
+              price either way.
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="bg-white rounded-lg border border-blue-200">
+              <ScrollArea className="max-h-64">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Product</TableHead>
+                      <TableHead>Current Price</TableHead>
+                      <TableHead>Original Price</TableHead>
+                      <TableHead>Existing Discount</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {pendingConflicts.map((conflict) => {
+                      const variant = allVariants.find((v) => v.id === conflict.variantId)
+                      return (
+                        <TableRow key={conflict.variantId}>
+                          <TableCell>
+                            <div className="font-medium">{variant?.productTitle || "Unknown Product"}</div>
+                            <div className="text-xs text-gray-500">{variant?.title}</div>
+                          </TableCell>
+                          <TableCell>
+                            ₹{conflict.currentPrice}
+                            {conflict.currentCompareAtPrice && (
+                              <span className="text-gray-400 ml-1 line-through">₹{conflict.currentCompareAtPrice}</span>
+                            )}
+                          </TableCell>
+                          <TableCell>₹{conflict.originalPrice}</TableCell>
+                          <TableCell className="text-sm text-gray-600">
+                            {conflict.action && (
+                              <div>
+                                {conflict.action}
+                                {conflict.appliedAt && ` on ${new Date(conflict.appliedAt).toLocaleDateString()}`}
+                              </div>
+                            )}
+                            {conflict.pendingSchedules.map((schedule) => (
+                              <div key={schedule.metafieldId} className="text-xs">
+                                Reverts {new Date(schedule.expiryDate).toLocaleDateString()}
+                              </div>
+                            ))}
+                          </TableCell>
+                        </TableRow>
+                      )
+                    })}
+                  </TableBody>
+                </Table>
+              </ScrollArea>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <Button size="sm" onClick={() => applyDiscount("replace")} disabled={isApplying || !canEditPrices}>
+                Replace Existing
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => applyDiscount("skip")} disabled={isApplying || !canEditPrices}>
+                Skip These Variants
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => applyDiscount("stack")} disabled={isApplying || !canEditPrices}>
+                Stack on Current Price
+              </Button>
+              <Button size="sm" variant="ghost" onClick={() => setPendingConflicts(null)}>
+                Cancel
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Variants the store's price guardrails refused */}
+      {blockedResults.length > 0 && (
+        <Card className="border-orange-200 bg-orange-50">
+          <CardHeader>
+            <CardTitle className="flex items-center text-orange-800">
+              <AlertTriangle className="w-5 h-5 mr-2" />
+              Blocked by Price Guardrails ({blockedResults.length})
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="bg-white rounded-lg border border-orange-200">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Product</TableHead>
+                    <TableHead>Variant</TableHead>
+                    <TableHead>Current Price</TableHead>
+                    <TableHead>Discounted Price</TableHead>
+                    <TableHead>Reason</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {blockedResults.map((result) => (
+                    <TableRow key={result.variantId}>
+                      <TableCell className="font-medium">{result.productTitle}</TableCell>
+                      <TableCell>{result.variantTitle}</TableCell>
+                      <TableCell>₹{result.originalPrice}</TableCell>
+                      <TableCell>₹{result.newPrice}</TableCell>
+                      <TableCell className="text-sm text-orange-800">{result.error}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Failed Products Section - NEW */}
       {failedResults.length > 0 && (
         <Card className="border-red-200 bg-red-50">
@@ -1516,7 +2099,7 @@ const applyDiscount = useCallback(async () => {
               </CardTitle>
               <Button
                 onClick={retryFailedItems}
-                disabled={isApplying || isProcessing}
+                disabled={isApplying || isProcessing || !canEditPrices}
                 variant="outline"
                 className="bg-red-100 border-red-300 text-red-700 hover:bg-red-200"
                 size="sm"
@@ -1576,6 +2159,11 @@ const applyDiscount = useCallback(async () => {
                             <div className="text-sm text-red-700 break-words">
                               {result.error || 'Unknown error occurred'}
                             </div>
+                            {result.ruleLabel && (
+                              <div className="text-xs text-red-600">
+                                Rule {(result.ruleIndex ?? 0) + 1}: {result.ruleLabel}
+                              </div>
+                            )}
                           </div>
                         </TableCell>
                       </TableRow>
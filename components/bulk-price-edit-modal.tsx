@@ -12,6 +12,7 @@ import {
   EyeOff,
   AlertTriangle,
   CheckCircle,
+  FileSpreadsheet,
 } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
@@ -24,6 +25,13 @@ import { Checkbox } from "@/components/ui/checkbox"
 import { Label } from "@/components/ui/label"
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible"
 import { createBulkUploadLog, saveBulkUploadLogs } from "@/lib/bulk-upload"
+import { useStore } from "@/contexts/StoreContext"
+import { compileFormula, formulaMetafields } from "@/lib/price-formula"
+import { applyPriceRule, describePriceRule, type PriceAction, type PriceRule } from "@/lib/pricing"
+import type { PlannedPriceChange } from "@/lib/bulk-price-update"
+import { matchPriceRows, type PriceImportReport } from "@/lib/price-import"
+import { readSpreadsheet } from "@/lib/spreadsheet"
+import { createBulkHistoryEntry } from "@/lib/universal-history"
 
 interface Product {
   id: string
@@ -42,6 +50,7 @@ interface Product {
     title: string
     price: string
     compareAtPrice?: string
+    unitCost?: string | null
     sku: string
     inventoryQuantity: number
     availableForSale: boolean
@@ -54,16 +63,6 @@ interface Collection {
   productsCount: number
 }
 
-interface PriceRule {
-  type: "percentage" | "fixed" | "absolute"
-  value: number
-  applyTo: "price" | "compareAtPrice" | "both"
-  minPrice?: number
-  maxPrice?: number
-  maintainMargin?: boolean
-  roundingRule?: "none" | "nearest_99" | "nearest_00" | "nearest_95"
-}
-
 interface BulkPriceEditModalProps {
   isOpen: boolean
   onClose: () => void
@@ -72,14 +71,14 @@ interface BulkPriceEditModalProps {
 }
 
 export function BulkPriceEditModal({ isOpen, onClose, products, collections }: BulkPriceEditModalProps) {
-  const [step, setStep] = useState<"select" | "preview" | "edit" | "confirm" | "complete">("select")
+  const [step, setStep] = useState<"select" | "import" | "preview" | "edit" | "confirm" | "complete">("select")
   const [selectedProducts, setSelectedProducts] = useState<Product[]>([])
   const [selectedVariants, setSelectedVariants] = useState<string[]>([])
   const [collectionFilter, setCollectionFilter] = useState("all")
   const [tagFilter, setTagFilter] = useState("")
   const [statusFilter, setStatusFilter] = useState("all")
   const [searchTerm, setSearchTerm] = useState("")
-  const [priceAction, setPriceAction] = useState<"increase" | "decrease">("increase")
+  const [priceAction, setPriceAction] = useState<PriceAction>("increase")
   const [priceRule, setPriceRule] = useState<PriceRule>({
     type: "percentage",
     value: 0,
@@ -90,6 +89,23 @@ export function BulkPriceEditModal({ isOpen, onClose, products, collections }: B
   const [processing, setProcessing] = useState(false)
   const [result, setResult] = useState<any>(null)
   const [progress, setProgress] = useState(0)
+  // Server-computed diff against live Shopify prices, shown on the confirm step
+  const [serverDiff, setServerDiff] = useState<{
+    toUpdate: number
+    unchanged: number
+    diff: PlannedPriceChange[]
+    errors: string[]
+  } | null>(null)
+  const [diffLoading, setDiffLoading] = useState(false)
+  const [diffError, setDiffError] = useState<string | null>(null)
+  // Spreadsheet import: rows matched to variants by SKU, sent as an explicit rule
+  const [importFileName, setImportFileName] = useState<string | null>(null)
+  const [importReport, setImportReport] = useState<PriceImportReport | null>(null)
+  const [importError, setImportError] = useState<string | null>(null)
+  // Queue the update as a server job (see /jobs) rather than waiting on one long request
+  const [runInBackground, setRunInBackground] = useState(false)
+  const { can } = useStore()
+  const canEditPrices = can("prices:edit")
 
   if (!isOpen) return null
 
@@ -139,64 +155,56 @@ export function BulkPriceEditModal({ isOpen, onClose, products, collections }: B
     setSelectedVariants([])
   }
 
-  const calculateNewPrice = (currentPrice: string, rule: PriceRule, action: "increase" | "decrease") => {
-    const price = Number.parseFloat(currentPrice)
-    let newPrice = price
-
-    console.log(`Calculating price for ${currentPrice}:`, { rule, action })
-
-    if (rule.type === "percentage") {
-      const multiplier = action === "increase" ? 1 + rule.value / 100 : 1 - rule.value / 100
-      newPrice = price * multiplier
-    } else if (rule.type === "fixed") {
-      newPrice = action === "increase" ? price + rule.value : price - rule.value
-    } else if (rule.type === "absolute") {
-      newPrice = rule.value
-    }
-
-    console.log(`Before business rules: ${newPrice}`)
-
-    // Apply minimum price rule only
-    if (newPrice < 0.01) {
-      newPrice = 0.01
-    }
-
-    // Remove maximum price cap for luxury products - let Shopify handle limits
-    // Shopify's actual limit is much higher than $99,999
-
-    console.log(`After business rules: ${newPrice}`)
-
-    // Apply rounding rules
-    if (rule.roundingRule === "nearest_99") {
-      newPrice = Math.floor(newPrice) + 0.99
-    } else if (rule.roundingRule === "nearest_00") {
-      newPrice = Math.round(newPrice)
-    } else if (rule.roundingRule === "nearest_95") {
-      newPrice = Math.floor(newPrice) + 0.95
-    }
+  // Gross margin at a price, or null without a unit cost
+  const marginAt = (price: string, unitCost?: string | null) => {
+    const priceValue = Number.parseFloat(price)
+    if (!unitCost || !(priceValue > 0)) return null
+    return Math.round(((priceValue - Number.parseFloat(unitCost)) / priceValue) * 1000) / 10
+  }
 
-    console.log(`Final calculated price: ${newPrice.toFixed(2)}`)
+  const unitCosts = new Map(
+    selectedProducts.flatMap((product) => product.variants.map((variant) => [variant.id, variant.unitCost] as const)),
+  )
 
-    return newPrice.toFixed(2)
-  }
+  const formulaCheck = compileFormula(priceRule.formula)
+
+  // Shared by the increase and decrease tabs; a formula sets the new price outright
+  const formulaField = (
+    <div className="md:col-span-2">
+      <Label>Formula</Label>
+      <Input
+        className="font-mono"
+        value={priceRule.formula ?? ""}
+        onChange={(e) => setPriceRule({ ...priceRule, formula: e.target.value })}
+        placeholder="max(cost * 2.4, compareAtPrice * 0.8)"
+      />
+      {priceRule.formula && formulaCheck.error ? (
+        <div className="text-xs text-red-600 mt-1">{formulaCheck.error}</div>
+      ) : (
+        <div className="text-xs text-gray-500 mt-1">
+          Use price, compareAtPrice, cost, inventory, metafield.&lt;key&gt;, hasTag(&quot;name&quot;), min, max, round,
+          floor, ceil, abs, if(condition, then, else) and coalesce(a, b)
+        </div>
+      )}
+    </div>
+  )
 
   const getSelectedVariantsData = () => {
     const variantsData = []
     for (const product of selectedProducts) {
       for (const variant of product.variants) {
         if (selectedVariants.includes(variant.id)) {
-          let newPrice = variant.price
-          let newCompareAtPrice = variant.compareAtPrice
-
-          // Only calculate new price if we're applying to sale price
-          if (priceRule.applyTo === "price" || priceRule.applyTo === "both") {
-            newPrice = calculateNewPrice(variant.price, priceRule, priceAction)
-          }
-
-          // Only calculate new compare-at price if we're applying to it and it exists
-          if ((priceRule.applyTo === "compareAtPrice" || priceRule.applyTo === "both") && variant.compareAtPrice) {
-            newCompareAtPrice = calculateNewPrice(variant.compareAtPrice, priceRule, priceAction)
-          }
+          const { newPrice, newCompareAtPrice, error } = applyPriceRule(
+            variant.price,
+            variant.compareAtPrice,
+            priceRule,
+            priceAction,
+            {
+              cost: variant.unitCost ? Number.parseFloat(variant.unitCost) : null,
+              inventory: variant.inventoryQuantity,
+              tags: product.tags,
+            },
+          )
 
           variantsData.push({
             productId: product.id,
@@ -208,6 +216,7 @@ export function BulkPriceEditModal({ isOpen, onClose, products, collections }: B
             currentCompareAtPrice: variant.compareAtPrice,
             newPrice,
             newCompareAtPrice,
+            error,
             inventoryQuantity: variant.inventoryQuantity,
             availableForSale: variant.availableForSale,
           })
@@ -217,13 +226,70 @@ export function BulkPriceEditModal({ isOpen, onClose, products, collections }: B
     return variantsData
   }
 
+  const isImport = priceRule.type === "explicit"
+
+  // What is sent to /api/bulk-price-update: the selection under the rule, or the imported rows
+  const getRequestVariants = () =>
+    isImport && importReport ? [...importReport.changes, ...importReport.unchanged] : getSelectedVariantsData()
+
+  const startImport = () => {
+    setPriceRule({ type: "explicit", value: 0, applyTo: "both", roundingRule: "none" })
+    setStep("import")
+  }
+
+  const handleImportFile = async (file: File | undefined) => {
+    if (!file) return
+    setImportFileName(file.name)
+    setImportReport(null)
+    setImportError(null)
+    try {
+      const { report, error } = matchPriceRows(await readSpreadsheet(file), products)
+      if (error) {
+        setImportError(error)
+      } else {
+        setImportReport(report)
+      }
+    } catch (error) {
+      setImportError(error instanceof Error ? error.message : "Could not read the file")
+    }
+  }
+
+  // Dry run of the update so the confirm step shows exactly what the server would write
+  const loadServerDiff = async () => {
+    setStep("confirm")
+    setServerDiff(null)
+    setDiffError(null)
+    setDiffLoading(true)
+    try {
+      const response = await fetch("/api/bulk-price-update", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          variants: getRequestVariants(),
+          rule: priceRule,
+          action: priceAction,
+          dryRun: true,
+        }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || `HTTP error! status: ${response.status}`)
+      }
+      setServerDiff(data)
+    } catch (error) {
+      setDiffError(error instanceof Error ? error.message : "Failed to compute price changes")
+    } finally {
+      setDiffLoading(false)
+    }
+  }
+
   const handleBulkPriceUpdate = async () => {
     setProcessing(true)
     setStep("processing")
     setProgress(0)
 
     try {
-      const variantsData = getSelectedVariantsData()
+      const variantsData = getRequestVariants()
       console.log("Starting bulk price update for variants:", variantsData.length)
 
       const response = await fetch("/api/bulk-price-update", {
@@ -233,6 +299,7 @@ export function BulkPriceEditModal({ isOpen, onClose, products, collections }: B
           variants: variantsData,
           rule: priceRule,
           action: priceAction,
+          background: runInBackground,
         }),
       })
 
@@ -243,22 +310,58 @@ export function BulkPriceEditModal({ isOpen, onClose, products, collections }: B
       const result = await response.json()
       console.log("Bulk price update result:", result)
 
+      // Change exceeds the store's approval threshold, or runs as a job; nothing was updated yet
+      if ((response.status === 202 && result.approvalRequired) || result.queued) {
+        setResult(result)
+        setStep("complete")
+        return
+      }
+
       // Log the bulk operation summary
       const summaryLog = createBulkUploadLog(
         "bulk_price_update",
-        `Bulk ${priceAction} operation: ${priceRule.type} ${priceRule.value}${priceRule.type === "percentage" ? "%" : ""} - ${result.successful}/${result.total} variants updated`,
+        priceRule.type === "formula" || isImport
+          ? `Bulk ${describePriceRule(priceRule, priceAction)} - ${result.successful}/${result.total} variants updated`
+          : `Bulk ${priceAction} operation: ${priceRule.type} ${priceRule.value}${priceRule.type === "percentage" ? "%" : ""} - ${result.successful}/${result.total} variants updated`,
         result.success ? "success" : "error",
-        { title: `${selectedProducts.length} products` },
+        { title: isImport ? importFileName || "Spreadsheet import" : `${selectedProducts.length} products` },
         result.successful,
       )
 
       saveBulkUploadLogs([summaryLog])
 
+      // One history batch for the run, rolled back through /api/bulk-price-rollback
+      if (result.results?.length > 0) {
+        createBulkHistoryEntry(
+          "bulk_price_update",
+          "pricing",
+          isImport
+            ? `Price import from ${importFileName}`
+            : `Bulk price update (${describePriceRule(priceRule, priceAction)})`,
+          result.results.map((updated: any) => ({
+            productId: updated.productId,
+            productTitle: updated.productTitle,
+            variantId: updated.variantId,
+            variantTitle: updated.variantTitle,
+            sku: updated.sku,
+            oldValues: { price: updated.oldPrice, compareAtPrice: updated.oldCompareAtPrice },
+            newValues: { price: updated.newPrice, compareAtPrice: updated.newCompareAtPrice },
+          })),
+          {
+            variants: result.results.map((updated: any) => ({
+              variantId: updated.variantId,
+              originalPrice: updated.oldPrice,
+              originalCompareAtPrice: updated.oldCompareAtPrice,
+            })),
+          },
+        )
+      }
+
       setResult(result)
       setStep("complete")
     } catch (error) {
       console.error("Bulk price update error:", error)
-      const variantsData = getSelectedVariantsData()
+      const variantsData = getRequestVariants()
       const errorResult = {
         success: false,
         error: error instanceof Error ? error.message : "Unknown error",
@@ -291,6 +394,9 @@ export function BulkPriceEditModal({ isOpen, onClose, products, collections }: B
       roundingRule: "none",
     })
     setExpandedProducts([])
+    setImportFileName(null)
+    setImportReport(null)
+    setImportError(null)
     setProcessing(false)
     setResult(null)
   }
@@ -322,27 +428,42 @@ export function BulkPriceEditModal({ isOpen, onClose, products, collections }: B
               <span className="ml-2">Select Products</span>
             </div>
             <ChevronRight className="w-4 h-4 text-gray-400" />
-            <div className={`flex items-center ${step === "preview" ? "text-blue-600" : "text-gray-400"}`}>
-              <div
-                className={`w-8 h-8 rounded-full flex items-center justify-center ${
-                  step === "preview" ? "bg-blue-600 text-white" : "bg-gray-200"
-                }`}
-              >
-                2
-              </div>
-              <span className="ml-2">Preview Selection</span>
-            </div>
-            <ChevronRight className="w-4 h-4 text-gray-400" />
-            <div className={`flex items-center ${step === "edit" ? "text-blue-600" : "text-gray-400"}`}>
-              <div
-                className={`w-8 h-8 rounded-full flex items-center justify-center ${
-                  step === "edit" ? "bg-blue-600 text-white" : "bg-gray-200"
-                }`}
-              >
-                3
+            {isImport ? (
+              <div className={`flex items-center ${step === "import" ? "text-blue-600" : "text-gray-400"}`}>
+                <div
+                  className={`w-8 h-8 rounded-full flex items-center justify-center ${
+                    step === "import" ? "bg-blue-600 text-white" : "bg-gray-200"
+                  }`}
+                >
+                  2
+                </div>
+                <span className="ml-2">Import Prices</span>
               </div>
-              <span className="ml-2">Price Rules</span>
-            </div>
+            ) : (
+              <>
+                <div className={`flex items-center ${step === "preview" ? "text-blue-600" : "text-gray-400"}`}>
+                  <div
+                    className={`w-8 h-8 rounded-full flex items-center justify-center ${
+                      step === "preview" ? "bg-blue-600 text-white" : "bg-gray-200"
+                    }`}
+                  >
+                    2
+                  </div>
+                  <span className="ml-2">Preview Selection</span>
+                </div>
+                <ChevronRight className="w-4 h-4 text-gray-400" />
+                <div className={`flex items-center ${step === "edit" ? "text-blue-600" : "text-gray-400"}`}>
+                  <div
+                    className={`w-8 h-8 rounded-full flex items-center justify-center ${
+                      step === "edit" ? "bg-blue-600 text-white" : "bg-gray-200"
+                    }`}
+                  >
+                    3
+                  </div>
+                  <span className="ml-2">Price Rules</span>
+                </div>
+              </>
+            )}
             <ChevronRight className="w-4 h-4 text-gray-400" />
             <div className={`flex items-center ${step === "confirm" ? "text-blue-600" : "text-gray-400"}`}>
               <div
@@ -350,7 +471,7 @@ export function BulkPriceEditModal({ isOpen, onClose, products, collections }: B
                   step === "confirm" ? "bg-blue-600 text-white" : "bg-gray-200"
                 }`}
               >
-                4
+                {isImport ? 3 : 4}
               </div>
               <span className="ml-2">Confirm</span>
             </div>
@@ -499,8 +620,22 @@ export function BulkPriceEditModal({ isOpen, onClose, products, collections }: B
               </CardContent>
             </Card>
 
-            <div className="flex justify-end">
-              <Button onClick={() => setStep("preview")} disabled={selectedProducts.length === 0}>
+            <div className="flex justify-between">
+              {canEditPrices ? (
+                <Button variant="outline" onClick={startImport}>
+                  <FileSpreadsheet className="w-4 h-4 mr-2" />
+                  Import Spreadsheet
+                </Button>
+              ) : (
+                <div />
+              )}
+              <Button
+                onClick={() => {
+                  if (isImport) setPriceRule({ type: "percentage", value: 0, applyTo: "price", roundingRule: "none" })
+                  setStep("preview")
+                }}
+                disabled={selectedProducts.length === 0}
+              >
                 Next: Preview Selection
                 <ChevronRight className="w-4 h-4 ml-2" />
               </Button>
@@ -508,6 +643,109 @@ export function BulkPriceEditModal({ isOpen, onClose, products, collections }: B
           </div>
         )}
 
+        {/* Import: prices from a CSV or XLSX file, matched to variants by SKU */}
+        {step === "import" && (
+          <div className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Import Prices from a Spreadsheet</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="text-sm text-gray-600">
+                  Upload a .csv or .xlsx file with a header row and the columns <code>sku</code>, <code>price</code>{" "}
+                  and <code>compare_at_price</code>. An empty cell leaves that price unchanged; a compare-at price of 0
+                  removes it. Shopify product exports work as they are.
+                </div>
+                <Input type="file" accept=".csv,.xlsx" onChange={(e) => handleImportFile(e.target.files?.[0])} />
+
+                {importError && <div className="p-3 bg-red-50 text-red-700 rounded text-sm">{importError}</div>}
+
+                {importReport && (
+                  <>
+                    <div className="text-sm text-gray-600">
+                      <strong>{importReport.changes.length}</strong> to change, {importReport.unchanged.length}{" "}
+                      already at these prices, {importReport.unknownSkus.length} unknown SKUs,{" "}
+                      {importReport.duplicateSkus.length} duplicated, {importReport.ambiguousSkus.length} shared by
+                      several variants, {importReport.invalidRows.length} invalid
+                    </div>
+
+                    {(importReport.unknownSkus.length > 0 ||
+                      importReport.duplicateSkus.length > 0 ||
+                      importReport.ambiguousSkus.length > 0 ||
+                      importReport.invalidRows.length > 0) && (
+                      <div className="p-3 bg-orange-50 text-orange-800 rounded text-sm space-y-1 max-h-40 overflow-y-auto">
+                        {importReport.unknownSkus.map(({ row, sku }) => (
+                          <div key={`unknown-${row}`}>
+                            Row {row}: no variant has SKU {sku}
+                          </div>
+                        ))}
+                        {importReport.duplicateSkus.map(({ sku, rows }) => (
+                          <div key={`duplicate-${sku}`}>
+                            Rows {rows.join(", ")}: SKU {sku} is listed more than once, skipped
+                          </div>
+                        ))}
+                        {importReport.ambiguousSkus.map(({ sku, variantCount }) => (
+                          <div key={`ambiguous-${sku}`}>
+                            SKU {sku} is used by {variantCount} variants, skipped
+                          </div>
+                        ))}
+                        {importReport.invalidRows.map(({ row, sku, error }) => (
+                          <div key={`invalid-${row}`}>
+                            Row {row}
+                            {sku && ` (${sku})`}: {error}
+                          </div>
+                        ))}
+                      </div>
+                    )}
+
+                    <ScrollArea className="h-80">
+                      <div className="space-y-2">
+                        {importReport.changes.map((match) => (
+                          <div key={match.variantId} className="flex justify-between items-center p-3 border rounded">
+                            <div>
+                              <div className="font-medium">{match.productTitle}</div>
+                              <div className="text-sm text-gray-600">{match.variantTitle}</div>
+                              <div className="text-xs text-gray-500">
+                                SKU: {match.sku} · Row {match.row}
+                              </div>
+                            </div>
+                            <div className="text-right text-sm">
+                              <div>
+                                ${match.currentPrice} →{" "}
+                                <span className="text-green-600">${match.newPrice ?? match.currentPrice}</span>
+                              </div>
+                              {match.newCompareAtPrice !== undefined && (
+                                <div className="text-xs text-gray-500">
+                                  Compare: {match.currentCompareAtPrice ? `$${match.currentCompareAtPrice}` : "none"} →{" "}
+                                  {match.newCompareAtPrice ? `$${match.newCompareAtPrice}` : "none"}
+                                </div>
+                              )}
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    </ScrollArea>
+                  </>
+                )}
+              </CardContent>
+            </Card>
+
+            <div className="flex justify-between">
+              <Button variant="outline" onClick={() => setStep("select")}>
+                <ChevronLeft className="w-4 h-4 mr-2" />
+                Back
+              </Button>
+              <Button
+                onClick={loadServerDiff}
+                disabled={!importReport || importReport.changes.length + importReport.unchanged.length === 0}
+              >
+                Next: Confirm Changes
+                <ChevronRight className="w-4 h-4 ml-2" />
+              </Button>
+            </div>
+          </div>
+        )}
+
         {/* Step 2: Preview Selection */}
         {step === "preview" && (
           <div className="space-y-6">
@@ -596,10 +834,14 @@ export function BulkPriceEditModal({ isOpen, onClose, products, collections }: B
                 <ChevronLeft className="w-4 h-4 mr-2" />
                 Back to Selection
               </Button>
-              <Button onClick={() => setStep("edit")}>
-                Next: Set Price Rules
-                <ChevronRight className="w-4 h-4 ml-2" />
-              </Button>
+              {canEditPrices ? (
+                <Button onClick={() => setStep("edit")}>
+                  Next: Set Price Rules
+                  <ChevronRight className="w-4 h-4 ml-2" />
+                </Button>
+              ) : (
+                <span className="text-sm text-gray-500 self-center">Your role can view prices but not change them</span>
+              )}
             </div>
           </div>
         )}
@@ -612,7 +854,7 @@ export function BulkPriceEditModal({ isOpen, onClose, products, collections }: B
                 <CardTitle>Configure Price Update Rules</CardTitle>
               </CardHeader>
               <CardContent>
-                <Tabs value={priceAction} onValueChange={(value) => setPriceAction(value as "increase" | "decrease")}>
+                <Tabs value={priceAction} onValueChange={(value) => setPriceAction(value as PriceAction)}>
                   <TabsList className="grid w-full grid-cols-2">
                     <TabsTrigger value="increase" className="flex items-center">
                       <TrendingUp className="w-4 h-4 mr-2" />
@@ -631,7 +873,7 @@ export function BulkPriceEditModal({ isOpen, onClose, products, collections }: B
                         <Select
                           value={priceRule.type}
                           onValueChange={(value) =>
-                            setPriceRule({ ...priceRule, type: value as "percentage" | "fixed" | "absolute" })
+                            setPriceRule({ ...priceRule, type: value as PriceRule["type"] })
                           }
                         >
                           <SelectTrigger>
@@ -641,29 +883,34 @@ export function BulkPriceEditModal({ isOpen, onClose, products, collections }: B
                             <SelectItem value="percentage">Percentage Increase</SelectItem>
                             <SelectItem value="fixed">Fixed Amount Increase</SelectItem>
                             <SelectItem value="absolute">Set Absolute Price</SelectItem>
+                            <SelectItem value="formula">Formula</SelectItem>
                           </SelectContent>
                         </Select>
                       </div>
 
-                      <div>
-                        <Label>
-                          {priceRule.type === "percentage"
-                            ? "Percentage (%)"
-                            : priceRule.type === "fixed"
-                              ? "Amount ($)"
-                              : "New Price ($)"}
-                        </Label>
-                        <Input
-                          type="number"
-                          step="0.01"
-                          min="0"
-                          value={priceRule.value}
-                          onChange={(e) =>
-                            setPriceRule({ ...priceRule, value: Number.parseFloat(e.target.value) || 0 })
-                          }
-                          placeholder={priceRule.type === "percentage" ? "10" : "5000.00"}
-                        />
-                      </div>
+                      {priceRule.type === "formula" ? (
+                        formulaField
+                      ) : (
+                        <div>
+                          <Label>
+                            {priceRule.type === "percentage"
+                              ? "Percentage (%)"
+                              : priceRule.type === "fixed"
+                                ? "Amount ($)"
+                                : "New Price ($)"}
+                          </Label>
+                          <Input
+                            type="number"
+                            step="0.01"
+                            min="0"
+                            value={priceRule.value}
+                            onChange={(e) =>
+                              setPriceRule({ ...priceRule, value: Number.parseFloat(e.target.value) || 0 })
+                            }
+                            placeholder={priceRule.type === "percentage" ? "10" : "5000.00"}
+                          />
+                        </div>
+                      )}
 
                       <div>
                         <Label>Apply To</Label>
@@ -711,7 +958,7 @@ export function BulkPriceEditModal({ isOpen, onClose, products, collections }: B
                         <Select
                           value={priceRule.type}
                           onValueChange={(value) =>
-                            setPriceRule({ ...priceRule, type: value as "percentage" | "fixed" | "absolute" })
+                            setPriceRule({ ...priceRule, type: value as PriceRule["type"] })
                           }
                         >
                           <SelectTrigger>
@@ -721,30 +968,35 @@ export function BulkPriceEditModal({ isOpen, onClose, products, collections }: B
                             <SelectItem value="percentage">Percentage Decrease</SelectItem>
                             <SelectItem value="fixed">Fixed Amount Decrease</SelectItem>
                             <SelectItem value="absolute">Set Absolute Price</SelectItem>
+                            <SelectItem value="formula">Formula</SelectItem>
                           </SelectContent>
                         </Select>
                       </div>
 
-                      <div>
-                        <Label>
-                          {priceRule.type === "percentage"
-                            ? "Percentage (%)"
-                            : priceRule.type === "fixed"
-                              ? "Amount ($)"
-                              : "New Price ($)"}
-                        </Label>
-                        <Input
-                          type="number"
-                          step="0.01"
-                          min="0"
-                          max={priceRule.type === "percentage" ? "100" : undefined}
-                          value={priceRule.value}
-                          onChange={(e) =>
-                            setPriceRule({ ...priceRule, value: Number.parseFloat(e.target.value) || 0 })
-                          }
-                          placeholder={priceRule.type === "percentage" ? "10" : "5000.00"}
-                        />
-                      </div>
+                      {priceRule.type === "formula" ? (
+                        formulaField
+                      ) : (
+                        <div>
+                          <Label>
+                            {priceRule.type === "percentage"
+                              ? "Percentage (%)"
+                              : priceRule.type === "fixed"
+                                ? "Amount ($)"
+                                : "New Price ($)"}
+                          </Label>
+                          <Input
+                            type="number"
+                            step="0.01"
+                            min="0"
+                            max={priceRule.type === "percentage" ? "100" : undefined}
+                            value={priceRule.value}
+                            onChange={(e) =>
+                              setPriceRule({ ...priceRule, value: Number.parseFloat(e.target.value) || 0 })
+                            }
+                            placeholder={priceRule.type === "percentage" ? "10" : "5000.00"}
+                          />
+                        </div>
+                      )}
 
                       <div>
                         <Label>Apply To</Label>
@@ -837,6 +1089,42 @@ export function BulkPriceEditModal({ isOpen, onClose, products, collections }: B
                           })}
                         </div>
                       )}
+                      {priceRule.type === "formula" &&
+                        formulaCheck.formula &&
+                        (formulaMetafields(formulaCheck.formula).length > 0 ? (
+                          <div>
+                            This formula reads metafields, which are loaded from Shopify on the next step; each
+                            variant's result is shown there.
+                          </div>
+                        ) : (
+                          <ScrollArea className="h-64">
+                            <div className="space-y-1">
+                              {getSelectedVariantsData().map((variant) => (
+                                <div
+                                  key={variant.variantId}
+                                  className="flex justify-between items-center p-2 bg-white rounded"
+                                >
+                                  <div>
+                                    <div className="font-medium">{variant.productTitle}</div>
+                                    <div className="text-xs">{variant.variantTitle}</div>
+                                  </div>
+                                  {variant.error ? (
+                                    <div className="text-xs text-red-600 text-right max-w-xs">{variant.error}</div>
+                                  ) : (
+                                    <div className="text-right">
+                                      ${variant.currentPrice} → <span className="font-medium">${variant.newPrice}</span>
+                                      {variant.newCompareAtPrice !== variant.currentCompareAtPrice && (
+                                        <div className="text-xs">
+                                          Compare: ${variant.currentCompareAtPrice} → ${variant.newCompareAtPrice}
+                                        </div>
+                                      )}
+                                    </div>
+                                  )}
+                                </div>
+                              ))}
+                            </div>
+                          </ScrollArea>
+                        ))}
                     </div>
                   </CardContent>
                 </Card>
@@ -848,7 +1136,10 @@ export function BulkPriceEditModal({ isOpen, onClose, products, collections }: B
                 <ChevronLeft className="w-4 h-4 mr-2" />
                 Back to Preview
               </Button>
-              <Button onClick={() => setStep("confirm")} disabled={priceRule.value <= 0}>
+              <Button
+                onClick={loadServerDiff}
+                disabled={priceRule.type === "formula" ? formulaCheck.error !== null : priceRule.value <= 0}
+              >
                 Next: Confirm Changes
                 <ChevronRight className="w-4 h-4 ml-2" />
               </Button>
@@ -871,17 +1162,23 @@ export function BulkPriceEditModal({ isOpen, onClose, products, collections }: B
                         <div>
                           <div className="text-sm text-gray-600">Action</div>
                           <div className="font-medium">
-                            {priceAction === "increase" ? "Increase" : "Decrease"} Prices
+                            {isImport ? "Set" : priceAction === "increase" ? "Increase" : "Decrease"} Prices
                           </div>
                         </div>
                         <div>
                           <div className="text-sm text-gray-600">Method</div>
                           <div className="font-medium">
-                            {priceRule.type === "percentage"
-                              ? `${priceRule.value}% ${priceAction}`
-                              : priceRule.type === "fixed"
-                                ? `$${priceRule.value.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })} ${priceAction}`
-                                : `Set to $${priceRule.value.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`}
+                            {isImport ? (
+                              `Imported from ${importFileName}`
+                            ) : priceRule.type === "formula" ? (
+                              <code className="text-sm">{priceRule.formula}</code>
+                            ) : priceRule.type === "percentage" ? (
+                              `${priceRule.value}% ${priceAction}`
+                            ) : priceRule.type === "fixed" ? (
+                              `$${priceRule.value.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })} ${priceAction}`
+                            ) : (
+                              `Set to $${priceRule.value.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+                            )}
                           </div>
                         </div>
                         <div>
@@ -907,70 +1204,160 @@ export function BulkPriceEditModal({ isOpen, onClose, products, collections }: B
                   </Card>
                 </div>
 
-                <ScrollArea className="h-96">
-                  <div className="space-y-2">
-                    {getSelectedVariantsData().map((variant) => (
-                      <div key={variant.variantId} className="flex justify-between items-center p-3 border rounded">
-                        <div>
-                          <div className="font-medium">{variant.productTitle}</div>
-                          <div className="text-sm text-gray-600">{variant.variantTitle}</div>
-                          <div className="text-xs text-gray-500">SKU: {variant.sku}</div>
-                        </div>
-                        <div className="text-right">
-                          <div className="flex items-center space-x-2">
-                            <div>
-                              <div className="text-sm text-gray-500">Current</div>
-                              <div className="font-medium">
-                                $
-                                {Number.parseFloat(variant.currentPrice).toLocaleString("en-US", {
-                                  minimumFractionDigits: 2,
-                                  maximumFractionDigits: 2,
-                                })}
+                {diffLoading && (
+                  <div className="text-center py-8 text-gray-500">
+                    <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto mb-2"></div>
+                    Checking the changes against live Shopify prices...
+                  </div>
+                )}
+
+                {diffError && (
+                  <div className="flex items-center justify-between p-3 bg-red-50 text-red-700 rounded text-sm">
+                    <span>{diffError}</span>
+                    <Button variant="outline" size="sm" onClick={loadServerDiff}>
+                      Retry
+                    </Button>
+                  </div>
+                )}
+
+                {serverDiff && (
+                  <>
+                    <div className="text-sm text-gray-600 mb-2">
+                      Computed from live Shopify prices: <strong>{serverDiff.toUpdate}</strong> to update,{" "}
+                      {serverDiff.unchanged} unchanged,{" "}
+                      {serverDiff.diff.filter((change) => change.status === "blocked").length} blocked by guardrails,{" "}
+                      {serverDiff.errors.length} invalid
+                    </div>
+                    <ScrollArea className="h-96">
+                      <div className="space-y-2">
+                        {serverDiff.diff.map((variant) => {
+                          const unitCost = unitCosts.get(variant.variantId)
+                          return (
+                            <div
+                              key={variant.variantId}
+                              className={`flex justify-between items-center p-3 border rounded ${
+                                variant.status === "blocked"
+                                  ? "border-orange-300 bg-orange-50"
+                                  : variant.status === "invalid"
+                                    ? "border-red-300 bg-red-50"
+                                    : variant.status === "unchanged"
+                                      ? "opacity-60"
+                                      : ""
+                              }`}
+                            >
+                              <div>
+                                <div className="font-medium">{variant.productTitle}</div>
+                                <div className="text-sm text-gray-600">{variant.variantTitle}</div>
+                                <div className="text-xs text-gray-500">SKU: {variant.sku}</div>
+                                {unitCost && (
+                                  <div className="text-xs text-gray-500">
+                                    Cost: ${Number.parseFloat(unitCost).toFixed(2)} · Margin{" "}
+                                    {marginAt(variant.currentPrice, unitCost)}% →{" "}
+                                    <span
+                                      className={
+                                        (marginAt(variant.newPrice, unitCost) ?? 0) < 0 ? "text-red-600 font-medium" : ""
+                                      }
+                                    >
+                                      {marginAt(variant.newPrice, unitCost)}%
+                                    </span>
+                                  </div>
+                                )}
+                                {variant.status !== "update" && (
+                                  <Badge variant="outline" className="mt-1">
+                                    {variant.status === "blocked"
+                                      ? "Blocked"
+                                      : variant.status === "invalid"
+                                        ? "Invalid"
+                                        : "No change"}
+                                  </Badge>
+                                )}
+                                {variant.error && <div className="text-xs text-red-600 mt-1">{variant.error}</div>}
+                                {variant.clampedFrom && (
+                                  <div className="text-xs text-orange-600 mt-1">
+                                    Raised from ${variant.clampedFrom} to the guardrail floor
+                                  </div>
+                                )}
                               </div>
-                            </div>
-                            <ChevronRight className="w-4 h-4 text-gray-400" />
-                            <div>
-                              <div className="text-sm text-gray-500">New</div>
-                              <div className="font-medium text-green-600">
-                                $
-                                {Number.parseFloat(variant.newPrice).toLocaleString("en-US", {
-                                  minimumFractionDigits: 2,
-                                  maximumFractionDigits: 2,
-                                })}
+                              <div className="text-right">
+                                <div className="flex items-center space-x-2">
+                                  <div>
+                                    <div className="text-sm text-gray-500">Current</div>
+                                    <div className="font-medium">
+                                      $
+                                      {Number.parseFloat(variant.currentPrice).toLocaleString("en-US", {
+                                        minimumFractionDigits: 2,
+                                        maximumFractionDigits: 2,
+                                      })}
+                                    </div>
+                                  </div>
+                                  <ChevronRight className="w-4 h-4 text-gray-400" />
+                                  <div>
+                                    <div className="text-sm text-gray-500">New</div>
+                                    <div
+                                      className={`font-medium ${variant.status === "blocked" ? "text-orange-600 line-through" : "text-green-600"}`}
+                                    >
+                                      $
+                                      {Number.parseFloat(variant.newPrice).toLocaleString("en-US", {
+                                        minimumFractionDigits: 2,
+                                        maximumFractionDigits: 2,
+                                      })}
+                                    </div>
+                                  </div>
+                                </div>
+                                {(variant.currentCompareAtPrice || variant.newCompareAtPrice) && (
+                                  <div className="text-xs text-gray-500 mt-1">
+                                    Compare:{" "}
+                                    {variant.currentCompareAtPrice
+                                      ? `$${Number.parseFloat(variant.currentCompareAtPrice).toLocaleString("en-US", {
+                                          minimumFractionDigits: 2,
+                                          maximumFractionDigits: 2,
+                                        })}`
+                                      : "none"}{" "}
+                                    →{" "}
+                                    {variant.newCompareAtPrice
+                                      ? `$${Number.parseFloat(variant.newCompareAtPrice).toLocaleString("en-US", {
+                                          minimumFractionDigits: 2,
+                                          maximumFractionDigits: 2,
+                                        })}`
+                                      : "none"}
+                                  </div>
+                                )}
                               </div>
                             </div>
-                          </div>
-                          {variant.currentCompareAtPrice && (
-                            <div className="text-xs text-gray-500 mt-1">
-                              Compare: $
-                              {Number.parseFloat(variant.currentCompareAtPrice).toLocaleString("en-US", {
-                                minimumFractionDigits: 2,
-                                maximumFractionDigits: 2,
-                              })}{" "}
-                              → $
-                              {Number.parseFloat(variant.newCompareAtPrice || "0").toLocaleString("en-US", {
-                                minimumFractionDigits: 2,
-                                maximumFractionDigits: 2,
-                              })}
-                            </div>
-                          )}
-                        </div>
+                          )
+                        })}
                       </div>
-                    ))}
-                  </div>
-                </ScrollArea>
+                    </ScrollArea>
+                  </>
+                )}
               </CardContent>
             </Card>
 
             <div className="flex justify-between">
-              <Button variant="outline" onClick={() => setStep("edit")}>
+              <Button variant="outline" onClick={() => setStep(isImport ? "import" : "edit")}>
                 <ChevronLeft className="w-4 h-4 mr-2" />
-                Back to Rules
-              </Button>
-              <Button onClick={handleBulkPriceUpdate} disabled={processing} className="bg-green-600 hover:bg-green-700">
-                {processing ? "Updating Prices..." : "Apply Price Changes"}
-                <CheckCircle className="w-4 h-4 ml-2" />
+                {isImport ? "Back to Import" : "Back to Rules"}
               </Button>
+              <div className="flex items-center space-x-4">
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="bulk-price-background"
+                    checked={runInBackground}
+                    onCheckedChange={(checked) => setRunInBackground(checked as boolean)}
+                  />
+                  <Label htmlFor="bulk-price-background" className="text-sm">
+                    Run in background
+                  </Label>
+                </div>
+                <Button
+                  onClick={handleBulkPriceUpdate}
+                  disabled={processing || !canEditPrices || diffLoading || !serverDiff || serverDiff.toUpdate === 0}
+                  className="bg-green-600 hover:bg-green-700"
+                >
+                  {processing ? "Updating Prices..." : runInBackground ? "Queue Price Changes" : "Apply Price Changes"}
+                  <CheckCircle className="w-4 h-4 ml-2" />
+                </Button>
+              </div>
             </div>
           </div>
         )}
@@ -998,7 +1385,9 @@ export function BulkPriceEditModal({ isOpen, onClose, products, collections }: B
                     ></div>
                   </div>
                   <div className="text-center text-sm text-gray-600">
-                    Updating {selectedVariants.length} variants across {selectedProducts.length} products
+                    {isImport
+                      ? `Updating ${importReport?.changes.length ?? 0} variants from ${importFileName}`
+                      : `Updating ${selectedVariants.length} variants across ${selectedProducts.length} products`}
                   </div>
                 </div>
               </CardContent>
@@ -1007,7 +1396,42 @@ export function BulkPriceEditModal({ isOpen, onClose, products, collections }: B
         )}
 
         {/* Step 5: Complete */}
-        {step === "complete" && result && (
+        {step === "complete" && result?.approvalRequired && (
+          <div className="space-y-6">
+            <div className="text-center">
+              <AlertTriangle className="w-12 h-12 mx-auto text-yellow-500 mb-4" />
+              <h3 className="text-lg font-medium mb-2">Submitted for Approval</h3>
+              <p className="text-gray-600">{result.message}</p>
+            </div>
+
+            <div className="flex justify-center">
+              <Button onClick={onClose}>Close</Button>
+            </div>
+          </div>
+        )}
+
+        {step === "complete" && result?.queued && (
+          <div className="space-y-6">
+            <div className="text-center">
+              <CheckCircle className="w-12 h-12 mx-auto text-green-500 mb-4" />
+              <h3 className="text-lg font-medium mb-2">Queued as a Background Job</h3>
+              <p className="text-gray-600">
+                {result.job.total} variants are updated on the server, even if you close this page. Follow progress
+                and per-variant results on the{" "}
+                <a href="/jobs" className="text-blue-600 underline">
+                  Background Jobs
+                </a>{" "}
+                page.
+              </p>
+            </div>
+
+            <div className="flex justify-center">
+              <Button onClick={onClose}>Close</Button>
+            </div>
+          </div>
+        )}
+
+        {step === "complete" && result && !result.approvalRequired && !result.queued && (
           <div className="space-y-6">
             <div className="text-center">
               <CheckCircle className="w-12 h-12 mx-auto text-green-500 mb-4" />
@@ -1016,7 +1440,7 @@ export function BulkPriceEditModal({ isOpen, onClose, products, collections }: B
 
             <Card>
               <CardContent className="pt-6">
-                <div className="grid grid-cols-3 gap-4 text-center">
+                <div className="grid grid-cols-4 gap-4 text-center">
                   <div>
                     <div className="text-2xl font-bold text-green-600">{result.successful || 0}</div>
                     <div className="text-sm text-gray-500">Successfully Updated</div>
@@ -1025,6 +1449,10 @@ export function BulkPriceEditModal({ isOpen, onClose, products, collections }: B
                     <div className="text-2xl font-bold text-red-600">{result.failed || 0}</div>
                     <div className="text-sm text-gray-500">Failed Updates</div>
                   </div>
+                  <div>
+                    <div className="text-2xl font-bold text-orange-600">{result.blocked?.length || 0}</div>
+                    <div className="text-sm text-gray-500">Blocked by Guardrails</div>
+                  </div>
                   <div>
                     <div className="text-2xl font-bold text-blue-600">{result.total || 0}</div>
                     <div className="text-sm text-gray-500">Total Processed</div>
@@ -1033,6 +1461,34 @@ export function BulkPriceEditModal({ isOpen, onClose, products, collections }: B
               </CardContent>
             </Card>
 
+            {result.results?.some((item: any) => item.clampedFrom) && (
+              <div className="text-sm text-orange-700 bg-orange-50 p-3 rounded">
+                {result.results.filter((item: any) => item.clampedFrom).length} prices were raised to their guardrail
+                floor instead of the calculated price.
+              </div>
+            )}
+
+            {result.blocked && result.blocked.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-orange-600 flex items-center">
+                    <AlertTriangle className="w-5 h-5 mr-2" />
+                    Blocked by Price Guardrails
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <ScrollArea className="h-32">
+                    {result.blocked.map((item: any) => (
+                      <div key={item.variantId} className="text-sm p-1">
+                        • {item.productTitle} - {item.variantTitle} ({item.sku}): ${item.currentPrice} → $
+                        {item.newPrice}, floor ${item.floor}
+                      </div>
+                    ))}
+                  </ScrollArea>
+                </CardContent>
+              </Card>
+            )}
+
             {result.errors && result.errors.length > 0 && (
               <Card>
                 <CardHeader>
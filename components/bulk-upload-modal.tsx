@@ -4,6 +4,8 @@ import type React from "react"
 
 import { useState, useRef } from "react"
 import { Upload, X, CheckCircle, FileImage, AlertCircle, Info } from "lucide-react"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Label } from "@/components/ui/label"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Progress } from "@/components/ui/progress"
@@ -32,6 +34,9 @@ export function BulkUploadModal({ isOpen, onClose, products, onComplete }: BulkU
   const [progress, setProgress] = useState(0)
   const [result, setResult] = useState<BulkUploadResult | null>(null)
   const [currentProcessing, setCurrentProcessing] = useState("")
+  // Stage the images from this tab, then let a server job attach them (see /jobs)
+  const [runInBackground, setRunInBackground] = useState(false)
+  const [queuedJob, setQueuedJob] = useState<{ id: string; total: number } | null>(null)
   const fileInputRef = useRef<HTMLInputElement>(null)
 
   if (!isOpen) return null
@@ -76,7 +81,109 @@ export function BulkUploadModal({ isOpen, onClose, products, onComplete }: BulkU
     }
   }
 
+  // The files only exist in this tab, so they are staged in Shopify first; attaching them to the
+  // products is the job, which keeps going after the tab is closed
+  const queueBackgroundUpload = async () => {
+    setStep("processing")
+    setProgress(0)
+
+    const logs: any[] = []
+    const errors: string[] = []
+    const uploads: Array<{
+      productId: string
+      productTitle: string
+      sku: string
+      images: Array<{ filename: string; resourceUrl: string }>
+    }> = []
+    const matchedFolders = skuFolders.filter((folder) => folder.matchedProduct)
+
+    for (let i = 0; i < matchedFolders.length; i++) {
+      const folder = matchedFolders[i]
+      const product = folder.matchedProduct
+      setCurrentProcessing(`Staging ${folder.sku} (${i + 1}/${matchedFolders.length}) - ${folder.images.length} images`)
+
+      try {
+        const formData = new FormData()
+        folder.images.forEach((image) => formData.append("images", image))
+        const response = await fetch("/api/bulk-upload/stage", { method: "POST", body: formData })
+        const data = await response.json()
+        if (!response.ok) {
+          throw new Error(data.error || `HTTP ${response.status}`)
+        }
+        data.errors.forEach((error: string) => errors.push(`SKU ${folder.sku}: ${error}`))
+        if (data.staged.length > 0) {
+          uploads.push({ productId: product.id, productTitle: product.title, sku: folder.sku, images: data.staged })
+        }
+      } catch (error) {
+        const errorMsg = `Error staging images for SKU ${folder.sku}: ${error instanceof Error ? error.message : error}`
+        errors.push(errorMsg)
+        logs.push(
+          createBulkUploadLog("bulk_upload", errorMsg, "error", {
+            id: product.id,
+            title: product.title,
+            sku: folder.sku,
+          }),
+        )
+      }
+
+      setProgress(((i + 1) / matchedFolders.length) * 100)
+    }
+
+    skuFolders
+      .filter((folder) => !folder.matchedProduct)
+      .forEach((folder) => {
+        const warningMsg = `No product found for SKU: ${folder.sku}`
+        errors.push(warningMsg)
+        logs.push(createBulkUploadLog("bulk_upload", warningMsg, "warning", { sku: folder.sku }))
+      })
+
+    let queued: { id: string; total: number } | null = null
+    if (uploads.length > 0) {
+      setCurrentProcessing(`Queueing ${uploads.length} products`)
+      try {
+        const response = await fetch("/api/bulk-upload", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ uploads }),
+        })
+        const data = await response.json()
+        if (!response.ok) {
+          throw new Error(data.error || `HTTP ${response.status}`)
+        }
+        queued = { id: data.job.id, total: data.job.total }
+        logs.push(
+          createBulkUploadLog(
+            "bulk_upload",
+            `Queued images for ${uploads.length} products as background job ${data.job.id}`,
+            "success",
+            { title: `${uploads.length} products` },
+            uploads.reduce((sum, upload) => sum + upload.images.length, 0),
+          ),
+        )
+      } catch (error) {
+        errors.push(`Failed to queue the upload: ${error instanceof Error ? error.message : error}`)
+      }
+    }
+
+    saveBulkUploadLogs(logs)
+    setQueuedJob(queued)
+    setResult({
+      success: queued !== null,
+      processedProducts: 0,
+      skippedProducts: skuFolders.length - uploads.length,
+      errors,
+      uploadedImages: 0,
+      logs,
+    })
+    setStep("complete")
+    setCurrentProcessing("")
+  }
+
   const handleBulkUpload = async () => {
+    if (runInBackground) {
+      return queueBackgroundUpload()
+    }
+
     setStep("processing")
     setProgress(0)
 
@@ -223,6 +330,7 @@ export function BulkUploadModal({ isOpen, onClose, products, onComplete }: BulkU
     setProcessing(false)
     setProgress(0)
     setResult(null)
+    setQueuedJob(null)
     setCurrentProcessing("")
     if (fileInputRef.current) {
       fileInputRef.current.value = ""
@@ -305,7 +413,17 @@ export function BulkUploadModal({ isOpen, onClose, products, onComplete }: BulkU
           <div className="space-y-6">
             <div className="flex justify-between items-center">
               <h3 className="text-lg font-medium">Preview Upload</h3>
-              <div className="flex gap-2">
+              <div className="flex items-center gap-2">
+                <div className="flex items-center space-x-2 mr-2">
+                  <Checkbox
+                    id="bulk-upload-background"
+                    checked={runInBackground}
+                    onCheckedChange={(checked) => setRunInBackground(checked as boolean)}
+                  />
+                  <Label htmlFor="bulk-upload-background" className="text-sm">
+                    Run in background
+                  </Label>
+                </div>
                 <Button variant="outline" onClick={reset}>
                   Back
                 </Button>
@@ -419,44 +537,63 @@ export function BulkUploadModal({ isOpen, onClose, products, onComplete }: BulkU
 
         {step === "complete" && result && (
           <div className="space-y-6">
-            <div className="text-center">
-              <CheckCircle className="w-12 h-12 mx-auto text-green-500 mb-4" />
-              <h3 className="text-lg font-medium mb-2">Upload Complete!</h3>
-              <p className="text-sm text-gray-600">
-                {result.success
-                  ? `Successfully processed ${result.processedProducts} products`
-                  : "Upload completed with some issues"}
-              </p>
-            </div>
-
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-              <Card>
-                <CardContent className="pt-6">
-                  <div className="text-center">
-                    <div className="text-2xl font-bold text-green-600">{result.processedProducts}</div>
-                    <div className="text-sm text-gray-500">Products Updated</div>
-                  </div>
-                </CardContent>
-              </Card>
+            {queuedJob && (
+              <div className="text-center">
+                <CheckCircle className="w-12 h-12 mx-auto text-green-500 mb-4" />
+                <h3 className="text-lg font-medium mb-2">Queued as a Background Job</h3>
+                <p className="text-sm text-gray-600">
+                  Images for {queuedJob.total} products are attached on the server, even if you close this page. Follow
+                  progress on the{" "}
+                  <a href="/jobs" className="text-blue-600 underline">
+                    Background Jobs
+                  </a>{" "}
+                  page.
+                </p>
+              </div>
+            )}
 
-              <Card>
-                <CardContent className="pt-6">
-                  <div className="text-center">
-                    <div className="text-2xl font-bold text-blue-600">{result.uploadedImages}</div>
-                    <div className="text-sm text-gray-500">Images Uploaded</div>
-                  </div>
-                </CardContent>
-              </Card>
+            {!queuedJob && (
+              <>
+                <div className="text-center">
+                  <CheckCircle className="w-12 h-12 mx-auto text-green-500 mb-4" />
+                  <h3 className="text-lg font-medium mb-2">Upload Complete!</h3>
+                  <p className="text-sm text-gray-600">
+                    {result.success
+                      ? `Successfully processed ${result.processedProducts} products`
+                      : "Upload completed with some issues"}
+                  </p>
+                </div>
 
-              <Card>
-                <CardContent className="pt-6">
-                  <div className="text-center">
-                    <div className="text-2xl font-bold text-red-600">{result.skippedProducts}</div>
-                    <div className="text-sm text-gray-500">SKUs Skipped</div>
-                  </div>
-                </CardContent>
-              </Card>
-            </div>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <Card>
+                    <CardContent className="pt-6">
+                      <div className="text-center">
+                        <div className="text-2xl font-bold text-green-600">{result.processedProducts}</div>
+                        <div className="text-sm text-gray-500">Products Updated</div>
+                      </div>
+                    </CardContent>
+                  </Card>
+
+                  <Card>
+                    <CardContent className="pt-6">
+                      <div className="text-center">
+                        <div className="text-2xl font-bold text-blue-600">{result.uploadedImages}</div>
+                        <div className="text-sm text-gray-500">Images Uploaded</div>
+                      </div>
+                    </CardContent>
+                  </Card>
+
+                  <Card>
+                    <CardContent className="pt-6">
+                      <div className="text-center">
+                        <div className="text-2xl font-bold text-red-600">{result.skippedProducts}</div>
+                        <div className="text-sm text-gray-500">SKUs Skipped</div>
+                      </div>
+                    </CardContent>
+                  </Card>
+                </div>
+              </>
+            )}
 
             {result.errors.length > 0 && (
               <Card>
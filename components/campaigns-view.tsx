@@ -0,0 +1,323 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { Flag, Loader2, Play, RefreshCw, RotateCcw, Square, Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import type { Campaign, CampaignItem } from "@/lib/campaigns"
+import { describeRules } from "@/lib/discount-modes"
+
+interface CampaignsViewProps {
+  refreshKey: number // Bump to reload after a campaign is created elsewhere on the page
+  canEdit: boolean
+  onPricesChanged?: () => void // A launch, end or rollback changed variant prices
+}
+
+const STATUS_LABELS: Record<Campaign["status"], string> = {
+  draft: "Draft",
+  scheduled: "Scheduled",
+  applying: "Launching",
+  live: "Live",
+  reverting: "Ending",
+  ended: "Ended",
+  rolled_back: "Rolled back",
+  failed: "Failed",
+}
+
+const getStatusColor = (status: Campaign["status"]) => {
+  switch (status) {
+    case "draft":
+      return "bg-gray-100 text-gray-800"
+    case "scheduled":
+    case "applying":
+    case "reverting":
+      return "bg-blue-100 text-blue-800"
+    case "live":
+      return "bg-green-100 text-green-800"
+    case "ended":
+    case "rolled_back":
+      return "bg-purple-100 text-purple-800"
+    default:
+      return "bg-red-100 text-red-800"
+  }
+}
+
+// Named discount campaigns for the selected store, with launch / end / rollback controls
+export function CampaignsView({ refreshKey, canEdit, onPricesChanged }: CampaignsViewProps) {
+  const [campaigns, setCampaigns] = useState<Campaign[]>([])
+  const [loading, setLoading] = useState(false)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [message, setMessage] = useState<{ type: "success" | "error" | "info"; text: string } | null>(null)
+  const [skippedItems, setSkippedItems] = useState<CampaignItem[]>([])
+
+  const loadCampaigns = useCallback(async () => {
+    setLoading(true)
+    try {
+      const response = await fetch("/api/campaigns")
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load campaigns")
+      }
+      setCampaigns(data.campaigns || [])
+    } catch (loadError) {
+      setMessage({ type: "error", text: loadError instanceof Error ? loadError.message : "Failed to load campaigns" })
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadCampaigns()
+  }, [loadCampaigns, refreshKey])
+
+  const runAction = async (campaign: Campaign, action: "launch" | "end" | "rollback") => {
+    const prompts = {
+      launch: `Launch "${campaign.name}" now? This applies a ${describeRules(campaign.rules)} to ${campaign.variantIds.length} variants${
+        campaign.conflictMode === "stack"
+          ? ", stacked on any discount they already have"
+          : " and skips any that already have a discount"
+      }.`,
+      end: `End "${campaign.name}"? Its variants go back to their pre-campaign prices.`,
+      rollback: `Roll back "${campaign.name}"? Its variants go back to their pre-campaign prices and the campaign is marked rolled back.`,
+    }
+    if (!confirm(prompts[action])) {
+      return
+    }
+
+    setBusyId(campaign.id)
+    setMessage(null)
+    setSkippedItems([])
+    try {
+      const response = await fetch(`/api/campaigns/${campaign.id}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action }),
+      })
+      const data = await response.json()
+
+      if (response.status === 202) {
+        setMessage({ type: "info", text: `⏳ ${data.message}` })
+      } else if (!response.ok) {
+        setMessage({ type: "error", text: data.error || "Campaign action failed" })
+      } else if (action === "launch") {
+        const conflicts = data.campaign.conflicts
+        setMessage({
+          type: data.campaign.status === "live" ? "success" : "error",
+          text: `"${campaign.name}" discounted ${data.campaign.applied} of ${campaign.variantIds.length} variants${
+            conflicts ? `, skipped ${conflicts} that already had a discount` : ""
+          }.`,
+        })
+        onPricesChanged?.()
+      } else {
+        const skipped = (data.items as CampaignItem[]).filter((item) => item.status === "skipped")
+        setSkippedItems(skipped)
+        setMessage({
+          type: data.campaign.error ? "error" : "success",
+          text:
+            data.campaign.error ||
+            `"${campaign.name}" restored ${data.campaign.reverted} variants${skipped.length ? `, skipped ${skipped.length} changed since launch` : ""}.`,
+        })
+        onPricesChanged?.()
+      }
+    } catch (error) {
+      setMessage({ type: "error", text: "❌ Network error occurred. Please try again." })
+    } finally {
+      setBusyId(null)
+      loadCampaigns()
+    }
+  }
+
+  const unscheduleCampaign = async (campaign: Campaign) => {
+    setBusyId(campaign.id)
+    try {
+      const response = await fetch(`/api/campaigns/${campaign.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ startDate: null }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        setMessage({ type: "error", text: data.error || "Failed to unschedule campaign" })
+      }
+    } finally {
+      setBusyId(null)
+      loadCampaigns()
+    }
+  }
+
+  const deleteCampaign = async (campaign: Campaign) => {
+    if (!confirm(`Delete campaign "${campaign.name}"?`)) {
+      return
+    }
+
+    setBusyId(campaign.id)
+    try {
+      const response = await fetch(`/api/campaigns/${campaign.id}`, { method: "DELETE" })
+      const data = await response.json()
+      if (!response.ok) {
+        setMessage({ type: "error", text: data.error || "Failed to delete campaign" })
+      }
+    } finally {
+      setBusyId(null)
+      loadCampaigns()
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="text-sm text-gray-600">
+          Save a selection as a campaign from the discount panel, then launch it here or let it start on schedule.
+        </div>
+        <Button variant="outline" size="sm" onClick={loadCampaigns} disabled={loading}>
+          <RefreshCw className={`w-4 h-4 mr-2 ${loading ? "animate-spin" : ""}`} />
+          Refresh
+        </Button>
+      </div>
+
+      {message && (
+        <div
+          className={`text-sm p-3 rounded ${
+            message.type === "success"
+              ? "bg-green-50 text-green-800"
+              : message.type === "info"
+                ? "bg-blue-50 text-blue-800"
+                : "bg-red-50 text-red-800"
+          }`}
+        >
+          {message.text}
+          {skippedItems.length > 0 && (
+            <ul className="mt-2 list-disc list-inside text-xs">
+              {skippedItems.map((item) => (
+                <li key={item.variantId}>
+                  {item.productTitle}
+                  {item.variantTitle !== "Default Title" ? ` - ${item.variantTitle}` : ""}: {item.error}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {campaigns.length === 0 ? (
+        <div className="text-center py-6 text-gray-500">
+          {loading ? <Loader2 className="w-5 h-5 animate-spin mx-auto" /> : "No campaigns yet"}
+        </div>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Campaign</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Discount</TableHead>
+              <TableHead>Schedule</TableHead>
+              <TableHead>Owner</TableHead>
+              {canEdit && <TableHead className="text-right">Actions</TableHead>}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {campaigns.map((campaign) => (
+              <TableRow key={campaign.id}>
+                <TableCell>
+                  <div className="font-medium flex items-center">
+                    <Flag className="w-4 h-4 mr-2 text-purple-600" />
+                    {campaign.name}
+                  </div>
+                  {campaign.error && <div className="text-xs text-red-600">{campaign.error}</div>}
+                  {(campaign.reverted !== undefined || campaign.skipped) && (
+                    <div className="text-xs text-gray-500">
+                      {campaign.reverted || 0} restored, {campaign.skipped || 0} skipped
+                    </div>
+                  )}
+                </TableCell>
+                <TableCell>
+                  <Badge className={getStatusColor(campaign.status)}>{STATUS_LABELS[campaign.status]}</Badge>
+                </TableCell>
+                <TableCell>
+                  {describeRules(campaign.rules)} on {campaign.variantIds.length} variants
+                  <div className="text-xs text-gray-500">
+                    {campaign.conflictMode === "stack" ? "Stacks on existing discounts" : "Skips discounted variants"}
+                  </div>
+                  {campaign.applied !== undefined && (
+                    <div className="text-xs text-gray-500">
+                      {campaign.applied} applied{campaign.failed ? `, ${campaign.failed} failed` : ""}
+                      {campaign.conflicts ? `, ${campaign.conflicts} already discounted` : ""}
+                    </div>
+                  )}
+                </TableCell>
+                <TableCell className="text-xs text-gray-600">
+                  <div>
+                    Starts:{" "}
+                    {campaign.launchedAt
+                      ? new Date(campaign.launchedAt).toLocaleString()
+                      : campaign.startDate
+                        ? new Date(campaign.startDate).toLocaleString()
+                        : "when launched"}
+                  </div>
+                  <div>
+                    Ends:{" "}
+                    {campaign.endedAt
+                      ? new Date(campaign.endedAt).toLocaleString()
+                      : campaign.expiryDate
+                        ? new Date(campaign.expiryDate).toLocaleDateString()
+                        : "when ended"}
+                  </div>
+                </TableCell>
+                <TableCell className="text-xs text-gray-600">{campaign.owner?.email || campaign.owner?.uid}</TableCell>
+                {canEdit && (
+                  <TableCell className="text-right space-x-1 whitespace-nowrap">
+                    {busyId === campaign.id ? (
+                      <Loader2 className="w-4 h-4 animate-spin inline" />
+                    ) : (
+                      <>
+                        {(campaign.status === "draft" || campaign.status === "scheduled") && (
+                          <Button size="sm" variant="outline" onClick={() => runAction(campaign, "launch")}>
+                            <Play className="w-3 h-3 mr-1" />
+                            Launch
+                          </Button>
+                        )}
+                        {campaign.status === "scheduled" && (
+                          <Button size="sm" variant="outline" onClick={() => unscheduleCampaign(campaign)}>
+                            Unschedule
+                          </Button>
+                        )}
+                        {(campaign.status === "draft" || campaign.status === "scheduled") && (
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            className="text-red-600 hover:text-red-700"
+                            onClick={() => deleteCampaign(campaign)}
+                          >
+                            <Trash2 className="w-3 h-3" />
+                          </Button>
+                        )}
+                        {campaign.status === "live" && (
+                          <>
+                            <Button size="sm" variant="outline" onClick={() => runAction(campaign, "end")}>
+                              <Square className="w-3 h-3 mr-1" />
+                              End
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              className="text-red-600 hover:text-red-700"
+                              onClick={() => runAction(campaign, "rollback")}
+                            >
+                              <RotateCcw className="w-3 h-3 mr-1" />
+                              Roll back
+                            </Button>
+                          </>
+                        )}
+                      </>
+                    )}
+                  </TableCell>
+                )}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  )
+}
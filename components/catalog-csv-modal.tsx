@@ -0,0 +1,344 @@
+"use client"
+
+import { useState } from "react"
+import { Download, FileSpreadsheet, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { useStore } from "@/contexts/StoreContext"
+import { createBulkUploadLog, saveBulkUploadLogs } from "@/lib/bulk-upload"
+import {
+  CATALOG_COLUMN_GROUPS,
+  type CatalogColumnGroup,
+  type CatalogImportPlan,
+  type CatalogRowError,
+  type CatalogVariantPlan,
+} from "@/lib/catalog-csv"
+import type { CatalogImportResult } from "@/lib/catalog-import"
+import { readSpreadsheet } from "@/lib/spreadsheet"
+
+interface CatalogCsvModalProps {
+  isOpen: boolean
+  onClose: () => void
+  collections: Array<{ id: string; title: string }>
+  onImported?: () => void
+}
+
+// Planned price changes first, then the rest
+function variantChanges(variant: CatalogVariantPlan) {
+  const changes: string[] = []
+  if (variant.price !== undefined) {
+    changes.push(`price ${variant.currentPrice ? `${variant.currentPrice} → ` : ""}${variant.price}`)
+  }
+  if (variant.compareAtPrice !== undefined) {
+    changes.push(`compare-at ${variant.currentCompareAtPrice || "none"} → ${variant.compareAtPrice || "none"}`)
+  }
+  return [...changes, ...variant.changes]
+}
+
+// Export the catalog as a Shopify product CSV, and import an edited copy back: a dry run lists what
+// would change per product, then the import applies only those changes.
+export function CatalogCsvModal({ isOpen, onClose, collections, onImported }: CatalogCsvModalProps) {
+  const { can } = useStore()
+  const [groups, setGroups] = useState<CatalogColumnGroup[]>(CATALOG_COLUMN_GROUPS.map((group) => group.id))
+  const [collectionFilter, setCollectionFilter] = useState("all")
+  const [statusFilter, setStatusFilter] = useState("all")
+  const [fileName, setFileName] = useState<string | null>(null)
+  const [rows, setRows] = useState<string[][] | null>(null)
+  const [plan, setPlan] = useState<CatalogImportPlan | null>(null)
+  const [checking, setChecking] = useState(false)
+  const [importing, setImporting] = useState(false)
+  const [results, setResults] = useState<CatalogImportResult[] | null>(null)
+  const [rowErrors, setRowErrors] = useState<CatalogRowError[]>([])
+  const [message, setMessage] = useState<{ type: "success" | "error"; text: string } | null>(null)
+
+  if (!isOpen) return null
+
+  const exportUrl = `/api/catalog-export?${new URLSearchParams({
+    columns: groups.join(","),
+    collection: collectionFilter,
+    status: statusFilter,
+  })}`
+
+  const updateCount = plan?.products.filter((product) => product.productId).length ?? 0
+
+  const toggleGroup = (group: CatalogColumnGroup, checked: boolean) => {
+    setGroups(checked ? [...groups, group] : groups.filter((g) => g !== group))
+  }
+
+  const postImport = (body: { rows: string[][]; dryRun?: boolean }) =>
+    fetch("/api/catalog-import", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    })
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return
+    setFileName(file.name)
+    setRows(null)
+    setPlan(null)
+    setResults(null)
+    setRowErrors([])
+    setMessage(null)
+    setChecking(true)
+    try {
+      const parsed = await readSpreadsheet(file)
+      const response = await postImport({ rows: parsed, dryRun: true })
+      const data = await response.json()
+      if (!response.ok) {
+        setMessage({ type: "error", text: data.error || "Failed to check the file" })
+        return
+      }
+      setRows(parsed)
+      setPlan(data.plan)
+      setRowErrors(data.plan.errors)
+    } catch (error) {
+      setMessage({ type: "error", text: error instanceof Error ? error.message : "Could not read the file" })
+    } finally {
+      setChecking(false)
+    }
+  }
+
+  const handleImport = async () => {
+    if (!rows || !plan) return
+    if (!confirm(`Apply changes to ${plan.products.length} products?`)) return
+    setImporting(true)
+    setMessage(null)
+    try {
+      const response = await postImport({ rows })
+      const data = await response.json()
+      if (response.status === 202 && data.approvalRequired) {
+        setMessage({
+          type: "success",
+          text: data.message || "Sent for approval; the import runs once a reviewer approves.",
+        })
+        return
+      }
+      if (!response.ok) {
+        setMessage({ type: "error", text: data.error || "Import failed" })
+        return
+      }
+
+      setResults(data.results)
+      setRowErrors(data.errors)
+      setPlan(null)
+      saveBulkUploadLogs(
+        data.results.map((result: CatalogImportResult) =>
+          createBulkUploadLog(
+            "product_update",
+            result.action === "failed"
+              ? `Catalog import failed (${fileName}, row ${result.row})`
+              : `Catalog import ${result.action} product from ${fileName}: ${result.changes.join(", ")}`,
+            result.action === "failed" ? "error" : "success",
+            { id: result.productId || undefined, title: result.title },
+          ),
+        ),
+      )
+      setMessage({
+        type: data.errors.length > 0 ? "error" : "success",
+        text: `Created ${data.created} and updated ${data.updated} products${
+          data.errors.length > 0 ? `; ${data.errors.length} rows had errors` : ""
+        }`,
+      })
+      onImported?.()
+    } catch (error) {
+      setMessage({ type: "error", text: "Network error occurred. Please try again." })
+    } finally {
+      setImporting(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 w-full max-w-5xl max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-6">
+          <div>
+            <h2 className="text-2xl font-bold flex items-center">
+              <FileSpreadsheet className="w-6 h-6 mr-2" />
+              Catalog CSV
+            </h2>
+            <p className="text-sm text-gray-500">
+              Shopify&apos;s product CSV layout: one row per variant, product details on the first row of each handle.
+            </p>
+          </div>
+          <Button variant="ghost" size="sm" onClick={onClose}>
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+
+        {message && (
+          <p className={`mb-4 text-sm ${message.type === "error" ? "text-red-600" : "text-green-600"}`}>{message.text}</p>
+        )}
+
+        <Tabs defaultValue="export" className="space-y-6">
+          <TabsList>
+            <TabsTrigger value="export">Export</TabsTrigger>
+            {can("products:edit") && <TabsTrigger value="import">Import</TabsTrigger>}
+          </TabsList>
+
+          <TabsContent value="export">
+            <Card>
+              <CardHeader>
+                <CardTitle>Export Products</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label>Collection</Label>
+                    <Select value={collectionFilter} onValueChange={setCollectionFilter}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="all">All Collections</SelectItem>
+                        {collections.map((collection) => (
+                          <SelectItem key={collection.id} value={collection.id}>
+                            {collection.title}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Status</Label>
+                    <Select value={statusFilter} onValueChange={setStatusFilter}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="all">All Statuses</SelectItem>
+                        <SelectItem value="active">Active</SelectItem>
+                        <SelectItem value="draft">Draft</SelectItem>
+                        <SelectItem value="archived">Archived</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Columns (Handle is always included)</Label>
+                  <div className="grid grid-cols-2 gap-2">
+                    {CATALOG_COLUMN_GROUPS.map((group) => (
+                      <label key={group.id} className="flex items-center gap-2 text-sm">
+                        <Checkbox
+                          checked={groups.includes(group.id)}
+                          onCheckedChange={(checked) => toggleGroup(group.id, checked as boolean)}
+                        />
+                        {group.label}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="flex justify-end">
+                  <Button asChild>
+                    <a href={exportUrl} download>
+                      <Download className="w-4 h-4 mr-2" />
+                      Download CSV
+                    </a>
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="import" className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Import Products</CardTitle>
+                <p className="text-sm text-gray-500">
+                  Upload an edited export (.csv or .xlsx). Products are matched by handle and variants by option values
+                  or SKU; only cells that differ from the store are applied. Empty cells leave values as they are, a
+                  compare-at price of 0 removes it, and unknown handles create draft products.
+                </p>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <Input type="file" accept=".csv,.xlsx" onChange={(e) => handleFile(e.target.files?.[0])} />
+                {checking && <p className="text-sm text-gray-500">Comparing {fileName} with the store...</p>}
+
+                {plan && (
+                  <>
+                    <div className="text-sm text-gray-600">
+                      <strong>{updateCount}</strong> products to update,{" "}
+                      <strong>{plan.products.length - updateCount}</strong> to create, {plan.unchanged} unchanged,{" "}
+                      {rowErrors.length} rows with errors
+                    </div>
+                    <ScrollArea className="h-80">
+                      <div className="space-y-2">
+                        {plan.products.map((product) => (
+                          <div key={product.handle} className="p-3 border rounded">
+                            <div className="flex items-center justify-between">
+                              <div className="font-medium">{product.title}</div>
+                              <Badge variant={product.productId ? "outline" : "default"}>
+                                {product.productId ? "Update" : "New"}
+                              </Badge>
+                            </div>
+                            <div className="text-xs text-gray-500">
+                              {product.handle} · Row {product.row}
+                            </div>
+                            {product.changes.length > 0 && (
+                              <div className="text-sm text-gray-700 mt-1">{product.changes.join(" · ")}</div>
+                            )}
+                            {product.newImages.length > 0 && (
+                              <div className="text-sm text-gray-700">{product.newImages.length} new images</div>
+                            )}
+                            {product.variants.map((variant) => (
+                              <div key={variant.row} className="text-xs text-gray-600 mt-1">
+                                {variant.label}:{" "}
+                                {variantChanges(variant).join(" · ")}
+                              </div>
+                            ))}
+                          </div>
+                        ))}
+                      </div>
+                    </ScrollArea>
+                    <div className="flex justify-end">
+                      <Button onClick={handleImport} disabled={importing || plan.products.length === 0}>
+                        {importing ? "Importing..." : `Import ${plan.products.length} Products`}
+                      </Button>
+                    </div>
+                  </>
+                )}
+
+                {results && (
+                  <ScrollArea className="h-60">
+                    <div className="space-y-1 text-sm">
+                      {results.map((result) => (
+                        <div key={result.handle} className="flex justify-between p-2 border rounded">
+                          <span>
+                            {result.title} <span className="text-xs text-gray-500">({result.handle})</span>
+                          </span>
+                          <Badge variant={result.action === "failed" ? "destructive" : "outline"}>
+                            {result.action}
+                          </Badge>
+                        </div>
+                      ))}
+                    </div>
+                  </ScrollArea>
+                )}
+
+                {rowErrors.length > 0 && (
+                  <div className="p-3 bg-red-50 text-red-700 rounded text-sm space-y-1 max-h-48 overflow-y-auto">
+                    {rowErrors.map((rowError, index) => (
+                      <div key={index}>
+                        Row {rowError.row}
+                        {rowError.handle && ` (${rowError.handle})`}: {rowError.error}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+        </Tabs>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,192 @@
+"use client"
+
+import { ArrowDown, ArrowUp, Plus, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { DISCOUNT_MODES, type DiscountMode, type DiscountRule, type DiscountRuleMatch } from "@/lib/discount-modes"
+
+interface DiscountRulesEditorProps {
+  rules: DiscountRule[]
+  onChange: (rules: DiscountRule[]) => void
+  availableTags: string[]
+}
+
+const CONDITIONS: Array<{ value: DiscountRuleMatch["type"]; label: string }> = [
+  { value: "price_band", label: "Price band" },
+  { value: "tag", label: "Has tag" },
+  { value: "all", label: "Everything else" },
+]
+
+export const DEFAULT_TIERED_RULES: DiscountRule[] = [
+  { match: { type: "price_band", min: null, max: 5000 }, discount: { mode: "percentage", value: 10 } },
+  { match: { type: "price_band", min: 5000, max: 20000 }, discount: { mode: "percentage", value: 15 } },
+  { match: { type: "price_band", min: 20000, max: null }, discount: { mode: "percentage", value: 20 } },
+]
+
+function emptyMatch(type: DiscountRuleMatch["type"]): DiscountRuleMatch {
+  switch (type) {
+    case "price_band":
+      return { type, min: null, max: null }
+    case "tag":
+      return { type, tag: "" }
+    default:
+      return { type: "all" }
+  }
+}
+
+// Optional number input value: empty means no bound
+function toBound(value: string) {
+  return value === "" ? null : Number(value)
+}
+
+// Ordered discount rules; each variant takes the first rule it matches
+export function DiscountRulesEditor({ rules, onChange, availableTags }: DiscountRulesEditorProps) {
+  const updateRule = (index: number, update: Partial<DiscountRule>) => {
+    onChange(rules.map((rule, i) => (i === index ? { ...rule, ...update } : rule)))
+  }
+
+  const updateBand = (index: number, bound: "min" | "max", value: string) => {
+    const match = rules[index].match
+    if (match.type === "price_band") {
+      updateRule(index, { match: { ...match, [bound]: toBound(value) } })
+    }
+  }
+
+  const moveRule = (index: number, offset: number) => {
+    const next = [...rules]
+    const [rule] = next.splice(index, 1)
+    next.splice(index + offset, 0, rule)
+    onChange(next)
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="text-xs text-gray-500">Rules are checked top to bottom; the first match wins.</div>
+
+      {rules.map((rule, index) => (
+        <div key={index} className="border rounded-md p-2 space-y-2 bg-gray-50">
+          <div className="flex items-center gap-1">
+            <span className="text-xs font-medium text-gray-600 w-5">{index + 1}.</span>
+            <Select
+              value={rule.match.type}
+              onValueChange={(value) => updateRule(index, { match: emptyMatch(value as DiscountRuleMatch["type"]) })}
+            >
+              <SelectTrigger className="h-7 text-xs flex-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CONDITIONS.map((condition) => (
+                  <SelectItem key={condition.value} value={condition.value}>
+                    {condition.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 w-7 p-0"
+              onClick={() => moveRule(index, -1)}
+              disabled={index === 0}
+            >
+              <ArrowUp className="w-3 h-3" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 w-7 p-0"
+              onClick={() => moveRule(index, 1)}
+              disabled={index === rules.length - 1}
+            >
+              <ArrowDown className="w-3 h-3" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 w-7 p-0 text-red-600"
+              onClick={() => onChange(rules.filter((_, i) => i !== index))}
+              disabled={rules.length === 1}
+            >
+              <X className="w-3 h-3" />
+            </Button>
+          </div>
+
+          {rule.match.type === "price_band" && (
+            <div className="flex items-center gap-1">
+              <Input
+                type="number"
+                min="0"
+                className="h-7 text-xs"
+                placeholder="From ₹"
+                value={rule.match.min ?? ""}
+                onChange={(e) => updateBand(index, "min", e.target.value)}
+              />
+              <span className="text-xs text-gray-500">to</span>
+              <Input
+                type="number"
+                min="0"
+                className="h-7 text-xs"
+                placeholder="Under ₹"
+                value={rule.match.max ?? ""}
+                onChange={(e) => updateBand(index, "max", e.target.value)}
+              />
+            </div>
+          )}
+
+          {rule.match.type === "tag" && (
+            <>
+              <Input
+                className="h-7 text-xs"
+                placeholder="Tag, e.g. clearance"
+                list="discount-rule-tags"
+                value={rule.match.tag}
+                onChange={(e) => updateRule(index, { match: { type: "tag", tag: e.target.value } })}
+              />
+              <datalist id="discount-rule-tags">
+                {availableTags.map((tag) => (
+                  <option key={tag} value={tag} />
+                ))}
+              </datalist>
+            </>
+          )}
+
+          <div className="flex items-center gap-1">
+            <Select
+              value={rule.discount.mode}
+              onValueChange={(value) => updateRule(index, { discount: { ...rule.discount, mode: value as DiscountMode } })}
+            >
+              <SelectTrigger className="h-7 text-xs flex-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {DISCOUNT_MODES.map((mode) => (
+                  <SelectItem key={mode.value} value={mode.value}>
+                    {mode.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              type="number"
+              min="0"
+              className="h-7 text-xs w-20"
+              value={rule.discount.value}
+              onChange={(e) => updateRule(index, { discount: { ...rule.discount, value: Number(e.target.value) } })}
+            />
+          </div>
+        </div>
+      ))}
+
+      <Button
+        variant="outline"
+        size="sm"
+        className="w-full h-7 text-xs bg-transparent"
+        onClick={() => onChange([...rules, { match: { type: "all" }, discount: { mode: "percentage", value: 10 } }])}
+      >
+        <Plus className="w-3 h-3 mr-1" />
+        Add Rule
+      </Button>
+    </div>
+  )
+}
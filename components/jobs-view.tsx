@@ -0,0 +1,413 @@
+"use client"
+
+import { Fragment, useCallback, useEffect, useRef, useState } from "react"
+import { ChevronDown, ChevronUp, Loader2, Pause, Play, RefreshCw, RotateCcw, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Progress } from "@/components/ui/progress"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { useStore } from "@/contexts/StoreContext"
+import type { Job, JobAction, JobItem, JobItemStatus, JobStatus, JobType } from "@/lib/jobs"
+import type { Permission } from "@/lib/roles"
+
+// Mirrors the job handlers' permissions in lib/jobs; the API routes enforce them
+const JOB_TYPES: Record<JobType, { label: string; permission: Permission }> = {
+  bulk_price_update: { label: "Bulk price update", permission: "prices:edit" },
+  discount: { label: "Discount", permission: "prices:edit" },
+  image_upload: { label: "Image upload", permission: "products:edit" },
+}
+
+const STATUS_STYLES: Record<JobStatus, string> = {
+  queued: "bg-gray-100 text-gray-800",
+  running: "bg-blue-100 text-blue-800",
+  paused: "bg-yellow-100 text-yellow-800",
+  completed: "bg-green-100 text-green-800",
+  cancelled: "bg-gray-100 text-gray-600",
+}
+
+const ITEM_STATUS_STYLES: Record<JobItemStatus, string> = {
+  pending: "bg-gray-100 text-gray-800",
+  succeeded: "bg-green-100 text-green-800",
+  failed: "bg-red-100 text-red-800",
+  skipped: "bg-yellow-100 text-yellow-800",
+  cancelled: "bg-gray-100 text-gray-600",
+}
+
+// Rows shown per job; the rest are counted
+const ITEM_LIMIT = 200
+const POLL_MS = 5000
+
+function isActive(job: Job) {
+  return job.status === "queued" || job.status === "running"
+}
+
+function describeResult(job: Job, item: JobItem) {
+  if (item.status !== "succeeded" || !item.result) {
+    return item.error || ""
+  }
+  switch (job.type) {
+    case "bulk_price_update":
+      return `${item.result.oldPrice} → ${item.result.newPrice}${
+        item.result.clampedFrom ? ` (raised to the guardrail floor from ${item.result.clampedFrom})` : ""
+      }`
+    case "discount":
+      return `${item.result.originalPrice} → ${item.result.newPrice}${
+        item.result.ruleLabel ? ` (${item.result.ruleLabel})` : ""
+      }`
+    case "image_upload":
+      return `${item.result.uploaded} images added`
+  }
+}
+
+// Background jobs of the selected store. Jobs run on the server's scheduler; while this view is open it
+// also works through the oldest one the user may run, so progress does not wait for the next scheduled run.
+export function JobsView() {
+  const [jobs, setJobs] = useState<Job[]>([])
+  const [loading, setLoading] = useState(false)
+  const [message, setMessage] = useState<{ type: "success" | "error" | "info"; text: string } | null>(null)
+  const [expandedJobId, setExpandedJobId] = useState<string | null>(null)
+  const [items, setItems] = useState<JobItem[]>([])
+  const [itemFilter, setItemFilter] = useState<JobItemStatus | "all">("all")
+  const [busyJobId, setBusyJobId] = useState<string | null>(null)
+  const [drivingJobId, setDrivingJobId] = useState<string | null>(null)
+  const mounted = useRef(true)
+  const driveStopped = useRef(false) // Set after a chunk error, until the list is refreshed by hand
+  const { can } = useStore()
+
+  const canRun = useCallback((job: Job) => can(JOB_TYPES[job.type].permission), [can])
+
+  const loadJobs = useCallback(async () => {
+    setLoading(true)
+    try {
+      const response = await fetch("/api/jobs")
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load jobs")
+      }
+      if (mounted.current) {
+        setJobs(data.jobs || [])
+      }
+    } catch (loadError) {
+      setMessage({ type: "error", text: loadError instanceof Error ? loadError.message : "Failed to load jobs" })
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  const loadItems = useCallback(async (jobId: string) => {
+    try {
+      const response = await fetch(`/api/jobs/${jobId}`)
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load job")
+      }
+      if (mounted.current) {
+        setItems(data.items || [])
+        setJobs((current) => current.map((job) => (job.id === jobId ? data.job : job)))
+      }
+    } catch (loadError) {
+      setMessage({ type: "error", text: loadError instanceof Error ? loadError.message : "Failed to load job" })
+    }
+  }, [])
+
+  useEffect(() => {
+    mounted.current = true
+    loadJobs()
+    return () => {
+      mounted.current = false
+    }
+  }, [loadJobs])
+
+  // Keep progress of jobs run elsewhere (scheduler, other tabs) current
+  const hasActiveJobs = jobs.some(isActive)
+  useEffect(() => {
+    if (!hasActiveJobs || drivingJobId) return
+    const timer = setInterval(loadJobs, POLL_MS)
+    return () => clearInterval(timer)
+  }, [hasActiveJobs, drivingJobId, loadJobs])
+
+  // Run one job chunk by chunk while it stays queued or running
+  const driveJob = useCallback(
+    async (job: Job) => {
+      setDrivingJobId(job.id)
+      let current = job
+      try {
+        while (mounted.current && isActive(current)) {
+          const response = await fetch(`/api/jobs/${current.id}`, { method: "POST" })
+          const data = await response.json()
+          if (!response.ok) {
+            throw new Error(data.error || "Job failed")
+          }
+          // Another worker holds this chunk; wait before asking again
+          if (isActive(data.job) && data.job.processed === current.processed) {
+            await new Promise((resolve) => setTimeout(resolve, 3000))
+          }
+          current = data.job
+          setJobs((jobs) => jobs.map((existing) => (existing.id === current.id ? current : existing)))
+        }
+      } catch (error) {
+        driveStopped.current = true
+        const reason = error instanceof Error ? error.message : "Job failed"
+        setMessage({ type: "error", text: `${current.label}: ${reason}. The scheduler will retry it.` })
+      } finally {
+        if (mounted.current) {
+          setDrivingJobId(null)
+          loadJobs()
+        }
+      }
+    },
+    [loadJobs],
+  )
+
+  useEffect(() => {
+    if (drivingJobId || driveStopped.current) return
+    const next = [...jobs].reverse().find((job) => isActive(job) && canRun(job))
+    if (next) {
+      driveJob(next)
+    }
+  }, [jobs, drivingJobId, canRun, driveJob])
+
+  // Load the open job's items, again as its progress changes
+  const expandedProcessed = jobs.find((job) => job.id === expandedJobId)?.processed
+  useEffect(() => {
+    if (expandedJobId && expandedProcessed !== undefined) {
+      loadItems(expandedJobId)
+    }
+  }, [expandedJobId, expandedProcessed, loadItems])
+
+  const controlJob = async (job: Job, action: JobAction, itemIds?: string[]) => {
+    if (action === "cancel" && !confirm(`Cancel ${job.label}? Items not processed yet are skipped.`)) {
+      return
+    }
+
+    setBusyJobId(job.id)
+    setMessage(null)
+    try {
+      const response = await fetch(`/api/jobs/${job.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action, itemIds }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        setMessage({ type: "error", text: data.error || "Failed to update job" })
+        return
+      }
+      setJobs((current) => current.map((existing) => (existing.id === job.id ? data.job : existing)))
+      if (expandedJobId === job.id) {
+        loadItems(job.id)
+      }
+      driveStopped.current = false
+    } catch (error) {
+      setMessage({ type: "error", text: "❌ Network error occurred. Please try again." })
+    } finally {
+      setBusyJobId(null)
+    }
+  }
+
+  const refresh = () => {
+    driveStopped.current = false
+    setMessage(null)
+    loadJobs()
+  }
+
+  const expandedJob = jobs.find((job) => job.id === expandedJobId)
+  const shownItems = items
+    .filter((item) => itemFilter === "all" || item.status === itemFilter)
+    .sort((a, b) => a.label.localeCompare(b.label))
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="text-sm text-gray-600">
+          Bulk price updates, discounts and image uploads started in the background keep running on the server
+          after you close the page.
+        </div>
+        <Button variant="outline" size="sm" onClick={refresh} disabled={loading}>
+          <RefreshCw className={`w-4 h-4 mr-2 ${loading ? "animate-spin" : ""}`} />
+          Refresh
+        </Button>
+      </div>
+
+      {message && (
+        <div
+          className={`text-sm p-3 rounded ${
+            message.type === "success"
+              ? "bg-green-50 text-green-800"
+              : message.type === "info"
+                ? "bg-blue-50 text-blue-800"
+                : "bg-red-50 text-red-800"
+          }`}
+        >
+          {message.text}
+        </div>
+      )}
+
+      {jobs.length === 0 ? (
+        <div className="text-center py-6 text-gray-500">
+          {loading ? <Loader2 className="w-5 h-5 animate-spin mx-auto" /> : "No background jobs yet"}
+        </div>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Job</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Progress</TableHead>
+              <TableHead>Started</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {jobs.map((job) => {
+              const allowed = canRun(job)
+              const busy = busyJobId === job.id
+              return (
+                <Fragment key={job.id}>
+                  <TableRow>
+                    <TableCell>
+                      <div className="font-medium">{job.label}</div>
+                      <div className="text-xs text-gray-500">
+                        {JOB_TYPES[job.type]?.label || job.type} · {job.createdBy?.email || job.createdBy?.uid}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <Badge className={STATUS_STYLES[job.status]}>
+                        {drivingJobId === job.id && <Loader2 className="w-3 h-3 mr-1 animate-spin" />}
+                        {job.status === "completed" && job.failed > 0 ? "completed with errors" : job.status}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-xs text-gray-600 min-w-[180px]">
+                      <Progress
+                        value={job.total ? ((job.processed + job.cancelled) / job.total) * 100 : 0}
+                        className="w-full mb-1"
+                      />
+                      <div>
+                        {job.processed} / {job.total} processed
+                      </div>
+                      <div>
+                        {job.succeeded} succeeded, {job.skipped} skipped, {job.failed} failed
+                        {job.cancelled ? `, ${job.cancelled} cancelled` : ""}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-xs text-gray-600">{new Date(job.createdAt).toLocaleString()}</TableCell>
+                    <TableCell className="text-right space-x-1 whitespace-nowrap">
+                      {allowed && isActive(job) && (
+                        <Button size="sm" variant="outline" onClick={() => controlJob(job, "pause")} disabled={busy}>
+                          <Pause className="w-3 h-3 mr-1" />
+                          Pause
+                        </Button>
+                      )}
+                      {allowed && job.status === "paused" && (
+                        <Button size="sm" variant="outline" onClick={() => controlJob(job, "resume")} disabled={busy}>
+                          <Play className="w-3 h-3 mr-1" />
+                          Resume
+                        </Button>
+                      )}
+                      {allowed && !isActive(job) && job.failed > 0 && (
+                        <Button size="sm" variant="outline" onClick={() => controlJob(job, "retry")} disabled={busy}>
+                          <RotateCcw className="w-3 h-3 mr-1" />
+                          Retry Failed
+                        </Button>
+                      )}
+                      {allowed && (isActive(job) || job.status === "paused") && (
+                        <Button size="sm" variant="outline" onClick={() => controlJob(job, "cancel")} disabled={busy}>
+                          <X className="w-3 h-3 mr-1" />
+                          Cancel
+                        </Button>
+                      )}
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => {
+                          setItemFilter("all")
+                          setItems([])
+                          setExpandedJobId(expandedJobId === job.id ? null : job.id)
+                        }}
+                      >
+                        {expandedJobId === job.id ? (
+                          <ChevronUp className="w-4 h-4" />
+                        ) : (
+                          <ChevronDown className="w-4 h-4" />
+                        )}
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+
+                  {expandedJobId === job.id && expandedJob && (
+                    <TableRow>
+                      <TableCell colSpan={5} className="bg-gray-50">
+                        <div className="flex items-center justify-between mb-2">
+                          <div className="text-xs text-gray-600">
+                            {shownItems.length > ITEM_LIMIT
+                              ? `Showing ${ITEM_LIMIT} of ${shownItems.length} items`
+                              : `${shownItems.length} items`}
+                          </div>
+                          <Select
+                            value={itemFilter}
+                            onValueChange={(value) => setItemFilter(value as JobItemStatus | "all")}
+                          >
+                            <SelectTrigger className="w-40 h-8">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="all">All items</SelectItem>
+                              <SelectItem value="pending">Pending</SelectItem>
+                              <SelectItem value="succeeded">Succeeded</SelectItem>
+                              <SelectItem value="failed">Failed</SelectItem>
+                              <SelectItem value="skipped">Skipped</SelectItem>
+                              <SelectItem value="cancelled">Cancelled</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        </div>
+                        <Table>
+                          <TableHeader>
+                            <TableRow>
+                              <TableHead>Item</TableHead>
+                              <TableHead>Status</TableHead>
+                              <TableHead>Attempts</TableHead>
+                              <TableHead>Result</TableHead>
+                              <TableHead />
+                            </TableRow>
+                          </TableHeader>
+                          <TableBody>
+                            {shownItems.slice(0, ITEM_LIMIT).map((item) => (
+                              <TableRow key={item.id}>
+                                <TableCell className="text-sm">{item.label}</TableCell>
+                                <TableCell>
+                                  <Badge className={ITEM_STATUS_STYLES[item.status]}>{item.status}</Badge>
+                                </TableCell>
+                                <TableCell className="text-xs text-gray-600">{item.attempts}</TableCell>
+                                <TableCell className="text-xs text-gray-600">
+                                  {describeResult(expandedJob, item)}
+                                </TableCell>
+                                <TableCell className="text-right">
+                                  {allowed && item.status === "failed" && !isActive(expandedJob) && (
+                                    <Button
+                                      size="sm"
+                                      variant="outline"
+                                      onClick={() => controlJob(expandedJob, "retry", [item.id])}
+                                      disabled={busy}
+                                    >
+                                      <RotateCcw className="w-3 h-3 mr-1" />
+                                      Retry
+                                    </Button>
+                                  )}
+                                </TableCell>
+                              </TableRow>
+                            ))}
+                          </TableBody>
+                        </Table>
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </Fragment>
+              )
+            })}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,397 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { Gem, RefreshCw, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { useStore } from "@/contexts/StoreContext"
+import { createBulkHistoryEntry } from "@/lib/universal-history"
+import { describePriceRule, type PriceRule, type RoundingRule } from "@/lib/pricing"
+import type { PlannedPriceChange } from "@/lib/bulk-price-update"
+import type { MetalRateQuote } from "@/lib/metal-rates"
+import type { MetalLinkedVariant } from "@/lib/shopify"
+
+interface MetalRepricingModalProps {
+  isOpen: boolean
+  onClose: () => void
+  onRepriced?: () => void
+}
+
+const formatAmount = (amount: string | number) =>
+  Number(amount).toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 })
+
+// Reprice every metal-linked variant from per-gram rates: weight × rate + making charges. Runs through
+// /api/bulk-price-update, so guardrails and approvals apply as for any bulk price change.
+export function MetalRepricingModal({ isOpen, onClose, onRepriced }: MetalRepricingModalProps) {
+  const { can, selectedStore } = useStore()
+  const [providerId, setProviderId] = useState<string | null>(null)
+  const [providers, setProviders] = useState<Array<{ id: string; label: string }>>([])
+  const [quote, setQuote] = useState<MetalRateQuote | null>(null)
+  const [variants, setVariants] = useState<MetalLinkedVariant[]>([])
+  const [rates, setRates] = useState<Record<string, string>>({})
+  const [roundingRule, setRoundingRule] = useState<RoundingRule>("none")
+  const [loading, setLoading] = useState(false)
+  const [diff, setDiff] = useState<PlannedPriceChange[] | null>(null)
+  const [previewing, setPreviewing] = useState(false)
+  const [running, setRunning] = useState(false)
+  const [message, setMessage] = useState<{ type: "success" | "error"; text: string } | null>(null)
+
+  const loadRates = useCallback(async (provider: string | null) => {
+    setLoading(true)
+    setMessage(null)
+    setDiff(null)
+    try {
+      const response = await fetch(`/api/metal-repricing${provider ? `?provider=${encodeURIComponent(provider)}` : ""}`)
+      const data = await response.json()
+      if (!response.ok) {
+        setMessage({ type: "error", text: data.error || "Failed to load metal rates" })
+        return
+      }
+      setQuote(data.quote)
+      setProviders(data.providers)
+      setProviderId(data.quote.provider)
+      setVariants(data.variants)
+      setRates(
+        Object.fromEntries(
+          Object.entries(data.quote.rates as Record<string, number>).map(([metal, rate]) => [metal, String(rate)]),
+        ),
+      )
+    } catch (error) {
+      console.error("Failed to load metal rates:", error)
+      setMessage({ type: "error", text: "Network error occurred. Please try again." })
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (isOpen) loadRates(null)
+  }, [isOpen, loadRates, selectedStore?.id])
+
+  if (!isOpen) return null
+
+  // Metals on the linked variants first, then any others the provider quotes
+  const variantCounts = new Map<string, number>()
+  for (const variant of variants) {
+    variantCounts.set(variant.metal.metalType, (variantCounts.get(variant.metal.metalType) ?? 0) + 1)
+  }
+  const metals = [...new Set([...variantCounts.keys(), ...Object.keys(rates)])]
+  const metalsById = new Map(variants.map((variant) => [variant.id, variant.metal]))
+
+  const rule: PriceRule = {
+    type: "metal_rate",
+    value: 0,
+    applyTo: "both",
+    roundingRule,
+    metalRates: Object.fromEntries(
+      Object.entries(rates)
+        .filter(([metal, rate]) => variantCounts.has(metal) && Number(rate) > 0)
+        .map(([metal, rate]) => [metal, Number(rate)]),
+    ),
+  }
+
+  const updateRate = (metal: string, value: string) => {
+    setRates({ ...rates, [metal]: value })
+    setDiff(null)
+  }
+
+  const handlePreview = async () => {
+    setPreviewing(true)
+    setMessage(null)
+    try {
+      const response = await fetch("/api/bulk-price-update", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          variants: variants.map((variant) => ({
+            variantId: variant.id,
+            productTitle: variant.product.title,
+            variantTitle: variant.title,
+            sku: variant.sku || "",
+          })),
+          rule,
+          action: "increase",
+          dryRun: true,
+        }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        setMessage({ type: "error", text: data.error || "Failed to compute new prices" })
+        return
+      }
+      setDiff(data.diff)
+    } catch (error) {
+      setMessage({ type: "error", text: "Network error occurred. Please try again." })
+    } finally {
+      setPreviewing(false)
+    }
+  }
+
+  const toUpdate = diff?.filter((change) => change.status === "update") ?? []
+
+  const handleRun = async () => {
+    if (!confirm(`Reprice ${toUpdate.length} variants from the metal rates?`)) return
+    setRunning(true)
+    setMessage(null)
+    try {
+      const response = await fetch("/api/bulk-price-update", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ variants: toUpdate, rule, action: "increase" }),
+      })
+      const data = await response.json()
+      if (response.status === 202 && data.approvalRequired) {
+        setMessage({ type: "success", text: data.message || "Sent for approval; prices change once a reviewer approves." })
+        return
+      }
+      if (!response.ok && !data.results) {
+        setMessage({ type: "error", text: data.error || "Repricing failed" })
+        return
+      }
+
+      // The whole run as one batch, so it can be reviewed and rolled back together
+      if (data.results.length > 0) {
+        createBulkHistoryEntry(
+          "bulk_price_update",
+          "pricing",
+          `Metal rate repricing (${describePriceRule(rule, "increase")})`,
+          data.results.map((result: any) => ({
+            productId: result.productId,
+            productTitle: result.productTitle,
+            variantId: result.variantId,
+            variantTitle: result.variantTitle,
+            sku: result.sku,
+            oldValues: { price: result.oldPrice, compareAtPrice: result.oldCompareAtPrice },
+            newValues: { price: result.newPrice, compareAtPrice: result.newCompareAtPrice },
+          })),
+          {
+            variants: data.results.map((result: any) => ({
+              variantId: result.variantId,
+              originalPrice: result.oldPrice,
+              originalCompareAtPrice: result.oldCompareAtPrice,
+            })),
+            metalRates: rule.metalRates,
+            provider: quote?.provider,
+          },
+        )
+      }
+
+      const problems = data.failed + (data.blocked?.length ?? 0)
+      setMessage({
+        type: problems > 0 ? "error" : "success",
+        text: `Repriced ${data.successful} of ${toUpdate.length} variants${
+          data.blocked?.length ? `; ${data.blocked.length} blocked by guardrails` : ""
+        }${data.failed ? `; ${data.failed} failed` : ""}`,
+      })
+      setDiff(null)
+      onRepriced?.()
+    } catch (error) {
+      setMessage({ type: "error", text: "Network error occurred. Please try again." })
+    } finally {
+      setRunning(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 w-full max-w-5xl max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-6">
+          <div>
+            <h2 className="text-2xl font-bold flex items-center">
+              <Gem className="w-6 h-6 mr-2" />
+              Metal Rate Repricing
+            </h2>
+            <p className="text-sm text-gray-500">
+              Price = weight (custom.metal_weight_grams) × rate for its metal (custom.metal_type) + making charges
+              (custom.making_charges). Variants on sale get it as their compare-at price and keep their markdown.
+            </p>
+          </div>
+          <Button variant="ghost" size="sm" onClick={onClose}>
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+
+        {message && (
+          <p className={`mb-4 text-sm ${message.type === "error" ? "text-red-600" : "text-green-600"}`}>{message.text}</p>
+        )}
+
+        {loading && !quote && (
+          <div className="text-center py-8 text-gray-500">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto mb-2"></div>
+            Loading rates and linked variants...
+          </div>
+        )}
+
+        {quote && (
+          <div className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center justify-between">
+                  <span>Rates per gram</span>
+                  <div className="flex items-center gap-2">
+                    <Select value={providerId ?? undefined} onValueChange={(value) => loadRates(value)}>
+                      <SelectTrigger className="w-48">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {providers.map((provider) => (
+                          <SelectItem key={provider.id} value={provider.id}>
+                            {provider.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button variant="outline" size="sm" onClick={() => loadRates(providerId)} disabled={loading}>
+                      <RefreshCw className={`w-4 h-4 mr-2 ${loading ? "animate-spin" : ""}`} />
+                      Reload
+                    </Button>
+                  </div>
+                </CardTitle>
+                <p className="text-sm text-gray-500">
+                  {quote.currency} rates as of {new Date(quote.asOf).toLocaleString()}. Edit any rate to override it for
+                  this run.
+                </p>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {metals.map((metal) => (
+                  <div key={metal} className="grid grid-cols-3 items-center gap-4">
+                    <Label>{metal}</Label>
+                    <Input
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      value={rates[metal] ?? ""}
+                      onChange={(e) => updateRate(metal, e.target.value)}
+                      disabled={!can("prices:edit")}
+                    />
+                    <span className="text-sm text-gray-500">
+                      {variantCounts.get(metal) ?? 0} linked variants
+                      {quote.rates[metal] !== undefined && Number(rates[metal]) !== quote.rates[metal] && (
+                        <span className="text-orange-600"> · provider ₹{formatAmount(quote.rates[metal])}</span>
+                      )}
+                    </span>
+                  </div>
+                ))}
+                <div className="grid grid-cols-3 items-center gap-4">
+                  <Label>Rounding</Label>
+                  <Select
+                    value={roundingRule}
+                    onValueChange={(value) => {
+                      setRoundingRule(value as RoundingRule)
+                      setDiff(null)
+                    }}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">No Rounding</SelectItem>
+                      <SelectItem value="nearest_99">Round to .99</SelectItem>
+                      <SelectItem value="nearest_00">Round to .00</SelectItem>
+                      <SelectItem value="nearest_95">Round to .95</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </CardContent>
+            </Card>
+
+            {variants.length === 0 ? (
+              <p className="text-sm text-gray-500">
+                No variants have both a metal type and a weight metafield yet, so there is nothing to reprice.
+              </p>
+            ) : (
+              can("prices:edit") && (
+                <div className="flex justify-end">
+                  <Button onClick={handlePreview} disabled={previewing || running}>
+                    {previewing ? "Checking..." : `Preview ${variants.length} Variants`}
+                  </Button>
+                </div>
+              )
+            )}
+
+            {diff && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>New Prices</CardTitle>
+                  <p className="text-sm text-gray-500">
+                    {toUpdate.length} to update, {diff.filter((change) => change.status === "unchanged").length}{" "}
+                    unchanged, {diff.filter((change) => change.status === "blocked").length} blocked by guardrails,{" "}
+                    {diff.filter((change) => change.status === "invalid").length} invalid
+                  </p>
+                </CardHeader>
+                <CardContent>
+                  <ScrollArea className="h-96">
+                    <div className="space-y-2">
+                      {diff.map((change) => {
+                        const metal = metalsById.get(change.variantId)
+                        return (
+                          <div
+                            key={change.variantId}
+                            className={`flex justify-between items-center p-3 border rounded ${
+                              change.status === "blocked"
+                                ? "border-orange-300 bg-orange-50"
+                                : change.status === "invalid"
+                                  ? "border-red-300 bg-red-50"
+                                  : change.status === "unchanged"
+                                    ? "opacity-60"
+                                    : ""
+                            }`}
+                          >
+                            <div>
+                              <div className="font-medium">{change.productTitle}</div>
+                              <div className="text-sm text-gray-600">
+                                {change.variantTitle}
+                                {change.sku && ` · SKU: ${change.sku}`}
+                              </div>
+                              {metal && (
+                                <div className="text-xs text-gray-500">
+                                  {metal.metalType} · {metal.weightGrams} g · making ₹{formatAmount(metal.makingCharges)}
+                                </div>
+                              )}
+                              {change.status !== "update" && (
+                                <Badge variant="outline" className="mt-1">
+                                  {change.status === "blocked"
+                                    ? "Blocked"
+                                    : change.status === "invalid"
+                                      ? "Invalid"
+                                      : "No change"}
+                                </Badge>
+                              )}
+                              {change.error && <div className="text-xs text-red-600 mt-1">{change.error}</div>}
+                            </div>
+                            <div className="text-right text-sm">
+                              <div>
+                                ₹{formatAmount(change.currentPrice)} →{" "}
+                                <span className="font-medium">₹{formatAmount(change.newPrice)}</span>
+                              </div>
+                              {change.currentCompareAtPrice && (
+                                <div className="text-xs text-gray-500">
+                                  Compare: ₹{formatAmount(change.currentCompareAtPrice)} → ₹
+                                  {formatAmount(change.newCompareAtPrice ?? change.currentCompareAtPrice)}
+                                </div>
+                              )}
+                            </div>
+                          </div>
+                        )
+                      })}
+                    </div>
+                  </ScrollArea>
+                  <div className="flex justify-end mt-4">
+                    <Button onClick={handleRun} disabled={running || toUpdate.length === 0}>
+                      {running ? "Repricing..." : `Reprice ${toUpdate.length} Variants`}
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,264 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { Plus, ShieldAlert, Trash2, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { useStore } from "@/contexts/StoreContext"
+import type { GuardrailRule, GuardrailScope, PriceGuardrails } from "@/lib/price-guardrails"
+
+interface PriceGuardrailsModalProps {
+  isOpen: boolean
+  onClose: () => void
+  collections: Array<{ id: string; title: string }>
+}
+
+function emptyScope(type: GuardrailScope["type"]): GuardrailScope {
+  switch (type) {
+    case "collection":
+      return { type, collectionId: "" }
+    case "tag":
+      return { type, tag: "" }
+    default:
+      return { type: "all" }
+  }
+}
+
+// Optional number input value: empty means not set
+function toLimit(value: string) {
+  return value === "" ? null : Number(value)
+}
+
+// Minimum margin / price floor rules that discounts and bulk price updates must respect
+export function PriceGuardrailsModal({ isOpen, onClose, collections }: PriceGuardrailsModalProps) {
+  const { can, selectedStore } = useStore()
+  const [guardrails, setGuardrails] = useState<PriceGuardrails | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [message, setMessage] = useState<{ type: "success" | "error"; text: string } | null>(null)
+
+  const canManage = can("team:manage")
+
+  const loadGuardrails = useCallback(async () => {
+    try {
+      const response = await fetch("/api/price-guardrails")
+      const data = await response.json()
+      if (response.ok) {
+        setGuardrails(data.guardrails)
+      } else {
+        setMessage({ type: "error", text: data.error || "Failed to load guardrails" })
+      }
+    } catch (error) {
+      console.error("Failed to load price guardrails:", error)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (isOpen) loadGuardrails()
+  }, [isOpen, loadGuardrails, selectedStore?.id])
+
+  if (!isOpen) return null
+
+  const updateRule = (index: number, update: Partial<GuardrailRule>) => {
+    if (!guardrails) return
+    setGuardrails({ ...guardrails, rules: guardrails.rules.map((rule, i) => (i === index ? { ...rule, ...update } : rule)) })
+  }
+
+  const addRule = () => {
+    if (!guardrails) return
+    const rule: GuardrailRule = { id: `rule_${Date.now()}`, scope: { type: "all" }, minMarginPercent: 20, minPrice: null }
+    setGuardrails({ ...guardrails, rules: [...guardrails.rules, rule] })
+  }
+
+  const handleSave = async () => {
+    if (!guardrails) return
+    setSaving(true)
+    setMessage(null)
+    try {
+      const response = await fetch("/api/price-guardrails", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ enforcement: guardrails.enforcement, rules: guardrails.rules }),
+      })
+      const data = await response.json()
+      if (response.ok) {
+        setGuardrails(data.guardrails)
+        setMessage({ type: "success", text: "Guardrails saved" })
+      } else {
+        setMessage({ type: "error", text: data.error || "Failed to save guardrails" })
+      }
+    } catch (error) {
+      setMessage({ type: "error", text: "Network error occurred. Please try again." })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 w-full max-w-3xl max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-6">
+          <div>
+            <h2 className="text-2xl font-bold">Price Guardrails</h2>
+            <p className="text-sm text-gray-500">
+              Discounts and bulk price cuts may not take a variant below the highest floor that applies to it.
+            </p>
+          </div>
+          <Button variant="ghost" size="sm" onClick={onClose}>
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+
+        {message && (
+          <p className={`mb-4 text-sm ${message.type === "error" ? "text-red-600" : "text-green-600"}`}>{message.text}</p>
+        )}
+
+        {guardrails && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <ShieldAlert className="w-5 h-5 mr-2" />
+                Rules
+              </CardTitle>
+              <p className="text-sm text-gray-500">
+                Margins use the variant&apos;s unit cost in Shopify; variants without a cost only get price floors.
+              </p>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex items-center justify-between gap-4">
+                <Label>When a new price is below its floor</Label>
+                <Select
+                  value={guardrails.enforcement}
+                  onValueChange={(value) =>
+                    setGuardrails({ ...guardrails, enforcement: value as PriceGuardrails["enforcement"] })
+                  }
+                  disabled={!canManage}
+                >
+                  <SelectTrigger className="w-56">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="block">Block the variant</SelectItem>
+                    <SelectItem value="clamp">Raise the price to the floor</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {guardrails.rules.length === 0 && (
+                <div className="text-center py-4 text-gray-500">No guardrails; any price above ₹0.01 is allowed</div>
+              )}
+
+              {guardrails.rules.map((rule, index) => (
+                <div key={rule.id} className="border rounded-lg p-3 grid grid-cols-1 md:grid-cols-12 gap-2 items-end">
+                  <div className="md:col-span-3">
+                    <Label className="text-xs">Applies to</Label>
+                    <Select
+                      value={rule.scope.type}
+                      onValueChange={(value) => updateRule(index, { scope: emptyScope(value as GuardrailScope["type"]) })}
+                      disabled={!canManage}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="all">All products</SelectItem>
+                        <SelectItem value="collection">Collection</SelectItem>
+                        <SelectItem value="tag">Tag</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="md:col-span-3">
+                    {rule.scope.type === "collection" && (
+                      <Select
+                        value={rule.scope.collectionId}
+                        onValueChange={(value) =>
+                          updateRule(index, {
+                            scope: {
+                              type: "collection",
+                              collectionId: value,
+                              collectionTitle: collections.find((c) => c.id === value)?.title,
+                            },
+                          })
+                        }
+                        disabled={!canManage}
+                      >
+                        <SelectTrigger>
+                          <SelectValue placeholder={rule.scope.collectionTitle || "Choose collection"} />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {collections.map((collection) => (
+                            <SelectItem key={collection.id} value={collection.id}>
+                              {collection.title}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    )}
+                    {rule.scope.type === "tag" && (
+                      <Input
+                        placeholder="Tag, e.g. gold"
+                        value={rule.scope.tag}
+                        onChange={(e) => updateRule(index, { scope: { type: "tag", tag: e.target.value } })}
+                        disabled={!canManage}
+                      />
+                    )}
+                  </div>
+                  <div className="md:col-span-2">
+                    <Label className="text-xs">Min margin (%)</Label>
+                    <Input
+                      type="number"
+                      min="0"
+                      max="99"
+                      placeholder="None"
+                      value={rule.minMarginPercent ?? ""}
+                      onChange={(e) => updateRule(index, { minMarginPercent: toLimit(e.target.value) })}
+                      disabled={!canManage}
+                    />
+                  </div>
+                  <div className="md:col-span-3">
+                    <Label className="text-xs">Price floor (₹)</Label>
+                    <Input
+                      type="number"
+                      min="0"
+                      placeholder="None"
+                      value={rule.minPrice ?? ""}
+                      onChange={(e) => updateRule(index, { minPrice: toLimit(e.target.value) })}
+                      disabled={!canManage}
+                    />
+                  </div>
+                  <div className="md:col-span-1 text-right">
+                    {canManage && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setGuardrails({ ...guardrails, rules: guardrails.rules.filter((_, i) => i !== index) })}
+                      >
+                        <Trash2 className="w-4 h-4 text-red-600" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              ))}
+
+              {canManage ? (
+                <div className="flex justify-between">
+                  <Button variant="outline" onClick={addRule}>
+                    <Plus className="w-4 h-4 mr-2" />
+                    Add Guardrail
+                  </Button>
+                  <Button onClick={handleSave} disabled={saving}>
+                    {saving ? "Saving..." : "Save Guardrails"}
+                  </Button>
+                </div>
+              ) : (
+                <p className="text-xs text-gray-500">Only the store owner can change guardrails.</p>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  )
+}
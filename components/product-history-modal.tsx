@@ -1,7 +1,7 @@
 "use client"
 
-import { useState, useEffect } from "react"
-import { X, History, DollarSign, Upload, Edit, TrendingUp, TrendingDown, Calendar } from "lucide-react"
+import { useState, useEffect, useCallback } from "react"
+import { X, History, DollarSign, Upload, Edit, TrendingUp, TrendingDown, Calendar, RotateCcw } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
@@ -9,6 +9,8 @@ import { ScrollArea } from "@/components/ui/scroll-area"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { getProductHistory, getProductHistoryBySKU, type ProductHistoryLog } from "@/lib/bulk-upload"
+import { useStore } from "@/contexts/StoreContext"
+import type { PriceHistoryEntry } from "@/lib/price-history"
 
 interface ProductHistoryModalProps {
   isOpen: boolean
@@ -33,6 +35,25 @@ export function ProductHistoryModal({ isOpen, onClose, product }: ProductHistory
   const [actionFilter, setActionFilter] = useState("all")
   const [statusFilter, setStatusFilter] = useState("all")
   const [dateFilter, setDateFilter] = useState("all")
+  // Price points recorded in Shopify by discounts and rollbacks, per variant ID
+  const [priceTimelines, setPriceTimelines] = useState<{ [variantId: string]: PriceHistoryEntry[] }>({})
+  const [livePrices, setLivePrices] = useState<{ [variantId: string]: { price: string; compareAtPrice: string | null } }>({})
+  const [restoringKey, setRestoringKey] = useState<string | null>(null)
+  const [restoreMessage, setRestoreMessage] = useState<{ type: "success" | "error" | "info"; text: string } | null>(
+    null,
+  )
+  const { can } = useStore()
+  const canEditPrices = can("prices:edit")
+
+  const loadPriceTimeline = useCallback(async (variantId: string) => {
+    try {
+      const response = await fetch(`/api/price-history/${encodeURIComponent(variantId)}`)
+      const data = await response.json()
+      setPriceTimelines((timelines) => ({ ...timelines, [variantId]: data.history || [] }))
+    } catch (error) {
+      console.error("Failed to load price history:", error)
+    }
+  }, [])
 
   useEffect(() => {
     if (isOpen && product) {
@@ -48,8 +69,71 @@ export function ProductHistoryModal({ isOpen, onClose, product }: ProductHistory
         }
       })
       setVariantLogs(variantHistory)
+
+      setRestoreMessage(null)
+      setLivePrices({})
+      product.variants.forEach((variant) => loadPriceTimeline(variant.id))
     }
-  }, [isOpen, product])
+  }, [isOpen, product, loadPriceTimeline])
+
+  const restoreToPoint = async (
+    variant: ProductHistoryModalProps["product"]["variants"][number],
+    entry: PriceHistoryEntry,
+  ) => {
+    const url = `/api/price-history/${encodeURIComponent(variant.id)}/restore`
+    setRestoringKey(entry.key)
+    setRestoreMessage(null)
+    try {
+      // Preview against live prices first so the confirmation shows what will actually change
+      const previewResponse = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ key: entry.key, dryRun: true }),
+      })
+      const preview = await previewResponse.json()
+      if (!previewResponse.ok) {
+        setRestoreMessage({ type: "error", text: preview.error || "Failed to preview restore" })
+        return
+      }
+
+      const describe = (price: string, compareAtPrice: string | null) =>
+        `$${price}${compareAtPrice ? ` (compare at $${compareAtPrice})` : ""}`
+      const schedulesNote =
+        preview.pendingSchedules > 0 ? `\n\n${preview.pendingSchedules} scheduled discount reversion(s) will be cancelled.` : ""
+      if (
+        !confirm(
+          `Restore ${variant.title} to its prices from ${new Date(entry.date).toLocaleString()}?\n\n` +
+            `${describe(preview.currentPrice, preview.currentCompareAtPrice)} → ` +
+            `${describe(preview.restoredPrice, preview.restoredCompareAtPrice)}${schedulesNote}`,
+        )
+      ) {
+        return
+      }
+
+      const response = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ key: entry.key }),
+      })
+      const data = await response.json()
+      if (response.status === 202) {
+        setRestoreMessage({ type: "info", text: `⏳ ${data.message}` })
+      } else if (response.ok) {
+        setRestoreMessage({ type: "success", text: `✅ ${data.message}` })
+        setLivePrices((prices) => ({
+          ...prices,
+          [variant.id]: { price: data.restoredPrice, compareAtPrice: data.restoredCompareAtPrice },
+        }))
+        loadPriceTimeline(variant.id)
+      } else {
+        setRestoreMessage({ type: "error", text: data.error || "Failed to restore prices" })
+      }
+    } catch (error) {
+      setRestoreMessage({ type: "error", text: "❌ Network error occurred. Please try again." })
+    } finally {
+      setRestoringKey(null)
+    }
+  }
 
   if (!isOpen || !product) return null
 
@@ -387,48 +471,102 @@ export function ProductHistoryModal({ isOpen, onClose, product }: ProductHistory
 
           {/* By Variant Tab */}
           <TabsContent value="variants" className="space-y-4">
-            {product.variants.map((variant) => (
-              <Card key={variant.id}>
-                <CardHeader>
-                  <CardTitle className="text-lg">
-                    {variant.title} - SKU: {variant.sku}
-                  </CardTitle>
-                  <div className="text-sm text-gray-600">
-                    Current Price: ${variant.price}
-                    {variant.compareAtPrice && <span className="ml-2">Compare At: ${variant.compareAtPrice}</span>}
-                  </div>
-                </CardHeader>
-                <CardContent>
-                  <ScrollArea className="h-48">
-                    <div className="space-y-2">
-                      {getFilteredLogs(variantLogs[variant.sku] || []).map((log) => (
-                        <div key={log.id} className="border rounded p-3">
-                          <div className="flex items-start justify-between">
-                            <div className="flex items-start space-x-2">
-                              {getActionIcon(log.action)}
-                              <div className="flex-1">
+            {restoreMessage && (
+              <p
+                className={`text-sm ${
+                  restoreMessage.type === "error"
+                    ? "text-red-600"
+                    : restoreMessage.type === "info"
+                      ? "text-blue-600"
+                      : "text-green-600"
+                }`}
+              >
+                {restoreMessage.text}
+              </p>
+            )}
+            {product.variants.map((variant) => {
+              const current = livePrices[variant.id] || variant
+              const timeline = priceTimelines[variant.id] || []
+              return (
+                <Card key={variant.id}>
+                  <CardHeader>
+                    <CardTitle className="text-lg">
+                      {variant.title} - SKU: {variant.sku}
+                    </CardTitle>
+                    <div className="text-sm text-gray-600">
+                      Current Price: ${current.price}
+                      {current.compareAtPrice && <span className="ml-2">Compare At: ${current.compareAtPrice}</span>}
+                    </div>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    {timeline.length > 0 && (
+                      <div>
+                        <div className="text-sm font-medium mb-2">Price Points</div>
+                        <div className="space-y-2">
+                          {timeline.map((entry) => (
+                            <div key={entry.key} className="border rounded p-3 flex items-center justify-between gap-4">
+                              <div>
                                 <div className="flex items-center gap-2 mb-1">
-                                  <Badge className={getStatusColor(log.status)} size="sm">
-                                    {log.status}
+                                  <Badge variant="outline" className="text-xs">
+                                    {entry.type === "discount" ? "Before discount" : "Restored"}
                                   </Badge>
-                                  <span className="text-xs font-medium">{log.action.replace("_", " ")}</span>
+                                  <span className="text-xs font-medium">{entry.action}</span>
                                 </div>
-                                <div className="text-xs text-gray-600">{log.details}</div>
-                                {formatPriceChange(log)}
+                                <div className="text-xs text-gray-600">
+                                  Price: ${entry.price}
+                                  {entry.compareAtPrice && <span className="ml-2">Compare At: ${entry.compareAtPrice}</span>}
+                                </div>
+                              </div>
+                              <div className="flex items-center gap-3">
+                                <div className="text-xs text-gray-400">{formatDate(entry.date)}</div>
+                                {canEditPrices && (
+                                  <Button
+                                    variant="outline"
+                                    size="sm"
+                                    onClick={() => restoreToPoint(variant, entry)}
+                                    disabled={restoringKey !== null}
+                                  >
+                                    <RotateCcw className="w-3 h-3 mr-1" />
+                                    {restoringKey === entry.key ? "Restoring..." : "Restore to this point"}
+                                  </Button>
+                                )}
                               </div>
                             </div>
-                            <div className="text-xs text-gray-400">{formatDate(log.timestamp)}</div>
-                          </div>
+                          ))}
                         </div>
-                      ))}
-                      {(!variantLogs[variant.sku] || variantLogs[variant.sku].length === 0) && (
-                        <div className="text-center py-4 text-gray-500 text-sm">No history found for this variant</div>
-                      )}
-                    </div>
-                  </ScrollArea>
-                </CardContent>
-              </Card>
-            ))}
+                      </div>
+                    )}
+                    <ScrollArea className="h-48">
+                      <div className="space-y-2">
+                        {getFilteredLogs(variantLogs[variant.sku] || []).map((log) => (
+                          <div key={log.id} className="border rounded p-3">
+                            <div className="flex items-start justify-between">
+                              <div className="flex items-start space-x-2">
+                                {getActionIcon(log.action)}
+                                <div className="flex-1">
+                                  <div className="flex items-center gap-2 mb-1">
+                                    <Badge className={getStatusColor(log.status)} size="sm">
+                                      {log.status}
+                                    </Badge>
+                                    <span className="text-xs font-medium">{log.action.replace("_", " ")}</span>
+                                  </div>
+                                  <div className="text-xs text-gray-600">{log.details}</div>
+                                  {formatPriceChange(log)}
+                                </div>
+                              </div>
+                              <div className="text-xs text-gray-400">{formatDate(log.timestamp)}</div>
+                            </div>
+                          </div>
+                        ))}
+                        {(!variantLogs[variant.sku] || variantLogs[variant.sku].length === 0) && (
+                          <div className="text-center py-4 text-gray-500 text-sm">No history found for this variant</div>
+                        )}
+                      </div>
+                    </ScrollArea>
+                  </CardContent>
+                </Card>
+              )
+            })}
           </TabsContent>
         </Tabs>
       </div>
@@ -0,0 +1,428 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { Download, Loader2, Play, RefreshCw, RotateCcw } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Progress } from "@/components/ui/progress"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import type { Campaign } from "@/lib/campaigns"
+import type { DiscountBatch } from "@/lib/discount-batches"
+import type { RollbackJob, RollbackScope } from "@/lib/rollback-jobs"
+
+interface RollbackJobsViewProps {
+  refreshKey: number // Bump to reload after discounts or campaigns change elsewhere on the page
+  canEdit: boolean
+  onPricesChanged?: () => void // A job restored variant prices
+}
+
+type ScopeType = RollbackScope["type"]
+
+// Server-side rollbacks of a whole discount batch, every batch in a date range, or a live campaign
+export function RollbackJobsView({ refreshKey, canEdit, onPricesChanged }: RollbackJobsViewProps) {
+  const [jobs, setJobs] = useState<RollbackJob[]>([])
+  const [batches, setBatches] = useState<DiscountBatch[]>([])
+  const [liveCampaigns, setLiveCampaigns] = useState<Campaign[]>([])
+  const [loading, setLoading] = useState(false)
+  const [message, setMessage] = useState<{ type: "success" | "error" | "info"; text: string } | null>(null)
+
+  const [scopeType, setScopeType] = useState<ScopeType>("batch")
+  const [batchId, setBatchId] = useState("")
+  const [fromDate, setFromDate] = useState("")
+  const [toDate, setToDate] = useState("")
+  const [campaignId, setCampaignId] = useState("")
+  const [preview, setPreview] = useState<{ label: string; total: number } | null>(null)
+  const [runningJob, setRunningJob] = useState<RollbackJob | null>(null)
+  const [busy, setBusy] = useState(false)
+
+  const loadJobs = useCallback(async () => {
+    setLoading(true)
+    try {
+      const [jobsResponse, campaignsResponse] = await Promise.all([
+        fetch("/api/rollback-jobs"),
+        fetch("/api/campaigns?status=live"),
+      ])
+      const data = await jobsResponse.json()
+      if (!jobsResponse.ok) {
+        throw new Error(data.error || "Failed to load rollback jobs")
+      }
+      setJobs(data.jobs || [])
+      setBatches(data.batches || [])
+      if (campaignsResponse.ok) {
+        setLiveCampaigns((await campaignsResponse.json()).campaigns || [])
+      }
+    } catch (loadError) {
+      setMessage({ type: "error", text: loadError instanceof Error ? loadError.message : "Failed to load rollback jobs" })
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadJobs()
+  }, [loadJobs, refreshKey])
+
+  // Date inputs cover whole days
+  const buildScope = (): RollbackScope => {
+    switch (scopeType) {
+      case "date_range":
+        return {
+          type: "date_range",
+          from: fromDate ? new Date(`${fromDate}T00:00:00`).toISOString() : "",
+          to: toDate ? new Date(`${toDate}T23:59:59.999`).toISOString() : "",
+        }
+      case "campaign":
+        return { type: "campaign", campaignId }
+      default:
+        return { type: "batch", batchId: batchId.trim() }
+    }
+  }
+
+  const previewRollback = async () => {
+    setBusy(true)
+    setMessage(null)
+    setPreview(null)
+    try {
+      const response = await fetch("/api/rollback-jobs", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ scope: buildScope(), dryRun: true }),
+      })
+      const data = await response.json()
+      if (response.ok) {
+        setPreview({ label: data.label, total: data.total })
+      } else {
+        setMessage({ type: "error", text: data.error || "Failed to find variants to roll back" })
+      }
+    } catch (error) {
+      setMessage({ type: "error", text: "❌ Network error occurred. Please try again." })
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  // Run the job chunk by chunk until the server reports it completed
+  const runJob = async (job: RollbackJob) => {
+    setRunningJob(job)
+    let current = job
+    try {
+      while (current.status === "running") {
+        const response = await fetch(`/api/rollback-jobs/${current.id}`, { method: "POST" })
+        const data = await response.json()
+        if (!response.ok) {
+          throw new Error(data.error || "Rollback job failed")
+        }
+        // Another tab or request holds this chunk; wait before asking again
+        if (data.job.processed === current.processed && data.job.status === "running") {
+          await new Promise((resolve) => setTimeout(resolve, 3000))
+        }
+        current = data.job
+        setRunningJob(current)
+      }
+      if (current.error) {
+        setMessage({ type: "error", text: `${current.label}: ${current.error}. Nothing was restored.` })
+        return
+      }
+      setMessage({
+        type: current.failed > 0 ? "error" : "success",
+        text: `${current.label}: restored ${current.reverted} of ${current.total} variants${
+          current.skipped ? `, skipped ${current.skipped} changed since` : ""
+        }${current.failed ? `, ${current.failed} failed` : ""}. Download the report for details.`,
+      })
+      onPricesChanged?.()
+    } catch (error) {
+      setMessage({
+        type: "error",
+        text: `${error instanceof Error ? error.message : "Rollback job failed"}. Resume it from the list below.`,
+      })
+    } finally {
+      setRunningJob(null)
+      loadJobs()
+    }
+  }
+
+  const startRollback = async () => {
+    if (!preview || !confirm(`Roll back ${preview.label}? ${preview.total} variants go back to their earlier prices.`)) {
+      return
+    }
+
+    setBusy(true)
+    setMessage(null)
+    try {
+      const response = await fetch("/api/rollback-jobs", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ scope: buildScope() }),
+      })
+      const data = await response.json()
+      if (response.status === 202) {
+        setPreview(null)
+        setMessage({ type: "info", text: `⏳ ${data.message}` })
+        return
+      }
+      if (!response.ok) {
+        setMessage({ type: "error", text: data.error || "Failed to start rollback" })
+        return
+      }
+      setPreview(null)
+      await runJob(data.job)
+    } catch (error) {
+      setMessage({ type: "error", text: "❌ Network error occurred. Please try again." })
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const changeScopeType = (value: string) => {
+    setScopeType(value as ScopeType)
+    setPreview(null)
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="text-sm text-gray-600">
+          Roll back a whole discount run, every discount applied in a date range, or a live campaign. The variants
+          are found from recorded history; variants repriced since are skipped.
+        </div>
+        <Button variant="outline" size="sm" onClick={loadJobs} disabled={loading}>
+          <RefreshCw className={`w-4 h-4 mr-2 ${loading ? "animate-spin" : ""}`} />
+          Refresh
+        </Button>
+      </div>
+
+      {canEdit && (
+        <div className="border rounded-lg p-4 space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+            <div>
+              <Label className="text-xs">Roll back</Label>
+              <Select value={scopeType} onValueChange={changeScopeType}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="batch">A discount batch</SelectItem>
+                  <SelectItem value="date_range">Discounts in a date range</SelectItem>
+                  <SelectItem value="campaign">A live campaign</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {scopeType === "batch" && (
+              <>
+                <div className="md:col-span-2">
+                  <Label className="text-xs">Recent batches</Label>
+                  <Select
+                    value={batches.some((batch) => batch.id === batchId) ? batchId : ""}
+                    onValueChange={(value) => {
+                      setBatchId(value)
+                      setPreview(null)
+                    }}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder={batches.length ? "Choose a batch" : "No discount batches yet"} />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {batches.map((batch) => (
+                        <SelectItem key={batch.id} value={batch.id}>
+                          {batch.label} · {batch.variantCount} variants · {new Date(batch.createdAt).toLocaleString()}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label className="text-xs">Batch ID</Label>
+                  <Input
+                    placeholder="batch_..."
+                    value={batchId}
+                    onChange={(e) => {
+                      setBatchId(e.target.value)
+                      setPreview(null)
+                    }}
+                  />
+                </div>
+              </>
+            )}
+
+            {scopeType === "date_range" && (
+              <>
+                <div>
+                  <Label className="text-xs">From</Label>
+                  <Input
+                    type="date"
+                    value={fromDate}
+                    onChange={(e) => {
+                      setFromDate(e.target.value)
+                      setPreview(null)
+                    }}
+                  />
+                </div>
+                <div>
+                  <Label className="text-xs">To</Label>
+                  <Input
+                    type="date"
+                    value={toDate}
+                    onChange={(e) => {
+                      setToDate(e.target.value)
+                      setPreview(null)
+                    }}
+                  />
+                </div>
+              </>
+            )}
+
+            {scopeType === "campaign" && (
+              <div className="md:col-span-2">
+                <Label className="text-xs">Campaign</Label>
+                <Select
+                  value={campaignId}
+                  onValueChange={(value) => {
+                    setCampaignId(value)
+                    setPreview(null)
+                  }}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder={liveCampaigns.length ? "Choose a campaign" : "No live campaigns"} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {liveCampaigns.map((campaign) => (
+                      <SelectItem key={campaign.id} value={campaign.id}>
+                        {campaign.name} · {campaign.applied ?? campaign.variantIds.length} variants
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+
+          <div className="flex items-center gap-3">
+            <Button variant="outline" onClick={previewRollback} disabled={busy || runningJob !== null}>
+              {busy && !preview ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : null}
+              Find Variants
+            </Button>
+            {preview && (
+              <>
+                <span className="text-sm text-gray-600">
+                  {preview.total} variants in {preview.label}
+                </span>
+                <Button
+                  className="bg-red-600 hover:bg-red-700"
+                  onClick={startRollback}
+                  disabled={busy || runningJob !== null}
+                >
+                  <RotateCcw className="w-4 h-4 mr-2" />
+                  Start Rollback
+                </Button>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+
+      {runningJob && (
+        <div className="border rounded-lg p-4 bg-blue-50">
+          <div className="flex justify-between text-sm mb-2">
+            <span className="font-medium">Rolling back {runningJob.label}</span>
+            <span>
+              {runningJob.processed} / {runningJob.total}
+            </span>
+          </div>
+          <Progress value={runningJob.total ? (runningJob.processed / runningJob.total) * 100 : 0} className="w-full" />
+          <div className="text-xs text-gray-600 mt-2">
+            {runningJob.reverted} restored, {runningJob.skipped} skipped, {runningJob.failed} failed
+          </div>
+        </div>
+      )}
+
+      {message && (
+        <div
+          className={`text-sm p-3 rounded ${
+            message.type === "success"
+              ? "bg-green-50 text-green-800"
+              : message.type === "info"
+                ? "bg-blue-50 text-blue-800"
+                : "bg-red-50 text-red-800"
+          }`}
+        >
+          {message.text}
+        </div>
+      )}
+
+      {jobs.length === 0 ? (
+        <div className="text-center py-6 text-gray-500">
+          {loading ? <Loader2 className="w-5 h-5 animate-spin mx-auto" /> : "No rollback jobs yet"}
+        </div>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Rollback</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Progress</TableHead>
+              <TableHead>Started</TableHead>
+              <TableHead className="text-right">Report</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {jobs.map((job) => (
+              <TableRow key={job.id}>
+                <TableCell>
+                  <div className="font-medium">{job.label}</div>
+                  <div className="text-xs text-gray-500">{job.createdBy?.email || job.createdBy?.uid}</div>
+                </TableCell>
+                <TableCell>
+                  <Badge
+                    className={
+                      job.status === "running"
+                        ? "bg-blue-100 text-blue-800"
+                        : job.failed > 0 || job.error
+                          ? "bg-red-100 text-red-800"
+                          : "bg-green-100 text-green-800"
+                    }
+                  >
+                    {job.status === "running"
+                      ? "Running"
+                      : job.error
+                        ? "Stopped"
+                        : job.failed > 0
+                          ? "Completed with errors"
+                          : "Completed"}
+                  </Badge>
+                </TableCell>
+                <TableCell className="text-xs text-gray-600">
+                  <div>
+                    {job.processed} / {job.total} processed
+                  </div>
+                  <div>
+                    {job.reverted} restored, {job.skipped} skipped, {job.failed} failed
+                  </div>
+                  {job.error && <div className="text-red-600">{job.error}</div>}
+                </TableCell>
+                <TableCell className="text-xs text-gray-600">{new Date(job.createdAt).toLocaleString()}</TableCell>
+                <TableCell className="text-right space-x-1 whitespace-nowrap">
+                  {job.status === "running" && canEdit && (
+                    <Button size="sm" variant="outline" onClick={() => runJob(job)} disabled={runningJob !== null}>
+                      <Play className="w-3 h-3 mr-1" />
+                      Resume
+                    </Button>
+                  )}
+                  <Button size="sm" variant="outline" asChild>
+                    <a href={`/api/rollback-jobs/${job.id}/report`} download>
+                      <Download className="w-3 h-3 mr-1" />
+                      CSV
+                    </a>
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  )
+}
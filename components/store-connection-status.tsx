@@ -5,11 +5,13 @@ import { CheckCircle, XCircle, AlertCircle } from "lucide-react"
 import { Card, CardContent } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
+import { useStore } from "@/contexts/StoreContext"
 
 export function StoreConnectionStatus() {
   const [connectionStatus, setConnectionStatus] = useState<"checking" | "connected" | "error">("checking")
   const [storeInfo, setStoreInfo] = useState<any>(null)
   const [errorDetails, setErrorDetails] = useState<string>("")
+  const { selectedStore } = useStore()
 
   useEffect(() => {
     const checkConnection = async () => {
@@ -23,7 +25,7 @@ export function StoreConnectionStatus() {
           setConnectionStatus("connected")
           setStoreInfo({
             productCount: data.count || 0,
-            storeName: "Shopify Store",
+            storeName: selectedStore?.name || "Shopify Store",
           })
           setErrorDetails("")
         } else {
@@ -40,7 +42,7 @@ export function StoreConnectionStatus() {
     }
 
     checkConnection()
-  }, [])
+  }, [selectedStore?.id])
 
   const getStatusIcon = () => {
     switch (connectionStatus) {
@@ -0,0 +1,38 @@
+"use client"
+
+import { Store } from "lucide-react"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { useStore } from "@/contexts/StoreContext"
+import { getRoleLabel } from "@/lib/roles"
+
+export function StoreSwitcher() {
+  const { stores, selectedStoreId, selectStore, loading } = useStore()
+
+  const handleChange = (storeId: string) => {
+    if (storeId === selectedStoreId) return
+    selectStore(storeId)
+    // Every page loads its catalog on mount, so reload to fetch from the new store
+    window.location.reload()
+  }
+
+  if (stores.length === 0) {
+    return null
+  }
+
+  return (
+    <Select value={selectedStoreId || undefined} onValueChange={handleChange} disabled={loading}>
+      <SelectTrigger className="w-56">
+        <Store className="w-4 h-4 mr-2 text-gray-500" />
+        <SelectValue placeholder="Select store" />
+      </SelectTrigger>
+      <SelectContent>
+        {stores.map((store) => (
+          <SelectItem key={store.id} value={store.id}>
+            {store.name}
+            {store.role !== "owner" && ` (${getRoleLabel(store.role)})`}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
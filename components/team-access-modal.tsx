@@ -0,0 +1,407 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { X, Users, ShieldCheck, CheckCircle, XCircle, Trash2, RefreshCw } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { useAuth } from "@/contexts/AuthContext"
+import { useStore } from "@/contexts/StoreContext"
+import { APPROVAL_HEADER, MEMBER_ROLES, canReviewApproval, getRoleLabel, type MemberRole } from "@/lib/roles"
+import type { ApprovalRequest } from "@/lib/approvals"
+import type { ApprovalPolicy, TeamMember } from "@/lib/store-team"
+
+interface TeamAccessModalProps {
+  isOpen: boolean
+  onClose: () => void
+  onApprovalExecuted?: () => void
+}
+
+export function TeamAccessModal({ isOpen, onClose, onApprovalExecuted }: TeamAccessModalProps) {
+  const { user } = useAuth()
+  const { role, can, selectedStore } = useStore()
+  const [members, setMembers] = useState<TeamMember[]>([])
+  const [policy, setPolicy] = useState<ApprovalPolicy | null>(null)
+  const [approvals, setApprovals] = useState<ApprovalRequest[]>([])
+  const [newMemberEmail, setNewMemberEmail] = useState("")
+  const [newMemberRole, setNewMemberRole] = useState<MemberRole>("viewer")
+  const [busy, setBusy] = useState<string | null>(null)
+  const [message, setMessage] = useState<{ type: "success" | "error"; text: string } | null>(null)
+
+  const canManageTeam = can("team:manage")
+
+  const loadData = useCallback(async () => {
+    try {
+      const [teamResponse, approvalsResponse] = await Promise.all([fetch("/api/store-team"), fetch("/api/approvals")])
+      const team = await teamResponse.json()
+      const approvalData = await approvalsResponse.json()
+
+      if (teamResponse.ok) {
+        setMembers(team.members || [])
+        setPolicy(team.approvalPolicy)
+      }
+      if (approvalsResponse.ok) {
+        setApprovals(approvalData.approvals || [])
+      }
+    } catch (error) {
+      console.error("Failed to load team data:", error)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (isOpen) loadData()
+  }, [isOpen, loadData, selectedStore?.id])
+
+  const runRequest = async (key: string, action: () => Promise<Response>, successText: string) => {
+    setBusy(key)
+    setMessage(null)
+    try {
+      const response = await action()
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        throw new Error(data.error || `Request failed with status ${response.status}`)
+      }
+      setMessage({ type: "success", text: successText })
+      await loadData()
+      return data
+    } catch (error) {
+      setMessage({ type: "error", text: error instanceof Error ? error.message : "Request failed" })
+      return null
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const handleAddMember = async () => {
+    if (!newMemberEmail.trim()) return
+    const result = await runRequest(
+      "add-member",
+      () =>
+        fetch("/api/store-team", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ email: newMemberEmail.trim(), role: newMemberRole }),
+        }),
+      `Added ${newMemberEmail.trim()}`,
+    )
+    if (result) setNewMemberEmail("")
+  }
+
+  const handleRoleChange = (uid: string, newRole: MemberRole) =>
+    runRequest(
+      `role-${uid}`,
+      () =>
+        fetch("/api/store-team", {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ uid, role: newRole }),
+        }),
+      "Role updated",
+    )
+
+  const handleRemoveMember = (member: TeamMember) => {
+    if (!confirm(`Remove ${member.email} from this store?`)) return
+    runRequest(`remove-${member.uid}`, () => fetch(`/api/store-team?uid=${member.uid}`, { method: "DELETE" }), "Member removed")
+  }
+
+  const handleSavePolicy = () =>
+    runRequest(
+      "policy",
+      () =>
+        fetch("/api/store-team", {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ approvalPolicy: policy }),
+        }),
+      "Approval policy saved",
+    )
+
+  // Approving only unlocks the request; the original route is then replayed with the stored payload
+  const handleApprove = async (approval: ApprovalRequest) => {
+    const reviewed = await runRequest(
+      `review-${approval.id}`,
+      () =>
+        fetch(`/api/approvals/${approval.id}`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ decision: "approve" }),
+        }),
+      "Approved",
+    )
+    if (!reviewed) return
+
+    await runRequest(
+      `review-${approval.id}`,
+      () =>
+        fetch(approval.route, {
+          method: approval.method,
+          headers: { "Content-Type": "application/json", [APPROVAL_HEADER]: approval.id },
+        }),
+      `Approved and ran: ${approval.summary}`,
+    )
+    onApprovalExecuted?.()
+  }
+
+  const handleReject = (approval: ApprovalRequest) => {
+    const note = prompt("Reason for rejecting (optional)") || ""
+    runRequest(
+      `review-${approval.id}`,
+      () =>
+        fetch(`/api/approvals/${approval.id}`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ decision: "reject", note }),
+        }),
+      "Request rejected",
+    )
+  }
+
+  const getStatusColor = (status: ApprovalRequest["status"]) => {
+    switch (status) {
+      case "pending":
+        return "bg-yellow-100 text-yellow-800"
+      case "approved":
+      case "executing":
+        return "bg-blue-100 text-blue-800"
+      case "executed":
+        return "bg-green-100 text-green-800"
+      default:
+        return "bg-red-100 text-red-800"
+    }
+  }
+
+  if (!isOpen) return null
+
+  const pending = approvals.filter((a) => a.status === "pending")
+  const resolved = approvals.filter((a) => a.status !== "pending")
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 w-full max-w-4xl max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-6">
+          <div>
+            <h2 className="text-2xl font-bold">Team & Approvals</h2>
+            <p className="text-sm text-gray-500">
+              {selectedStore?.name} · Your role: {role ? getRoleLabel(role) : "None"}
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={loadData}>
+              <RefreshCw className="w-4 h-4" />
+            </Button>
+            <Button variant="ghost" size="sm" onClick={onClose}>
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+
+        {message && (
+          <p className={`mb-4 text-sm ${message.type === "error" ? "text-red-600" : "text-green-600"}`}>{message.text}</p>
+        )}
+
+        {/* Approval Requests */}
+        <Card className="mb-6">
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <ShieldCheck className="w-5 h-5 mr-2" />
+              Pending Approvals ({pending.length})
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {pending.length === 0 ? (
+              <div className="text-center py-4 text-gray-500">No requests waiting for approval</div>
+            ) : (
+              <div className="space-y-3">
+                {pending.map((approval) => {
+                  const canReview = canReviewApproval(role, approval.action) && approval.requestedBy !== user?.uid
+                  return (
+                    <div key={approval.id} className="border rounded-lg p-4 flex items-start justify-between">
+                      <div>
+                        <div className="flex items-center gap-2 mb-1">
+                          <Badge variant="outline">{approval.action === "bulk_delete" ? "Bulk delete" : "Price change"}</Badge>
+                          {approval.changePercent !== null && (
+                            <Badge variant="outline">{approval.changePercent}% change</Badge>
+                          )}
+                        </div>
+                        <div className="text-sm font-medium">{approval.summary}</div>
+                        <div className="text-xs text-gray-500">
+                          Requested by {approval.requestedByEmail || approval.requestedBy} on{" "}
+                          {new Date(approval.requestedAt).toLocaleString()}
+                        </div>
+                      </div>
+                      {canReview ? (
+                        <div className="flex gap-2">
+                          <Button
+                            size="sm"
+                            className="bg-green-600 hover:bg-green-700"
+                            disabled={busy === `review-${approval.id}`}
+                            onClick={() => handleApprove(approval)}
+                          >
+                            <CheckCircle className="w-4 h-4 mr-1" />
+                            Approve & Run
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            disabled={busy === `review-${approval.id}`}
+                            onClick={() => handleReject(approval)}
+                          >
+                            <XCircle className="w-4 h-4 mr-1" />
+                            Reject
+                          </Button>
+                        </div>
+                      ) : (
+                        <span className="text-xs text-gray-400">Waiting for another reviewer</span>
+                      )}
+                    </div>
+                  )
+                })}
+              </div>
+            )}
+
+            {resolved.length > 0 && (
+              <>
+                <h4 className="text-sm font-medium mt-6 mb-2">Recent decisions</h4>
+                <ScrollArea className="h-48">
+                  <div className="space-y-2">
+                    {resolved.map((approval) => (
+                      <div key={approval.id} className="flex items-center justify-between text-sm border-b pb-2">
+                        <div>
+                          <div>{approval.summary}</div>
+                          <div className="text-xs text-gray-500">
+                            {approval.result || approval.reviewNote || ""}
+                          </div>
+                        </div>
+                        <Badge className={getStatusColor(approval.status)}>{approval.status}</Badge>
+                      </div>
+                    ))}
+                  </div>
+                </ScrollArea>
+              </>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Team Members */}
+        <Card className="mb-6">
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <Users className="w-5 h-5 mr-2" />
+              Team Members
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {members.length === 0 ? (
+              <div className="text-center py-4 text-gray-500">Only the owner has access to this store</div>
+            ) : (
+              <div className="space-y-2">
+                {members.map((member) => (
+                  <div key={member.uid} className="flex items-center justify-between border rounded-lg p-3">
+                    <div className="text-sm">{member.email}</div>
+                    {canManageTeam ? (
+                      <div className="flex items-center gap-2">
+                        <Select value={member.role} onValueChange={(value) => handleRoleChange(member.uid, value as MemberRole)}>
+                          <SelectTrigger className="w-44">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {MEMBER_ROLES.map((r) => (
+                              <SelectItem key={r.value} value={r.value}>
+                                {r.label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <Button variant="ghost" size="sm" onClick={() => handleRemoveMember(member)}>
+                          <Trash2 className="w-4 h-4 text-red-600" />
+                        </Button>
+                      </div>
+                    ) : (
+                      <Badge variant="outline">{getRoleLabel(member.role)}</Badge>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {canManageTeam && (
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-2 pt-2">
+                <Input
+                  className="md:col-span-2"
+                  placeholder="teammate@example.com"
+                  value={newMemberEmail}
+                  onChange={(e) => setNewMemberEmail(e.target.value)}
+                />
+                <Select value={newMemberRole} onValueChange={(value) => setNewMemberRole(value as MemberRole)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {MEMBER_ROLES.map((r) => (
+                      <SelectItem key={r.value} value={r.value}>
+                        {r.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button onClick={handleAddMember} disabled={busy === "add-member" || !newMemberEmail.trim()}>
+                  Add Member
+                </Button>
+                <p className="md:col-span-4 text-xs text-gray-500">
+                  {MEMBER_ROLES.find((r) => r.value === newMemberRole)?.description}. Members must have signed in once.
+                </p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Approval Policy */}
+        {canManageTeam && policy && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Approval Policy</CardTitle>
+              <p className="text-sm text-gray-500">
+                Approvals apply when another owner or pricing manager can review the request.
+              </p>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="bulk-delete-approval">Require approval for bulk deletes</Label>
+                <Switch
+                  id="bulk-delete-approval"
+                  checked={policy.requireBulkDeleteApproval}
+                  onCheckedChange={(checked) => setPolicy({ ...policy, requireBulkDeleteApproval: checked })}
+                />
+              </div>
+              <div className="flex items-center justify-between gap-4">
+                <Label htmlFor="price-threshold">Require approval for price changes above (%)</Label>
+                <Input
+                  id="price-threshold"
+                  type="number"
+                  min="0"
+                  className="w-32"
+                  placeholder="Off"
+                  value={policy.priceChangeThresholdPercent ?? ""}
+                  onChange={(e) =>
+                    setPolicy({
+                      ...policy,
+                      priceChangeThresholdPercent: e.target.value === "" ? null : Number(e.target.value),
+                    })
+                  }
+                />
+              </div>
+              <Button onClick={handleSavePolicy} disabled={busy === "policy"}>
+                Save Policy
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  )
+}
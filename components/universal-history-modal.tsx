@@ -60,6 +60,14 @@ export function UniversalHistoryModal({ isOpen, onClose, productId, batchId }: U
     if (isOpen) {
       loadHistory()
       loadStatistics()
+
+      // Merge in edits made in Shopify admin since the last look
+      universalHistory.syncExternalChanges().then((added) => {
+        if (added > 0) {
+          loadHistory()
+          loadStatistics()
+        }
+      })
     }
   }, [isOpen, productId, batchId])
 
@@ -134,7 +142,18 @@ export function UniversalHistoryModal({ isOpen, onClose, productId, batchId }: U
     setMessage(null)
 
     try {
-      const result = await universalHistory.rollbackOperation(entryId)
+      let result = await universalHistory.rollbackOperation(entryId)
+
+      if (result.externalChanges?.length) {
+        const details = result.externalChanges
+          .slice(0, 5)
+          .map((change) => `• ${change.description}`)
+          .join("\n")
+        if (window.confirm(`${result.message}\n\n${details}\n\nRoll back anyway?`)) {
+          result = await universalHistory.rollbackOperation(entryId, { force: true })
+        }
+        loadHistory()
+      }
 
       if (result.success) {
         setMessage({ type: "success", text: result.message })
@@ -192,6 +211,8 @@ export function UniversalHistoryModal({ isOpen, onClose, productId, batchId }: U
         return <ImageIcon className="w-4 h-4" />
       case "collection_update":
         return <Layers className="w-4 h-4" />
+      case "external_change":
+        return <ExternalLink className="w-4 h-4" />
       default:
         return <History className="w-4 h-4" />
     }
@@ -383,6 +404,7 @@ export function UniversalHistoryModal({ isOpen, onClose, productId, batchId }: U
                   <SelectItem value="bulk_price_update">Bulk Price Update</SelectItem>
                   <SelectItem value="bulk_discount">Bulk Discount</SelectItem>
                   <SelectItem value="image_upload">Image Upload</SelectItem>
+                  <SelectItem value="external_change">External Change</SelectItem>
                 </SelectContent>
               </Select>
 
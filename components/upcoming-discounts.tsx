@@ -0,0 +1,103 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { CalendarClock, Loader2, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import type { Campaign } from "@/lib/campaigns"
+import { describeRules } from "@/lib/discount-modes"
+
+interface UpcomingDiscountsProps {
+  refreshKey: number // Bump to reload after scheduling a new discount
+  canCancel: boolean
+}
+
+// Discounts waiting for their start date, applied by the scheduler
+export function UpcomingDiscounts({ refreshKey, canCancel }: UpcomingDiscountsProps) {
+  const [campaigns, setCampaigns] = useState<Campaign[]>([])
+  const [loading, setLoading] = useState(false)
+  const [cancellingId, setCancellingId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadCampaigns = useCallback(async () => {
+    setLoading(true)
+    try {
+      const response = await fetch("/api/campaigns?status=scheduled")
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load scheduled discounts")
+      }
+      setCampaigns(data.campaigns || [])
+      setError(null)
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : "Failed to load scheduled discounts")
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadCampaigns()
+  }, [loadCampaigns, refreshKey])
+
+  const cancelCampaign = async (campaign: Campaign) => {
+    if (!confirm(`Cancel the ${describeRules(campaign.rules)} starting ${new Date(campaign.startDate as string).toLocaleString()}?`)) {
+      return
+    }
+
+    setCancellingId(campaign.id)
+    try {
+      const response = await fetch(`/api/campaigns/${campaign.id}`, { method: "DELETE" })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to cancel scheduled discount")
+      }
+      setCampaigns((prev) => prev.filter((c) => c.id !== campaign.id))
+    } catch (cancelError) {
+      setError(cancelError instanceof Error ? cancelError.message : "Failed to cancel scheduled discount")
+    } finally {
+      setCancellingId(null)
+    }
+  }
+
+  if (!loading && campaigns.length === 0 && !error) {
+    return null
+  }
+
+  return (
+    <div className="bg-white border rounded-lg p-3 space-y-2">
+      <div className="flex items-center text-xs font-medium text-gray-700">
+        <CalendarClock className="w-4 h-4 mr-1" />
+        Upcoming Scheduled Discounts
+        {loading && <Loader2 className="w-3 h-3 ml-2 animate-spin" />}
+      </div>
+
+      {error && <div className="text-xs text-red-600">{error}</div>}
+
+      {campaigns.map((campaign) => (
+        <div key={campaign.id} className="flex items-start justify-between gap-2 text-xs border-t pt-2">
+          <div>
+            <div className="font-medium">
+              {campaign.name}: {describeRules(campaign.rules)} on {campaign.variantIds.length} variants
+            </div>
+            <div className="text-gray-600">Starts {new Date(campaign.startDate as string).toLocaleString()}</div>
+            {campaign.expiryDate && (
+              <div className="text-gray-600">Ends {new Date(campaign.expiryDate).toLocaleDateString()}</div>
+            )}
+          </div>
+          {canCancel && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 px-2 text-red-600 hover:text-red-700"
+              onClick={() => cancelCampaign(campaign)}
+              disabled={cancellingId === campaign.id}
+            >
+              {cancellingId === campaign.id ? <Loader2 className="w-3 h-3 animate-spin" /> : <X className="w-3 h-3" />}
+              Cancel
+            </Button>
+          )}
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -6,11 +6,13 @@ import {
   signInWithPopup, 
   signOut, 
   onAuthStateChanged,
+  onIdTokenChanged,
   GoogleAuthProvider 
 } from 'firebase/auth'
 import { doc, setDoc, getDoc } from 'firebase/firestore'
 import { auth, db, googleProvider } from '@/db/db'
 import { useRouter } from 'next/navigation'
+import { AUTH_TOKEN_COOKIE, clearSelectionCookie, setSelectionCookie } from '@/lib/store-cookies'
 
 interface AuthContextType {
   user: User | null
@@ -52,7 +54,9 @@ export function AuthProvider({ children }: { children: ReactNode }) {
           }, { merge: true })
           sessionStorage.setItem('user', JSON.stringify(user.uid))
         }
-        
+
+        // Make sure the token cookie exists before anything fetches /api on behalf of this user
+        setSelectionCookie(AUTH_TOKEN_COOKIE, await user.getIdToken(), 60 * 60)
         setUser(user)
       } else {
         setUser(null)
@@ -63,6 +67,20 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     return () => unsubscribe()
   }, [])
 
+  // API routes authenticate with the Firebase ID token; keep the cookie in step with
+  // Firebase's hourly token refresh so plain fetch('/api/...') calls stay authorized
+  useEffect(() => {
+    const unsubscribe = onIdTokenChanged(auth, async (user) => {
+      if (user) {
+        setSelectionCookie(AUTH_TOKEN_COOKIE, await user.getIdToken(), 60 * 60)
+      } else {
+        clearSelectionCookie(AUTH_TOKEN_COOKIE)
+      }
+    })
+
+    return () => unsubscribe()
+  }, [])
+
   const signInWithGoogle = async () => {
     try {
       const result = await signInWithPopup(auth, googleProvider)
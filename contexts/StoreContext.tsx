@@ -0,0 +1,112 @@
+"use client"
+
+import { createContext, useCallback, useContext, useEffect, useState, ReactNode } from 'react'
+import { useAuth } from '@/contexts/AuthContext'
+import { STORE_COOKIE, clearSelectionCookie, setSelectionCookie } from '@/lib/store-cookies'
+import { hasPermission, type Permission, type StoreRole } from '@/lib/roles'
+
+// Masked store metadata returned by GET /api/store-add.
+// Stores shared by another user have ids of the form "ownerId/storeId".
+export interface ConnectedStore {
+  id: string
+  name: string
+  domain: string
+  createdAt: string
+  health: "connected" | "unauthorized" | "uninstalled" | "error"
+  role: StoreRole
+}
+
+interface StoreContextType {
+  stores: ConnectedStore[]
+  selectedStoreId: string | null
+  selectedStore: ConnectedStore | null
+  role: StoreRole | null
+  // UI only hides controls; the API routes enforce the same permissions
+  can: (permission: Permission) => boolean
+  loading: boolean
+  selectStore: (storeId: string) => void
+  refreshStores: () => Promise<void>
+}
+
+const SELECTED_STORE_KEY = 'selectedStoreId'
+
+const StoreContext = createContext<StoreContextType | undefined>(undefined)
+
+export function StoreProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuth()
+  const [stores, setStores] = useState<ConnectedStore[]>([])
+  const [selectedStoreId, setSelectedStoreId] = useState<string | null>(null)
+  const [loading, setLoading] = useState(false)
+
+  const refreshStores = useCallback(async () => {
+    if (!user) return
+    setLoading(true)
+    try {
+      const res = await fetch('/api/store-add')
+      const data = await res.json()
+      const loadedStores: ConnectedStore[] = Array.isArray(data) ? data : []
+      setStores(loadedStores)
+
+      // Keep the previous selection if it still exists, otherwise fall back to the first store
+      const saved = localStorage.getItem(SELECTED_STORE_KEY)
+      const next = loadedStores.find((s) => s.id === saved)?.id || loadedStores[0]?.id || null
+      setSelectedStoreId(next)
+      if (next) {
+        localStorage.setItem(SELECTED_STORE_KEY, next)
+        setSelectionCookie(STORE_COOKIE, next)
+      } else {
+        clearSelectionCookie(STORE_COOKIE)
+      }
+    } catch (error) {
+      console.error('Failed to fetch stores', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [user])
+
+  useEffect(() => {
+    if (user) {
+      refreshStores()
+    } else {
+      clearSelectionCookie(STORE_COOKIE)
+      setStores([])
+      setSelectedStoreId(null)
+    }
+  }, [user, refreshStores])
+
+  const selectStore = useCallback((storeId: string) => {
+    localStorage.setItem(SELECTED_STORE_KEY, storeId)
+    setSelectionCookie(STORE_COOKIE, storeId)
+    setSelectedStoreId(storeId)
+  }, [])
+
+  const selectedStore = stores.find((s) => s.id === selectedStoreId) || null
+  const role = selectedStore?.role || null
+
+  const can = useCallback((permission: Permission) => hasPermission(role, permission), [role])
+
+  const value = {
+    stores,
+    selectedStoreId,
+    selectedStore,
+    role,
+    can,
+    loading,
+    selectStore,
+    refreshStores,
+  }
+
+  return (
+    <StoreContext.Provider value={value}>
+      {children}
+    </StoreContext.Provider>
+  )
+}
+
+export function useStore() {
+  const context = useContext(StoreContext)
+  if (context === undefined) {
+    throw new Error('useStore must be used within a StoreProvider')
+  }
+  return context
+}
@@ -0,0 +1,83 @@
+// Shared authorization for API route handlers.
+//
+// middleware.ts verifies the Firebase ID token on every /api request and forwards the uid
+// in VERIFIED_UID_HEADER. Handlers are wrapped with withUserAuth (user-level routes) or
+// withStoreAuth (anything that talks to Shopify), which also checks the caller's access and
+// role for the selected store and scopes all lib/shopify calls to that store.
+import { type NextRequest, NextResponse } from "next/server"
+import { VERIFIED_UID_HEADER } from "@/lib/firebase-auth"
+import { withShopifyStore, type ShopifyConfig } from "@/lib/shopify"
+import { STORE_COOKIE } from "@/lib/store-cookies"
+import { getStoreConfig } from "@/lib/store-credentials"
+import { hasPermission, type Permission, type StoreRole } from "@/lib/roles"
+import { resolveStoreAccess } from "@/lib/store-team"
+
+export interface UserAuth {
+  uid: string
+}
+
+export interface StoreAuth extends UserAuth {
+  storeKey: string // Selection key sent by the browser (see toStoreKey)
+  ownerId: string
+  storeId: string
+  role: StoreRole
+  store: ShopifyConfig
+}
+
+type RouteContext = { params: Record<string, string> }
+
+type AuthedHandler<A> = (request: NextRequest, context: RouteContext, auth: A) => Promise<Response>
+
+export function getVerifiedUid(request: Request) {
+  return request.headers.get(VERIFIED_UID_HEADER)
+}
+
+// Store chosen in the store switcher (cookie), or explicitly via the x-store-id header
+export function getRequestedStoreId(request: NextRequest) {
+  const storeId = request.headers.get("x-store-id") || request.cookies.get(STORE_COOKIE)?.value
+  return storeId ? decodeURIComponent(storeId) : null
+}
+
+export function withUserAuth(handler: AuthedHandler<UserAuth>) {
+  return async (request: NextRequest, context: RouteContext) => {
+    const uid = getVerifiedUid(request)
+    if (!uid) {
+      return NextResponse.json({ error: "Authentication required" }, { status: 401 })
+    }
+    return handler(request, context, { uid })
+  }
+}
+
+// Pass a permission to also reject callers whose store role does not grant it
+export function withStoreAuth(handler: AuthedHandler<StoreAuth>, permission?: Permission) {
+  return withUserAuth(async (request, context, { uid }) => {
+    const storeKey = getRequestedStoreId(request)
+    if (!storeKey) {
+      return NextResponse.json({ error: "No store selected" }, { status: 400 })
+    }
+
+    let store: ShopifyConfig | null = null
+    let access: Awaited<ReturnType<typeof resolveStoreAccess>>
+    try {
+      access = await resolveStoreAccess(uid, storeKey)
+      if (access) {
+        store = await getStoreConfig(access.ownerId, access.storeId)
+      }
+    } catch (error) {
+      console.error("Failed to load store credentials:", error)
+      return NextResponse.json({ error: "Failed to load store credentials" }, { status: 500 })
+    }
+
+    // Stores are looked up under the owner's user document, so a miss means neither owned nor shared
+    if (!access || !store) {
+      return NextResponse.json({ error: "You do not have access to this store" }, { status: 403 })
+    }
+
+    if (permission && !hasPermission(access.role, permission)) {
+      return NextResponse.json({ error: "Your role does not allow this action" }, { status: 403 })
+    }
+
+    const auth: StoreAuth = { uid, storeKey, ...access, store }
+    return withShopifyStore(store, () => handler(request, context, auth))
+  })
+}
@@ -0,0 +1,212 @@
+// Approval workflow for destructive operations (bulk deletes, large price changes).
+//
+// A gated route that needs approval stores its request body in approvals/{id} and answers 202.
+// Once another team member approves, the original route is called again with APPROVAL_HEADER;
+// it then runs the stored payload (never a new body) exactly once.
+import { type NextRequest, NextResponse } from "next/server"
+import { addDoc, collection, doc, getDoc, getDocs, query, runTransaction, updateDoc, where } from "firebase/firestore"
+import { db } from "@/db/db"
+import type { StoreAuth } from "@/lib/api-auth"
+import { APPROVAL_HEADER, canReviewApproval, type ApprovalAction } from "@/lib/roles"
+import { getStoreTeam, type StoreTeam } from "@/lib/store-team"
+
+export type ApprovalStatus = "pending" | "approved" | "rejected" | "executing" | "executed" | "failed"
+
+export interface ApprovalRequest {
+  id: string
+  teamId: string
+  ownerId: string
+  storeId: string
+  action: ApprovalAction
+  route: string
+  method: string
+  payload: any
+  summary: string
+  changePercent: number | null
+  requestedBy: string
+  requestedByEmail: string | null
+  requestedAt: string
+  status: ApprovalStatus
+  reviewedBy?: string
+  reviewedAt?: string
+  reviewNote?: string
+  executedBy?: string
+  executedAt?: string
+  result?: string
+}
+
+export interface ApprovalCheck {
+  action: ApprovalAction
+  summary: string
+  changePercent?: number
+}
+
+function teamIdFor(auth: Pick<StoreAuth, "ownerId" | "storeId">) {
+  return `${auth.ownerId}_${auth.storeId}`
+}
+
+// Largest absolute change between two prices, in percent of the old price
+export function maxPriceChangePercent(changes: Array<{ from: number | string | null; to: number | string | null }>) {
+  let max = 0
+  for (const { from, to } of changes) {
+    const oldPrice = Number(from)
+    const newPrice = Number(to)
+    if (oldPrice > 0 && Number.isFinite(newPrice)) {
+      max = Math.max(max, (Math.abs(newPrice - oldPrice) / oldPrice) * 100)
+    }
+  }
+  return Math.round(max * 100) / 100
+}
+
+// Someone other than the requester must be able to review, otherwise requests could never be approved
+function hasOtherReviewer(team: StoreTeam, requesterId: string, action: ApprovalAction) {
+  if (team.ownerId !== requesterId) {
+    return true
+  }
+  return Object.values(team.members).some((member) => member.uid !== requesterId && canReviewApproval(member.role, action))
+}
+
+function needsApproval(team: StoreTeam, check: ApprovalCheck) {
+  const { priceChangeThresholdPercent, requireBulkDeleteApproval } = team.approvalPolicy
+  if (check.action === "bulk_delete") {
+    return requireBulkDeleteApproval
+  }
+  return priceChangeThresholdPercent !== null && (check.changePercent || 0) > priceChangeThresholdPercent
+}
+
+// Whether the caller would have to wait for a reviewer before running this operation
+export async function requiresApproval(auth: StoreAuth, check: ApprovalCheck) {
+  const team = await getStoreTeam(auth.ownerId, auth.storeId)
+  return needsApproval(team, check) && hasOtherReviewer(team, auth.uid, check.action)
+}
+
+async function getUserEmail(uid: string) {
+  const snap = await getDoc(doc(db, "users", uid))
+  return snap.exists() ? (snap.data().email as string) || null : null
+}
+
+/**
+ * Read the request payload, or park it for approval.
+ * Returns the payload to run (plus the approval being executed, if any) or a Response to send as-is.
+ * `describe` returns null when the payload is not a gated operation at all.
+ */
+export async function gateWithApproval<T>(
+  request: NextRequest,
+  auth: StoreAuth,
+  describe: (payload: T) => ApprovalCheck | null | Promise<ApprovalCheck | null>,
+): Promise<{ payload: T; approvalId: string | null } | Response> {
+  const route = request.nextUrl.pathname
+  const approvalId = request.headers.get(APPROVAL_HEADER)
+
+  if (approvalId) {
+    // Claim the approved request inside a transaction so it can only run once
+    const ref = doc(db, "approvals", approvalId)
+    const claimed = await runTransaction(db, async (transaction) => {
+      const snap = await transaction.get(ref)
+      const approval = snap.exists() ? (snap.data() as Omit<ApprovalRequest, "id">) : null
+      if (!approval || approval.teamId !== teamIdFor(auth) || approval.route !== route || approval.method !== request.method) {
+        return { error: "Approval request not found for this store and action", status: 404 }
+      }
+      if (approval.status !== "approved") {
+        return { error: `Approval request is ${approval.status}`, status: 409 }
+      }
+      transaction.update(ref, { status: "executing", executedBy: auth.uid, executedAt: new Date().toISOString() })
+      return { payload: approval.payload as T }
+    })
+
+    if ("error" in claimed) {
+      return NextResponse.json({ error: claimed.error }, { status: claimed.status })
+    }
+    return { payload: claimed.payload, approvalId }
+  }
+
+  const payload = (await request.json()) as T
+  const check = await describe(payload)
+  if (!check) {
+    return { payload, approvalId: null }
+  }
+
+  if (!(await requiresApproval(auth, check))) {
+    return { payload, approvalId: null }
+  }
+
+  const approval: Omit<ApprovalRequest, "id"> = {
+    teamId: teamIdFor(auth),
+    ownerId: auth.ownerId,
+    storeId: auth.storeId,
+    action: check.action,
+    route,
+    method: request.method,
+    payload,
+    summary: check.summary,
+    changePercent: check.changePercent ?? null,
+    requestedBy: auth.uid,
+    requestedByEmail: await getUserEmail(auth.uid),
+    requestedAt: new Date().toISOString(),
+    status: "pending",
+  }
+  const ref = await addDoc(collection(db, "approvals"), approval)
+
+  console.log(`Approval ${ref.id} requested for ${check.action}: ${check.summary}`)
+
+  return NextResponse.json(
+    {
+      approvalRequired: true,
+      approvalId: ref.id,
+      message: `${check.summary} needs approval from another team member before it runs`,
+    },
+    { status: 202 },
+  )
+}
+
+// Record how an approved request went once the route has run it
+export async function completeApproval(approvalId: string | null, success: boolean, result: string) {
+  if (!approvalId) return
+  try {
+    await updateDoc(doc(db, "approvals", approvalId), { status: success ? "executed" : "failed", result })
+  } catch (error) {
+    console.error("Failed to record approval result:", error)
+  }
+}
+
+export async function listApprovals(auth: Pick<StoreAuth, "ownerId" | "storeId">): Promise<ApprovalRequest[]> {
+  const snap = await getDocs(query(collection(db, "approvals"), where("teamId", "==", teamIdFor(auth))))
+  return snap.docs
+    .map((approvalDoc) => ({ id: approvalDoc.id, ...(approvalDoc.data() as Omit<ApprovalRequest, "id">) }))
+    .sort((a, b) => b.requestedAt.localeCompare(a.requestedAt))
+}
+
+export async function reviewApproval(
+  approvalId: string,
+  auth: StoreAuth,
+  decision: "approve" | "reject",
+  note?: string,
+): Promise<ApprovalRequest> {
+  const ref = doc(db, "approvals", approvalId)
+  return runTransaction(db, async (transaction) => {
+    const snap = await transaction.get(ref)
+    if (!snap.exists() || snap.data().teamId !== teamIdFor(auth)) {
+      throw new Error("Approval request not found")
+    }
+
+    const approval = { id: snap.id, ...(snap.data() as Omit<ApprovalRequest, "id">) }
+    if (approval.status !== "pending") {
+      throw new Error(`Approval request is already ${approval.status}`)
+    }
+    if (approval.requestedBy === auth.uid) {
+      throw new Error("You cannot review your own request")
+    }
+    if (!canReviewApproval(auth.role, approval.action)) {
+      throw new Error("Your role cannot review this request")
+    }
+
+    const review = {
+      status: (decision === "approve" ? "approved" : "rejected") as ApprovalStatus,
+      reviewedBy: auth.uid,
+      reviewedAt: new Date().toISOString(),
+      reviewNote: note || "",
+    }
+    transaction.update(ref, review)
+    return { ...approval, ...review }
+  })
+}
@@ -0,0 +1,217 @@
+// The compute half of /api/bulk-price-update: new prices from each variant's live Shopify prices, checked
+// against the store's price guardrails. A dry run returns this plan as is; a real run writes its updates.
+import { findDiscountConflicts, rescaleSchedules } from "@/lib/discounts"
+import { loadPriceGuard } from "@/lib/price-guardrails"
+import { validateMetalRates } from "@/lib/metal-rates"
+import { compileFormula, formulaMetafields } from "@/lib/price-formula"
+import { applyPriceRule, formatMinor, toMinor, type MetalLink, type PriceAction, type PriceRule } from "@/lib/pricing"
+import {
+  getVariantFormulaInputs,
+  getVariantMetalLinks,
+  getVariantPrices,
+  type VariantFormulaInputs,
+} from "@/lib/shopify"
+
+export interface PlannedPriceChange {
+  variantId: string
+  productId: string
+  productTitle: string
+  variantTitle: string
+  sku: string
+  currentPrice: string
+  currentCompareAtPrice: string | null
+  newPrice: string
+  newCompareAtPrice: string | null
+  status: "update" | "unchanged" | "blocked" | "invalid"
+  error?: string
+  floor?: string // Guardrail floor, when it blocked or clamped the price
+  clampedFrom?: string
+}
+
+// Returns an error message or null
+export function validatePriceRule(rule: PriceRule, action: PriceAction) {
+  if (!rule || !["percentage", "fixed", "absolute", "formula", "metal_rate", "explicit"].includes(rule.type)) {
+    return "Unknown price rule"
+  }
+  if (!["price", "compareAtPrice", "both"].includes(rule.applyTo)) {
+    return "Choose which price to update"
+  }
+  if (rule.type === "formula") {
+    const { error } = compileFormula(rule.formula)
+    if (error) {
+      return `Formula: ${error}`
+    }
+  } else if (rule.type === "metal_rate") {
+    const ratesError = validateMetalRates(rule.metalRates)
+    if (ratesError) {
+      return ratesError
+    }
+  } else if (rule.type !== "explicit" && (!Number.isFinite(rule.value) || rule.value <= 0)) {
+    return "Price rule value must be greater than 0"
+  }
+  if (action !== "increase" && action !== "decrease") {
+    return "Action must be increase or decrease"
+  }
+  return null
+}
+
+export interface RequestedVariant {
+  variantId: string
+  productTitle?: string
+  variantTitle?: string
+  sku?: string
+  // Explicit rules only: the prices to set. Left out keeps the live price; a null compare-at removes it.
+  newPrice?: string | number
+  newCompareAtPrice?: string | number | null
+}
+
+// "12.3" -> "12.30"; null when not a price above 0
+function toPrice(value: string | number) {
+  const amount = Number(value)
+  return Number.isFinite(amount) && toMinor(amount) > 0 ? formatMinor(toMinor(amount)) : null
+}
+
+// The prices an explicit rule asks for, on top of the live ones
+function explicitPrices(requested: RequestedVariant, live: { price: string; compareAtPrice: string | null }) {
+  const newPrice = requested.newPrice === undefined ? live.price : toPrice(requested.newPrice)
+  if (newPrice === null) {
+    return { newPrice: live.price, newCompareAtPrice: live.compareAtPrice, error: "Price must be a number above 0" }
+  }
+  if (requested.newCompareAtPrice === undefined) {
+    return { newPrice, newCompareAtPrice: live.compareAtPrice, error: null }
+  }
+  if (requested.newCompareAtPrice === null || Number(requested.newCompareAtPrice) === 0) {
+    return { newPrice, newCompareAtPrice: null, error: null }
+  }
+  const newCompareAtPrice = toPrice(requested.newCompareAtPrice)
+  return newCompareAtPrice === null
+    ? { newPrice, newCompareAtPrice: live.compareAtPrice, error: "Compare-at price must be a number" }
+    : { newPrice, newCompareAtPrice, error: null }
+}
+
+export async function planBulkPriceUpdate(
+  store: { ownerId: string; storeId: string },
+  variants: RequestedVariant[],
+  rule: PriceRule,
+  action: PriceAction,
+): Promise<PlannedPriceChange[]> {
+  const variantIds = variants.map((v) => v.variantId)
+  const formula = rule.type === "formula" ? compileFormula(rule.formula).formula : null
+  const [live, guard, formulaInputs, metalLinks] = await Promise.all([
+    getVariantPrices(variantIds),
+    loadPriceGuard(store, variantIds),
+    formula
+      ? getVariantFormulaInputs(variantIds, formulaMetafields(formula))
+      : new Map<string, VariantFormulaInputs>(),
+    rule.type === "metal_rate" ? getVariantMetalLinks(variantIds) : new Map<string, MetalLink | null>(),
+  ])
+  const updatesPrice =
+    rule.type === "metal_rate" || rule.type === "explicit" || rule.applyTo === "price" || rule.applyTo === "both"
+
+  return variants.map((requested) => {
+    const gid = requested.variantId.startsWith("gid://")
+      ? requested.variantId
+      : `gid://shopify/ProductVariant/${requested.variantId}`
+    const variant = live.get(gid)
+    if (!variant) {
+      return {
+        variantId: requested.variantId,
+        productId: "",
+        productTitle: requested.productTitle || "Unknown",
+        variantTitle: requested.variantTitle || "Unknown",
+        sku: requested.sku || "",
+        currentPrice: "0.00",
+        currentCompareAtPrice: null,
+        newPrice: "0.00",
+        newCompareAtPrice: null,
+        status: "invalid",
+        error: "Variant not found in Shopify",
+      }
+    }
+
+    const { error, ...newPrices } =
+      rule.type === "explicit"
+        ? explicitPrices(requested, variant)
+        : applyPriceRule(
+            variant.price,
+            variant.compareAtPrice,
+            rule,
+            action,
+            rule.type === "metal_rate"
+              ? { cost: null, inventory: null, tags: [], metal: metalLinks.get(gid) }
+              : formulaInputs.get(gid),
+          )
+    const change: PlannedPriceChange = {
+      variantId: variant.id,
+      productId: variant.product.id,
+      productTitle: variant.product.title,
+      variantTitle: variant.title,
+      sku: variant.sku || "",
+      currentPrice: variant.price,
+      currentCompareAtPrice: variant.compareAtPrice,
+      ...newPrices,
+      status: "update",
+    }
+    // A formula, metal rate or imported price that does not work for this variant, e.g. it reads a missing cost
+    if (error) {
+      return { ...change, status: "invalid", error }
+    }
+
+    if (updatesPrice && Number(change.newPrice) !== Number(change.currentPrice)) {
+      const check = guard.check(change.variantId, Number(change.currentPrice), Number(change.newPrice))
+      if (check.status === "blocked") {
+        return { ...change, status: "blocked", floor: check.floor.toFixed(2), error: check.reason }
+      }
+      if (check.status === "clamped") {
+        change.clampedFrom = change.newPrice
+        change.floor = check.floor.toFixed(2)
+        change.newPrice = check.price.toFixed(2)
+      }
+    }
+
+    const priceChanged = Number(change.newPrice) !== Number(change.currentPrice)
+    const compareAtChanged = Number(change.newCompareAtPrice) !== Number(change.currentCompareAtPrice)
+    return priceChanged || compareAtChanged ? change : { ...change, status: "unchanged" }
+  })
+}
+
+// The productVariantUpdate input for a planned update: only the prices that change
+export function priceUpdateInput(change: PlannedPriceChange) {
+  const input: { id: string; price?: string; compareAtPrice?: string | null } = { id: change.variantId }
+  if (Number(change.newPrice) !== Number(change.currentPrice)) {
+    input.price = change.newPrice
+  }
+  // null removes the compare-at price (explicit rules only)
+  if (Number(change.newCompareAtPrice) !== Number(change.currentCompareAtPrice)) {
+    input.compareAtPrice = change.newCompareAtPrice
+  }
+  return input
+}
+
+// A metal rate rule reprices the regular price of variants on sale, so their pending discount reverts
+// (lib/scheduled-reverts) are rescaled to restore the repriced regular price instead of the old one.
+// Call with the updates that were written; failures are logged, the prices are already set.
+export async function rescaleRepricedSchedules(rule: PriceRule, written: PlannedPriceChange[]) {
+  if (rule.type !== "metal_rate") return
+  const onSale = written.filter(
+    (change) =>
+      change.currentCompareAtPrice &&
+      change.newCompareAtPrice &&
+      toMinor(change.currentCompareAtPrice) > toMinor(change.currentPrice),
+  )
+  if (onSale.length === 0) return
+
+  try {
+    const conflicts = await findDiscountConflicts(onSale.map((change) => change.variantId))
+    for (const change of onSale) {
+      const conflict = conflicts.get(change.variantId)
+      if (!conflict || conflict.pendingSchedules.length === 0) continue
+      await rescaleSchedules(conflict, change.currentCompareAtPrice as string, {
+        price: change.newPrice,
+        compare_at_price: change.newCompareAtPrice as string,
+      })
+    }
+  } catch (error) {
+    console.error("Failed to rescale discount schedules after metal repricing:", error)
+  }
+}
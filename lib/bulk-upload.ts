@@ -13,7 +13,7 @@ export interface BulkUploadResult {
 export interface BulkUploadLog {
   id: string
   timestamp: string
-  action: "bulk_upload" | "product_update" | "product_delete" | "image_upload"
+  action: "bulk_upload" | "product_update" | "product_delete" | "image_upload" | "bulk_price_update" | "single_price_update"
   productId?: string
   productTitle?: string
   sku?: string
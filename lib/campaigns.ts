@@ -0,0 +1,608 @@
+// Named discount campaigns.
+//
+// campaigns/{id} holds the campaign (variant set, discount rules, schedule, status, owner) and
+// campaigns/{id}/items/{variantId} the prices each variant had before and after launch, so ending
+// or rolling back a campaign restores exactly its variants. Variants that already have a discount at launch
+// are skipped or stacked on, as the campaign's conflictMode says. Drafts and scheduled campaigns can be
+// edited; the scheduler (/api/process-scheduled-reverts) launches scheduled campaigns at their start
+// date and ends live ones at their expiry date. A launch or end holds a claim on the campaign (claimId, claimedAt)
+// that it renews as it goes; the scheduler takes over claims that stopped making progress.
+import {
+  addDoc,
+  collection,
+  deleteDoc,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  runTransaction,
+  updateDoc,
+  where,
+  writeBatch,
+} from "firebase/firestore"
+import { db } from "@/db/db"
+import type { StoreAuth } from "@/lib/api-auth"
+import { newDiscountBatchId } from "@/lib/discount-batches"
+import {
+  hasDiscountFields,
+  rulesFromRequest,
+  validateRules,
+  type DiscountRequestFields,
+  type DiscountRule,
+} from "@/lib/discount-modes"
+import { applyDiscount, findDiscountConflicts, type ConflictMode, type DiscountConflict } from "@/lib/discounts"
+import { getShopifyConfig, getVariantPrices, shopifyRestFetch, type LiveVariantPrice } from "@/lib/shopify"
+import { samePrice } from "@/lib/variant-writes"
+
+export type CampaignStatus =
+  | "draft"
+  | "scheduled"
+  | "applying" // launch in progress
+  | "live"
+  | "reverting" // end or rollback in progress
+  | "ended"
+  | "rolled_back"
+  | "failed"
+
+export interface Campaign {
+  id: string
+  teamId: string
+  ownerId: string // store owner (see lib/store-team)
+  storeId: string
+  storeDomain: string
+  name: string
+  variantIds: string[]
+  rules: DiscountRule[] // Applied as by /api/apply-discount-enhanced: each variant takes the first rule it meets
+  // What launch does with variants that already have a discount; campaigns saved before it was chosen skip
+  conflictMode?: CampaignConflictMode
+  startDate: string | null
+  expiryDate: string | null
+  status: CampaignStatus
+  owner: { uid: string; email: string | null } // who created and runs the campaign
+  createdAt: string
+  updatedAt: string
+  launchedAt?: string
+  endedAt?: string
+  applied?: number
+  failed?: number
+  conflicts?: number // Skipped at launch because they already had a discount
+  reverted?: number
+  skipped?: number
+  error?: string
+  batchId?: string // discount batch of the launch, kept so a taken-over launch records into the same one
+  // Held while applying or reverting; claimedAt is renewed as the run makes progress
+  claimId?: string | null
+  claimedAt?: string | null
+  claimedBy?: string | null // Rollback job holding a reverting campaign; its own lease covers it
+  revertOutcome?: "ended" | "rolled_back"
+}
+
+// Ending a campaign restores the prices it found at launch, so it cannot replace an earlier discount: that
+// discount's schedules would be cancelled and its sale price restored for good
+export type CampaignConflictMode = Extract<ConflictMode, "skip" | "stack">
+
+export const CAMPAIGN_CONFLICT_MODES: CampaignConflictMode[] = ["skip", "stack"]
+
+export type CampaignItemStatus = "applied" | "failed" | "reverted" | "skipped" | "conflict"
+
+export interface CampaignItem {
+  variantId: string
+  productTitle: string
+  variantTitle: string
+  status: CampaignItemStatus
+  originalPrice?: string
+  originalCompareAtPrice?: string | null
+  discountedPrice?: string
+  discountedCompareAtPrice?: string | null
+  historyKey?: string // discount_history entry written at launch
+  error?: string
+}
+
+// The discount is given as by the discount routes: `rules`, or a single discount (lib/discount-modes)
+export interface CampaignInput extends DiscountRequestFields {
+  name?: string
+  variantIds?: string[]
+  conflictMode?: CampaignConflictMode
+  startDate?: string | null
+  expiryDate?: string | null
+}
+
+const EDITABLE_STATUSES: CampaignStatus[] = ["draft", "scheduled"]
+const IN_PROGRESS_STATUSES: CampaignStatus[] = ["applying", "reverting"]
+// A run that has not renewed its claim for this long is assumed dead; another run can take the campaign over
+const CLAIM_TIMEOUT_MS = 15 * 60 * 1000
+// Variants per claim renewal and item write
+const RUN_CHUNK_SIZE = 50
+// Firestore allows 500 writes per batch
+const WRITE_BATCH_SIZE = 400
+
+function teamIdFor(auth: Pick<StoreAuth, "ownerId" | "storeId">) {
+  return `${auth.ownerId}_${auth.storeId}`
+}
+
+function campaignRef(campaignId: string) {
+  return doc(db, "campaigns", campaignId)
+}
+
+function itemsRef(campaignId: string) {
+  return collection(db, "campaigns", campaignId, "items")
+}
+
+async function getUserEmail(uid: string) {
+  const snap = await getDoc(doc(db, "users", uid))
+  return snap.exists() ? (snap.data().email as string) || null : null
+}
+
+// Campaigns saved before rules were stored hold a single percentage
+function toCampaign(id: string, data: any): Campaign {
+  const { discountPercentage, ...campaign } = data
+  return {
+    id,
+    ...(campaign as Omit<Campaign, "id">),
+    rules: campaign.rules ?? [{ match: { type: "all" }, discount: { mode: "percentage", value: discountPercentage } }],
+  }
+}
+
+// Check a campaign's fields; returns an error message or null
+export function validateCampaign(
+  campaign: Pick<Campaign, "name" | "variantIds" | "rules" | "conflictMode" | "startDate" | "expiryDate">,
+) {
+  if (!campaign.name?.trim()) {
+    return "Campaign name is required"
+  }
+  if (!Array.isArray(campaign.variantIds) || campaign.variantIds.length === 0) {
+    return "Please provide valid variant IDs"
+  }
+  const rulesError = Array.isArray(campaign.rules) ? validateRules(campaign.rules) : "Add at least one discount rule"
+  if (rulesError) {
+    return rulesError
+  }
+  if (campaign.conflictMode && !CAMPAIGN_CONFLICT_MODES.includes(campaign.conflictMode)) {
+    return "Conflict mode must be skip or stack"
+  }
+  if (campaign.startDate && (Number.isNaN(Date.parse(campaign.startDate)) || new Date(campaign.startDate) <= new Date())) {
+    return "Start date must be in the future"
+  }
+  if (campaign.expiryDate && new Date(campaign.expiryDate) <= new Date(campaign.startDate || Date.now())) {
+    return campaign.startDate ? "Expiry date must be after the start date" : "Expiry date must be in the future"
+  }
+  return null
+}
+
+// A campaign with a start date is scheduled; without one it stays a draft until launched
+export async function createCampaign(auth: StoreAuth, input: CampaignInput): Promise<Campaign> {
+  const now = new Date().toISOString()
+  const campaign: Omit<Campaign, "id"> = {
+    teamId: teamIdFor(auth),
+    ownerId: auth.ownerId,
+    storeId: auth.storeId,
+    storeDomain: auth.store.storeDomain,
+    name: input.name?.trim() || "",
+    variantIds: input.variantIds || [],
+    rules: rulesFromRequest(input),
+    conflictMode: input.conflictMode ?? "skip",
+    startDate: input.startDate ? new Date(input.startDate).toISOString() : null,
+    expiryDate: input.expiryDate || null,
+    status: input.startDate ? "scheduled" : "draft",
+    owner: { uid: auth.uid, email: await getUserEmail(auth.uid) },
+    createdAt: now,
+    updatedAt: now,
+  }
+
+  const error = validateCampaign(campaign)
+  if (error) {
+    throw new Error(error)
+  }
+
+  const ref = await addDoc(collection(db, "campaigns"), campaign)
+  console.log(`Campaign ${ref.id} "${campaign.name}" created as ${campaign.status}`)
+  return { id: ref.id, ...campaign }
+}
+
+export async function listCampaigns(auth: Pick<StoreAuth, "ownerId" | "storeId">): Promise<Campaign[]> {
+  const snap = await getDocs(query(collection(db, "campaigns"), where("teamId", "==", teamIdFor(auth))))
+  return snap.docs
+    .map((campaignDoc) => toCampaign(campaignDoc.id, campaignDoc.data()))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+}
+
+export async function getCampaign(auth: Pick<StoreAuth, "ownerId" | "storeId">, campaignId: string) {
+  const snap = await getDoc(campaignRef(campaignId))
+  if (!snap.exists() || snap.data().teamId !== teamIdFor(auth)) {
+    return null
+  }
+  return toCampaign(snap.id, snap.data())
+}
+
+export async function getCampaignItems(campaignId: string): Promise<CampaignItem[]> {
+  const snap = await getDocs(itemsRef(campaignId))
+  return snap.docs.map((itemDoc) => itemDoc.data() as CampaignItem)
+}
+
+// Edit a draft or scheduled campaign; setting or clearing startDate moves it between the two
+export async function updateCampaign(auth: StoreAuth, campaignId: string, input: CampaignInput): Promise<Campaign> {
+  const ref = campaignRef(campaignId)
+  return runTransaction(db, async (transaction) => {
+    const snap = await transaction.get(ref)
+    if (!snap.exists() || snap.data().teamId !== teamIdFor(auth)) {
+      throw new Error("Campaign not found")
+    }
+
+    const campaign = toCampaign(snap.id, snap.data())
+    if (!EDITABLE_STATUSES.includes(campaign.status)) {
+      throw new Error(`A ${campaign.status} campaign can no longer be edited`)
+    }
+
+    const startDate = input.startDate === undefined ? campaign.startDate : input.startDate
+    const updated: Campaign = {
+      ...campaign,
+      name: input.name === undefined ? campaign.name : input.name.trim(),
+      variantIds: input.variantIds ?? campaign.variantIds,
+      rules: hasDiscountFields(input) ? rulesFromRequest(input) : campaign.rules,
+      conflictMode: input.conflictMode ?? campaign.conflictMode ?? "skip",
+      startDate: startDate ? new Date(startDate).toISOString() : null,
+      expiryDate: input.expiryDate === undefined ? campaign.expiryDate : input.expiryDate || null,
+      status: startDate ? "scheduled" : "draft",
+      updatedAt: new Date().toISOString(),
+    }
+
+    const error = validateCampaign(updated)
+    if (error) {
+      throw new Error(error)
+    }
+
+    const { id, ...data } = updated
+    transaction.set(ref, data)
+    return updated
+  })
+}
+
+// Only campaigns that never touched prices can be deleted
+export async function deleteCampaign(auth: StoreAuth, campaignId: string) {
+  const campaign = await getCampaign(auth, campaignId)
+  if (!campaign) {
+    throw new Error("Campaign not found")
+  }
+  if (!EDITABLE_STATUSES.includes(campaign.status)) {
+    throw new Error(`A ${campaign.status} campaign cannot be deleted`)
+  }
+  await deleteDoc(campaignRef(campaignId))
+}
+
+function isStaleClaim(campaign: Campaign, now = Date.now()) {
+  return (
+    IN_PROGRESS_STATUSES.includes(campaign.status) &&
+    !campaign.claimedBy &&
+    now - Date.parse(campaign.claimedAt || campaign.updatedAt) >= CLAIM_TIMEOUT_MS
+  )
+}
+
+/**
+ * Move a campaign between statuses inside a transaction, under a new claim. Claiming an applying or reverting
+ * campaign for the same status again takes over a claim that timed out.
+ * Returns the claimed campaign, or null when it is no longer in `from` (or its claim is still held).
+ */
+export async function claimCampaign(
+  campaignId: string,
+  from: CampaignStatus[],
+  to: CampaignStatus,
+  changes: Pick<Campaign, "claimedBy" | "revertOutcome"> = {},
+): Promise<Campaign | null> {
+  const ref = campaignRef(campaignId)
+  return runTransaction(db, async (transaction) => {
+    const snap = await transaction.get(ref)
+    if (!snap.exists()) {
+      return null
+    }
+    const campaign = toCampaign(snap.id, snap.data())
+    if (!from.includes(campaign.status) && !(campaign.status === to && isStaleClaim(campaign))) {
+      return null
+    }
+    const now = new Date().toISOString()
+    const claim = {
+      status: to,
+      claimId: doc(collection(db, "campaigns")).id,
+      claimedAt: now,
+      claimedBy: null,
+      updatedAt: now,
+      ...changes,
+    }
+    transaction.update(ref, claim)
+    return { ...campaign, ...claim }
+  })
+}
+
+// Write `update` while the campaign is still under this claim; false once another run has taken it over
+async function updateClaimed(campaign: Campaign, update: Record<string, unknown>) {
+  const ref = campaignRef(campaign.id)
+  return runTransaction(db, async (transaction) => {
+    const snap = await transaction.get(ref)
+    if (!snap.exists() || snap.data().claimId !== campaign.claimId) {
+      return false
+    }
+    // Firestore rejects undefined fields
+    transaction.update(ref, JSON.parse(JSON.stringify(update)))
+    return true
+  })
+}
+
+async function renewClaim(campaign: Campaign, update: Record<string, unknown> = {}) {
+  if (!(await updateClaimed(campaign, { ...update, claimedAt: new Date().toISOString() }))) {
+    throw new Error(`Campaign ${campaign.id} was taken over by another run`)
+  }
+}
+
+const RELEASED_CLAIM = { claimId: null, claimedAt: null, claimedBy: null }
+
+async function writeItems(campaignId: string, items: CampaignItem[]) {
+  for (let i = 0; i < items.length; i += WRITE_BATCH_SIZE) {
+    const batch = writeBatch(db)
+    for (const item of items.slice(i, i + WRITE_BATCH_SIZE)) {
+      // Firestore rejects undefined fields
+      batch.set(doc(itemsRef(campaignId), item.variantId.split("/").pop() as string), JSON.parse(JSON.stringify(item)))
+    }
+    await batch.commit()
+  }
+}
+
+// A variant a dead launch discounted but did not record; its history entry carries the campaign's batch
+function resumedItem(conflict: DiscountConflict, variant?: LiveVariantPrice): CampaignItem {
+  return {
+    variantId: conflict.variantId,
+    productTitle: variant?.product.title ?? "Unknown Product",
+    variantTitle: variant?.title ?? "Unknown",
+    status: "applied",
+    originalPrice: conflict.previousPrice ?? conflict.originalPrice,
+    originalCompareAtPrice: conflict.previousPrice ? conflict.previousCompareAtPrice : conflict.originalCompareAtPrice,
+    discountedPrice: conflict.currentPrice,
+    discountedCompareAtPrice: conflict.currentCompareAtPrice,
+    historyKey: conflict.historyKey ?? undefined,
+  }
+}
+
+/**
+ * Apply a draft or scheduled campaign's discount now, in the store in scope, or finish a launch whose run
+ * died (its claim timed out). Variants are applied and recorded in chunks, so a taken-over launch picks up
+ * where the last one stopped.
+ * Returns null when another run (or an edit) already moved it out of draft/scheduled.
+ */
+export async function launchCampaign(campaign: Campaign): Promise<Campaign | null> {
+  const claimed = await claimCampaign(campaign.id, EDITABLE_STATUSES, "applying")
+  if (!claimed) {
+    return null
+  }
+
+  try {
+    const batchId = claimed.batchId ?? newDiscountBatchId()
+    await renewClaim(claimed, { batchId })
+
+    const recorded = new Set((await getCampaignItems(campaign.id)).map((item) => item.variantId))
+    const remaining = claimed.variantIds.filter((variantId) => !recorded.has(variantId))
+    for (let i = 0; i < remaining.length; i += RUN_CHUNK_SIZE) {
+      const chunk = remaining.slice(i, i + RUN_CHUNK_SIZE)
+      const conflicts = await findDiscountConflicts(chunk)
+      const ownConflict = (variantId: string) => {
+        const conflict = conflicts.get(`gid://shopify/ProductVariant/${variantId.split("/").pop()}`)
+        return conflict?.batchId === batchId ? conflict : undefined
+      }
+      const resumed = chunk.flatMap((variantId) => ownConflict(variantId) ?? [])
+      const titles =
+        resumed.length > 0 ? await getVariantPrices(resumed.map((conflict) => conflict.variantId)) : new Map()
+
+      // The campaign ends itself at expiryDate, so no per-variant discount_schedule metafields
+      const toApply = chunk.filter((variantId) => !ownConflict(variantId))
+      const { results } =
+        toApply.length > 0
+          ? await applyDiscount(claimed, toApply, claimed.rules, null, {
+              conflictMode: claimed.conflictMode ?? "skip",
+              label: `Campaign "${claimed.name}"`,
+              batchId,
+            })
+          : { results: [] }
+      const items: CampaignItem[] = results.map((result) => ({
+        variantId: result.variantId,
+        productTitle: result.productTitle,
+        variantTitle: result.variantTitle,
+        status: result.success ? "applied" : result.skipped ? "conflict" : "failed",
+        originalPrice: result.originalPrice,
+        originalCompareAtPrice: result.success ? (result.originalCompareAtPrice ?? null) : undefined,
+        discountedPrice: result.success ? result.newPrice : undefined,
+        discountedCompareAtPrice: result.success ? result.compareAtPrice : undefined,
+        historyKey: result.historyKey,
+        error: result.error,
+      }))
+      await writeItems(campaign.id, [
+        ...resumed.map((conflict) => resumedItem(conflict, titles.get(conflict.variantId))),
+        ...items,
+      ])
+      await renewClaim(claimed)
+    }
+
+    const items = await getCampaignItems(campaign.id)
+    const applied = items.filter((item) => item.status === "applied").length
+    const conflicts = items.filter((item) => item.status === "conflict").length
+    const update = {
+      status: (applied > 0 ? "live" : "failed") as CampaignStatus,
+      launchedAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+      applied,
+      failed: items.length - applied - conflicts,
+      conflicts,
+      ...RELEASED_CLAIM,
+    }
+    if (!(await updateClaimed(claimed, update))) {
+      throw new Error(`Campaign ${campaign.id} was taken over by another run`)
+    }
+
+    console.log(`Campaign ${campaign.id} launched: ${applied} of ${items.length} variants discounted, ${conflicts} skipped`)
+    return { ...claimed, batchId, ...update }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error"
+    await updateClaimed(claimed, {
+      status: "failed",
+      error: message,
+      updatedAt: new Date().toISOString(),
+      ...RELEASED_CLAIM,
+    })
+    throw error
+  }
+}
+
+// Restore one variant, unless its price changed since the campaign set it
+async function revertItem(item: CampaignItem): Promise<CampaignItem> {
+  const numericVariantId = item.variantId.split("/").pop()
+  const variantResponse = await shopifyRestFetch(`variants/${numericVariantId}.json`)
+  if (variantResponse.status !== 200) {
+    return { ...item, error: variantResponse.error || "Failed to fetch variant" }
+  }
+
+  const current = variantResponse.body.variant
+  // A run that was taken over may have restored it already
+  if (
+    samePrice(current.price, item.originalPrice) &&
+    samePrice(current.compare_at_price, item.originalCompareAtPrice ?? null)
+  ) {
+    return { ...item, status: "reverted", error: undefined }
+  }
+  if (
+    !samePrice(current.price, item.discountedPrice) ||
+    !samePrice(current.compare_at_price, item.discountedCompareAtPrice ?? null)
+  ) {
+    return { ...item, status: "skipped", error: `Price changed since launch (now ${current.price}); left as is` }
+  }
+
+  const updateResponse = await shopifyRestFetch(`variants/${numericVariantId}.json`, {
+    method: "PUT",
+    body: JSON.stringify({
+      variant: { id: current.id, price: item.originalPrice, compare_at_price: item.originalCompareAtPrice ?? null },
+    }),
+  })
+  if (updateResponse.status !== 200) {
+    return { ...item, error: updateResponse.error || "Failed to restore price" }
+  }
+  return { ...item, status: "reverted", error: undefined }
+}
+
+/**
+ * End or roll back a live campaign in the store in scope: restore the pre-launch prices of exactly
+ * the variants it discounted. Variants edited since launch are skipped and reported. Also finishes an end
+ * or rollback whose run died (its claim timed out).
+ * Returns null when the campaign is not live (already ending, ended or rolled back).
+ */
+export async function revertCampaign(
+  campaign: Campaign,
+  outcome: "ended" | "rolled_back",
+): Promise<{ campaign: Campaign; items: CampaignItem[] } | null> {
+  const claimed = await claimCampaign(campaign.id, ["live"], "reverting", { revertOutcome: outcome })
+  if (!claimed) {
+    return null
+  }
+
+  const items = (await getCampaignItems(campaign.id)).filter((item) => item.status === "applied")
+  const reverted: CampaignItem[] = []
+  for (let i = 0; i < items.length; i += RUN_CHUNK_SIZE) {
+    const chunk: CampaignItem[] = []
+    for (const item of items.slice(i, i + RUN_CHUNK_SIZE)) {
+      try {
+        chunk.push(await revertItem(item))
+      } catch (error) {
+        chunk.push({ ...item, error: error instanceof Error ? error.message : "Unknown error" })
+      }
+    }
+    await writeItems(campaign.id, chunk)
+    await renewClaim(claimed)
+    reverted.push(...chunk)
+  }
+  return { campaign: await finishCampaignRevert(claimed, reverted, outcome), items: reverted }
+}
+
+/**
+ * Record how restoring a "reverting" campaign's variants went (revertCampaign, or a rollback job from
+ * lib/rollback-jobs), settle its status and release the claim. `campaign` must carry the current claim.
+ */
+export async function finishCampaignRevert(
+  campaign: Campaign,
+  reverted: CampaignItem[],
+  outcome: "ended" | "rolled_back",
+): Promise<Campaign> {
+  await writeItems(campaign.id, reverted)
+
+  // Variants that could not be restored (fetch/update errors) keep "applied", so a retry picks them up.
+  // Counted over all items, since earlier runs may have restored some without settling
+  const items = await getCampaignItems(campaign.id)
+  const pending = items.filter((item) => item.status === "applied").length
+  const update = {
+    status: (pending > 0 ? "live" : outcome) as CampaignStatus,
+    endedAt: pending > 0 ? undefined : new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+    reverted: items.filter((item) => item.status === "reverted").length,
+    skipped: items.filter((item) => item.status === "skipped").length,
+    error: pending > 0 ? `${pending} variants could not be restored; try again` : undefined,
+    ...RELEASED_CLAIM,
+  }
+  if (!(await updateClaimed(campaign, update))) {
+    throw new Error(`Campaign ${campaign.id} was taken over by another run`)
+  }
+
+  console.log(`Campaign ${campaign.id} ${update.status}: ${update.reverted} reverted, ${update.skipped} skipped`)
+  return { ...campaign, ...update }
+}
+
+async function listStoreCampaigns(storeDomain: string, status: CampaignStatus) {
+  const snap = await getDocs(
+    query(collection(db, "campaigns"), where("storeDomain", "==", storeDomain), where("status", "==", status)),
+  )
+  return snap.docs.map((campaignDoc) => toCampaign(campaignDoc.id, campaignDoc.data()))
+}
+
+// Launch scheduled campaigns whose start has passed and end live campaigns whose expiry has passed,
+// for the store in scope. Launches and ends whose run died are taken over and finished.
+export async function processDueCampaigns(now = new Date()) {
+  const { storeDomain } = await getShopifyConfig()
+  const started: Array<Pick<Campaign, "id" | "name" | "status" | "applied" | "failed">> = []
+  const ended: Array<Pick<Campaign, "id" | "name" | "status" | "reverted" | "skipped">> = []
+
+  const launching = [
+    ...(await listStoreCampaigns(storeDomain, "scheduled")).filter(
+      (campaign) => campaign.startDate && new Date(campaign.startDate) <= now,
+    ),
+    ...(await listStoreCampaigns(storeDomain, "applying")).filter((campaign) => isStaleClaim(campaign, now.getTime())),
+  ]
+  for (const campaign of launching) {
+    // Missed its whole window (scheduler down); launching now would only end it again
+    if (campaign.status === "scheduled" && campaign.expiryDate && new Date(campaign.expiryDate) <= now) {
+      if (await claimCampaign(campaign.id, ["scheduled"], "failed")) {
+        await updateDoc(campaignRef(campaign.id), { error: "Expired before it could start" })
+        started.push({ id: campaign.id, name: campaign.name, status: "failed" })
+      }
+      continue
+    }
+
+    try {
+      const launched = await launchCampaign(campaign)
+      if (launched) {
+        started.push({ id: launched.id, name: launched.name, status: launched.status, applied: launched.applied, failed: launched.failed })
+      }
+    } catch (error) {
+      console.error(`Campaign ${campaign.id} failed to start:`, error)
+      started.push({ id: campaign.id, name: campaign.name, status: "failed" })
+    }
+  }
+
+  const ending = [
+    ...(await listStoreCampaigns(storeDomain, "live")).filter(
+      (campaign) => campaign.expiryDate && new Date(campaign.expiryDate) <= now,
+    ),
+    ...(await listStoreCampaigns(storeDomain, "reverting")).filter((campaign) => isStaleClaim(campaign, now.getTime())),
+  ]
+  for (const campaign of ending) {
+    const outcome = campaign.status === "reverting" ? (campaign.revertOutcome ?? "ended") : "ended"
+    const result = await revertCampaign(campaign, outcome)
+    if (result) {
+      const { id, name, status, reverted, skipped } = result.campaign
+      ended.push({ id, name, status, reverted, skipped })
+    }
+  }
+
+  return { started, ended }
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest"
+import { CATALOG_COLUMN_GROUPS, catalogCsvRows, planCatalogImport } from "@/lib/catalog-csv"
+
+const variant = (id: number, size: string, price: string, sku: string) => ({
+  id: `gid://shopify/ProductVariant/${id}`,
+  title: size,
+  sku,
+  price,
+  compareAtPrice: null,
+  inventoryQuantity: 5,
+  selectedOptions: [{ name: "Size", value: size }],
+  inventoryItem: { unitCost: { amount: "400.0" } },
+})
+
+// Raw product nodes as lib/product-cache keeps them
+const products = [
+  {
+    id: "gid://shopify/Product/1",
+    handle: "linen-shirt",
+    title: "Linen Shirt",
+    descriptionHtml: "<p>Breathable linen</p>",
+    vendor: "Acme",
+    productType: "Shirts",
+    tags: ["summer", "linen"],
+    status: "ACTIVE",
+    seo: { title: "Linen Shirt", description: "A linen shirt" },
+    collections: { edges: [{ node: { id: "gid://shopify/Collection/1", title: "Summer" } }] },
+    variants: {
+      edges: [
+        { node: variant(11, "S", "999.00", "LS-S") },
+        { node: variant(12, "M", "999.00", "LS-M") },
+        { node: variant(13, "L", "1099.00", "LS-L") },
+      ],
+    },
+    images: { edges: [{ node: { url: "https://cdn.example.com/shirt.jpg?v=1", altText: "Front" } }] },
+  },
+]
+const collections = [{ id: "gid://shopify/Collection/1", title: "Summer" }]
+
+describe("catalogCsvRows", () => {
+  it("exports handle and option values whatever groups are selected", () => {
+    const [header, ...rows] = catalogCsvRows(products, ["prices"])
+    expect(header).toEqual([
+      "Handle",
+      "Option1 Value",
+      "Option2 Value",
+      "Option3 Value",
+      "Variant Price",
+      "Variant Compare At Price",
+      "Cost per item",
+    ])
+    expect(rows.map((row) => row.slice(0, 2))).toEqual([
+      ["linen-shirt", "S"],
+      ["linen-shirt", "M"],
+      ["linen-shirt", "L"],
+    ])
+  })
+})
+
+describe("planCatalogImport", () => {
+  it("finds nothing to change in its own export", () => {
+    const all = CATALOG_COLUMN_GROUPS.map((group) => group.id)
+    for (const groups of [all, ["prices" as const], ["sku" as const]]) {
+      const { plan, error } = planCatalogImport(catalogCsvRows(products, groups), products, collections)
+      expect(error).toBe(null)
+      expect(plan).toEqual({ products: [], unchanged: 1, errors: [] })
+    }
+  })
+
+  it("matches an edited row of a prices-only export to its variant", () => {
+    const rows = catalogCsvRows(products, ["prices"])
+    rows[2][rows[0].indexOf("Variant Price")] = "899"
+
+    const { plan } = planCatalogImport(rows, products, collections)
+    expect(plan?.errors).toEqual([])
+    expect(plan?.products).toHaveLength(1)
+    expect(plan?.products[0].variants).toMatchObject([
+      { row: 3, variantId: "gid://shopify/ProductVariant/12", currentPrice: "999.00", price: "899.00", changes: [] },
+    ])
+  })
+
+  it("rejects a file with only key columns", () => {
+    const rows = catalogCsvRows(products, [])
+    expect(planCatalogImport(rows, products, collections).error).toBe(
+      "The file has no catalog columns besides Handle and option values",
+    )
+  })
+})
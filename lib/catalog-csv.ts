@@ -0,0 +1,430 @@
+// Full catalog CSV in Shopify's product CSV layout: one row per variant, product fields on the first row
+// of each handle, image N on row N of its product (extra rows carry only the handle and the image).
+// "Collection" lists collection titles separated by commas.
+//
+// The same file imports back: rows are grouped by Handle, compared with the cached catalog and only the
+// cells that differ become changes (lib/catalog-import applies them). Empty cells leave a value as it is,
+// a compare-at price of 0 removes it. Unknown handles create products; images are added by URL, never removed.
+import { parseAmount } from "@/lib/price-import"
+import { toMinor } from "@/lib/pricing"
+
+export type CatalogColumnGroup =
+  | "product"
+  | "options"
+  | "sku"
+  | "prices"
+  | "inventory"
+  | "images"
+  | "seo"
+  | "collections"
+
+export const CATALOG_COLUMN_GROUPS: Array<{ id: CatalogColumnGroup; label: string }> = [
+  { id: "product", label: "Title, description, vendor, type, tags and status" },
+  { id: "options", label: "Option names" },
+  { id: "sku", label: "Variant SKU" },
+  { id: "prices", label: "Price, compare-at price and cost" },
+  { id: "inventory", label: "Inventory quantity" },
+  { id: "images", label: "Image URLs and alt text" },
+  { id: "seo", label: "SEO title and description" },
+  { id: "collections", label: "Collections" },
+]
+
+// In Shopify's column order. Handle and the option values are always exported: they are how an imported row
+// finds its product and variant, whichever groups the file carries
+const CATALOG_COLUMNS: Array<{ header: string; group: CatalogColumnGroup | null }> = [
+  { header: "Handle", group: null },
+  { header: "Title", group: "product" },
+  { header: "Body (HTML)", group: "product" },
+  { header: "Vendor", group: "product" },
+  { header: "Type", group: "product" },
+  { header: "Tags", group: "product" },
+  { header: "Option1 Name", group: "options" },
+  { header: "Option1 Value", group: null },
+  { header: "Option2 Name", group: "options" },
+  { header: "Option2 Value", group: null },
+  { header: "Option3 Name", group: "options" },
+  { header: "Option3 Value", group: null },
+  { header: "Variant SKU", group: "sku" },
+  { header: "Variant Inventory Qty", group: "inventory" },
+  { header: "Variant Price", group: "prices" },
+  { header: "Variant Compare At Price", group: "prices" },
+  { header: "Image Src", group: "images" },
+  { header: "Image Position", group: "images" },
+  { header: "Image Alt Text", group: "images" },
+  { header: "SEO Title", group: "seo" },
+  { header: "SEO Description", group: "seo" },
+  { header: "Cost per item", group: "prices" },
+  { header: "Status", group: "product" },
+  { header: "Collection", group: "collections" },
+]
+
+const OPTION_SLOTS = [1, 2, 3]
+const STATUSES = ["active", "draft", "archived"]
+
+export function isCatalogColumnGroup(value: string): value is CatalogColumnGroup {
+  return CATALOG_COLUMN_GROUPS.some((group) => group.id === value)
+}
+
+// Export rows (header first) for raw product nodes, as cached by lib/product-cache
+export function catalogCsvRows(products: any[], groups: CatalogColumnGroup[]): string[][] {
+  const headers = CATALOG_COLUMNS.filter(({ group }) => group === null || groups.includes(group)).map(
+    ({ header }) => header,
+  )
+  const rows: string[][] = [headers]
+
+  for (const product of products) {
+    const variants = (product.variants?.edges || []).map((edge: any) => edge.node)
+    const images = (product.images?.edges || []).map((edge: any) => edge.node)
+    const optionNames: string[] = (variants[0]?.selectedOptions || []).map((option: any) => option.name)
+
+    for (let i = 0; i < Math.max(variants.length, images.length, 1); i++) {
+      const variant = variants[i]
+      const image = images[i]
+      const cells: Record<string, string | number | null | undefined> = { Handle: product.handle }
+      if (i === 0) {
+        Object.assign(cells, {
+          Title: product.title,
+          "Body (HTML)": product.descriptionHtml,
+          Vendor: product.vendor,
+          Type: product.productType,
+          Tags: (product.tags || []).join(", "),
+          Status: product.status?.toLowerCase(),
+          "SEO Title": product.seo?.title,
+          "SEO Description": product.seo?.description,
+          Collection: (product.collections?.edges || []).map((edge: any) => edge.node.title).join(", "),
+        })
+        OPTION_SLOTS.forEach((slot, index) => (cells[`Option${slot} Name`] = optionNames[index]))
+      }
+      if (variant) {
+        OPTION_SLOTS.forEach(
+          (slot, index) => (cells[`Option${slot} Value`] = variant.selectedOptions?.[index]?.value),
+        )
+        Object.assign(cells, {
+          "Variant SKU": variant.sku,
+          "Variant Inventory Qty": variant.inventoryQuantity,
+          "Variant Price": variant.price,
+          "Variant Compare At Price": variant.compareAtPrice,
+          "Cost per item": variant.inventoryItem?.unitCost?.amount,
+        })
+      }
+      if (image) {
+        Object.assign(cells, { "Image Src": image.url, "Image Position": i + 1, "Image Alt Text": image.altText })
+      }
+      rows.push(headers.map((header) => (cells[header] == null ? "" : String(cells[header]))))
+    }
+  }
+  return rows
+}
+
+export interface CatalogRowError {
+  row: number // 1-based, as the spreadsheet shows it
+  handle: string
+  error: string
+}
+
+export interface CatalogVariantPlan {
+  row: number
+  variantId: string | null // null for the variants of a new product
+  label: string
+  options: string[] // Option values, for new variants
+  currentPrice: string | null
+  currentCompareAtPrice: string | null
+  sku?: string
+  price?: string
+  compareAtPrice?: string | null // null removes the compare-at price
+  cost?: string
+  inventory?: number
+  changes: string[] // Everything but prices, which price guardrails may still change
+}
+
+export function hasVariantChanges(variant: CatalogVariantPlan) {
+  return variant.changes.length > 0 || variant.price !== undefined || variant.compareAtPrice !== undefined
+}
+
+export interface CatalogProductPlan {
+  row: number
+  handle: string
+  productId: string | null // null creates the product
+  title: string
+  fields: Record<string, any> // Changed ProductInput fields
+  collectionsToJoin: string[]
+  collectionsToLeave: string[]
+  optionNames: string[] // New products only
+  variants: CatalogVariantPlan[]
+  newImages: Array<{ url: string; altText: string | null }>
+  changes: string[]
+}
+
+export interface CatalogImportPlan {
+  products: CatalogProductPlan[] // Only products with something to change
+  unchanged: number
+  errors: CatalogRowError[]
+}
+
+// Images are compared without Shopify's ?v= cache buster
+function imageKey(url: string) {
+  return url.split("?")[0]
+}
+
+function sameTags(a: string[], b: string[]) {
+  return [...a].sort().join("\n") === [...b].sort().join("\n")
+}
+
+function splitList(value: string) {
+  return value
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean)
+}
+
+export function planCatalogImport(
+  rows: string[][],
+  products: any[],
+  collections: Array<{ id: string; title: string }>,
+): { plan: CatalogImportPlan | null; error: string | null } {
+  const headers = (rows[0] ?? []).map((header) => header.trim().toLowerCase())
+  const columnIndex = new Map(
+    CATALOG_COLUMNS.map(({ header }) => [header, headers.indexOf(header.toLowerCase())] as const).filter(
+      ([, index]) => index !== -1,
+    ),
+  )
+  if (!columnIndex.has("Handle")) {
+    return { plan: null, error: "The first row needs a Handle column" }
+  }
+  if (CATALOG_COLUMNS.every(({ header, group }) => group === null || !columnIndex.has(header))) {
+    return { plan: null, error: "The file has no catalog columns besides Handle and option values" }
+  }
+  const has = (header: string) => columnIndex.has(header)
+  // Trimmed cell text; undefined when the column is missing or the cell is empty
+  const cell = (cells: string[], header: string) => {
+    const value = has(header) ? cells[columnIndex.get(header) as number]?.trim() : undefined
+    return value ? value : undefined
+  }
+
+  const productsByHandle = new Map(products.map((product) => [product.handle, product]))
+  const collectionsByTitle = new Map(collections.map((c) => [c.title.trim().toLowerCase(), c.id]))
+
+  // Rows of each handle, in file order
+  const groups = new Map<string, Array<{ row: number; cells: string[] }>>()
+  const errors: CatalogRowError[] = []
+  rows.slice(1).forEach((cells, index) => {
+    if (cells.every((value) => value.trim() === "")) return
+    const handle = cell(cells, "Handle")
+    if (!handle) {
+      errors.push({ row: index + 2, handle: "", error: "No handle" })
+      return
+    }
+    groups.set(handle, [...(groups.get(handle) ?? []), { row: index + 2, cells }])
+  })
+
+  const plan: CatalogImportPlan = { products: [], unchanged: 0, errors }
+
+  for (const [handle, group] of groups) {
+    const first = group[0]
+    const existing = productsByHandle.get(handle)
+    const rowError = (row: number, error: string) => errors.push({ row, handle, error })
+    const title = cell(first.cells, "Title")
+    if (!existing && !title) {
+      rowError(first.row, "No product has this handle, and new products need a Title")
+      continue
+    }
+
+    const product: CatalogProductPlan = {
+      row: first.row,
+      handle,
+      productId: existing?.id ?? null,
+      title: existing?.title ?? title,
+      fields: {},
+      collectionsToJoin: [],
+      collectionsToLeave: [],
+      optionNames: [],
+      variants: [],
+      newImages: [],
+      changes: [],
+    }
+
+    // Product fields, from the first row of the handle
+    const textFields: Array<[string, string, string]> = [
+      ["Title", "title", existing?.title ?? ""],
+      ["Body (HTML)", "descriptionHtml", existing?.descriptionHtml ?? ""],
+      ["Vendor", "vendor", existing?.vendor ?? ""],
+      ["Type", "productType", existing?.productType ?? ""],
+    ]
+    for (const [header, field, current] of textFields) {
+      const value = cell(first.cells, header)
+      if (value !== undefined && value !== current) {
+        product.fields[field] = value
+        product.changes.push(existing ? `${header} changed` : `${header}: ${value}`)
+      }
+    }
+
+    const tags = cell(first.cells, "Tags")
+    if (tags !== undefined && !sameTags(splitList(tags), existing?.tags ?? [])) {
+      product.fields.tags = splitList(tags)
+      product.changes.push(`Tags: ${splitList(tags).join(", ")}`)
+    }
+
+    const status = cell(first.cells, "Status")?.toLowerCase()
+    if (status !== undefined && !STATUSES.includes(status)) {
+      rowError(first.row, `Status must be one of ${STATUSES.join(", ")}`)
+    } else if (status !== undefined && status !== existing?.status?.toLowerCase()) {
+      product.fields.status = status.toUpperCase()
+      product.changes.push(`Status: ${status}`)
+    }
+
+    const seoTitle = cell(first.cells, "SEO Title")
+    const seoDescription = cell(first.cells, "SEO Description")
+    const currentSeo = { title: existing?.seo?.title ?? "", description: existing?.seo?.description ?? "" }
+    if (
+      (seoTitle !== undefined && seoTitle !== currentSeo.title) ||
+      (seoDescription !== undefined && seoDescription !== currentSeo.description)
+    ) {
+      product.fields.seo = {
+        title: seoTitle ?? currentSeo.title,
+        description: seoDescription ?? currentSeo.description,
+      }
+      product.changes.push("SEO changed")
+    }
+
+    const collectionTitles = cell(first.cells, "Collection")
+    if (collectionTitles !== undefined) {
+      const unknown = splitList(collectionTitles).filter((t) => !collectionsByTitle.has(t.toLowerCase()))
+      if (unknown.length > 0) {
+        rowError(first.row, `Unknown collections: ${unknown.join(", ")}`)
+      } else {
+        const wanted = splitList(collectionTitles).map((t) => collectionsByTitle.get(t.toLowerCase()) as string)
+        const current: string[] = (existing?.collections?.edges || []).map((edge: any) => edge.node.id)
+        product.collectionsToJoin = wanted.filter((id) => !current.includes(id))
+        product.collectionsToLeave = current.filter((id) => !wanted.includes(id))
+        if (product.collectionsToJoin.length > 0 || product.collectionsToLeave.length > 0) {
+          product.changes.push(`Collections: ${collectionTitles}`)
+        }
+      }
+    }
+
+    // Variants: every row with variant cells
+    const variantNodes: any[] = (existing?.variants?.edges || []).map((edge: any) => edge.node)
+    const variantRows = group.filter(({ cells }) =>
+      [
+        ...OPTION_SLOTS.map((slot) => `Option${slot} Value`),
+        "Variant SKU",
+        "Variant Price",
+        "Variant Compare At Price",
+        "Cost per item",
+        "Variant Inventory Qty",
+      ].some((header) => cell(cells, header) !== undefined),
+    )
+    if (!existing) {
+      product.optionNames = OPTION_SLOTS.map((slot) => cell(first.cells, `Option${slot} Name`)).filter(
+        (name): name is string => !!name,
+      )
+    }
+    const matched = new Set<string>()
+
+    for (const { row, cells } of variantRows) {
+      const options = OPTION_SLOTS.map((slot) => cell(cells, `Option${slot} Value`)).filter(
+        (value): value is string => !!value,
+      )
+      const sku = cell(cells, "Variant SKU")
+      let node: any = null
+      if (existing) {
+        // By option values, then SKU, then the only variant of the product
+        if (options.length > 0) {
+          node = variantNodes.find(
+            (v) =>
+              (v.selectedOptions || []).length === options.length &&
+              v.selectedOptions.every((o: any, i: number) => o.value.toLowerCase() === options[i].toLowerCase()),
+          )
+        } else if (sku) {
+          node = variantNodes.find((v) => v.sku === sku)
+        } else if (variantNodes.length === 1 && variantRows.length === 1) {
+          node = variantNodes[0]
+        }
+        if (!node) {
+          rowError(row, `No variant of this product matches ${options.join(" / ") || sku || "this row"}`)
+          continue
+        }
+        if (matched.has(node.id)) {
+          rowError(row, `${node.title} is listed more than once`)
+          continue
+        }
+        matched.add(node.id)
+      } else if (options.length !== product.optionNames.length || (options.length === 0 && variantRows.length > 1)) {
+        rowError(row, "New variants need a value for each option name")
+        continue
+      }
+
+      const variant: CatalogVariantPlan = {
+        row,
+        variantId: node?.id ?? null,
+        label: node?.title ?? (options.join(" / ") || "Default Title"),
+        options,
+        currentPrice: node?.price ?? null,
+        currentCompareAtPrice: node?.compareAtPrice || null,
+        changes: [],
+      }
+
+      if (sku !== undefined && sku !== (node?.sku ?? "")) {
+        variant.sku = sku
+        variant.changes.push(`SKU: ${sku}`)
+      }
+
+      const price = parseAmount(cell(cells, "Variant Price"))
+      const compareAtPrice = parseAmount(cell(cells, "Variant Compare At Price"))
+      const cost = parseAmount(cell(cells, "Cost per item"))
+      if (price === null || compareAtPrice === null || cost === null) {
+        rowError(row, "Prices and cost must be numbers")
+        continue
+      }
+      if (price !== undefined && toMinor(price) <= 0) {
+        rowError(row, "Price must be greater than 0")
+        continue
+      }
+      if (price !== undefined && toMinor(price) !== toMinor(node?.price ?? 0)) {
+        variant.price = price
+      }
+      if (compareAtPrice !== undefined && toMinor(compareAtPrice) !== toMinor(node?.compareAtPrice || 0)) {
+        variant.compareAtPrice = toMinor(compareAtPrice) === 0 ? null : compareAtPrice
+      }
+      if (cost !== undefined && toMinor(cost) !== toMinor(node?.inventoryItem?.unitCost?.amount ?? 0)) {
+        variant.cost = cost
+        variant.changes.push(`Cost: ${cost}`)
+      }
+
+      const inventory = cell(cells, "Variant Inventory Qty")
+      if (inventory !== undefined) {
+        const quantity = Number(inventory)
+        if (!Number.isInteger(quantity)) {
+          rowError(row, "Inventory quantity must be a whole number")
+          continue
+        }
+        if (quantity !== (node?.inventoryQuantity ?? 0)) {
+          variant.inventory = quantity
+          variant.changes.push(`Inventory: ${quantity}`)
+        }
+      }
+
+      if (!existing || hasVariantChanges(variant)) {
+        product.variants.push(variant)
+      }
+    }
+
+    // Images not on the product yet, by URL
+    const currentImages = new Set<string>(
+      (existing?.images?.edges || []).map((edge: any) => imageKey(edge.node.url)),
+    )
+    for (const { cells } of group) {
+      const url = cell(cells, "Image Src")
+      if (!url || currentImages.has(imageKey(url))) continue
+      currentImages.add(imageKey(url))
+      product.newImages.push({ url, altText: cell(cells, "Image Alt Text") ?? null })
+    }
+    if (existing && product.changes.length === 0 && product.variants.length === 0 && product.newImages.length === 0) {
+      plan.unchanged++
+    } else {
+      plan.products.push(product)
+    }
+  }
+
+  return { plan, error: null }
+}
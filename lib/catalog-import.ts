@@ -0,0 +1,248 @@
+// Applies catalog CSV imports (lib/catalog-csv) to the store in scope.
+//
+// Product fields and collections go through createProduct/updateProduct, SKU, price and cost changes
+// through one productVariantUpdate per variant, inventory through quantity adjustments at the store's
+// first location. New prices of existing variants are first checked like any explicit bulk price update
+// (lib/bulk-price-update), so live prices and price guardrails apply.
+import type { StoreAuth } from "@/lib/api-auth"
+import { planBulkPriceUpdate } from "@/lib/bulk-price-update"
+import {
+  hasVariantChanges,
+  planCatalogImport,
+  type CatalogImportPlan,
+  type CatalogProductPlan,
+  type CatalogRowError,
+} from "@/lib/catalog-csv"
+import { getProductSnapshot, refreshCachedProduct } from "@/lib/product-cache"
+import {
+  addProductImages,
+  adjustInventoryQuantities,
+  createProduct,
+  getAllCollections,
+  getDefaultLocationId,
+  getVariantInventory,
+  mutationError,
+  updateProduct,
+  updateProductVariant,
+} from "@/lib/shopify"
+
+export interface CatalogImportResult {
+  row: number
+  handle: string
+  title: string
+  productId: string | null
+  action: "created" | "updated" | "failed"
+  changes: string[]
+}
+
+// The import plan for uploaded rows against the cached catalog
+export async function loadCatalogImportPlan(rows: string[][]) {
+  const [snapshot, collections] = await Promise.all([getProductSnapshot(), getAllCollections()])
+  if (collections.status !== 200 || collections.body?.errors) {
+    throw new Error(collections.error || "Failed to fetch collections")
+  }
+  return planCatalogImport(
+    rows,
+    snapshot.products,
+    collections.body.data.collections.edges.map((edge: any) => edge.node),
+  )
+}
+
+// Price changes of existing variants, as [{ from, to }] pairs for approval checks
+export function importPriceChanges(plan: CatalogImportPlan) {
+  return plan.products.flatMap((product) =>
+    product.variants
+      .filter((variant) => variant.variantId)
+      .flatMap((variant) => [
+        ...(variant.price !== undefined ? [{ from: variant.currentPrice, to: variant.price }] : []),
+        ...(variant.compareAtPrice !== undefined
+          ? [{ from: variant.currentCompareAtPrice, to: variant.compareAtPrice }]
+          : []),
+      ]),
+  )
+}
+
+// Re-plan the new prices of existing variants from live prices and guardrails. Clamped prices are taken
+// as clamped; blocked or invalid ones are dropped from the plan and reported as row errors.
+export async function checkImportPrices(store: Pick<StoreAuth, "ownerId" | "storeId">, plan: CatalogImportPlan) {
+  const priced = plan.products.flatMap((product) =>
+    product.variants
+      .filter((variant) => variant.variantId && (variant.price !== undefined || variant.compareAtPrice !== undefined))
+      .map((variant) => ({ product, variant })),
+  )
+  if (priced.length === 0) return
+
+  const checked = await planBulkPriceUpdate(
+    store,
+    priced.map(({ product, variant }) => ({
+      variantId: variant.variantId as string,
+      productTitle: product.title,
+      variantTitle: variant.label,
+      newPrice: variant.price,
+      newCompareAtPrice: variant.compareAtPrice,
+    })),
+    { type: "explicit", value: 0, applyTo: "both", roundingRule: "none" },
+    "increase",
+  )
+
+  checked.forEach((change, index) => {
+    const { product, variant } = priced[index]
+    if (change.status === "blocked" || change.status === "invalid") {
+      plan.errors.push({ row: variant.row, handle: product.handle, error: change.error || "Price not allowed" })
+    }
+    const update = change.status === "update"
+    variant.currentPrice = change.currentPrice
+    variant.currentCompareAtPrice = change.currentCompareAtPrice
+    variant.price = update && Number(change.newPrice) !== Number(change.currentPrice) ? change.newPrice : undefined
+    variant.compareAtPrice =
+      update && Number(change.newCompareAtPrice) !== Number(change.currentCompareAtPrice)
+        ? change.newCompareAtPrice
+        : undefined
+  })
+
+  for (const product of plan.products) {
+    product.variants = product.variants.filter((variant) => !variant.variantId || hasVariantChanges(variant))
+  }
+  plan.products = plan.products.filter(
+    (product) =>
+      !product.productId || product.changes.length > 0 || product.variants.length > 0 || product.newImages.length > 0,
+  )
+}
+
+async function createImportedProduct(product: CatalogProductPlan, locationId: string | null) {
+  const response = await createProduct({
+    handle: product.handle,
+    status: "DRAFT",
+    ...product.fields,
+    ...(product.optionNames.length > 0 ? { options: product.optionNames } : {}),
+    collectionsToJoin: product.collectionsToJoin,
+    variants: product.variants.map((variant) => ({
+      ...(variant.options.length > 0 ? { options: variant.options } : {}),
+      sku: variant.sku,
+      price: variant.price,
+      compareAtPrice: variant.compareAtPrice,
+      ...(variant.cost !== undefined ? { inventoryItem: { cost: variant.cost } } : {}),
+      ...(variant.inventory !== undefined && locationId
+        ? { inventoryQuantities: [{ availableQuantity: variant.inventory, locationId }] }
+        : {}),
+    })),
+  })
+  const error = mutationError(response, "productCreate")
+  return { productId: error ? null : (response.body.data.productCreate.product.id as string), error }
+}
+
+// Applies the plan product by product; a failed product or variant does not stop the others
+export async function runCatalogImport(plan: CatalogImportPlan) {
+  const results: CatalogImportResult[] = []
+  const errors: CatalogRowError[] = [...plan.errors]
+  const needsLocation = plan.products.some((product) => product.variants.some((v) => v.inventory !== undefined))
+  const locationId = needsLocation ? await getDefaultLocationId() : null
+  if (needsLocation && !locationId) {
+    errors.push({ row: 1, handle: "", error: "The store has no location, so inventory was not changed" })
+  }
+
+  for (const product of plan.products) {
+    const result: CatalogImportResult = {
+      row: product.row,
+      handle: product.handle,
+      title: product.title,
+      productId: product.productId,
+      action: product.productId ? "updated" : "created",
+      changes: [],
+    }
+    const rowError = (row: number, error: string) => errors.push({ row, handle: product.handle, error })
+
+    try {
+      if (!product.productId) {
+        const created = await createImportedProduct(product, locationId)
+        if (created.error) {
+          rowError(product.row, created.error)
+          results.push({ ...result, action: "failed" })
+          continue
+        }
+        result.productId = created.productId
+        result.changes.push(...product.changes, `${product.variants.length || 1} variants`)
+      } else {
+        if (
+          Object.keys(product.fields).length > 0 ||
+          product.collectionsToJoin.length > 0 ||
+          product.collectionsToLeave.length > 0
+        ) {
+          const error = mutationError(
+            await updateProduct({
+              id: product.productId,
+              ...product.fields,
+              collectionsToJoin: product.collectionsToJoin,
+              collectionsToLeave: product.collectionsToLeave,
+            }),
+            "productUpdate",
+          )
+          if (error) {
+            rowError(product.row, error)
+          } else {
+            result.changes.push(...product.changes)
+          }
+        }
+
+        for (const variant of product.variants) {
+          const input = {
+            id: variant.variantId,
+            sku: variant.sku,
+            price: variant.price,
+            compareAtPrice: variant.compareAtPrice,
+            ...(variant.cost !== undefined ? { inventoryItem: { cost: variant.cost } } : {}),
+          }
+          if (Object.values(input).filter((value) => value !== undefined).length === 1) continue
+          const error = mutationError(await updateProductVariant(input), "productVariantUpdate")
+          if (error) {
+            rowError(variant.row, error)
+          } else {
+            result.changes.push(`${variant.label} updated`)
+          }
+        }
+
+        // Inventory is set as a delta against the live total, applied at the first location
+        const counted = product.variants.filter((variant) => variant.inventory !== undefined)
+        if (counted.length > 0 && locationId) {
+          const live = await getVariantInventory(counted.map((variant) => variant.variantId as string))
+          const changes = counted.flatMap((variant) => {
+            const current = live.get(variant.variantId as string)
+            const delta = current ? (variant.inventory as number) - current.quantity : 0
+            return current && delta !== 0 ? [{ inventoryItemId: current.inventoryItemId, delta }] : []
+          })
+          const error =
+            changes.length > 0
+              ? mutationError(await adjustInventoryQuantities(locationId, changes), "inventoryAdjustQuantities")
+              : null
+          if (error) {
+            counted.forEach((variant) => rowError(variant.row, `Inventory: ${error}`))
+          } else if (changes.length > 0) {
+            result.changes.push(`Inventory of ${changes.length} variants`)
+          }
+        }
+      }
+
+      if (product.newImages.length > 0 && result.productId) {
+        const error = mutationError(await addProductImages(result.productId, product.newImages), "productCreateMedia")
+        if (error) {
+          rowError(product.row, `Images: ${error}`)
+        } else {
+          result.changes.push(`${product.newImages.length} new images`)
+        }
+      }
+    } catch (error) {
+      rowError(product.row, error instanceof Error ? error.message : "Unknown error")
+    }
+
+    if (result.productId) {
+      try {
+        await refreshCachedProduct(result.productId)
+      } catch (error) {
+        console.error(`Failed to refresh cached product ${result.productId}:`, error)
+      }
+    }
+    results.push(result.changes.length > 0 || result.action === "created" ? result : { ...result, action: "failed" })
+  }
+
+  return { results, errors: errors.sort((a, b) => a.row - b.row) }
+}
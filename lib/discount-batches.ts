@@ -0,0 +1,118 @@
+// Server-side record of discount runs, so a run can be rolled back later without re-selecting its
+// variants (lib/rollback-jobs).
+//
+// discountBatches/{batchId} holds one discount run (store, label, when); its items/{variantId}
+// subcollection the prices each variant had before and after, and the discount_history entry written
+// for it. The batch ID is also stored on that entry (batch_id). A run the browser sends one variant at
+// a time passes the same batch ID with every request, and each request adds its variants to the batch.
+import { collection, doc, getDoc, getDocs, increment, query, where, writeBatch } from "firebase/firestore"
+import { db } from "@/db/db"
+
+export interface DiscountBatch {
+  id: string
+  teamId: string
+  ownerId: string
+  storeId: string
+  label: string // What was applied, e.g. "20% off" or the campaign name
+  createdAt: string
+  variantCount: number
+}
+
+export interface DiscountBatchItem {
+  variantId: string
+  productTitle: string
+  variantTitle: string
+  historyKey: string
+  originalPrice: string
+  originalCompareAtPrice: string | null
+  discountedPrice: string
+  discountedCompareAtPrice: string | null
+}
+
+// Firestore allows 500 writes per batch
+const WRITE_BATCH_SIZE = 400
+
+function teamIdFor(store: { ownerId: string; storeId: string }) {
+  return `${store.ownerId}_${store.storeId}`
+}
+
+function itemsRef(batchId: string) {
+  return collection(db, "discountBatches", batchId, "items")
+}
+
+// Reserve an ID before the run writes its history entries
+export function newDiscountBatchId() {
+  return doc(collection(db, "discountBatches")).id
+}
+
+// Batch IDs chosen by the browser; also keeps them usable as Firestore document IDs
+export function isValidDiscountBatchId(batchId: unknown): batchId is string {
+  return typeof batchId === "string" && /^[A-Za-z0-9_-]{1,64}$/.test(batchId)
+}
+
+// A new batch ID, or an existing batch of this store
+export async function canUseDiscountBatch(store: { ownerId: string; storeId: string }, batchId: string) {
+  const snap = await getDoc(doc(db, "discountBatches", batchId))
+  return !snap.exists() || snap.data().teamId === teamIdFor(store)
+}
+
+export async function recordDiscountBatch(
+  store: { ownerId: string; storeId: string },
+  batchId: string,
+  label: string,
+  items: DiscountBatchItem[],
+) {
+  if (items.length === 0) {
+    return
+  }
+
+  const ref = doc(db, "discountBatches", batchId)
+  const existing = await getDoc(ref)
+  for (let i = 0; i < items.length; i += WRITE_BATCH_SIZE) {
+    const writes = writeBatch(db)
+    if (i === 0) {
+      // Merged, since requests of one browser run may record into the same batch side by side
+      writes.set(
+        ref,
+        {
+          teamId: teamIdFor(store),
+          ownerId: store.ownerId,
+          storeId: store.storeId,
+          label,
+          variantCount: increment(items.length),
+          ...(existing.exists() ? {} : { createdAt: new Date().toISOString() }),
+        },
+        { merge: true },
+      )
+    }
+    for (const item of items.slice(i, i + WRITE_BATCH_SIZE)) {
+      writes.set(doc(itemsRef(batchId), item.variantId.split("/").pop() as string), item)
+    }
+    await writes.commit()
+  }
+}
+
+// The store's discount runs, newest first; `from`/`to` (ISO dates) limit them to a date range
+export async function listDiscountBatches(
+  store: { ownerId: string; storeId: string },
+  range: { from?: string; to?: string } = {},
+): Promise<DiscountBatch[]> {
+  const snap = await getDocs(query(collection(db, "discountBatches"), where("teamId", "==", teamIdFor(store))))
+  return snap.docs
+    .map((batchDoc) => ({ id: batchDoc.id, ...(batchDoc.data() as Omit<DiscountBatch, "id">) }))
+    .filter((batch) => (!range.from || batch.createdAt >= range.from) && (!range.to || batch.createdAt <= range.to))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+}
+
+export async function getDiscountBatch(store: { ownerId: string; storeId: string }, batchId: string) {
+  const snap = await getDoc(doc(db, "discountBatches", batchId))
+  if (!snap.exists() || snap.data().teamId !== teamIdFor(store)) {
+    return null
+  }
+  return { id: snap.id, ...(snap.data() as Omit<DiscountBatch, "id">) }
+}
+
+export async function getDiscountBatchItems(batchId: string): Promise<DiscountBatchItem[]> {
+  const snap = await getDocs(itemsRef(batchId))
+  return snap.docs.map((itemDoc) => itemDoc.data() as DiscountBatchItem)
+}
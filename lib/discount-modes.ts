@@ -0,0 +1,156 @@
+// Bulk discount modes and rules, shared by the discount routes and the BulkDiscountSystem preview.
+//
+// A discount request is an ordered rule list; each variant takes the first rule whose condition it meets
+// (price band or product tag). A plain discount is a single rule that matches everything. The prices a
+// discount sets are worked out by calculateDiscountedPrices in lib/pricing.
+export type DiscountMode = "percentage" | "fixed_amount" | "target_price"
+
+export interface Discount {
+  mode: DiscountMode
+  value: number // percent off, amount off, or the sale price itself
+}
+
+export const DISCOUNT_MODES: Array<{ value: DiscountMode; label: string }> = [
+  { value: "percentage", label: "Percentage off" },
+  { value: "fixed_amount", label: "Fixed amount off (₹)" },
+  { value: "target_price", label: "Target sale price (₹)" },
+]
+
+export type DiscountRuleMatch =
+  | { type: "all" }
+  | { type: "price_band"; min?: number | null; max?: number | null } // current price, min <= price < max
+  | { type: "tag"; tag: string }
+
+export interface DiscountRule {
+  label?: string
+  match: DiscountRuleMatch
+  discount: Discount
+}
+
+// Body fields accepted by the discount routes: `rules`, or a single discount where
+// `discountPercentage` alone is the original percentage request
+export interface DiscountRequestFields {
+  rules?: DiscountRule[]
+  discountMode?: DiscountMode
+  discountValue?: number
+  discountPercentage?: number
+}
+
+export function discountFromRequest({ discountMode, discountValue, discountPercentage }: DiscountRequestFields): Discount {
+  if (!discountMode || discountMode === "percentage") {
+    return { mode: "percentage", value: Number(discountValue ?? discountPercentage) }
+  }
+  return { mode: discountMode, value: Number(discountValue) }
+}
+
+// Whether the request gives a discount at all, e.g. in an edit that may leave it unchanged
+export function hasDiscountFields(fields: DiscountRequestFields) {
+  return [fields.rules, fields.discountMode, fields.discountValue, fields.discountPercentage].some(
+    (field) => field !== undefined,
+  )
+}
+
+export function rulesFromRequest(fields: DiscountRequestFields): DiscountRule[] {
+  if (Array.isArray(fields.rules) && fields.rules.length > 0) {
+    return fields.rules.map((rule) => ({ ...rule, discount: { mode: rule.discount?.mode, value: Number(rule.discount?.value) } }))
+  }
+  return [{ match: { type: "all" }, discount: discountFromRequest(fields) }]
+}
+
+// Returns an error message or null
+export function validateDiscount(discount: Discount) {
+  if (!DISCOUNT_MODES.some((mode) => mode.value === discount.mode)) {
+    return `Unknown discount mode: ${discount.mode}`
+  }
+  if (!Number.isFinite(discount.value) || discount.value <= 0) {
+    return discount.mode === "percentage"
+      ? "Discount percentage must be between 1 and 99"
+      : "Discount amount must be greater than 0"
+  }
+  if (discount.mode === "percentage" && discount.value >= 100) {
+    return "Discount percentage must be between 1 and 99"
+  }
+  return null
+}
+
+// Returns an error message or null
+export function validateRules(rules: DiscountRule[]) {
+  if (rules.length === 0) {
+    return "Add at least one discount rule"
+  }
+  for (const [index, rule] of rules.entries()) {
+    const prefix = rules.length > 1 ? `Rule ${index + 1}: ` : ""
+    const { match } = rule
+    if (match?.type === "tag" && !match.tag?.trim()) {
+      return `${prefix}Tag is required`
+    }
+    if (match?.type === "price_band") {
+      const min = match.min ?? 0
+      if (match.max != null && match.max <= min) {
+        return `${prefix}Price band maximum must be above its minimum`
+      }
+    } else if (match?.type !== "all" && match?.type !== "tag") {
+      return `${prefix}Unknown rule condition`
+    }
+    const error = validateDiscount(rule.discount)
+    if (error) {
+      return `${prefix}${error}`
+    }
+  }
+  return null
+}
+
+export function ruleMatches(match: DiscountRuleMatch, variant: { price: number; tags: string[] }) {
+  switch (match.type) {
+    case "price_band":
+      return variant.price >= (match.min ?? 0) && (match.max == null || variant.price < match.max)
+    case "tag":
+      return variant.tags.some((tag) => tag.trim().toLowerCase() === match.tag.trim().toLowerCase())
+    default:
+      return true
+  }
+}
+
+// The first rule the variant meets, or null when none does
+export function findMatchingRule(rules: DiscountRule[], variant: { price: number; tags: string[] }) {
+  const index = rules.findIndex((rule) => ruleMatches(rule.match, variant))
+  return index === -1 ? null : { index, rule: rules[index] }
+}
+
+function describeMatch(match: DiscountRuleMatch) {
+  switch (match.type) {
+    case "price_band":
+      if (match.min && match.max != null) return `₹${match.min.toLocaleString("en-IN")}–₹${match.max.toLocaleString("en-IN")}`
+      if (match.max != null) return `under ₹${match.max.toLocaleString("en-IN")}`
+      return `₹${(match.min ?? 0).toLocaleString("en-IN")} and above`
+    case "tag":
+      return `tag:${match.tag}`
+    default:
+      return "everything else"
+  }
+}
+
+// "10% off under ₹5,000"; a rule's own label wins
+export function describeRule(rule: DiscountRule) {
+  return rule.label?.trim() || `${describeDiscount(rule.discount)}${rule.discount.mode === "percentage" ? " off" : ""} ${describeMatch(rule.match)}`
+}
+
+// Summary for messages and approval requests
+export function describeRules(rules: DiscountRule[]) {
+  if (rules.length === 1 && rules[0].match.type === "all") {
+    return `${describeDiscount(rules[0].discount)} discount`
+  }
+  return `tiered discount (${rules.map(describeRule).join("; ")})`
+}
+
+// "10%", "₹500 off", "sale price ₹1,999"
+export function describeDiscount(discount: Discount) {
+  switch (discount.mode) {
+    case "fixed_amount":
+      return `₹${discount.value.toLocaleString("en-IN")} off`
+    case "target_price":
+      return `sale price ₹${discount.value.toLocaleString("en-IN")}`
+    default:
+      return `${discount.value}%`
+  }
+}
@@ -0,0 +1,570 @@
+// Variant discounts, shared by /api/apply-discount, /api/apply-discount-enhanced and campaigns
+import { maxPriceChangePercent } from "@/lib/approvals"
+import { describeRule, describeDiscount, findMatchingRule, type DiscountRule } from "@/lib/discount-modes"
+import {
+  canUseDiscountBatch,
+  newDiscountBatchId,
+  recordDiscountBatch,
+  type DiscountBatchItem,
+} from "@/lib/discount-batches"
+import { loadPriceGuard } from "@/lib/price-guardrails"
+import { calculateDiscountedPrices, effectiveDiscountPercent, formatMinor, toMinor } from "@/lib/pricing"
+import { getShopifyConfig, shopifyAdminFetch, shopifyRestFetch } from "@/lib/shopify"
+import { indexSchedule, type DiscountSchedule } from "@/lib/scheduled-reverts"
+
+export interface DiscountResult {
+  variantId: string
+  productTitle: string
+  variantTitle: string
+  success: boolean
+  error?: string
+  originalPrice: string
+  originalCompareAtPrice?: string | null // Set on success, for exact restores (lib/campaigns)
+  newPrice: string
+  compareAtPrice: string
+  ruleIndex?: number // Which of the request's rules fired
+  ruleLabel?: string
+  blocked?: boolean // Refused by the store's price guardrails rather than failed
+  clampedFrom?: string // The discounted price before guardrails raised it to the floor
+  skipped?: boolean // Left alone because it already had a discount (conflictMode "skip")
+  conflict?: DiscountConflict
+  historyKey?: string // The discount_history entry written for it
+}
+
+// What to do with a variant that already has a discount from an earlier run: replace it (discount from the
+// original price), skip the variant, or stack on the current sale price, keeping its compare-at price
+export type ConflictMode = "replace" | "skip" | "stack"
+
+export const CONFLICT_MODES: ConflictMode[] = ["replace", "skip", "stack"]
+
+export interface DiscountConflict {
+  variantId: string
+  currentPrice: string
+  currentCompareAtPrice: string | null
+  historyKey: string | null // Latest price_history_* entry not rolled back since, while the variant is on sale
+  appliedAt: string | null
+  action: string | null
+  // Prices before the first discount in the chain, which rollbacks and reverts restore
+  originalPrice: string
+  originalCompareAtPrice: string | null
+  // Prices just before the active discount, and the run that applied it
+  previousPrice: string | null
+  previousCompareAtPrice: string | null
+  batchId: string | null
+  pendingSchedules: Array<{ metafieldId: string; expiryDate: string }>
+}
+
+const DISCOUNT_METAFIELDS_QUERY = `
+  query discountMetafields($ids: [ID!]!) {
+    nodes(ids: $ids) {
+      ... on ProductVariant {
+        id
+        price
+        compareAtPrice
+        history: metafields(namespace: "discount_history", last: 20) {
+          edges {
+            node {
+              id
+              key
+              value
+            }
+          }
+        }
+        schedules: metafields(namespace: "discount_schedule", last: 10) {
+          edges {
+            node {
+              id
+              key
+              value
+            }
+          }
+        }
+      }
+    }
+  }
+`
+
+function parseJson(value: string) {
+  try {
+    return JSON.parse(value)
+  } catch {
+    return null
+  }
+}
+
+function keyTimestamp(key: string) {
+  return Number.parseInt(key.slice(key.lastIndexOf("_") + 1)) || 0
+}
+
+// Active discounts and pending reversion schedules among these variants, keyed by variant GID.
+// A discount is active while its history entry is the newest, no rollback came after it and the
+// variant is still on sale.
+export async function findDiscountConflicts(variantIds: string[]): Promise<Map<string, DiscountConflict>> {
+  const conflicts = new Map<string, DiscountConflict>()
+  const ids = variantIds.map((id) => (id.startsWith("gid://") ? id : `gid://shopify/ProductVariant/${id}`))
+
+  for (let i = 0; i < ids.length; i += 10) {
+    const response = await shopifyAdminFetch({ query: DISCOUNT_METAFIELDS_QUERY, variables: { ids: ids.slice(i, i + 10) } })
+    if (response.error || response.body?.errors) {
+      throw new Error(response.error || response.body.errors[0]?.message || "Failed to check existing discounts")
+    }
+
+    for (const node of response.body?.data?.nodes || []) {
+      if (!node?.id) continue
+      const history = (node.history?.edges || []).map((edge: any) => edge.node)
+      const latestEntry = history
+        .filter((field: any) => field.key.startsWith("price_history_"))
+        .sort((a: any, b: any) => keyTimestamp(b.key) - keyTimestamp(a.key))[0]
+      const latestRollback = Math.max(
+        0,
+        ...history.filter((field: any) => field.key.startsWith("rollback_")).map((field: any) => keyTimestamp(field.key)),
+      )
+      const onSale = node.compareAtPrice !== null && Number(node.compareAtPrice) > Number(node.price)
+      const entry =
+        latestEntry && keyTimestamp(latestEntry.key) > latestRollback && onSale ? parseJson(latestEntry.value) : null
+
+      const pendingSchedules = (node.schedules?.edges || []).flatMap(({ node: field }: any) => {
+        const schedule: DiscountSchedule | null = parseJson(field.value)
+        return schedule && (!schedule.status || schedule.status === "scheduled")
+          ? [{ metafieldId: field.id, expiryDate: schedule.expiry_date, schedule }]
+          : []
+      })
+
+      if (!entry && pendingSchedules.length === 0) continue
+
+      const fromSchedule = pendingSchedules[0]?.schedule
+      conflicts.set(node.id, {
+        variantId: node.id,
+        currentPrice: node.price,
+        currentCompareAtPrice: node.compareAtPrice,
+        historyKey: entry ? latestEntry.key : null,
+        appliedAt: entry?.date ?? null,
+        action: entry?.action ?? null,
+        originalPrice: entry ? (entry.root_price ?? entry.price) : fromSchedule.original_price,
+        originalCompareAtPrice: entry
+          ? entry.root_price !== undefined
+            ? entry.root_compare_at_price
+            : entry.compare_at_price
+          : fromSchedule.original_compare_at_price,
+        previousPrice: entry?.price ?? null,
+        previousCompareAtPrice: entry ? (entry.compare_at_price ?? null) : null,
+        batchId: entry?.batch_id ?? null,
+        pendingSchedules: pendingSchedules.map(({ metafieldId, expiryDate }: any) => ({ metafieldId, expiryDate })),
+      })
+    }
+  }
+
+  return conflicts
+}
+
+// `changes` can be worked out from each schedule's current value
+async function updateSchedules(
+  conflict: DiscountConflict,
+  changes: Partial<DiscountSchedule> | ((schedule: DiscountSchedule) => Partial<DiscountSchedule>),
+) {
+  for (const { metafieldId } of conflict.pendingSchedules) {
+    const id = metafieldId.split("/").pop()
+    const current = await shopifyRestFetch(`metafields/${id}.json`)
+    const schedule = current.status === 200 ? parseJson(current.body.metafield.value) : null
+    if (!schedule) continue
+    await shopifyRestFetch(`metafields/${id}.json`, {
+      method: "PUT",
+      body: JSON.stringify({
+        metafield: {
+          id: Number(id),
+          type: "json",
+          value: JSON.stringify({ ...schedule, ...(typeof changes === "function" ? changes(schedule) : changes) }),
+        },
+      }),
+    })
+  }
+}
+
+// Mark a replaced discount's schedules done so the scheduler does not revert over the new prices
+export async function cancelSchedules(conflict: DiscountConflict, reason = "Replaced by a newer discount") {
+  await updateSchedules(conflict, { status: "skipped", processed_at: new Date().toISOString(), reason })
+}
+
+// Point pending schedules at the prices a later change set, so they still revert at their expiry instead
+// of being skipped as changed since the discount
+export async function rebaseSchedules(
+  conflict: DiscountConflict,
+  prices: { price: string; compare_at_price: string | null },
+) {
+  await updateSchedules(conflict, {
+    discounted_price: prices.price,
+    discounted_compare_at_price: prices.compare_at_price,
+  })
+}
+
+// Move pending schedules along with a repricing of the regular price from `oldCompareAtPrice`: the prices
+// they restore scale by the same factor, and they revert from the repriced sale prices
+export async function rescaleSchedules(
+  conflict: DiscountConflict,
+  oldCompareAtPrice: string,
+  prices: { price: string; compare_at_price: string },
+) {
+  const factor = toMinor(prices.compare_at_price) / toMinor(oldCompareAtPrice)
+  const scale = (amount: string) => formatMinor(Math.round(toMinor(amount) * factor))
+  await updateSchedules(conflict, (schedule) => ({
+    original_price: scale(schedule.original_price),
+    original_compare_at_price: schedule.original_compare_at_price && scale(schedule.original_compare_at_price),
+    discounted_price: prices.price,
+    discounted_compare_at_price: prices.compare_at_price,
+  }))
+}
+
+// Apply the first matching rule's discount to each variant, saving its previous price in a discount_history
+// metafield and scheduling the reversion when an expiry date is given. New prices are checked against the
+// store's price guardrails (lib/price-guardrails). With `dryRun` nothing is written: successful results
+// are the prices the discount would set.
+//
+// Variants that already have a discount (findDiscountConflicts) are handled by `conflictMode`; without one
+// they fail with the conflict attached. History entries of a replaced or stacked discount point at the
+// entry they follow (parent_key) and carry the chain's original prices, which rollbacks restore.
+//
+// Each real run is recorded as a discount batch (lib/discount-batches), described by `label`, so
+// /api/rollback-jobs can roll the whole run back later. Pass `batchId` to add to an existing batch.
+export async function applyDiscount(
+  store: { ownerId: string; storeId: string },
+  variantIds: string[],
+  rules: DiscountRule[],
+  expiryDate?: string | null,
+  {
+    dryRun = false,
+    conflictMode,
+    label,
+    batchId: requestedBatchId,
+  }: { dryRun?: boolean; conflictMode?: ConflictMode; label?: string; batchId?: string } = {},
+): Promise<{ batchId: string | null; results: DiscountResult[] }> {
+  const results: DiscountResult[] = []
+  const batchItems: DiscountBatchItem[] = []
+  const batchId = dryRun ? null : requestedBatchId || newDiscountBatchId()
+  if (batchId && requestedBatchId && !(await canUseDiscountBatch(store, batchId))) {
+    throw new Error("Discount batch belongs to another store")
+  }
+  const guard = await loadPriceGuard(store, variantIds)
+  const conflicts = await findDiscountConflicts(variantIds)
+
+  // Process each variant
+  for (const variantId of variantIds) {
+    try {
+      // Convert GraphQL ID to REST ID if needed
+      const numericVariantId = variantId.replace("gid://shopify/ProductVariant/", "")
+
+      // Fetch current variant data
+      const variantResponse = await shopifyRestFetch(`variants/${numericVariantId}.json`)
+
+      if (variantResponse.status !== 200) {
+        results.push({
+          variantId,
+          productTitle: "Unknown",
+          variantTitle: "Unknown",
+          success: false,
+          error: "Failed to fetch variant data",
+          originalPrice: "0.00",
+          newPrice: "0.00",
+          compareAtPrice: "0.00",
+        })
+        continue
+      }
+
+      const variant = variantResponse.body.variant
+      const currentPrice = Number.parseFloat(variant.price)
+      const currentCompareAtPrice = variant.compare_at_price ? Number.parseFloat(variant.compare_at_price) : null
+
+      // Fetch product data for title
+      const productResponse = await shopifyRestFetch(`products/${variant.product_id}.json`)
+      const productTitle = productResponse.status === 200 ? productResponse.body.product.title : "Unknown Product"
+      const tags: string[] =
+        productResponse.status === 200 ? (productResponse.body.product.tags || "").split(",").filter(Boolean) : []
+
+      const conflict = conflicts.get(`gid://shopify/ProductVariant/${numericVariantId}`)
+      if (conflict && conflictMode !== "replace" && conflictMode !== "stack") {
+        results.push({
+          variantId,
+          productTitle,
+          variantTitle: variant.title || "Default Title",
+          success: false,
+          skipped: conflictMode === "skip",
+          conflict,
+          error:
+            conflictMode === "skip"
+              ? "Skipped: already has an active discount"
+              : "Already has an active discount; choose replace, skip or stack",
+          originalPrice: currentPrice.toFixed(2),
+          newPrice: currentPrice.toFixed(2),
+          compareAtPrice: variant.compare_at_price || "0.00",
+        })
+        continue
+      }
+
+      // Replacing discounts the chain's original prices instead of the current sale price
+      const basePrice = conflict && conflictMode === "replace" ? Number.parseFloat(conflict.originalPrice) : currentPrice
+      const baseCompareAtPrice =
+        conflict && conflictMode === "replace"
+          ? conflict.originalCompareAtPrice
+            ? Number.parseFloat(conflict.originalCompareAtPrice)
+            : null
+          : currentCompareAtPrice
+      const root = conflict
+        ? { price: conflict.originalPrice, compare_at_price: conflict.originalCompareAtPrice }
+        : { price: variant.price, compare_at_price: variant.compare_at_price }
+
+      const match = findMatchingRule(rules, { price: basePrice, tags })
+      if (!match) {
+        results.push({
+          variantId,
+          productTitle,
+          variantTitle: variant.title || "Default Title",
+          success: false,
+          error: "No discount rule matched this variant",
+          originalPrice: currentPrice.toFixed(2),
+          newPrice: currentPrice.toFixed(2),
+          compareAtPrice: variant.compare_at_price || "0.00",
+        })
+        continue
+      }
+      const { discount } = match.rule
+      const fired = { ruleIndex: match.index, ruleLabel: describeRule(match.rule) }
+
+      // Apply discount logic based on product type (see lib/pricing); stacking takes it off the sale price
+      const calculated = calculateDiscountedPrices(basePrice, baseCompareAtPrice, discount, {
+        stack: conflict !== undefined && conflictMode === "stack",
+      })
+      const { newCompareAtPrice } = calculated
+      let newPrice = calculated.newPrice
+
+      // Ensure 0 < price < compare_at_price (Shopify rule)
+      if (calculated.error) {
+        results.push({
+          variantId,
+          productTitle,
+          variantTitle: variant.title || "Default Title",
+          ...fired,
+          success: false,
+          error: calculated.error,
+          originalPrice: currentPrice.toFixed(2),
+          newPrice: newPrice.toFixed(2),
+          compareAtPrice: newCompareAtPrice.toFixed(2),
+        })
+        continue
+      }
+
+      const check = guard.check(variantId, currentPrice, newPrice)
+      if (check.status === "blocked") {
+        results.push({
+          variantId,
+          productTitle,
+          variantTitle: variant.title || "Default Title",
+          ...fired,
+          success: false,
+          blocked: true,
+          error: check.reason,
+          originalPrice: currentPrice.toFixed(2),
+          newPrice: newPrice.toFixed(2),
+          compareAtPrice: newCompareAtPrice.toFixed(2),
+        })
+        continue
+      }
+      const clampedFrom = check.status === "clamped" ? newPrice.toFixed(2) : undefined
+      newPrice = check.price
+
+      if (dryRun) {
+        results.push({
+          variantId,
+          productTitle,
+          variantTitle: variant.title || "Default Title",
+          ...fired,
+          success: true,
+          originalPrice: currentPrice.toFixed(2),
+          originalCompareAtPrice: variant.compare_at_price,
+          newPrice: newPrice.toFixed(2),
+          compareAtPrice: newCompareAtPrice.toFixed(2),
+          clampedFrom,
+        })
+        continue
+      }
+
+      // Store current price in metafield before applying discount
+      const timestamp = new Date().toISOString()
+      const metafieldKey = `price_history_${Date.now()}`
+      const metafieldValue = {
+        price: variant.price,
+        compare_at_price: variant.compare_at_price,
+        date: timestamp,
+        action: `Applied ${describeDiscount(discount)} discount`,
+        discount_rule: rules.length > 1 ? fired.ruleLabel : undefined,
+        discount_mode: discount.mode,
+        discount_value: discount.value,
+        // What the discount works out to for this variant, whatever the mode
+        discount_percentage: effectiveDiscountPercent(newPrice, newCompareAtPrice),
+        clamped_from: clampedFrom,
+        expiry_date: expiryDate,
+        parent_key: conflict?.historyKey ?? undefined,
+        conflict_mode: conflict ? conflictMode : undefined,
+        root_price: root.price,
+        root_compare_at_price: root.compare_at_price,
+        batch_id: batchId,
+      }
+
+      // Create metafield to store price history
+      const metafieldData = {
+        metafield: {
+          namespace: "discount_history",
+          key: metafieldKey,
+          value: JSON.stringify(metafieldValue),
+          type: "json",
+        },
+      }
+
+      await shopifyRestFetch(`variants/${numericVariantId}/metafields.json`, {
+        method: "POST",
+        body: JSON.stringify(metafieldData),
+      })
+
+      // Update variant in Shopify
+      const updateData = {
+        variant: {
+          id: variant.id,
+          price: newPrice.toFixed(2),
+          compare_at_price: newCompareAtPrice.toFixed(2),
+        },
+      }
+
+      const updateResponse = await shopifyRestFetch(`variants/${numericVariantId}.json`, {
+        method: "PUT",
+        body: JSON.stringify(updateData),
+      })
+
+      if (updateResponse.status === 200) {
+        const discounted = { price: updateData.variant.price, compare_at_price: updateData.variant.compare_at_price }
+        if (conflict && conflictMode === "replace") {
+          await cancelSchedules(conflict)
+        } else if (conflict && conflictMode === "stack") {
+          // A stacked discount ends at its own expiry, or else when the discount beneath it was due to
+          if (expiryDate) {
+            await cancelSchedules(conflict, "Superseded by a stacked discount")
+          } else {
+            await rebaseSchedules(conflict, discounted)
+          }
+        }
+
+        // Schedule automatic reversion if expiry date is provided; it restores the chain's original prices
+        if (expiryDate) {
+          await scheduleDiscountReversion(numericVariantId, expiryDate, root, discounted)
+        }
+
+        results.push({
+          variantId,
+          productTitle,
+          variantTitle: variant.title || "Default Title",
+          ...fired,
+          success: true,
+          originalPrice: currentPrice.toFixed(2),
+          originalCompareAtPrice: variant.compare_at_price,
+          newPrice: newPrice.toFixed(2),
+          clampedFrom,
+          compareAtPrice: newCompareAtPrice.toFixed(2),
+          historyKey: metafieldKey,
+        })
+        batchItems.push({
+          variantId: `gid://shopify/ProductVariant/${numericVariantId}`,
+          productTitle,
+          variantTitle: variant.title || "Default Title",
+          historyKey: metafieldKey,
+          originalPrice: variant.price,
+          originalCompareAtPrice: variant.compare_at_price ?? null,
+          discountedPrice: updateData.variant.price,
+          discountedCompareAtPrice: updateData.variant.compare_at_price,
+        })
+      } else {
+        results.push({
+          variantId,
+          productTitle,
+          variantTitle: variant.title || "Default Title",
+          ...fired,
+          success: false,
+          error: `Shopify API error: ${updateResponse.status}`,
+          originalPrice: currentPrice.toFixed(2),
+          newPrice: newPrice.toFixed(2),
+          compareAtPrice: newCompareAtPrice.toFixed(2),
+        })
+      }
+    } catch (error) {
+      results.push({
+        variantId,
+        productTitle: "Unknown",
+        variantTitle: "Unknown",
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+        originalPrice: "0.00",
+        newPrice: "0.00",
+        compareAtPrice: "0.00",
+      })
+    }
+  }
+
+  if (batchId) {
+    const rulesLabel = rules.length > 1 ? `${rules.length} discount rules` : `${describeDiscount(rules[0].discount)} discount`
+    await recordDiscountBatch(store, batchId, label || rulesLabel, batchItems)
+  }
+
+  return { batchId: batchItems.length > 0 ? batchId : null, results }
+}
+
+// Schedule discount reversion; /api/process-scheduled-reverts restores the prices once it expires
+async function scheduleDiscountReversion(
+  variantId: string,
+  expiryDate: string,
+  originalPrices: { price: string; compare_at_price: string | null },
+  discountedPrices: { price: string; compare_at_price: string | null },
+) {
+  try {
+    // Store reversion schedule in metafield
+    const schedule: DiscountSchedule = {
+      variant_id: variantId,
+      expiry_date: expiryDate,
+      original_price: originalPrices.price,
+      original_compare_at_price: originalPrices.compare_at_price,
+      discounted_price: discountedPrices.price,
+      discounted_compare_at_price: discountedPrices.compare_at_price,
+      scheduled_at: new Date().toISOString(),
+      status: "scheduled",
+    }
+    const scheduleData = {
+      metafield: {
+        namespace: "discount_schedule",
+        key: `revert_${Date.now()}`,
+        value: JSON.stringify(schedule),
+        type: "json",
+      },
+    }
+
+    const response = await shopifyRestFetch(`variants/${variantId}/metafields.json`, {
+      method: "POST",
+      body: JSON.stringify(scheduleData),
+    })
+    if (response.status !== 201 && response.status !== 200) {
+      throw new Error(response.error || "Failed to save the reversion schedule")
+    }
+    const { storeDomain } = await getShopifyConfig()
+    await indexSchedule(storeDomain, String(response.body.metafield.id), schedule)
+  } catch (error) {
+    console.error("Error scheduling reversion:", error)
+  }
+}
+
+// Largest price change the rules would make to these variants, in percent, for approval checks. Measured
+// on a dry run, so it sees live prices, the conflict mode's base and the store's guardrails like the run.
+export async function estimateDiscountChangePercent(
+  store: { ownerId: string; storeId: string },
+  variantIds: string[],
+  rules: DiscountRule[],
+  conflictMode?: ConflictMode,
+) {
+  const { results } = await applyDiscount(store, variantIds, rules, null, { dryRun: true, conflictMode })
+  return maxPriceChangePercent(
+    results.filter((result) => result.success).map((result) => ({ from: result.originalPrice, to: result.newPrice })),
+  )
+}
@@ -0,0 +1,123 @@
+// Envelope encryption for store secrets kept in Firestore
+//
+// Each secret gets its own random data key (AES-256-GCM). The data key is then
+// wrapped with a server-held key encryption key from STORE_ENCRYPTION_KEYS.
+// Rotating keys only re-wraps data keys, the secret ciphertext stays the same.
+import crypto from "node:crypto"
+
+export interface EncryptedSecret {
+  v: 1
+  kid: string // Key encryption key that wrapped the data key
+  wrappedKey: string // Data key encrypted with the KEK (base64: iv + tag + ciphertext)
+  iv: string
+  tag: string
+  ciphertext: string
+}
+
+interface KeyRing {
+  activeKeyId: string
+  keys: Map<string, Buffer>
+}
+
+// STORE_ENCRYPTION_KEYS="v2:<base64 32 bytes>,v1:<base64 32 bytes>" - the first entry encrypts,
+// the rest are kept only so older records can still be decrypted and re-wrapped
+function loadKeyRing(): KeyRing {
+  const raw = process.env.STORE_ENCRYPTION_KEYS || ""
+  const keys = new Map<string, Buffer>()
+  let activeKeyId = ""
+
+  for (const entry of raw.split(",").map((e) => e.trim()).filter(Boolean)) {
+    const separator = entry.indexOf(":")
+    const kid = entry.slice(0, separator)
+    const key = Buffer.from(entry.slice(separator + 1), "base64")
+    if (separator <= 0 || key.length !== 32) {
+      throw new Error(`Invalid STORE_ENCRYPTION_KEYS entry "${kid || entry}": expected <id>:<base64 32-byte key>`)
+    }
+    keys.set(kid, key)
+    activeKeyId = activeKeyId || kid
+  }
+
+  if (!activeKeyId) {
+    throw new Error("STORE_ENCRYPTION_KEYS is not configured")
+  }
+
+  return { activeKeyId, keys }
+}
+
+function seal(key: Buffer, plaintext: Buffer) {
+  const iv = crypto.randomBytes(12)
+  const cipher = crypto.createCipheriv("aes-256-gcm", key, iv)
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()])
+  return { iv, tag: cipher.getAuthTag(), ciphertext }
+}
+
+function open(key: Buffer, iv: Buffer, tag: Buffer, ciphertext: Buffer) {
+  const decipher = crypto.createDecipheriv("aes-256-gcm", key, iv)
+  decipher.setAuthTag(tag)
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()])
+}
+
+function wrapDataKey(keyRing: KeyRing, dataKey: Buffer) {
+  const kek = keyRing.keys.get(keyRing.activeKeyId)!
+  const { iv, tag, ciphertext } = seal(kek, dataKey)
+  return Buffer.concat([iv, tag, ciphertext]).toString("base64")
+}
+
+function unwrapDataKey(keyRing: KeyRing, secret: EncryptedSecret) {
+  const kek = keyRing.keys.get(secret.kid)
+  if (!kek) {
+    throw new Error(`Encryption key "${secret.kid}" is no longer configured`)
+  }
+  const wrapped = Buffer.from(secret.wrappedKey, "base64")
+  return open(kek, wrapped.subarray(0, 12), wrapped.subarray(12, 28), wrapped.subarray(28))
+}
+
+export function isEncryptedSecret(value: unknown): value is EncryptedSecret {
+  return !!value && typeof value === "object" && (value as EncryptedSecret).v === 1 && "wrappedKey" in value
+}
+
+export function encryptSecret(plaintext: string): EncryptedSecret {
+  const keyRing = loadKeyRing()
+  const dataKey = crypto.randomBytes(32)
+  const { iv, tag, ciphertext } = seal(dataKey, Buffer.from(plaintext, "utf8"))
+
+  return {
+    v: 1,
+    kid: keyRing.activeKeyId,
+    wrappedKey: wrapDataKey(keyRing, dataKey),
+    iv: iv.toString("base64"),
+    tag: tag.toString("base64"),
+    ciphertext: ciphertext.toString("base64"),
+  }
+}
+
+// Accepts legacy plaintext values so stores saved before encryption keep working
+export function decryptSecret(value: EncryptedSecret | string | null | undefined): string {
+  if (!value) return ""
+  if (typeof value === "string") return value
+
+  const dataKey = unwrapDataKey(loadKeyRing(), value)
+  return open(
+    dataKey,
+    Buffer.from(value.iv, "base64"),
+    Buffer.from(value.tag, "base64"),
+    Buffer.from(value.ciphertext, "base64"),
+  ).toString("utf8")
+}
+
+// True for plaintext values and secrets wrapped with a retired key
+export function needsRotation(value: EncryptedSecret | string | null | undefined) {
+  if (!value) return false
+  if (typeof value === "string") return true
+  return value.kid !== loadKeyRing().activeKeyId
+}
+
+// Re-wrap the data key with the active key (or encrypt a legacy plaintext value)
+export function rotateSecret(value: EncryptedSecret | string): EncryptedSecret {
+  if (typeof value === "string") {
+    return encryptSecret(value)
+  }
+
+  const keyRing = loadKeyRing()
+  return { ...value, kid: keyRing.activeKeyId, wrappedKey: wrapDataKey(keyRing, unwrapDataKey(keyRing, value)) }
+}
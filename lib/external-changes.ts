@@ -0,0 +1,93 @@
+// Changes made to a store outside this app (Shopify admin, other apps), per store.
+//
+// Recorded when a webhook or a product cache sync sees data differ from the cached snapshot in a way
+// the app itself did not cause (see lib/variant-writes). The client merges them into UniversalHistory
+// as "external change" entries, so rollbacks can warn before overwriting someone else's edit.
+import { collection, doc, getDocs, limit, orderBy, query, where, writeBatch } from "firebase/firestore"
+import { db } from "@/db/db"
+import { isOwnVariantWrite, samePrice } from "@/lib/variant-writes"
+
+export type ExternalChangeKind = "price_change" | "product_delete" | "collection_update" | "app_uninstalled"
+
+export interface ExternalChange {
+  id: string
+  kind: ExternalChangeKind
+  source: "webhook" | "sync"
+  detectedAt: string
+  description: string
+  productId?: string
+  productTitle?: string
+  variantId?: string
+  variantTitle?: string
+  sku?: string
+  collectionId?: string
+  collectionTitle?: string
+  oldValues?: Record<string, any>
+  newValues?: Record<string, any>
+}
+
+export type NewExternalChange = Omit<ExternalChange, "id" | "detectedAt">
+
+const LIST_WINDOW_DAYS = 30
+const LIST_LIMIT = 500
+
+function changesRef(storeDomain: string) {
+  return collection(db, "productCache", storeDomain, "externalChanges")
+}
+
+export async function recordExternalChanges(storeDomain: string, changes: NewExternalChange[]) {
+  if (changes.length === 0) return
+
+  const batch = writeBatch(db)
+  const detectedAt = new Date().toISOString()
+  for (const change of changes) {
+    // Firestore rejects undefined fields
+    batch.set(doc(changesRef(storeDomain)), JSON.parse(JSON.stringify({ ...change, detectedAt })))
+  }
+  await batch.commit()
+
+  console.log(`Recorded ${changes.length} external changes for ${storeDomain}`)
+}
+
+// Most recent external changes for a store, newest first
+export async function listExternalChanges(storeDomain: string): Promise<ExternalChange[]> {
+  const since = new Date(Date.now() - LIST_WINDOW_DAYS * 24 * 60 * 60 * 1000).toISOString()
+  const snap = await getDocs(
+    query(changesRef(storeDomain), where("detectedAt", ">=", since), orderBy("detectedAt", "desc"), limit(LIST_LIMIT)),
+  )
+  return snap.docs.map((changeDoc) => ({ id: changeDoc.id, ...(changeDoc.data() as Omit<ExternalChange, "id">) }))
+}
+
+// Variant price changes between two cached versions of a product that this app did not make
+export async function diffVariantPrices(
+  storeDomain: string,
+  previous: any,
+  next: any,
+  source: ExternalChange["source"],
+): Promise<NewExternalChange[]> {
+  const previousVariants = new Map<string, any>(
+    (previous.variants?.edges || []).map((edge: any) => [edge.node.id, edge.node]),
+  )
+
+  const changes: NewExternalChange[] = []
+  for (const { node: variant } of next.variants?.edges || []) {
+    const before = previousVariants.get(variant.id)
+    if (!before) continue
+    if (samePrice(before.price, variant.price) && samePrice(before.compareAtPrice, variant.compareAtPrice)) continue
+    if (await isOwnVariantWrite(storeDomain, variant.id, variant)) continue
+
+    changes.push({
+      kind: "price_change",
+      source,
+      description: `Price changed outside the app: ${next.title}${variant.title !== "Default Title" ? ` - ${variant.title}` : ""}`,
+      productId: next.id,
+      productTitle: next.title,
+      variantId: variant.id,
+      variantTitle: variant.title,
+      sku: variant.sku || "",
+      oldValues: { price: before.price, compareAtPrice: before.compareAtPrice },
+      newValues: { price: variant.price, compareAtPrice: variant.compareAtPrice },
+    })
+  }
+  return changes
+}
@@ -0,0 +1,95 @@
+// Firebase ID token verification using Google's published signing keys.
+// Uses WebCrypto only, so it runs in both the edge middleware and Node route handlers.
+
+const FIREBASE_PROJECT_ID = process.env.FIREBASE_PROJECT_ID || "rank-optim"
+const JWKS_URL = "https://www.googleapis.com/service_accounts/v1/jwk/securetoken@system.gserviceaccount.com"
+
+export interface FirebaseUser {
+  uid: string
+  email?: string
+}
+
+let cachedKeys: { keys: Map<string, CryptoKey>; expiresAt: number } | null = null
+
+async function getSigningKeys(): Promise<Map<string, CryptoKey>> {
+  if (cachedKeys && cachedKeys.expiresAt > Date.now()) {
+    return cachedKeys.keys
+  }
+
+  const response = await fetch(JWKS_URL)
+  if (!response.ok) {
+    throw new Error(`Failed to fetch Firebase signing keys: HTTP ${response.status}`)
+  }
+
+  const { keys: jwks } = (await response.json()) as { keys: Array<JsonWebKey & { kid: string }> }
+  const keys = new Map<string, CryptoKey>()
+  for (const jwk of jwks) {
+    keys.set(
+      jwk.kid,
+      await crypto.subtle.importKey("jwk", jwk, { name: "RSASSA-PKCS1-v1_5", hash: "SHA-256" }, false, ["verify"]),
+    )
+  }
+
+  // Google rotates these keys; honour the cache lifetime it advertises
+  const maxAge = Number(/max-age=(\d+)/.exec(response.headers.get("cache-control") || "")?.[1] || 3600)
+  cachedKeys = { keys, expiresAt: Date.now() + maxAge * 1000 }
+  return keys
+}
+
+function base64UrlDecode(segment: string) {
+  const base64 = segment.replace(/-/g, "+").replace(/_/g, "/").padEnd(Math.ceil(segment.length / 4) * 4, "=")
+  return Uint8Array.from(atob(base64), (c) => c.charCodeAt(0))
+}
+
+function decodeSegment(segment: string) {
+  return JSON.parse(new TextDecoder().decode(base64UrlDecode(segment)))
+}
+
+// Verify signature and claims as described in the Firebase "verify ID tokens" guide
+export async function verifyFirebaseIdToken(token: string): Promise<FirebaseUser> {
+  const [headerSegment, payloadSegment, signatureSegment] = token.split(".")
+  if (!headerSegment || !payloadSegment || !signatureSegment) {
+    throw new Error("Malformed ID token")
+  }
+
+  const header = decodeSegment(headerSegment)
+  const payload = decodeSegment(payloadSegment)
+
+  if (header.alg !== "RS256") {
+    throw new Error("Unexpected token algorithm")
+  }
+
+  const key = (await getSigningKeys()).get(header.kid)
+  if (!key) {
+    throw new Error("Unknown token signing key")
+  }
+
+  const valid = await crypto.subtle.verify(
+    "RSASSA-PKCS1-v1_5",
+    key,
+    base64UrlDecode(signatureSegment),
+    new TextEncoder().encode(`${headerSegment}.${payloadSegment}`),
+  )
+  if (!valid) {
+    throw new Error("Invalid token signature")
+  }
+
+  const now = Math.floor(Date.now() / 1000)
+  if (payload.aud !== FIREBASE_PROJECT_ID || payload.iss !== `https://securetoken.google.com/${FIREBASE_PROJECT_ID}`) {
+    throw new Error("Token was not issued for this project")
+  }
+  if (typeof payload.exp !== "number" || payload.exp <= now) {
+    throw new Error("Token has expired")
+  }
+  if (typeof payload.iat !== "number" || payload.iat > now + 60) {
+    throw new Error("Token issued in the future")
+  }
+  if (typeof payload.sub !== "string" || !payload.sub) {
+    throw new Error("Token has no subject")
+  }
+
+  return { uid: payload.sub, email: payload.email }
+}
+
+// Set by middleware.ts after verification; any client-supplied value is stripped first
+export const VERIFIED_UID_HEADER = "x-verified-uid"
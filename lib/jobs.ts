@@ -0,0 +1,643 @@
+// Durable server-side jobs for long bulk operations.
+//
+// Bulk price updates, discounts and image uploads can run as a job instead of a browser loop or one long
+// request. jobs/{id} holds the job (type, the params shared by all items, status, progress counters) and
+// jobs/{id}/items/{itemId} one row per variant or product: its input, status, attempts and result. Jobs
+// are worked through in leased chunks by the scheduler (/api/process-jobs) and by the Jobs page while it is
+// open, so closing the tab that started one does not stop it. Each item is recorded, and counted, as soon as
+// it is done, and only while the chunk still holds the lease. A job can be paused, resumed or cancelled
+// between chunks, and its failed items retried.
+import {
+  collection,
+  deleteField,
+  doc,
+  getDoc,
+  getDocs,
+  increment,
+  limit,
+  query,
+  runTransaction,
+  setDoc,
+  updateDoc,
+  where,
+  writeBatch,
+} from "firebase/firestore"
+import { db } from "@/db/db"
+import type { StoreAuth } from "@/lib/api-auth"
+import { priceUpdateInput, rescaleRepricedSchedules, type PlannedPriceChange } from "@/lib/bulk-price-update"
+import { applyDiscount, findDiscountConflicts, type DiscountResult } from "@/lib/discounts"
+import type { Permission } from "@/lib/roles"
+import { addProductImages, getVariantPrices, mutationError, updateProductVariant } from "@/lib/shopify"
+import { samePrice } from "@/lib/variant-writes"
+
+export type JobType = "bulk_price_update" | "discount" | "image_upload"
+
+export type JobStatus = "queued" | "running" | "paused" | "completed" | "cancelled"
+
+export type JobItemStatus = "pending" | "succeeded" | "failed" | "skipped" | "cancelled"
+
+export type JobAction = "pause" | "resume" | "cancel" | "retry"
+
+export const JOB_ACTIONS: JobAction[] = ["pause", "resume", "cancel", "retry"]
+
+export interface JobItem {
+  id: string // Last segment of the variant or product GID
+  label: string
+  input: any // What the job type needs for this item, e.g. a RequestedVariant
+  status: JobItemStatus
+  attempts: number
+  result?: Record<string, any>
+  error?: string
+  processedAt?: string
+}
+
+export interface Job {
+  id: string
+  teamId: string
+  ownerId: string
+  storeId: string
+  type: JobType
+  label: string
+  params: Record<string, any> // Shared by every item, e.g. the price rule
+  status: JobStatus
+  total: number
+  processed: number // succeeded + failed + skipped
+  succeeded: number
+  failed: number
+  skipped: number
+  cancelled: number
+  createdBy: { uid: string; email: string | null }
+  createdAt: string
+  updatedAt: string
+  startedAt?: string
+  finishedAt?: string
+  leaseUntil?: string | null // A chunk is running until then
+  leaseId?: string | null // The chunk holding the lease
+}
+
+type Store = Pick<StoreAuth, "ownerId" | "storeId">
+
+interface JobHandler {
+  permission: Permission // Needed to run or control jobs of this type
+  chunkSize: number // Items per chunk, kept well inside a request timeout
+  // Process a chunk of pending items, passing each to `record` with its new status as soon as it is done.
+  // `record` throws once another worker has taken the job over, which stops the chunk.
+  run: (store: Store, job: Job, items: JobItem[], record: (item: JobItem) => Promise<void>) => Promise<void>
+}
+
+const LEASE_MS = 2 * 60 * 1000
+// Firestore allows 500 writes per batch
+const WRITE_BATCH_SIZE = 400
+const RUNNABLE_STATUSES: JobStatus[] = ["queued", "running"]
+
+function failedItem(item: JobItem, error: unknown): JobItem {
+  return { ...item, status: "failed", error: error instanceof Error ? error.message : String(error) }
+}
+
+// Write one planned change; `written` collects the changes that went through
+async function writePriceChange(
+  item: JobItem,
+  change: PlannedPriceChange,
+  written: PlannedPriceChange[],
+): Promise<JobItem> {
+  try {
+    const response = await updateProductVariant(priceUpdateInput(change))
+    const error = mutationError(response, "productVariantUpdate")
+    if (error) {
+      return failedItem(item, error)
+    }
+    const updated = response.body.data.productVariantUpdate.productVariant
+    written.push(change)
+    return {
+      ...item,
+      status: "succeeded",
+      error: undefined,
+      result: {
+        oldPrice: change.currentPrice,
+        newPrice: updated.price,
+        oldCompareAtPrice: change.currentCompareAtPrice,
+        newCompareAtPrice: updated.compareAtPrice,
+        clampedFrom: change.clampedFrom,
+      },
+    }
+  } catch (error) {
+    return failedItem(item, error)
+  }
+}
+
+// Items are the changes planned when the job was queued (planBulkPriceUpdate), so every write sets fixed
+// prices. A variant is only written while its live prices are still the planned current ones: an item run
+// again after a chunk died, or by a worker that took over its lease, finds its new prices already set.
+const bulkPriceUpdateJob: JobHandler = {
+  permission: "prices:edit",
+  chunkSize: 50,
+  async run(store, job, items, record) {
+    const live = await getVariantPrices(
+      items.flatMap((item) => (item.input.status === "update" ? [item.input.variantId as string] : [])),
+    )
+    const written: PlannedPriceChange[] = []
+    try {
+      for (const item of items) {
+        const change = item.input as PlannedPriceChange
+        if (!change.status) {
+          await record(failedItem(item, "Queued without planned prices; run the price update again"))
+        } else if (change.status === "unchanged") {
+          await record({ ...item, status: "skipped", error: "Already at the new price" })
+        } else if (change.status === "blocked") {
+          await record({ ...item, status: "skipped", error: `Blocked by price guardrails: ${change.error}` })
+        } else if (change.status === "invalid") {
+          await record(failedItem(item, change.error || "Invalid price"))
+        } else {
+          const variant = live.get(change.variantId)
+          if (!variant) {
+            await record(failedItem(item, "Variant not found in Shopify"))
+          } else if (
+            samePrice(variant.price, change.newPrice) &&
+            samePrice(variant.compareAtPrice, change.newCompareAtPrice)
+          ) {
+            await record({ ...item, status: "skipped", error: "Already at the new price" })
+          } else if (
+            !samePrice(variant.price, change.currentPrice) ||
+            !samePrice(variant.compareAtPrice, change.currentCompareAtPrice)
+          ) {
+            await record({
+              ...item,
+              status: "skipped",
+              error: `Price changed since the job was queued (now ${variant.price}); left as is`,
+            })
+          } else {
+            await record(await writePriceChange(item, change, written))
+          }
+        }
+      }
+    } finally {
+      await rescaleRepricedSchedules(job.params.rule, written)
+    }
+  },
+}
+
+// All chunks record into the discount batch reserved when the job was queued, so it rolls back as one run.
+// Variants are discounted one at a time against their live prices; one whose active discount already
+// carries the job's batch was discounted by a chunk that died before recording it, and is not discounted again.
+const discountJob: JobHandler = {
+  permission: "prices:edit",
+  chunkSize: 25,
+  async run(store, job, items, record) {
+    const { rules, expiryDate, conflictMode, batchId } = job.params
+    if (expiryDate && new Date(expiryDate) <= new Date()) {
+      for (const item of items) {
+        await record(failedItem(item, "Expiry date has passed"))
+      }
+      return
+    }
+
+    const conflicts = await findDiscountConflicts(items.map((item) => item.input.variantId))
+    for (const item of items) {
+      const variantId: string = item.input.variantId
+      const applied = conflicts.get(`gid://shopify/ProductVariant/${variantId.split("/").pop()}`)
+      if (applied && applied.batchId === batchId) {
+        await record({
+          ...item,
+          status: "succeeded",
+          error: undefined,
+          result: {
+            originalPrice: applied.previousPrice ?? applied.originalPrice,
+            newPrice: applied.currentPrice,
+            compareAtPrice: applied.currentCompareAtPrice,
+            historyKey: applied.historyKey,
+          },
+        })
+        continue
+      }
+
+      let result: DiscountResult | undefined
+      try {
+        const run = await applyDiscount(store, [variantId], rules, expiryDate, {
+          conflictMode,
+          batchId,
+          label: job.label,
+        })
+        result = run.results[0]
+      } catch (error) {
+        await record(failedItem(item, error))
+        continue
+      }
+      if (!result) {
+        await record(failedItem(item, "No result for this variant"))
+        continue
+      }
+      const labelled = { ...item, label: `${result.productTitle} - ${result.variantTitle}` }
+      if (result.success) {
+        await record({
+          ...labelled,
+          status: "succeeded",
+          error: undefined,
+          result: {
+            originalPrice: result.originalPrice,
+            newPrice: result.newPrice,
+            compareAtPrice: result.compareAtPrice,
+            ruleLabel: result.ruleLabel,
+            clampedFrom: result.clampedFrom,
+            historyKey: result.historyKey,
+          },
+        })
+      } else if (result.skipped || result.blocked) {
+        // Already discounted (conflict mode "skip") or refused by guardrails; retrying would not change that
+        await record({ ...labelled, status: "skipped", error: result.error })
+      } else {
+        await record(failedItem(labelled, result.error || "Failed to apply discount"))
+      }
+    }
+  },
+}
+
+// Items are products; their images were staged in Shopify by the browser, which is the only place the
+// files exist. Staged files are kept for a limited time, so these jobs should not stay paused for long.
+const imageUploadJob: JobHandler = {
+  permission: "products:edit",
+  chunkSize: 10,
+  async run(store, job, items, record) {
+    for (const item of items) {
+      const { productId, images } = item.input as {
+        productId: string
+        images: Array<{ filename: string; resourceUrl: string }>
+      }
+      let error: string | null
+      try {
+        error = mutationError(
+          await addProductImages(
+            productId,
+            images.map((image) => ({ url: image.resourceUrl, altText: image.filename.replace(/\.[^/.]+$/, "") })),
+          ),
+          "productCreateMedia",
+        )
+      } catch (caught) {
+        error = caught instanceof Error ? caught.message : String(caught)
+      }
+      await record(
+        error
+          ? failedItem(item, error)
+          : { ...item, status: "succeeded", error: undefined, result: { uploaded: images.length } },
+      )
+    }
+  },
+}
+
+const JOB_HANDLERS: Record<JobType, JobHandler> = {
+  bulk_price_update: bulkPriceUpdateJob,
+  discount: discountJob,
+  image_upload: imageUploadJob,
+}
+
+export function jobPermission(type: JobType) {
+  return JOB_HANDLERS[type].permission
+}
+
+function teamIdFor(store: Store) {
+  return `${store.ownerId}_${store.storeId}`
+}
+
+function jobRef(jobId: string) {
+  return doc(db, "jobs", jobId)
+}
+
+function itemsRef(jobId: string) {
+  return collection(db, "jobs", jobId, "items")
+}
+
+async function getUserEmail(uid: string) {
+  const snap = await getDoc(doc(db, "users", uid))
+  return snap.exists() ? (snap.data().email as string) || null : null
+}
+
+async function writeItems(jobId: string, items: JobItem[]) {
+  for (let i = 0; i < items.length; i += WRITE_BATCH_SIZE) {
+    const batch = writeBatch(db)
+    for (const item of items.slice(i, i + WRITE_BATCH_SIZE)) {
+      // Firestore rejects undefined fields
+      batch.set(doc(itemsRef(jobId), item.id), JSON.parse(JSON.stringify(item)))
+    }
+    await batch.commit()
+  }
+}
+
+/**
+ * Queue a job of `type` over `items` (one per variant or product; duplicates are dropped).
+ * Items are written before the job itself, so no worker sees a job without its items.
+ */
+export async function enqueueJob(
+  auth: StoreAuth,
+  type: JobType,
+  label: string,
+  params: Record<string, any>,
+  items: Array<{ id: string; label: string; input: any }>,
+): Promise<Job> {
+  const unique = new Map<string, JobItem>()
+  for (const item of items) {
+    const id = item.id.split("/").pop() as string
+    unique.set(id, { ...item, id, status: "pending", attempts: 0 })
+  }
+
+  const ref = doc(collection(db, "jobs"))
+  await writeItems(ref.id, Array.from(unique.values()))
+
+  const now = new Date().toISOString()
+  const job: Omit<Job, "id"> = JSON.parse(
+    JSON.stringify({
+      teamId: teamIdFor(auth),
+      ownerId: auth.ownerId,
+      storeId: auth.storeId,
+      type,
+      label,
+      params,
+      status: "queued",
+      total: unique.size,
+      processed: 0,
+      succeeded: 0,
+      failed: 0,
+      skipped: 0,
+      cancelled: 0,
+      createdBy: { uid: auth.uid, email: await getUserEmail(auth.uid) },
+      createdAt: now,
+      updatedAt: now,
+      leaseUntil: null,
+    }),
+  )
+  await setDoc(ref, job)
+
+  console.log(`Job ${ref.id} queued (${type}) for ${label}: ${job.total} items`)
+  return { id: ref.id, ...job }
+}
+
+export async function listJobs(store: Store): Promise<Job[]> {
+  const snap = await getDocs(query(collection(db, "jobs"), where("teamId", "==", teamIdFor(store))))
+  return snap.docs
+    .map((jobDoc) => ({ id: jobDoc.id, ...(jobDoc.data() as Omit<Job, "id">) }))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+}
+
+export async function getJob(store: Store, jobId: string) {
+  const snap = await getDoc(jobRef(jobId))
+  if (!snap.exists() || snap.data().teamId !== teamIdFor(store)) {
+    return null
+  }
+  return { id: snap.id, ...(snap.data() as Omit<Job, "id">) }
+}
+
+export async function getJobItems(jobId: string): Promise<JobItem[]> {
+  const snap = await getDocs(itemsRef(jobId))
+  return snap.docs.map((itemDoc) => itemDoc.data() as JobItem)
+}
+
+// Mark a cancelled job's remaining items cancelled
+async function cancelPendingItems(job: Job): Promise<Job> {
+  const pending = (await getDocs(query(itemsRef(job.id), where("status", "==", "pending")))).docs.map(
+    (itemDoc) => itemDoc.data() as JobItem,
+  )
+  if (pending.length === 0) {
+    return job
+  }
+  await writeItems(job.id, pending.map((item) => ({ ...item, status: "cancelled" })))
+  await updateDoc(jobRef(job.id), { cancelled: increment(pending.length), updatedAt: new Date().toISOString() })
+  return { ...job, cancelled: job.cancelled + pending.length }
+}
+
+// End the chunk's lease with `update`. Returns the updated job, or null when another worker has taken the job
+// over since; its own chunk settles the job then.
+async function releaseLease(
+  jobId: string,
+  leaseId: string,
+  update: (current: Job) => Partial<Job>,
+): Promise<Job | null> {
+  return runTransaction(db, async (transaction) => {
+    const snap = await transaction.get(jobRef(jobId))
+    const current = { id: snap.id, ...(snap.data() as Omit<Job, "id">) }
+    if (current.leaseId !== leaseId) {
+      return null
+    }
+    const released = { ...update(current), leaseUntil: null, leaseId: null }
+    transaction.update(jobRef(jobId), released)
+    return { ...current, ...released }
+  })
+}
+
+/**
+ * Process the job's next chunk of pending items in the store in scope.
+ * Returns the job with updated progress (unchanged while another chunk holds the lease or the job is not
+ * queued or running), or null when it does not exist in this store.
+ */
+export async function runJobChunk(store: Store, jobId: string): Promise<Job | null> {
+  const now = new Date()
+  const leased = await runTransaction(db, async (transaction) => {
+    const snap = await transaction.get(jobRef(jobId))
+    if (!snap.exists() || snap.data().teamId !== teamIdFor(store)) {
+      return null
+    }
+    const job = { id: snap.id, ...(snap.data() as Omit<Job, "id">) }
+    if (!RUNNABLE_STATUSES.includes(job.status) || (job.leaseUntil && new Date(job.leaseUntil) > now)) {
+      return { job, leaseId: null }
+    }
+    const leaseId = doc(collection(db, "jobs")).id
+    transaction.update(jobRef(jobId), {
+      status: "running",
+      leaseUntil: new Date(now.getTime() + LEASE_MS).toISOString(),
+      leaseId,
+      ...(job.startedAt ? {} : { startedAt: now.toISOString() }),
+    })
+    return { job: { ...job, status: "running" as JobStatus }, leaseId }
+  })
+  if (!leased?.leaseId) {
+    return leased?.job ?? null
+  }
+
+  const { job } = leased
+  const leaseId = leased.leaseId
+  const handler = JOB_HANDLERS[job.type]
+  const pending = (
+    await getDocs(query(itemsRef(jobId), where("status", "==", "pending"), limit(handler.chunkSize)))
+  ).docs.map((itemDoc) => itemDoc.data() as JobItem)
+
+  // Write the item and count it in one go, renewing the lease, while this chunk still holds it
+  const record = async (item: JobItem) => {
+    const done = { ...item, attempts: item.attempts + 1, processedAt: new Date().toISOString() }
+    const held = await runTransaction(db, async (transaction) => {
+      const snap = await transaction.get(jobRef(jobId))
+      if (snap.data()?.leaseId !== leaseId) {
+        return false
+      }
+      // Firestore rejects undefined fields
+      transaction.set(doc(itemsRef(jobId), done.id), JSON.parse(JSON.stringify(done)))
+      transaction.update(jobRef(jobId), {
+        processed: increment(1),
+        [done.status as "succeeded" | "failed" | "skipped"]: increment(1),
+        leaseUntil: new Date(Date.now() + LEASE_MS).toISOString(),
+        updatedAt: new Date().toISOString(),
+      })
+      return true
+    })
+    if (!held) {
+      throw new Error(`Job ${jobId} was taken over by another worker`)
+    }
+  }
+
+  try {
+    if (pending.length > 0) {
+      await handler.run(store, job, pending, record)
+    }
+  } catch (error) {
+    await releaseLease(jobId, leaseId, () => ({}))
+    throw error
+  }
+
+  const finished = pending.length < handler.chunkSize
+  const updated = await releaseLease(jobId, leaseId, (current) => {
+    // Paused or cancelled while the chunk ran: that wins over running on
+    const stopped = current.status === "paused" || current.status === "cancelled"
+    const status: JobStatus = stopped ? current.status : finished ? "completed" : "running"
+    return {
+      status,
+      updatedAt: new Date().toISOString(),
+      ...(status === "completed" ? { finishedAt: new Date().toISOString() } : {}),
+    }
+  })
+  if (!updated) {
+    return getJob(store, jobId)
+  }
+
+  if (updated.status === "cancelled") {
+    return cancelPendingItems(updated)
+  }
+  if (updated.status === "completed") {
+    console.log(
+      `Job ${jobId} completed: ${updated.succeeded} succeeded, ${updated.skipped} skipped, ${updated.failed} failed`,
+    )
+  }
+  return updated
+}
+
+/**
+ * Pause, resume or cancel a job, or retry its failed items (all, or those in `itemIds`).
+ * Returns the updated job and an error message when the job's status does not allow the action,
+ * or null when the job does not exist in this store.
+ */
+export async function controlJob(
+  store: Store,
+  jobId: string,
+  action: JobAction,
+  itemIds?: string[],
+): Promise<{ job: Job; error: string | null } | null> {
+  if (action === "retry") {
+    return retryFailedItems(store, jobId, itemIds)
+  }
+
+  const result = await runTransaction(db, async (transaction) => {
+    const snap = await transaction.get(jobRef(jobId))
+    if (!snap.exists() || snap.data().teamId !== teamIdFor(store)) {
+      return null
+    }
+    const job = { id: snap.id, ...(snap.data() as Omit<Job, "id">) }
+    const allowed: Record<Exclude<JobAction, "retry">, JobStatus[]> = {
+      pause: ["queued", "running"],
+      resume: ["paused"],
+      cancel: ["queued", "running", "paused"],
+    }
+    if (!allowed[action].includes(job.status)) {
+      return { job, error: `A ${job.status} job cannot be ${action === "cancel" ? "cancelled" : `${action}d`}` }
+    }
+    const status: JobStatus = action === "pause" ? "paused" : action === "resume" ? "queued" : "cancelled"
+    const update = {
+      status,
+      updatedAt: new Date().toISOString(),
+      ...(status === "cancelled" ? { finishedAt: new Date().toISOString() } : {}),
+    }
+    transaction.update(jobRef(jobId), update)
+    return { job: { ...job, ...update }, error: null }
+  })
+
+  // A running chunk sweeps the remaining items itself when it ends
+  if (result && !result.error && result.job.status === "cancelled") {
+    const leasedNow = result.job.leaseUntil && new Date(result.job.leaseUntil) > new Date()
+    if (!leasedNow) {
+      return { job: await cancelPendingItems(result.job), error: null }
+    }
+  }
+  if (result && !result.error) {
+    console.log(`Job ${jobId}: ${action}`)
+  }
+  return result
+}
+
+// Failed items go back to pending; a finished job is queued again, a paused one stays paused
+async function retryFailedItems(store: Store, jobId: string, itemIds?: string[]) {
+  const job = await getJob(store, jobId)
+  if (!job) {
+    return null
+  }
+  if (RUNNABLE_STATUSES.includes(job.status)) {
+    return { job, error: "Pause the job or wait for it to finish before retrying items" }
+  }
+
+  const failed = (await getDocs(query(itemsRef(jobId), where("status", "==", "failed")))).docs
+    .map((itemDoc) => itemDoc.data() as JobItem)
+    .filter((item) => !itemIds || itemIds.includes(item.id))
+  if (failed.length === 0) {
+    return { job, error: "No failed items to retry" }
+  }
+  await writeItems(jobId, failed.map((item) => ({ ...item, status: "pending", error: undefined })))
+
+  const updated = await runTransaction(db, async (transaction) => {
+    const snap = await transaction.get(jobRef(jobId))
+    const current = { id: snap.id, ...(snap.data() as Omit<Job, "id">) }
+    const update = {
+      status: (current.status === "paused" ? "paused" : "queued") as JobStatus,
+      processed: current.processed - failed.length,
+      failed: current.failed - failed.length,
+      updatedAt: new Date().toISOString(),
+    }
+    transaction.update(jobRef(jobId), { ...update, finishedAt: deleteField() })
+    return { ...current, ...update, finishedAt: undefined }
+  })
+
+  console.log(`Job ${jobId}: retrying ${failed.length} failed items`)
+  return { job: updated, error: null }
+}
+
+/**
+ * Work through the store's queued and running jobs, oldest first, until `deadline` (epoch ms).
+ * Jobs whose type `canRun` refuses are left alone, as are jobs another worker holds. Returns the jobs it advanced.
+ */
+export async function processStoreJobs(
+  store: Store,
+  deadline: number,
+  canRun: (type: JobType) => boolean = () => true,
+): Promise<Job[]> {
+  const runnable = (await listJobs(store))
+    .filter((job) => RUNNABLE_STATUSES.includes(job.status) && canRun(job.type))
+    .reverse()
+  const advanced: Job[] = []
+  for (const job of runnable) {
+    let current = job
+    let progressed = false
+    try {
+      while (RUNNABLE_STATUSES.includes(current.status) && Date.now() < deadline) {
+        const next = await runJobChunk(store, current.id)
+        // Gone, or held by another chunk
+        if (!next || (RUNNABLE_STATUSES.includes(next.status) && next.processed === current.processed)) {
+          break
+        }
+        current = next
+        progressed = true
+      }
+    } catch (error) {
+      // The chunk's items stay pending for the next run; other jobs go ahead
+      console.error(`Job ${job.id} chunk failed:`, error)
+    }
+    if (progressed) {
+      advanced.push(current)
+    }
+    if (Date.now() >= deadline) {
+      break
+    }
+  }
+  return advanced
+}
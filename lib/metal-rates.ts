@@ -0,0 +1,59 @@
+// Per-gram metal rates for repricing jewellery (metal_rate bulk price rules, lib/pricing).
+//
+// Rates come from a provider; the repricing screen shows them and lets the user override any rate
+// before the run. A live feed is added by implementing MetalRateProvider and listing it in PROVIDERS;
+// METAL_RATE_PROVIDER picks the default. The fixture provider reads lib/fixtures/metal-rates.json, so
+// the flow works without a feed.
+import fixture from "@/lib/fixtures/metal-rates.json"
+import type { MetalRates } from "@/lib/pricing"
+
+export interface MetalRateQuote {
+  provider: string
+  currency: string
+  asOf: string
+  rates: MetalRates // Keyed by normalized metal type (normalizeMetalType in lib/shopify)
+}
+
+export interface MetalRateProvider {
+  id: string
+  label: string
+  fetchRates(): Promise<MetalRateQuote>
+}
+
+const fixtureProvider: MetalRateProvider = {
+  id: "fixture",
+  label: "Local fixture",
+  async fetchRates() {
+    return { provider: "fixture", currency: fixture.currency, asOf: fixture.asOf, rates: { ...fixture.rates } }
+  },
+}
+
+const PROVIDERS: MetalRateProvider[] = [fixtureProvider]
+
+export function listMetalRateProviders() {
+  return PROVIDERS.map(({ id, label }) => ({ id, label }))
+}
+
+// Rates from the named provider, else the configured default; null for an unknown provider
+export async function getMetalRates(providerId?: string | null): Promise<MetalRateQuote | null> {
+  const id = providerId || process.env.METAL_RATE_PROVIDER || fixtureProvider.id
+  const provider = PROVIDERS.find((candidate) => candidate.id === id)
+  return provider ? provider.fetchRates() : null
+}
+
+// Returns an error message or null
+export function validateMetalRates(rates: unknown) {
+  if (!rates || typeof rates !== "object" || Array.isArray(rates)) {
+    return "Enter at least one metal rate"
+  }
+  const entries = Object.entries(rates)
+  if (entries.length === 0) {
+    return "Enter at least one metal rate"
+  }
+  for (const [metal, rate] of entries) {
+    if (typeof rate !== "number" || !Number.isFinite(rate) || rate <= 0) {
+      return `Rate for ${metal} must be greater than 0`
+    }
+  }
+  return null
+}
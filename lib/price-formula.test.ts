@@ -0,0 +1,141 @@
+import { describe, expect, it } from "vitest"
+import { compileFormula, evaluateFormula, formulaMetafields, type FormulaInputs } from "@/lib/price-formula"
+
+const INPUTS: FormulaInputs = {
+  price: 100,
+  compareAtPrice: 120,
+  cost: 40,
+  inventory: 5,
+  tags: ["Gold", "new"],
+  metafields: { "custom.rate": 1.5, "pricing.markup": 2, "custom.unset": null },
+}
+
+function run(source: string, inputs: FormulaInputs = INPUTS) {
+  const compiled = compileFormula(source)
+  if (compiled.error !== null) return { value: null, error: compiled.error }
+  return evaluateFormula(compiled.formula, inputs)
+}
+
+function compileError(source: string) {
+  return compileFormula(source).error
+}
+
+describe("parsing and precedence", () => {
+  it("binds * / % tighter than + -", () => {
+    expect(run("1 + 2 * 3").value).toBe(7)
+    expect(run("(1 + 2) * 3").value).toBe(9)
+    expect(run("10 - 7 % 4").value).toBe(7)
+  })
+
+  it("reads operators of one level left to right", () => {
+    expect(run("10 - 4 - 3").value).toBe(3)
+    expect(run("8 / 4 / 2").value).toBe(1)
+  })
+
+  it("binds unary minus tighter than multiplication", () => {
+    expect(run("-2 * 3").value).toBe(-6)
+    expect(run("price - -5").value).toBe(105)
+  })
+
+  it("puts comparisons below arithmetic and && below comparisons", () => {
+    expect(run("if(price > cost * 2 && inventory >= 5, 1, 2)").value).toBe(1)
+    expect(run("if(price < 50 || cost == 40 && !(inventory != 5), 1, 2)").value).toBe(1)
+  })
+
+  it("reads decimals, variables and metafields", () => {
+    expect(run(".5 + 1.25").value).toBe(1.75)
+    expect(run("max(cost * 2.4, compareAtPrice * 0.8)").value).toBe(96)
+    expect(run("price * metafield.rate").value).toBe(150)
+    expect(run("cost * metafield.pricing.markup").value).toBe(80)
+  })
+
+  it("lists the metafields a formula reads", () => {
+    const compiled = compileFormula("metafield.rate + metafield.pricing.markup * metafield.rate")
+    expect(compiled.formula && formulaMetafields(compiled.formula)).toEqual([
+      { namespace: "custom", key: "rate" },
+      { namespace: "pricing", key: "markup" },
+    ])
+  })
+
+  it("reports syntax errors at their character", () => {
+    expect(compileError("")).toBe("Enter a formula")
+    expect(compileError("price *")).toBe('At character 8: Expected a number, name or "(" but found end of formula')
+    expect(compileError("(price + 1")).toBe('At character 11: Expected ")" but found end of formula')
+    expect(compileError("price $ 2")).toBe('At character 7: Unexpected "$"')
+    expect(compileError('hasTag("gold)')).toBe("At character 8: Text is missing its closing quote")
+    expect(compileError("x".repeat(501))).toBe("Formulas are limited to 500 characters")
+    expect(compileError("(".repeat(40) + "1" + ")".repeat(40))).toBe("Formula is nested too deeply")
+  })
+})
+
+describe("functions", () => {
+  it("works out each function", () => {
+    expect(run("min(price, cost, 70)").value).toBe(40)
+    expect(run("round(price / 3, 2)").value).toBe(33.33)
+    expect(run("round(2.5)").value).toBe(3)
+    expect(run("floor(9.99) + ceil(0.01) + abs(-2)").value).toBe(12)
+    expect(run("coalesce(metafield.unset, cost, price)").value).toBe(40)
+  })
+
+  it("matches tags whatever their case", () => {
+    expect(run('if(hasTag("gold"), price * 2, price)').value).toBe(200)
+    expect(run('if(hasTag("silver"), price * 2, price)').value).toBe(100)
+    expect(compileError("hasTag(1)")).toBe('At character 1: hasTag() takes a tag in quotes, e.g. hasTag("gold")')
+  })
+
+  it("checks argument counts", () => {
+    expect(compileError("round()")).toBe("At character 1: round() takes 1 to 2 arguments, got 0")
+    expect(compileError("floor(1, 2)")).toBe("At character 1: floor() takes 1 argument, got 2")
+    expect(compileError("if(price > 1, 2)")).toBe("At character 1: if() takes 3 arguments, got 2")
+    expect(run("round(price, 5)").error).toBe("At character 14: round() digits must be 0 to 4")
+  })
+})
+
+describe("names", () => {
+  it("rejects unknown variables and functions", () => {
+    expect(compileError("weight * 2")).toMatch(/^At character 1: Unknown name "weight"/)
+    expect(compileError("sqrt(price)")).toMatch(/^At character 1: Unknown function "sqrt"/)
+    expect(compileError("tags")).toBe('At character 1: Use hasTag("name") to check tags')
+    expect(compileError("metafield")).toBe(
+      "At character 1: Write metafields as metafield.<key> or metafield.<namespace>.<key>",
+    )
+  })
+
+  it("does not treat object prototype keys as functions", () => {
+    expect(compileError("constructor(1)")).toMatch(/^At character 1: Unknown function "constructor"/)
+    expect(compileError("toString()")).toMatch(/^At character 1: Unknown function "toString"/)
+    expect(compileError('valueOf("x")')).toMatch(/^At character 1: Unknown function "valueOf"/)
+    expect(compileError("__proto__(1)")).toMatch(/^At character 1: Unknown function "__proto__"/)
+  })
+})
+
+describe("evaluation errors", () => {
+  it("reports values the variant does not have", () => {
+    const noCost = { ...INPUTS, cost: null, compareAtPrice: null }
+    expect(run("cost * 2", noCost).error).toBe("At character 1: cost is not set for this variant")
+    expect(run("price + metafield.unset").error).toBe("At character 9: metafield.unset is not set for this variant")
+    expect(run("coalesce(cost, compareAtPrice)", noCost).error).toBe(
+      "At character 1: None of the coalesce() values are set for this variant",
+    )
+    expect(run("coalesce(cost, price)", noCost).value).toBe(100)
+  })
+
+  it("reports metafields that were not loaded", () => {
+    expect(run("metafield.rate", { ...INPUTS, metafields: undefined }).error).toBe(
+      "At character 1: metafield.rate is read from Shopify when the changes are checked",
+    )
+  })
+
+  it("refuses division by zero", () => {
+    expect(run("price / 0").error).toBe("At character 7: Division by zero")
+    expect(run("price % (cost - 40)").error).toBe("At character 7: Division by zero")
+  })
+
+  it("checks value types", () => {
+    expect(run("price > 1").error).toBe("The formula gives true/false, not a price")
+    expect(run('"gold"').error).toBe("The formula gives text, not a price")
+    expect(run("price + (cost > 1)").error).toBe("At character 15: + needs a number, got true/false")
+    expect(run('price == "100"').error).toBe("At character 7: Cannot compare a number with text")
+    expect(run("if(price, 1, 2)").error).toBe("At character 4: if() needs true/false, got a number")
+  })
+})
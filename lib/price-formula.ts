@@ -0,0 +1,387 @@
+// Price formulas for the "formula" bulk price rule, e.g. `max(cost * 2.4, compareAtPrice * 0.8)` or
+// `price * (1 + metafield.gold_rate_delta)`.
+//
+// Formulas are parsed into a small syntax tree and evaluated by walking it; nothing is ever handed to
+// eval or Function, and only the names below can be read. Errors are plain sentences that name the
+// character they point at, ready to show next to the formula input.
+//
+//   Variables:  price, compareAtPrice, cost, inventory, metafield.<key> (namespace "custom"),
+//               metafield.<namespace>.<key>
+//   Operators:  + - * / %  < <= > >= == !=  && || !  ( )
+//   Functions:  min, max, round(x, digits?), floor, ceil, abs, if(condition, then, else),
+//               coalesce(a, b, ...) (first value that is set), hasTag("name")
+
+// What a formula can read for one variant; null means the variant does not have it
+export interface FormulaInputs {
+  price: number
+  compareAtPrice: number | null
+  cost: number | null
+  inventory: number | null
+  tags: string[]
+  // Keyed "namespace.key"; left out when metafields have not been loaded (previews in the browser)
+  metafields?: Record<string, number | null>
+}
+
+export interface FormulaMetafield {
+  namespace: string
+  key: string
+}
+
+type Node =
+  | { kind: "number"; value: number; pos: number }
+  | { kind: "string"; value: string; pos: number }
+  | { kind: "variable"; name: "price" | "compareAtPrice" | "cost" | "inventory"; pos: number }
+  | { kind: "metafield"; namespace: string; key: string; pos: number }
+  | { kind: "unary"; op: "-" | "!"; operand: Node; pos: number }
+  | { kind: "binary"; op: string; left: Node; right: Node; pos: number }
+  | { kind: "call"; name: string; args: Node[]; pos: number }
+
+export interface Formula {
+  source: string
+  root: Node
+}
+
+type Token =
+  | { type: "number"; value: number; pos: number }
+  | { type: "string"; value: string; pos: number }
+  | { type: "name"; value: string; pos: number }
+  | { type: "op"; value: string; pos: number }
+  | { type: "end"; pos: number }
+
+type Value = number | boolean | string
+
+const MAX_LENGTH = 500
+const MAX_DEPTH = 32
+
+const VARIABLES = ["price", "compareAtPrice", "cost", "inventory"] as const
+
+// Argument counts: [min, max]. A Map, so names like "constructor" or "toString" are not functions.
+const FUNCTIONS = new Map<string, [number, number]>([
+  ["min", [1, 20]],
+  ["max", [1, 20]],
+  ["round", [1, 2]],
+  ["floor", [1, 1]],
+  ["ceil", [1, 1]],
+  ["abs", [1, 1]],
+  ["if", [3, 3]],
+  ["coalesce", [1, 20]],
+  ["hasTag", [1, 1]],
+])
+
+// Longest first, so "<=" is not read as "<" then "="
+const OPERATORS = ["<=", ">=", "==", "!=", "&&", "||", "+", "-", "*", "/", "%", "<", ">", "!", "(", ")", ",", "."]
+
+// Thrown inside the parser and evaluator only; the exported functions turn it into an error string
+function fail(message: string, pos?: number): never {
+  throw new Error(pos === undefined ? message : `At character ${pos + 1}: ${message}`)
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = []
+  let i = 0
+  while (i < source.length) {
+    const ch = source[i]
+    if (/\s/.test(ch)) {
+      i++
+    } else if (/[0-9]/.test(ch) || (ch === "." && /[0-9]/.test(source[i + 1] ?? ""))) {
+      const match = /^[0-9]*\.?[0-9]+|^[0-9]+/.exec(source.slice(i)) as RegExpExecArray
+      tokens.push({ type: "number", value: Number(match[0]), pos: i })
+      i += match[0].length
+    } else if (/[A-Za-z_]/.test(ch)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(i)) as RegExpExecArray
+      tokens.push({ type: "name", value: match[0], pos: i })
+      i += match[0].length
+    } else if (ch === '"' || ch === "'") {
+      const end = source.indexOf(ch, i + 1)
+      if (end === -1) fail("Text is missing its closing quote", i)
+      tokens.push({ type: "string", value: source.slice(i + 1, end), pos: i })
+      i = end + 1
+    } else {
+      const op = OPERATORS.find((candidate) => source.startsWith(candidate, i))
+      if (!op) fail(`Unexpected "${ch}"`, i)
+      tokens.push({ type: "op", value: op, pos: i })
+      i += op.length
+    }
+  }
+  tokens.push({ type: "end", pos: source.length })
+  return tokens
+}
+
+function describeToken(token: Token) {
+  return token.type === "end" ? "end of formula" : `"${token.value}"`
+}
+
+// Recursive descent, loosest binding first: || then && then comparisons then + - then * / % then unary
+function parse(source: string): Node {
+  const tokens = tokenize(source)
+  let index = 0
+  let depth = 0
+
+  const peek = () => tokens[index]
+  const isOp = (...ops: string[]) => {
+    const token = peek()
+    return token.type === "op" && ops.includes(token.value)
+  }
+  const expectOp = (op: string) => {
+    const token = peek()
+    if (token.type !== "op" || token.value !== op) fail(`Expected "${op}" but found ${describeToken(token)}`, token.pos)
+    index++
+  }
+
+  const binaryLevel = (ops: string[], next: () => Node) => (): Node => {
+    let left = next()
+    while (isOp(...ops)) {
+      const token = tokens[index++] as { value: string; pos: number }
+      left = { kind: "binary", op: token.value, left, right: next(), pos: token.pos }
+    }
+    return left
+  }
+
+  const primary = (): Node => {
+    const token = tokens[index++]
+    if (token.type === "number") return { kind: "number", value: token.value, pos: token.pos }
+    if (token.type === "string") return { kind: "string", value: token.value, pos: token.pos }
+    if (token.type === "op" && token.value === "(") {
+      const inner = expression()
+      expectOp(")")
+      return inner
+    }
+    if (token.type !== "name") fail(`Expected a number, name or "(" but found ${describeToken(token)}`, token.pos)
+
+    const name = token.value
+    if (isOp("(")) {
+      const arity = FUNCTIONS.get(name)
+      if (!arity) fail(`Unknown function "${name}"; use ${[...FUNCTIONS.keys()].join(", ")}`, token.pos)
+      index++
+      const args: Node[] = []
+      if (!isOp(")")) {
+        args.push(expression())
+        while (isOp(",")) {
+          index++
+          args.push(expression())
+        }
+      }
+      expectOp(")")
+      if (args.length < arity[0] || args.length > arity[1]) {
+        const expected = arity[0] === arity[1] ? `${arity[0]}` : `${arity[0]} to ${arity[1]}`
+        fail(`${name}() takes ${expected} argument${arity[1] === 1 ? "" : "s"}, got ${args.length}`, token.pos)
+      }
+      if (name === "hasTag" && args[0].kind !== "string") {
+        fail('hasTag() takes a tag in quotes, e.g. hasTag("gold")', token.pos)
+      }
+      return { kind: "call", name, args, pos: token.pos }
+    }
+
+    if (name === "metafield") {
+      const parts: string[] = []
+      while (isOp(".")) {
+        index++
+        const part = tokens[index++]
+        if (part.type !== "name") fail("Expected a metafield key after the dot", part.pos)
+        parts.push(part.value)
+      }
+      if (parts.length === 0 || parts.length > 2) {
+        fail("Write metafields as metafield.<key> or metafield.<namespace>.<key>", token.pos)
+      }
+      const [namespace, key] = parts.length === 1 ? ["custom", parts[0]] : parts
+      return { kind: "metafield", namespace, key, pos: token.pos }
+    }
+    if (name === "tags") fail('Use hasTag("name") to check tags', token.pos)
+    if (!(VARIABLES as readonly string[]).includes(name)) {
+      fail(`Unknown name "${name}"; use ${VARIABLES.join(", ")}, metafield.<key> or a function`, token.pos)
+    }
+    return { kind: "variable", name: name as (typeof VARIABLES)[number], pos: token.pos }
+  }
+
+  const unary = (): Node => {
+    if (isOp("-", "!")) {
+      const token = tokens[index++] as { value: "-" | "!"; pos: number }
+      return { kind: "unary", op: token.value, operand: unary(), pos: token.pos }
+    }
+    return primary()
+  }
+
+  const multiplicative = binaryLevel(["*", "/", "%"], unary)
+  const additive = binaryLevel(["+", "-"], multiplicative)
+  const comparison = binaryLevel(["<", "<=", ">", ">=", "==", "!="], additive)
+  const and = binaryLevel(["&&"], comparison)
+  const or = binaryLevel(["||"], and)
+
+  function expression(): Node {
+    if (++depth > MAX_DEPTH) fail("Formula is nested too deeply")
+    const node = or()
+    depth--
+    return node
+  }
+
+  const root = expression()
+  const rest = peek()
+  if (rest.type !== "end") fail(`Unexpected ${describeToken(rest)}`, rest.pos)
+  return root
+}
+
+// Parses a formula once so it can be evaluated for many variants
+export function compileFormula(source: unknown): { formula: Formula; error: null } | { formula: null; error: string } {
+  if (typeof source !== "string" || source.trim() === "") {
+    return { formula: null, error: "Enter a formula" }
+  }
+  if (source.length > MAX_LENGTH) {
+    return { formula: null, error: `Formulas are limited to ${MAX_LENGTH} characters` }
+  }
+  try {
+    return { formula: { source, root: parse(source) }, error: null }
+  } catch (error) {
+    return { formula: null, error: (error as Error).message }
+  }
+}
+
+// Metafields a formula reads, so the server loads only those
+export function formulaMetafields(formula: Formula): FormulaMetafield[] {
+  const found = new Map<string, FormulaMetafield>()
+  const visit = (node: Node) => {
+    if (node.kind === "metafield") found.set(`${node.namespace}.${node.key}`, node)
+    if (node.kind === "unary") visit(node.operand)
+    if (node.kind === "binary") {
+      visit(node.left)
+      visit(node.right)
+    }
+    if (node.kind === "call") node.args.forEach(visit)
+  }
+  visit(formula.root)
+  return [...found.values()].map(({ namespace, key }) => ({ namespace, key }))
+}
+
+function label(node: Node) {
+  if (node.kind === "variable") return node.name
+  if (node.kind === "metafield") {
+    return node.namespace === "custom" ? `metafield.${node.key}` : `metafield.${node.namespace}.${node.key}`
+  }
+  return "value"
+}
+
+function typeName(value: Value) {
+  return typeof value === "number" ? "a number" : typeof value === "boolean" ? "true/false" : "text"
+}
+
+// The formula's value for one variant
+export function evaluateFormula(
+  formula: Formula,
+  inputs: FormulaInputs,
+): { value: number; error: null } | { value: null; error: string } {
+  // null only comes from variables and metafields the variant does not have
+  const evaluate = (node: Node): Value | null => {
+    switch (node.kind) {
+      case "number":
+      case "string":
+        return node.value
+      case "variable":
+        return inputs[node.name]
+      case "metafield": {
+        if (!inputs.metafields) fail(`${label(node)} is read from Shopify when the changes are checked`, node.pos)
+        return inputs.metafields[`${node.namespace}.${node.key}`] ?? null
+      }
+      case "unary":
+        return node.op === "-" ? -number(node.operand, "-") : !bool(node.operand, "!")
+      case "binary":
+        return binary(node)
+      case "call":
+        return call(node)
+    }
+  }
+
+  const required = (node: Node): Value => {
+    const value = evaluate(node)
+    if (value === null) fail(`${label(node)} is not set for this variant`, node.pos)
+    return value
+  }
+  const number = (node: Node, where: string) => {
+    const value = required(node)
+    if (typeof value !== "number") fail(`${where} needs a number, got ${typeName(value)}`, node.pos)
+    return value
+  }
+  const bool = (node: Node, where: string) => {
+    const value = required(node)
+    if (typeof value !== "boolean") fail(`${where} needs true/false, got ${typeName(value)}`, node.pos)
+    return value
+  }
+
+  const binary = (node: Extract<Node, { kind: "binary" }>): Value => {
+    const { op, left, right } = node
+    if (op === "&&") return bool(left, op) && bool(right, op)
+    if (op === "||") return bool(left, op) || bool(right, op)
+    if (op === "==" || op === "!=") {
+      const a = required(left)
+      const b = required(right)
+      if (typeof a !== typeof b) fail(`Cannot compare ${typeName(a)} with ${typeName(b)}`, node.pos)
+      return op === "==" ? a === b : a !== b
+    }
+    const a = number(left, op)
+    const b = number(right, op)
+    switch (op) {
+      case "+":
+        return a + b
+      case "-":
+        return a - b
+      case "*":
+        return a * b
+      case "/":
+      case "%":
+        if (b === 0) fail("Division by zero", node.pos)
+        return op === "/" ? a / b : a % b
+      case "<":
+        return a < b
+      case "<=":
+        return a <= b
+      case ">":
+        return a > b
+      default:
+        return a >= b
+    }
+  }
+
+  const call = (node: Extract<Node, { kind: "call" }>): Value => {
+    const { name, args } = node
+    switch (name) {
+      case "min":
+        return Math.min(...args.map((arg) => number(arg, "min()")))
+      case "max":
+        return Math.max(...args.map((arg) => number(arg, "max()")))
+      case "round": {
+        const digits = args[1] ? number(args[1], "round()") : 0
+        if (!Number.isInteger(digits) || digits < 0 || digits > 4) fail("round() digits must be 0 to 4", args[1].pos)
+        const factor = 10 ** digits
+        return Math.round(number(args[0], "round()") * factor) / factor
+      }
+      case "floor":
+        return Math.floor(number(args[0], "floor()"))
+      case "ceil":
+        return Math.ceil(number(args[0], "ceil()"))
+      case "abs":
+        return Math.abs(number(args[0], "abs()"))
+      case "if":
+        return bool(args[0], "if()") ? required(args[1]) : required(args[2])
+      case "coalesce": {
+        for (const arg of args) {
+          const value = evaluate(arg)
+          if (value !== null) return value
+        }
+        return fail("None of the coalesce() values are set for this variant", node.pos)
+      }
+      case "hasTag": {
+        const tag = (args[0] as { value: string }).value.toLowerCase()
+        return inputs.tags.some((candidate) => candidate.toLowerCase() === tag)
+      }
+      default:
+        return fail(`Unknown function "${name}"`, node.pos)
+    }
+  }
+
+  try {
+    const value = required(formula.root)
+    if (typeof value !== "number") fail(`The formula gives ${typeName(value)}, not a price`)
+    if (!Number.isFinite(value)) fail("The formula does not give a finite number")
+    return { value, error: null }
+  } catch (error) {
+    return { value: null, error: (error as Error).message }
+  }
+}
@@ -0,0 +1,148 @@
+// Price guardrails: a per-store minimum gross margin or absolute price floor, for every variant or for
+// those in a collection or with a tag. Discounts and bulk price updates check new prices against them.
+// Persisted as priceGuardrails/{ownerId}_{storeId}.
+import { doc, getDoc, setDoc } from "firebase/firestore"
+import { db } from "@/db/db"
+import { getVariantCostContexts, type VariantCostContext } from "@/lib/shopify"
+
+export type GuardrailScope =
+  | { type: "all" }
+  | { type: "collection"; collectionId: string; collectionTitle?: string }
+  | { type: "tag"; tag: string }
+
+export interface GuardrailRule {
+  id: string
+  scope: GuardrailScope
+  minMarginPercent: number | null // Gross margin over unit cost; skipped for variants without a cost
+  minPrice: number | null
+}
+
+export interface PriceGuardrails {
+  // block skips the variant; clamp raises the new price to the floor instead
+  enforcement: "block" | "clamp"
+  rules: GuardrailRule[]
+  updatedAt?: string
+  updatedBy?: string
+}
+
+export type PriceCheck =
+  | { status: "ok"; price: number }
+  | { status: "clamped"; price: number; floor: number; reason: string }
+  | { status: "blocked"; floor: number; reason: string }
+
+export const DEFAULT_PRICE_GUARDRAILS: PriceGuardrails = {
+  enforcement: "block",
+  rules: [],
+}
+
+function guardrailsRef(ownerId: string, storeId: string) {
+  return doc(db, "priceGuardrails", `${ownerId}_${storeId}`)
+}
+
+export async function getPriceGuardrails(ownerId: string, storeId: string): Promise<PriceGuardrails> {
+  const snap = await getDoc(guardrailsRef(ownerId, storeId))
+  return snap.exists() ? { ...DEFAULT_PRICE_GUARDRAILS, ...(snap.data() as PriceGuardrails) } : DEFAULT_PRICE_GUARDRAILS
+}
+
+export async function updatePriceGuardrails(ownerId: string, storeId: string, guardrails: PriceGuardrails) {
+  await setDoc(guardrailsRef(ownerId, storeId), JSON.parse(JSON.stringify(guardrails)))
+}
+
+// Returns an error message or null
+export function validateGuardrails(guardrails: PriceGuardrails) {
+  if (guardrails.enforcement !== "block" && guardrails.enforcement !== "clamp") {
+    return "Enforcement must be block or clamp"
+  }
+  if (!Array.isArray(guardrails.rules)) {
+    return "Guardrail rules must be a list"
+  }
+  for (const [index, rule] of guardrails.rules.entries()) {
+    const prefix = `Guardrail ${index + 1}: `
+    const { scope, minMarginPercent, minPrice } = rule
+    if (scope?.type === "collection" && !scope.collectionId) {
+      return `${prefix}Choose a collection`
+    }
+    if (scope?.type === "tag" && !scope.tag?.trim()) {
+      return `${prefix}Tag is required`
+    }
+    if (scope?.type !== "all" && scope?.type !== "collection" && scope?.type !== "tag") {
+      return `${prefix}Unknown scope`
+    }
+    if (minMarginPercent === null && minPrice === null) {
+      return `${prefix}Set a minimum margin, a price floor or both`
+    }
+    if (minMarginPercent !== null && (!Number.isFinite(minMarginPercent) || minMarginPercent < 0 || minMarginPercent >= 100)) {
+      return `${prefix}Minimum margin must be between 0 and 99%`
+    }
+    if (minPrice !== null && (!Number.isFinite(minPrice) || minPrice < 0)) {
+      return `${prefix}Price floor must be zero or more`
+    }
+  }
+  return null
+}
+
+function scopeMatches(scope: GuardrailScope, context: VariantCostContext) {
+  switch (scope.type) {
+    case "collection":
+      return context.collectionIds.includes(scope.collectionId)
+    case "tag":
+      return context.tags.some((tag) => tag.trim().toLowerCase() === scope.tag.trim().toLowerCase())
+    default:
+      return true
+  }
+}
+
+// Highest floor any matching rule sets, rounded up to the cent, or null when none applies
+export function priceFloorFor(guardrails: PriceGuardrails, context: VariantCostContext) {
+  let floor: number | null = null
+  for (const rule of guardrails.rules) {
+    if (!scopeMatches(rule.scope, context)) continue
+    const candidates = [rule.minPrice]
+    if (rule.minMarginPercent !== null && context.unitCost !== null) {
+      // margin = (price - cost) / price, so price >= cost / (1 - margin)
+      candidates.push(context.unitCost / (1 - rule.minMarginPercent / 100))
+    }
+    for (const candidate of candidates) {
+      if (candidate !== null && (floor === null || candidate > floor)) {
+        floor = candidate
+      }
+    }
+  }
+  return floor === null ? null : Math.ceil(Math.round(floor * 1000) / 10) / 100
+}
+
+// Only price cuts are checked: raising a price that is already under its floor never breaks a guardrail.
+// Clamping is refused when the floor is not below the current price, since that would not be a cut.
+export function checkPriceFloor(
+  currentPrice: number,
+  newPrice: number,
+  floor: number | null,
+  enforcement: PriceGuardrails["enforcement"],
+): PriceCheck {
+  if (floor === null || newPrice >= floor || newPrice >= currentPrice) {
+    return { status: "ok", price: newPrice }
+  }
+  const reason = `New price ₹${newPrice.toFixed(2)} is below the guardrail floor of ₹${floor.toFixed(2)}`
+  if (enforcement === "clamp" && floor < currentPrice) {
+    return { status: "clamped", price: floor, floor, reason }
+  }
+  return { status: "blocked", floor, reason }
+}
+
+// Load the store's guardrails and the variants' costs once, for checking a batch of price changes.
+// Costs are only fetched when the store has rules.
+export async function loadPriceGuard(store: { ownerId: string; storeId: string }, variantIds: string[]) {
+  const guardrails = await getPriceGuardrails(store.ownerId, store.storeId)
+  const contexts = guardrails.rules.length > 0 ? await getVariantCostContexts(variantIds) : new Map()
+
+  return {
+    check(variantId: string, currentPrice: number, newPrice: number): PriceCheck {
+      const gid = variantId.startsWith("gid://") ? variantId : `gid://shopify/ProductVariant/${variantId}`
+      const context = contexts.get(gid)
+      const floor = context ? priceFloorFor(guardrails, context) : null
+      return checkPriceFloor(currentPrice, newPrice, floor, guardrails.enforcement)
+    },
+  }
+}
+
+export type PriceGuard = Awaited<ReturnType<typeof loadPriceGuard>>
@@ -0,0 +1,81 @@
+// Per-variant price history kept in discount_history metafields. A price_history_<ts> entry holds the
+// prices from just before a discount, a rollback_<ts> entry the prices a rollback or restore put back;
+// either is a point the variant can be restored to.
+import { shopifyRestFetch } from "@/lib/shopify"
+
+export interface PriceHistoryEntry {
+  key: string // Metafield key, identifies the entry for /api/price-history/[variantId]/restore
+  type: "discount" | "rollback"
+  date: string
+  price: string
+  compareAtPrice: string | null
+  discountPercentage: number
+  action: string
+}
+
+function parseHistoryField(field: any): PriceHistoryEntry | null {
+  try {
+    const data = JSON.parse(field.value)
+    const type = field.key.startsWith("rollback_") ? "rollback" : "discount"
+    return {
+      key: field.key,
+      type,
+      date: data.date || data.scheduled_at || new Date().toISOString(),
+      price: (type === "rollback" ? data.reverted_to_price : data.price) || "0.00",
+      compareAtPrice: (type === "rollback" ? data.reverted_to_compare_at_price : data.compare_at_price) || null,
+      discountPercentage: data.discount_percentage || 0,
+      action: data.action || `Applied ${data.discount_percentage || 0}% discount`,
+    }
+  } catch (error) {
+    return null
+  }
+}
+
+// Newest first; null when Shopify would not return the variant's metafields
+export async function getPriceHistory(numericVariantId: string): Promise<PriceHistoryEntry[] | null> {
+  const response = await shopifyRestFetch(`variants/${numericVariantId}/metafields.json`)
+  if (response.status !== 200) {
+    return null
+  }
+
+  return response.body.metafields
+    .filter(
+      (field: any) =>
+        field.namespace === "discount_history" &&
+        (field.key.startsWith("price_history_") || field.key.startsWith("rollback_")),
+    )
+    .map(parseHistoryField)
+    .filter((entry: PriceHistoryEntry | null): entry is PriceHistoryEntry => entry !== null)
+    .sort((a: PriceHistoryEntry, b: PriceHistoryEntry) => new Date(b.date).getTime() - new Date(a.date).getTime())
+}
+
+// Put the entry's prices back on the variant and record that as a rollback_<ts> entry of its own
+export async function restoreToHistoryEntry(numericVariantId: string, entry: PriceHistoryEntry) {
+  const updateResponse = await shopifyRestFetch(`variants/${numericVariantId}.json`, {
+    method: "PUT",
+    body: JSON.stringify({
+      variant: { id: numericVariantId, price: entry.price, compare_at_price: entry.compareAtPrice },
+    }),
+  })
+  if (updateResponse.status !== 200) {
+    throw new Error(updateResponse.error || `Shopify API error: ${updateResponse.status}`)
+  }
+
+  await shopifyRestFetch(`variants/${numericVariantId}/metafields.json`, {
+    method: "POST",
+    body: JSON.stringify({
+      metafield: {
+        namespace: "discount_history",
+        key: `rollback_${Date.now()}`,
+        value: JSON.stringify({
+          action: `Restored to prices from ${new Date(entry.date).toLocaleString()}`,
+          date: new Date().toISOString(),
+          restored_key: entry.key,
+          reverted_to_price: entry.price,
+          reverted_to_compare_at_price: entry.compareAtPrice,
+        }),
+        type: "json",
+      },
+    }),
+  })
+}
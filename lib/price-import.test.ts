@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest"
+import { matchPriceRows, parseAmount } from "@/lib/price-import"
+
+describe("parseAmount", () => {
+  it("reads plain amounts to the cent", () => {
+    expect(parseAmount("1299")).toBe("1299.00")
+    expect(parseAmount(" 1299.5 ")).toBe("1299.50")
+    expect(parseAmount("0")).toBe("0.00")
+  })
+
+  it("reads one currency before or after the amount", () => {
+    expect(parseAmount("₹1,299.50")).toBe("1299.50")
+    expect(parseAmount("Rs. 1,299")).toBe("1299.00")
+    expect(parseAmount("INR 1299")).toBe("1299.00")
+    expect(parseAmount("$ 12.99")).toBe("12.99")
+    expect(parseAmount("1.299,50 €")).toBe("1299.50")
+  })
+
+  it("reads thousands separators and decimal commas", () => {
+    expect(parseAmount("1,299,000.75")).toBe("1299000.75")
+    expect(parseAmount("1,29,999.50")).toBe("129999.50")
+    expect(parseAmount("1299,5")).toBe("1299.50")
+    expect(parseAmount("1.299.000")).toBe("1299000.00")
+  })
+
+  it("leaves empty cells out", () => {
+    expect(parseAmount("")).toBe(undefined)
+    expect(parseAmount("  ")).toBe(undefined)
+    expect(parseAmount(undefined)).toBe(undefined)
+  })
+
+  it("rejects ambiguous and malformed amounts", () => {
+    expect(parseAmount("1.299")).toBe(null)
+    expect(parseAmount("12,99,9")).toBe(null)
+    expect(parseAmount("1,299.50.1")).toBe(null)
+    expect(parseAmount("-5")).toBe(null)
+    expect(parseAmount("$$5")).toBe(null)
+    expect(parseAmount("Rs. 5 INR")).toBe(null)
+    expect(parseAmount("about 5")).toBe(null)
+    expect(parseAmount("12 pcs")).toBe(null)
+  })
+})
+
+describe("matchPriceRows", () => {
+  const products = [
+    { id: "p1", title: "Ring", variants: [{ id: "v1", title: "Gold", sku: "R-1", price: "1000.00", compareAtPrice: null }] },
+  ]
+
+  it("reports rows whose amounts cannot be read", () => {
+    const { report } = matchPriceRows(
+      [
+        ["sku", "price"],
+        ["R-1", "Rs. 1.299"],
+      ],
+      products,
+    )
+    expect(report?.invalidRows).toEqual([
+      { row: 2, sku: "R-1", error: "Prices must be amounts like 1299.50 or Rs. 1,299.50" },
+    ])
+  })
+
+  it("matches rows with formatted amounts", () => {
+    const { report } = matchPriceRows(
+      [
+        ["sku", "price"],
+        ["R-1", "Rs. 1,299"],
+      ],
+      products,
+    )
+    expect(report?.changes).toMatchObject([{ row: 2, variantId: "v1", newPrice: "1299.00" }])
+  })
+})
@@ -0,0 +1,191 @@
+// Spreadsheet price imports for BulkPriceEditModal: rows of SKU, price and compare_at_price matched
+// to the store's variants by SKU. Matched rows are sent to /api/bulk-price-update as an "explicit" rule,
+// which checks them against live prices and guardrails like any other bulk price change.
+//
+// An empty price or compare-at cell leaves that price as it is; a compare-at of 0 removes it.
+import { formatMinor, toMinor } from "@/lib/pricing"
+
+interface ImportProduct {
+  id: string
+  title: string
+  variants: Array<{ id: string; title: string; sku: string; price: string; compareAtPrice?: string | null }>
+}
+
+export interface PriceImportMatch {
+  row: number // 1-based, as the spreadsheet shows it
+  variantId: string
+  productId: string
+  productTitle: string
+  variantTitle: string
+  sku: string
+  currentPrice: string
+  currentCompareAtPrice: string | null
+  newPrice?: string // Left out when the row does not set it
+  newCompareAtPrice?: string | null // null removes the compare-at price
+}
+
+export interface PriceImportReport {
+  changes: PriceImportMatch[]
+  unchanged: PriceImportMatch[] // Rows that already match the loaded prices; still sent, live prices may differ
+  unknownSkus: Array<{ row: number; sku: string }>
+  duplicateSkus: Array<{ sku: string; rows: number[] }> // Listed more than once in the file; all skipped
+  ambiguousSkus: Array<{ sku: string; variantCount: number }> // Shared by several variants in the store
+  invalidRows: Array<{ row: number; sku: string; error: string }>
+}
+
+const COLUMN_NAMES = {
+  sku: ["sku", "variant sku"],
+  price: ["price", "variant price"],
+  compareAtPrice: ["compare at price", "compareatprice", "variant compare at price"],
+}
+
+// "Compare_At_Price" -> "compare at price"
+function normalizeHeader(value: string) {
+  return value.trim().toLowerCase().replace(/[\s_-]+/g, " ")
+}
+
+// Column positions from the header row; Shopify's product export headers work too
+export function findPriceColumns(header: string[]) {
+  const names = header.map(normalizeHeader)
+  const find = (aliases: string[]) => names.findIndex((name) => aliases.includes(name))
+  const columns = {
+    sku: find(COLUMN_NAMES.sku),
+    price: find(COLUMN_NAMES.price),
+    compareAtPrice: find(COLUMN_NAMES.compareAtPrice),
+  }
+  if (columns.sku === -1) {
+    return { columns: null, error: "The first row needs a SKU column" }
+  }
+  if (columns.price === -1 && columns.compareAtPrice === -1) {
+    return { columns: null, error: "The first row needs a price or compare_at_price column" }
+  }
+  return { columns, error: null }
+}
+
+// One currency before or after the amount: a symbol, a code like INR or USD, or Rs.
+const CURRENCY = String.raw`(?:[$€£₹¥]|[A-Z]{3}|[Rr]s\.?)`
+const AMOUNT_PATTERN = new RegExp(String.raw`^(?:${CURRENCY}\s*)?([0-9.,]+)$|^([0-9.,]+)\s*${CURRENCY}$`)
+
+// Digit groupings read as amounts; anything else, e.g. "1.299" (1.299 or 1299?), is not guessed at
+const NUMBER_FORMATS: Array<{ pattern: RegExp; normalize: (value: string) => string }> = [
+  // 1299, 1299.5, 1299.50
+  { pattern: /^\d+(?:\.\d{1,2})?$/, normalize: (value) => value },
+  // 1,299.50 and Indian 1,29,999.50
+  {
+    pattern: /^(?:\d{1,3}(?:,\d{3})+|\d{1,2}(?:,\d{2})+,\d{3})(?:\.\d{1,2})?$/,
+    normalize: (value) => value.replace(/,/g, ""),
+  },
+  // 1299,50 and 1.299,50
+  {
+    pattern: /^(?:\d+|\d{1,3}(?:\.\d{3})+),\d{1,2}$/,
+    normalize: (value) => value.replace(/\./g, "").replace(",", "."),
+  },
+  // 1.299.000
+  { pattern: /^\d{1,3}(?:\.\d{3}){2,}$/, normalize: (value) => value.replace(/\./g, "") },
+]
+
+// "₹1,299.50", "Rs. 1,299.50" or "1.299,50 €" -> "1299.50"; undefined for an empty cell, null when not an amount
+export function parseAmount(value: string | undefined) {
+  const trimmed = (value ?? "").trim()
+  if (trimmed === "") return undefined
+  const amount = AMOUNT_PATTERN.exec(trimmed)
+  const digits = amount ? (amount[1] ?? amount[2]) : undefined
+  const format = digits !== undefined ? NUMBER_FORMATS.find(({ pattern }) => pattern.test(digits)) : undefined
+  return digits !== undefined && format ? formatMinor(toMinor(format.normalize(digits))) : null
+}
+
+export function matchPriceRows(rows: string[][], products: ImportProduct[]) {
+  const { columns, error } = findPriceColumns(rows[0] ?? [])
+  if (!columns) {
+    return { report: null, error }
+  }
+
+  const variantsBySku = new Map<string, Array<{ product: ImportProduct; variant: ImportProduct["variants"][number] }>>()
+  for (const product of products) {
+    for (const variant of product.variants) {
+      const sku = variant.sku?.trim()
+      if (sku) variantsBySku.set(sku, [...(variantsBySku.get(sku) ?? []), { product, variant }])
+    }
+  }
+
+  // A SKU listed twice could mean either price; skip it rather than guess
+  const rowsBySku = new Map<string, number[]>()
+  rows.slice(1).forEach((cells, index) => {
+    const sku = cells[columns.sku]?.trim()
+    if (sku) rowsBySku.set(sku, [...(rowsBySku.get(sku) ?? []), index + 2])
+  })
+
+  const report: PriceImportReport = {
+    changes: [],
+    unchanged: [],
+    unknownSkus: [],
+    duplicateSkus: [...rowsBySku.entries()]
+      .filter(([, skuRows]) => skuRows.length > 1)
+      .map(([sku, skuRows]) => ({ sku, rows: skuRows })),
+    ambiguousSkus: [],
+    invalidRows: [],
+  }
+  const ambiguous = new Set<string>()
+
+  rows.slice(1).forEach((cells, index) => {
+    const row = index + 2
+    const sku = cells[columns.sku]?.trim() ?? ""
+    if (cells.every((cell) => cell.trim() === "")) return
+    if (!sku) {
+      report.invalidRows.push({ row, sku, error: "No SKU" })
+      return
+    }
+    if ((rowsBySku.get(sku)?.length ?? 0) > 1) return
+
+    const matches = variantsBySku.get(sku) ?? []
+    if (matches.length === 0) {
+      report.unknownSkus.push({ row, sku })
+      return
+    }
+    if (matches.length > 1) {
+      if (!ambiguous.has(sku)) report.ambiguousSkus.push({ sku, variantCount: matches.length })
+      ambiguous.add(sku)
+      return
+    }
+
+    const price = columns.price === -1 ? undefined : parseAmount(cells[columns.price])
+    const compareAtPrice = columns.compareAtPrice === -1 ? undefined : parseAmount(cells[columns.compareAtPrice])
+    if (price === null || compareAtPrice === null) {
+      report.invalidRows.push({ row, sku, error: "Prices must be amounts like 1299.50 or Rs. 1,299.50" })
+      return
+    }
+    if (price !== undefined && toMinor(price) <= 0) {
+      report.invalidRows.push({ row, sku, error: "Price must be greater than 0" })
+      return
+    }
+
+    const { product, variant } = matches[0]
+    const match: PriceImportMatch = {
+      row,
+      variantId: variant.id,
+      productId: product.id,
+      productTitle: product.title,
+      variantTitle: variant.title,
+      sku,
+      currentPrice: variant.price,
+      currentCompareAtPrice: variant.compareAtPrice || null,
+    }
+    if (price !== undefined) {
+      match.newPrice = price
+    }
+    if (compareAtPrice !== undefined) {
+      match.newCompareAtPrice = toMinor(compareAtPrice) === 0 ? null : compareAtPrice
+    }
+    // Against the loaded catalog; the server diffs again against live prices
+    const priceChanged = price !== undefined && toMinor(price) !== toMinor(variant.price)
+    const compareAtChanged =
+      compareAtPrice !== undefined && toMinor(compareAtPrice) !== toMinor(variant.compareAtPrice || 0)
+    if (priceChanged || compareAtChanged) {
+      report.changes.push(match)
+    } else {
+      report.unchanged.push(match)
+    }
+  })
+
+  return { report, error: null }
+}
@@ -0,0 +1,193 @@
+import { describe, expect, it } from "vitest"
+import {
+  applyPriceRule,
+  applyRounding,
+  calculateDiscountedPrices,
+  calculateNewPrice,
+  effectiveDiscountPercent,
+  formatMinor,
+  fromMinor,
+  toMinor,
+  type PriceRule,
+} from "@/lib/pricing"
+
+function rule(type: PriceRule["type"], value: number, extra: Partial<PriceRule> = {}): PriceRule {
+  return { type, value, applyTo: "price", roundingRule: "none", ...extra }
+}
+
+describe("minor units", () => {
+  it("converts Shopify amounts to whole cents", () => {
+    expect(toMinor("12.34")).toBe(1234)
+    expect(toMinor(12.34)).toBe(1234)
+    expect(toMinor("0.05")).toBe(5)
+    expect(toMinor(0.1 + 0.2)).toBe(30)
+    expect(toMinor("19.999")).toBe(2000)
+  })
+
+  it("converts back to numbers and Shopify strings", () => {
+    expect(fromMinor(1234)).toBe(12.34)
+    expect(formatMinor(1234)).toBe("12.34")
+    expect(formatMinor(5)).toBe("0.05")
+    expect(formatMinor(100000)).toBe("1000.00")
+    expect(formatMinor(-250)).toBe("-2.50")
+  })
+})
+
+describe("calculateNewPrice", () => {
+  it("applies percentage rules to the cent", () => {
+    expect(calculateNewPrice("100.00", rule("percentage", 10), "increase")).toEqual({ price: "110.00", error: null })
+    expect(calculateNewPrice("100.00", rule("percentage", 10), "decrease")).toEqual({ price: "90.00", error: null })
+    // 21.989 rounds half up to the cent instead of keeping float noise
+    expect(calculateNewPrice("19.99", rule("percentage", 10), "increase").price).toBe("21.99")
+  })
+
+  it("applies fixed rules and never goes below the smallest price", () => {
+    expect(calculateNewPrice("10.00", rule("fixed", 5.5), "increase").price).toBe("15.50")
+    expect(calculateNewPrice("10.00", rule("fixed", 2.25), "decrease").price).toBe("7.75")
+    expect(calculateNewPrice("10.00", rule("fixed", 20), "decrease").price).toBe("0.01")
+  })
+
+  it("sets absolute prices whatever the current price", () => {
+    expect(calculateNewPrice("10.00", rule("absolute", 49.99), "increase").price).toBe("49.99")
+    expect(calculateNewPrice("999.00", rule("absolute", 49.99), "decrease").price).toBe("49.99")
+  })
+
+  it("rounds the result by the rule's price ending", () => {
+    expect(calculateNewPrice("100.00", rule("percentage", 10, { roundingRule: "nearest_99" }), "increase").price).toBe(
+      "110.99",
+    )
+    expect(calculateNewPrice("100.00", rule("fixed", 4.5, { roundingRule: "nearest_00" }), "increase").price).toBe(
+      "105.00",
+    )
+  })
+})
+
+describe("applyRounding", () => {
+  it("keeps the whole units for .99 and .95 endings", () => {
+    expect(applyRounding(2150, "nearest_99")).toBe(2199)
+    expect(applyRounding(2100, "nearest_99")).toBe(2199)
+    expect(applyRounding(2150, "nearest_95")).toBe(2195)
+    expect(applyRounding(2199, "nearest_95")).toBe(2195)
+  })
+
+  it("rounds to the nearest whole unit for nearest_00", () => {
+    expect(applyRounding(2149, "nearest_00")).toBe(2100)
+    expect(applyRounding(2150, "nearest_00")).toBe(2200)
+  })
+
+  it("leaves the amount alone without a rule", () => {
+    expect(applyRounding(2150, "none")).toBe(2150)
+    expect(applyRounding(2150, undefined)).toBe(2150)
+  })
+})
+
+describe("applyPriceRule", () => {
+  it("only changes the prices the rule applies to", () => {
+    expect(applyPriceRule("100.00", "120.00", rule("percentage", 10), "increase")).toEqual({
+      newPrice: "110.00",
+      newCompareAtPrice: "120.00",
+      error: null,
+    })
+    expect(applyPriceRule("100.00", "120.00", rule("percentage", 10, { applyTo: "both" }), "increase")).toEqual({
+      newPrice: "110.00",
+      newCompareAtPrice: "132.00",
+      error: null,
+    })
+  })
+
+  it("gives no compare-at price to variants without one", () => {
+    const result = applyPriceRule("100.00", null, rule("percentage", 10, { applyTo: "both" }), "increase")
+    expect(result.newCompareAtPrice).toBe(null)
+  })
+})
+
+describe("metal rate rules", () => {
+  const metalRule = rule("metal_rate", 0, { metalRates: { gold: 60 } })
+  const gold = { cost: null, inventory: null, tags: [], metal: { metalType: "gold", weightGrams: 2, makingCharges: 30 } }
+
+  it("sets the price to weight times rate plus making charges", () => {
+    expect(applyPriceRule("100.00", null, metalRule, "increase", gold)).toEqual({
+      newPrice: "150.00",
+      newCompareAtPrice: null,
+      error: null,
+    })
+  })
+
+  it("reprices the regular price of a variant on sale and keeps its markdown", () => {
+    expect(applyPriceRule("80.00", "100.00", metalRule, "increase", gold)).toEqual({
+      newPrice: "120.00",
+      newCompareAtPrice: "150.00",
+      error: null,
+    })
+  })
+
+  it("reports variants without a metal or a rate", () => {
+    expect(applyPriceRule("80.00", null, metalRule, "increase").error).toBe(
+      "The variant has no metal type and weight metafields",
+    )
+    const silver = { ...gold, metal: { ...gold.metal, metalType: "silver" } }
+    expect(applyPriceRule("80.00", null, metalRule, "increase", silver).error).toBe("No rate entered for silver")
+  })
+})
+
+describe("calculateDiscountedPrices", () => {
+  it("moves the current price to compare-at for a variant not on sale (Type 1)", () => {
+    expect(calculateDiscountedPrices(100, null, { mode: "percentage", value: 20 })).toEqual({
+      newPrice: 80,
+      newCompareAtPrice: 100,
+      alreadyDiscounted: false,
+      error: null,
+    })
+    // A compare-at price at or below the price is not a discount
+    expect(calculateDiscountedPrices(100, 90, { mode: "percentage", value: 20 })).toMatchObject({
+      newPrice: 80,
+      newCompareAtPrice: 100,
+      alreadyDiscounted: false,
+    })
+  })
+
+  it("discounts from the existing compare-at price of a variant on sale (Type 2)", () => {
+    expect(calculateDiscountedPrices(80, 100, { mode: "percentage", value: 10 })).toEqual({
+      newPrice: 90,
+      newCompareAtPrice: 100,
+      alreadyDiscounted: true,
+      error: null,
+    })
+  })
+
+  it("works every mode from the same base", () => {
+    expect(calculateDiscountedPrices(80, 100, { mode: "fixed_amount", value: 30 }).newPrice).toBe(70)
+    expect(calculateDiscountedPrices(80, 100, { mode: "target_price", value: 60 }).newPrice).toBe(60)
+    expect(calculateDiscountedPrices(19.99, null, { mode: "percentage", value: 15 }).newPrice).toBe(16.99)
+  })
+
+  it("reports results that break 0 < price < compare-at", () => {
+    expect(calculateDiscountedPrices(100, null, { mode: "fixed_amount", value: 150 }).error).toBe(
+      "New price would be zero or negative",
+    )
+    expect(calculateDiscountedPrices(100, null, { mode: "target_price", value: 120 }).error).toBe(
+      "New price would be equal or greater than compare-at price",
+    )
+  })
+
+  it("stacks on the current sale price and keeps the compare-at price", () => {
+    expect(calculateDiscountedPrices(80, 100, { mode: "percentage", value: 10 }, { stack: true })).toEqual({
+      newPrice: 72,
+      newCompareAtPrice: 100,
+      alreadyDiscounted: true,
+      error: null,
+    })
+    expect(calculateDiscountedPrices(80, 100, { mode: "fixed_amount", value: 5 }, { stack: true }).newPrice).toBe(75)
+    expect(calculateDiscountedPrices(80, 100, { mode: "target_price", value: 85 }, { stack: true }).error).toBe(
+      "New price would not be below the current sale price",
+    )
+  })
+})
+
+describe("effectiveDiscountPercent", () => {
+  it("gives the percent off compare-at to two decimals", () => {
+    expect(effectiveDiscountPercent(80, 100)).toBe(20)
+    expect(effectiveDiscountPercent(16.99, 19.99)).toBe(15.01)
+    expect(effectiveDiscountPercent(10, 0)).toBe(0)
+  })
+})
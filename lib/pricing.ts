@@ -0,0 +1,264 @@
+// Price math for every price change: bulk price rules (BulkPriceEditModal, /api/bulk-price-update) and
+// discounts (BulkDiscountSystem, lib/discounts, /api/apply-discount). Previews and routes call the same
+// functions, so they cannot disagree.
+//
+// Amounts are worked in integer minor units (paise/cents) and rounded to the cent once per step, never
+// left as float fractions. Inputs are Shopify's "12.34" strings or numbers; results are exact to the cent.
+import type { Discount } from "@/lib/discount-modes"
+import { compileFormula, evaluateFormula, type FormulaInputs } from "@/lib/price-formula"
+
+export interface PriceRule {
+  type: "percentage" | "fixed" | "absolute" | "formula" | "metal_rate" | "explicit"
+  value: number
+  formula?: string // The expression for "formula" rules (lib/price-formula); `value` is unused then
+  metalRates?: MetalRates // Per-gram rates for "metal_rate" rules; `value` is unused then
+  // "explicit" rules carry no math: each variant comes with its own new prices (lib/price-import)
+  applyTo: "price" | "compareAtPrice" | "both"
+  minPrice?: number
+  maxPrice?: number
+  maintainMargin?: boolean
+  roundingRule?: RoundingRule
+}
+
+export type PriceAction = "increase" | "decrease"
+
+export type RoundingRule = "none" | "nearest_99" | "nearest_00" | "nearest_95"
+
+// Price per gram by metal type, e.g. { gold_22k: 6650, silver: 92.5 }
+export type MetalRates = Record<string, number>
+
+// How a jewellery variant's price follows metal rates, read from its metafields (lib/shopify)
+export interface MetalLink {
+  metalType: string
+  weightGrams: number
+  makingCharges: number
+}
+
+// What rules that read more than the prices get for a variant
+export type PriceRuleInputs = Omit<FormulaInputs, "price" | "compareAtPrice"> & { metal?: MetalLink | null }
+
+// Shopify's smallest price
+const MIN_PRICE_MINOR = 1
+
+// "12.34" or 12.34 -> 1234
+export function toMinor(amount: string | number) {
+  return Math.round(Number(amount) * 100)
+}
+
+// 1234 -> 12.34
+export function fromMinor(minor: number) {
+  return minor / 100
+}
+
+// 1234 -> "12.34", the format Shopify takes
+export function formatMinor(minor: number) {
+  const sign = minor < 0 ? "-" : ""
+  const abs = Math.abs(Math.round(minor))
+  return `${sign}${Math.floor(abs / 100)}.${String(abs % 100).padStart(2, "0")}`
+}
+
+// `percent` of an amount, rounded half up to the cent
+function percentOf(minor: number, percent: number) {
+  return Math.round((minor * percent) / 100)
+}
+
+// Price endings: .99 and .95 keep the whole units, nearest_00 rounds to a whole unit
+export function applyRounding(minor: number, rule: RoundingRule | undefined) {
+  switch (rule) {
+    case "nearest_99":
+      return Math.floor(minor / 100) * 100 + 99
+    case "nearest_95":
+      return Math.floor(minor / 100) * 100 + 95
+    case "nearest_00":
+      return Math.round(minor / 100) * 100
+    default:
+      return minor
+  }
+}
+
+// New price under a bulk price rule, as Shopify's "12.34" string. Formula rules need the variant's
+// inputs and report a formula that cannot be worked out for it as `error`.
+export function calculateNewPrice(
+  currentPrice: string,
+  rule: PriceRule,
+  action: PriceAction,
+  inputs?: FormulaInputs,
+): { price: string; error: null } | { price: null; error: string } {
+  const price = toMinor(currentPrice)
+  let newPrice = price
+
+  if (rule.type === "percentage") {
+    newPrice = percentOf(price, action === "increase" ? 100 + rule.value : 100 - rule.value)
+  } else if (rule.type === "fixed") {
+    newPrice = action === "increase" ? price + toMinor(rule.value) : price - toMinor(rule.value)
+  } else if (rule.type === "absolute") {
+    newPrice = toMinor(rule.value)
+  } else if (rule.type === "formula") {
+    const compiled = compileFormula(rule.formula)
+    if (compiled.error !== null) return { price: null, error: compiled.error }
+    if (!inputs) return { price: null, error: "The formula needs the variant's details" }
+    const result = evaluateFormula(compiled.formula, inputs)
+    if (result.error !== null) return { price: null, error: result.error }
+    newPrice = toMinor(result.value)
+    // A formula going to zero or below is a mistake, not something to clamp
+    if (newPrice < MIN_PRICE_MINOR) {
+      return { price: null, error: `The formula gives ${formatMinor(newPrice)}, prices must be above 0` }
+    }
+  }
+
+  // Apply minimum price rule only; Shopify enforces its own maximum
+  newPrice = Math.max(newPrice, MIN_PRICE_MINOR)
+
+  return { price: formatMinor(applyRounding(newPrice, rule.roundingRule)), error: null }
+}
+
+// Metal weight at the rule's rate plus making charges. That value is the regular price: a variant on sale
+// gets it as its compare-at price and keeps its markdown, the sale price moving by the same factor.
+function calculateMetalPrices(
+  price: string,
+  compareAtPrice: string | null | undefined,
+  link: MetalLink | null | undefined,
+  rule: PriceRule,
+): { newPrice: string; newCompareAtPrice: string | null; error: null } | { error: string } {
+  if (!link) {
+    return { error: "The variant has no metal type and weight metafields" }
+  }
+  const rate = rule.metalRates?.[link.metalType]
+  if (!rate || !(rate > 0)) {
+    return { error: `No rate entered for ${link.metalType}` }
+  }
+
+  const metalPrice = applyRounding(toMinor(link.weightGrams * rate) + toMinor(link.makingCharges), rule.roundingRule)
+  if (metalPrice < MIN_PRICE_MINOR) {
+    return { error: "Metal weight and making charges give no price" }
+  }
+
+  const priceMinor = toMinor(price)
+  const compareAtMinor = compareAtPrice ? toMinor(compareAtPrice) : null
+  if (compareAtMinor === null || compareAtMinor <= priceMinor || priceMinor <= 0) {
+    return { newPrice: formatMinor(metalPrice), newCompareAtPrice: compareAtPrice ?? null, error: null }
+  }
+  const scaled = Math.max(Math.round((metalPrice * priceMinor) / compareAtMinor), MIN_PRICE_MINOR)
+  const rounded = applyRounding(scaled, rule.roundingRule)
+  const salePrice = rounded < metalPrice ? rounded : scaled
+  if (salePrice >= metalPrice) {
+    return { error: "The metal price leaves no room for the variant's discount" }
+  }
+  return { newPrice: formatMinor(salePrice), newCompareAtPrice: formatMinor(metalPrice), error: null }
+}
+
+// Both prices of a variant under a bulk price rule; only variants that already have a compare-at
+// price get a new one. Formula rules set each price to the formula's value, with `price` and
+// `compareAtPrice` in the formula always the variant's current ones. Metal rate rules set both
+// prices whatever `applyTo` says.
+export function applyPriceRule<C extends string | null | undefined>(
+  price: string,
+  compareAtPrice: C,
+  rule: PriceRule,
+  action: PriceAction,
+  inputs: PriceRuleInputs = { cost: null, inventory: null, tags: [] },
+) {
+  if (rule.type === "metal_rate") {
+    const metal = calculateMetalPrices(price, compareAtPrice, inputs.metal, rule)
+    return metal.error !== null
+      ? { newPrice: price, newCompareAtPrice: compareAtPrice as string | C, error: metal.error }
+      : { newPrice: metal.newPrice, newCompareAtPrice: metal.newCompareAtPrice as string | C, error: null }
+  }
+
+  const updatesPrice = rule.applyTo === "price" || rule.applyTo === "both"
+  const updatesCompareAt = rule.applyTo === "compareAtPrice" || rule.applyTo === "both"
+  const { metal, ...variantInputs } = inputs
+  const formulaInputs = {
+    ...variantInputs,
+    price: fromMinor(toMinor(price)),
+    compareAtPrice: compareAtPrice ? fromMinor(toMinor(compareAtPrice)) : null,
+  }
+
+  const priceResult = updatesPrice ? calculateNewPrice(price, rule, action, formulaInputs) : null
+  const compareAtResult =
+    updatesCompareAt && compareAtPrice ? calculateNewPrice(compareAtPrice, rule, action, formulaInputs) : null
+  return {
+    newPrice: priceResult?.price ?? price,
+    newCompareAtPrice: (compareAtResult?.price ?? compareAtPrice) as string | C,
+    error: priceResult?.error ?? compareAtResult?.error ?? null,
+  }
+}
+
+// A bulk price rule in words, for logs and approval requests
+export function describePriceRule(rule: PriceRule, action: PriceAction) {
+  switch (rule.type) {
+    case "formula":
+      return `formula: ${rule.formula}`
+    case "explicit":
+      return "imported prices"
+    case "metal_rate":
+      return `metal rates: ${Object.entries(rule.metalRates ?? {})
+        .map(([metal, rate]) => `${metal} ${rate}/g`)
+        .join(", ")}`
+    case "percentage":
+      return `${action} ${rule.value}%`
+    case "fixed":
+      return `${action} by ${rule.value}`
+    default:
+      return `set to ${rule.value}`
+  }
+}
+
+/**
+ * Sale and compare-at prices a discount sets.
+ *
+ * Every mode works from the same base: the compare-at price when the variant is already discounted
+ * (Type 2), otherwise the current price (Type 1), which becomes the compare-at price. Only the new
+ * sale price differs per mode. `error` is set when the result breaks Shopify's 0 < price < compare-at.
+ *
+ * With `stack`, a discounted variant keeps its compare-at price but the discount comes off its current
+ * sale price, and a result that is not below that sale price is an error.
+ */
+export function calculateDiscountedPrices(
+  price: number,
+  compareAtPrice: number | null,
+  discount: Discount,
+  { stack = false }: { stack?: boolean } = {},
+) {
+  const priceMinor = toMinor(price)
+  const compareAtMinor = compareAtPrice === null ? null : toMinor(compareAtPrice)
+  const alreadyDiscounted = compareAtMinor !== null && compareAtMinor > priceMinor
+  // Type 2 keeps its compare-at price; Type 1 moves the current price to compare-at
+  const newCompareAtMinor = alreadyDiscounted ? (compareAtMinor as number) : priceMinor
+  const baseMinor = stack ? priceMinor : newCompareAtMinor
+
+  let newPriceMinor: number
+  switch (discount.mode) {
+    case "fixed_amount":
+      newPriceMinor = baseMinor - toMinor(discount.value)
+      break
+    case "target_price":
+      newPriceMinor = toMinor(discount.value)
+      break
+    default:
+      newPriceMinor = percentOf(baseMinor, 100 - discount.value)
+  }
+
+  let error: string | null = null
+  if (newPriceMinor <= 0) {
+    error = "New price would be zero or negative"
+  } else if (newPriceMinor >= newCompareAtMinor) {
+    error = "New price would be equal or greater than compare-at price"
+  } else if (stack && newPriceMinor >= priceMinor) {
+    error = "New price would not be below the current sale price"
+  }
+
+  return {
+    newPrice: fromMinor(newPriceMinor),
+    newCompareAtPrice: fromMinor(newCompareAtMinor),
+    alreadyDiscounted,
+    error,
+  }
+}
+
+// Percent off the compare-at price a discount works out to for one variant, to two decimals
+export function effectiveDiscountPercent(newPrice: number, newCompareAtPrice: number) {
+  const priceMinor = toMinor(newPrice)
+  const compareAtMinor = toMinor(newCompareAtPrice)
+  return compareAtMinor > 0 ? Math.round(((compareAtMinor - priceMinor) * 10000) / compareAtMinor) / 100 : 0
+}
@@ -0,0 +1,328 @@
+// Persisted per-store product snapshot, so page loads don't re-download the whole catalog.
+//
+// productCache/{storeDomain} holds the sync state; productCache/{storeDomain}/products/{id} holds one
+// raw product node each (the GET_ALL_PRODUCTS_ADMIN shape). Reads run a cheap incremental sync
+// (`updated_at:>` the last watermark) at most every SYNC_INTERVAL_MS; a full resync re-exports the
+// catalog and also drops products deleted outside the app. Shopify webhooks update single products
+// in between (app/api/webhooks/shopify). The cache is keyed by shop domain so every team member
+// shares one snapshot. Price differences the app did not cause are recorded as external changes.
+import { collection, doc, getDoc, getDocs, setDoc, writeBatch } from "firebase/firestore"
+import { createHash } from "crypto"
+import { db } from "@/db/db"
+import { diffVariantPrices, recordExternalChanges, type NewExternalChange } from "@/lib/external-changes"
+import { getAllProducts, getProductNode, getProductsUpdatedSince, getShopifyConfig } from "@/lib/shopify"
+
+const SYNC_INTERVAL_MS = 10_000
+// Re-read a little before the watermark: Shopify's search index lags behind writes
+const WATERMARK_OVERLAP_MS = 60_000
+// Firestore allows 500 writes per batch
+const WRITE_BATCH_SIZE = 400
+
+interface CacheState {
+  version: number
+  productCount: number
+  updatedSince: string // watermark for the next incremental sync
+  syncedAt: string
+  fullSyncedAt: string
+}
+
+export interface ProductSnapshot {
+  products: any[] // raw product nodes
+  version: number
+  etag: string
+  syncedAt: string
+  fullSyncedAt: string
+}
+
+// Snapshots already read from Firestore, reused while their version is current
+const loaded = new Map<string, { version: number; products: Map<string, any> }>()
+// One sync per store at a time within this process
+const inFlight = new Map<string, Promise<ProductSnapshot>>()
+
+function stateRef(storeDomain: string) {
+  return doc(db, "productCache", storeDomain)
+}
+
+function productsRef(storeDomain: string) {
+  return collection(db, "productCache", storeDomain, "products")
+}
+
+// gid://shopify/Product/123 -> 123
+function productDocId(productId: string) {
+  return productId.split("/").pop() as string
+}
+
+function toEtag(storeDomain: string, version: number) {
+  const store = createHash("sha1").update(storeDomain).digest("hex").slice(0, 12)
+  return `"${store}-${version}"`
+}
+
+async function readState(storeDomain: string) {
+  const snap = await getDoc(stateRef(storeDomain))
+  return snap.exists() ? (snap.data() as CacheState) : null
+}
+
+async function loadProducts(storeDomain: string, state: CacheState) {
+  const cached = loaded.get(storeDomain)
+  if (cached && cached.version === state.version) {
+    return cached.products
+  }
+
+  const snap = await getDocs(productsRef(storeDomain))
+  const products = new Map<string, any>()
+  snap.docs.forEach((productDoc) => products.set(productDoc.id, productDoc.data()))
+  loaded.set(storeDomain, { version: state.version, products })
+  return products
+}
+
+async function writeChanges(storeDomain: string, upserts: any[], removals: string[]) {
+  const operations = [
+    ...upserts.map((node) => ({ id: productDocId(node.id), node })),
+    ...removals.map((id) => ({ id, node: null })),
+  ]
+
+  for (let i = 0; i < operations.length; i += WRITE_BATCH_SIZE) {
+    const batch = writeBatch(db)
+    for (const { id, node } of operations.slice(i, i + WRITE_BATCH_SIZE)) {
+      const ref = doc(productsRef(storeDomain), id)
+      if (node) {
+        batch.set(ref, node)
+      } else {
+        batch.delete(ref)
+      }
+    }
+    await batch.commit()
+  }
+}
+
+async function sync(storeDomain: string, fullResync: boolean): Promise<ProductSnapshot> {
+  const state = await readState(storeDomain)
+  const now = Date.now()
+
+  if (state && !fullResync && now - Date.parse(state.syncedAt) < SYNC_INTERVAL_MS) {
+    const products = await loadProducts(storeDomain, state)
+    return toSnapshot(storeDomain, state, products)
+  }
+
+  const syncStartedAt = new Date(now).toISOString()
+  const products = state ? await loadProducts(storeDomain, state) : new Map<string, any>()
+
+  const full = fullResync || !state
+  let response
+  if (full || !state) {
+    console.log(`Product cache: full sync for ${storeDomain}`)
+    response = await getAllProducts()
+  } else {
+    const since = new Date(Date.parse(state.updatedSince) - WATERMARK_OVERLAP_MS).toISOString()
+    console.log(`Product cache: incremental sync for ${storeDomain} since ${since}`)
+    response = await getProductsUpdatedSince(since)
+  }
+
+  if (response.status !== 200) {
+    throw new Error(response.error || "Failed to fetch products from Shopify")
+  }
+
+  const fetched: any[] = response.body.data.products.edges.map((edge: any) => edge.node)
+
+  // Only write products that actually changed, so the version (and ETag) stays put otherwise
+  const upserts = fetched.filter((node) => products.get(productDocId(node.id))?.updatedAt !== node.updatedAt)
+  let removals: string[] = []
+  if (full) {
+    const fetchedIds = new Set(fetched.map((node) => productDocId(node.id)))
+    removals = Array.from(products.keys()).filter((id) => !fetchedIds.has(id))
+  }
+
+  // Compare against the previous snapshot before it is overwritten
+  const externalChanges: NewExternalChange[] = []
+  if (state) {
+    for (const node of upserts) {
+      const previous = products.get(productDocId(node.id))
+      if (previous) {
+        externalChanges.push(...(await diffVariantPrices(storeDomain, previous, node, "sync")))
+      }
+    }
+    removals.forEach((id) => externalChanges.push(toDeleteChange(products.get(id), "sync")))
+  }
+
+  await writeChanges(storeDomain, upserts, removals)
+  await recordExternalChanges(storeDomain, externalChanges)
+
+  upserts.forEach((node) => products.set(productDocId(node.id), node))
+  removals.forEach((id) => products.delete(id))
+
+  const changed = upserts.length > 0 || removals.length > 0
+  const nextState: CacheState = {
+    version: !state || changed ? (state?.version || 0) + 1 : state.version,
+    productCount: products.size,
+    updatedSince: syncStartedAt,
+    syncedAt: syncStartedAt,
+    fullSyncedAt: full || !state ? syncStartedAt : state.fullSyncedAt,
+  }
+  await setDoc(stateRef(storeDomain), nextState)
+  loaded.set(storeDomain, { version: nextState.version, products })
+
+  console.log(
+    `Product cache: ${upserts.length} updated, ${removals.length} removed, ${products.size} cached (v${nextState.version})`,
+  )
+  return toSnapshot(storeDomain, nextState, products)
+}
+
+function toSnapshot(storeDomain: string, state: CacheState, products: Map<string, any>): ProductSnapshot {
+  return {
+    products: Array.from(products.values()).sort((a, b) => (b.createdAt || "").localeCompare(a.createdAt || "")),
+    version: state.version,
+    etag: toEtag(storeDomain, state.version),
+    syncedAt: state.syncedAt,
+    fullSyncedAt: state.fullSyncedAt,
+  }
+}
+
+// Cached products for the store in scope, synced first when the snapshot is due for a check
+export async function getProductSnapshot({ fullResync = false } = {}): Promise<ProductSnapshot> {
+  const { storeDomain } = await getShopifyConfig()
+  const key = `${storeDomain}:${fullResync ? "full" : "incremental"}`
+
+  const running = inFlight.get(key)
+  if (running) {
+    return running
+  }
+
+  const pending = sync(storeDomain, fullResync).finally(() => inFlight.delete(key))
+  inFlight.set(key, pending)
+  return pending
+}
+
+function toDeleteChange(previous: any, source: NewExternalChange["source"]): NewExternalChange {
+  return {
+    kind: "product_delete",
+    source,
+    description: `Product deleted outside the app: ${previous.title}`,
+    productId: previous.id,
+    productTitle: previous.title,
+    oldValues: {
+      variants: (previous.variants?.edges || []).map((edge: any) => ({
+        id: edge.node.id,
+        sku: edge.node.sku,
+        price: edge.node.price,
+        compareAtPrice: edge.node.compareAtPrice,
+      })),
+    },
+  }
+}
+
+// Apply upserts/removals to an existing snapshot. Without one there is nothing to update:
+// the first read does a full sync anyway.
+async function updateCache(storeDomain: string, upserts: any[], removals: string[]) {
+  const state = await readState(storeDomain)
+  if (!state || (upserts.length === 0 && removals.length === 0)) return
+
+  const products = await loadProducts(storeDomain, state)
+  await writeChanges(storeDomain, upserts, removals)
+  upserts.forEach((node) => products.set(productDocId(node.id), node))
+  removals.forEach((id) => products.delete(id))
+
+  const nextState = { ...state, version: state.version + 1, productCount: products.size }
+  await setDoc(stateRef(storeDomain), nextState)
+  loaded.set(storeDomain, { version: nextState.version, products })
+}
+
+async function getCachedProducts(storeDomain: string) {
+  const state = await readState(storeDomain)
+  return state ? loadProducts(storeDomain, state) : null
+}
+
+// Drop deleted products right away; incremental syncs cannot see deletions.
+// The products are already gone from Shopify, so a failure here is only logged (a full resync fixes it).
+export async function removeCachedProducts(productIds: string[]) {
+  try {
+    const { storeDomain } = await getShopifyConfig()
+    const products = await getCachedProducts(storeDomain)
+    if (!products) return
+
+    await updateCache(
+      storeDomain,
+      [],
+      productIds.map(productDocId).filter((id) => products.has(id)),
+    )
+  } catch (error) {
+    console.error("Failed to remove products from the cache:", error)
+  }
+}
+
+// Re-fetch one product of the store in scope (products/update and inventory webhooks)
+export async function refreshCachedProduct(productId: string) {
+  const { storeDomain } = await getShopifyConfig()
+  const products = await getCachedProducts(storeDomain)
+  if (!products) return
+
+  const response = await getProductNode(productId)
+  if (response.status !== 200) {
+    throw new Error(response.error || "Failed to fetch product from Shopify")
+  }
+
+  const node = response.body.data.product
+  if (!node) {
+    // Deleted since the webhook was sent; products/delete follows
+    return
+  }
+
+  const previous = products.get(productDocId(node.id))
+  const changes = previous ? await diffVariantPrices(storeDomain, previous, node, "webhook") : []
+
+  await updateCache(storeDomain, [node], [])
+  await recordExternalChanges(storeDomain, changes)
+}
+
+// products/delete webhook. Deletes made through the app already left the cache, so only
+// products deleted elsewhere are still there (and recorded).
+export async function applyProductDelete(storeDomain: string, productId: string) {
+  const products = await getCachedProducts(storeDomain)
+  const previous = products?.get(productDocId(productId))
+  if (!previous) return
+
+  await updateCache(storeDomain, [], [productDocId(productId)])
+  await recordExternalChanges(storeDomain, [toDeleteChange(previous, "webhook")])
+}
+
+// collections/update webhook: refresh the collection title/handle on the cached products in it
+export async function applyCollectionUpdate(
+  storeDomain: string,
+  collection: { id: string; title: string; handle: string },
+) {
+  const products = await getCachedProducts(storeDomain)
+  if (!products) return
+
+  let previousTitle: string | null = null
+  const upserts: any[] = []
+  for (const product of Array.from(products.values())) {
+    const edges = product.collections?.edges || []
+    const match = edges.find((edge: any) => edge.node.id === collection.id)
+    if (!match || (match.node.title === collection.title && match.node.handle === collection.handle)) continue
+
+    previousTitle = match.node.title
+    upserts.push({
+      ...product,
+      collections: {
+        edges: edges.map((edge: any) =>
+          edge.node.id === collection.id
+            ? { node: { ...edge.node, title: collection.title, handle: collection.handle } }
+            : edge,
+        ),
+      },
+    })
+  }
+  if (upserts.length === 0) return
+
+  await updateCache(storeDomain, upserts, [])
+  await recordExternalChanges(storeDomain, [
+    {
+      kind: "collection_update",
+      source: "webhook",
+      description: `Collection updated outside the app: ${collection.title}`,
+      collectionId: collection.id,
+      collectionTitle: collection.title,
+      oldValues: { title: previousTitle },
+      newValues: { title: collection.title, handle: collection.handle },
+    },
+  ])
+}
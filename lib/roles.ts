@@ -0,0 +1,55 @@
+// Store-level team roles, shared by the API routes (enforcement) and the UI (hiding controls)
+
+export type StoreRole = "owner" | "pricing_manager" | "content_editor" | "viewer"
+
+export type Permission =
+  | "products:edit" // create/update products and upload images
+  | "products:delete"
+  | "prices:edit" // bulk price updates, discounts and rollbacks
+  | "team:manage"
+
+export const STORE_ROLES: { value: StoreRole; label: string; description: string }[] = [
+  { value: "owner", label: "Owner", description: "Full access, manages the team and reviews all approvals" },
+  { value: "pricing_manager", label: "Pricing manager", description: "Changes prices and discounts, reviews price approvals" },
+  { value: "content_editor", label: "Content editor", description: "Edits product content and images" },
+  { value: "viewer", label: "Viewer", description: "Read-only access" },
+]
+
+const ROLE_PERMISSIONS: Record<StoreRole, Permission[]> = {
+  owner: ["products:edit", "products:delete", "prices:edit", "team:manage"],
+  pricing_manager: ["prices:edit"],
+  content_editor: ["products:edit", "products:delete"],
+  viewer: [],
+}
+
+export function isStoreRole(value: unknown): value is StoreRole {
+  return typeof value === "string" && value in ROLE_PERMISSIONS
+}
+
+// Roles a team member can be given; "owner" belongs to the store's owner alone
+export type MemberRole = Exclude<StoreRole, "owner">
+
+export const MEMBER_ROLES = STORE_ROLES.filter((role) => role.value !== "owner")
+
+export function isMemberRole(value: unknown): value is MemberRole {
+  return isStoreRole(value) && value !== "owner"
+}
+
+export function hasPermission(role: StoreRole | null | undefined, permission: Permission) {
+  return !!role && ROLE_PERMISSIONS[role].includes(permission)
+}
+
+export function getRoleLabel(role: StoreRole) {
+  return STORE_ROLES.find((r) => r.value === role)?.label || role
+}
+
+// Operations that go through the approval workflow (see lib/approvals)
+export type ApprovalAction = "bulk_delete" | "price_change"
+
+// Sent when replaying an approved request against its original route
+export const APPROVAL_HEADER = "x-approval-id"
+
+// Owners review everything; pricing managers can also review price changes
+export function canReviewApproval(role: StoreRole | null | undefined, action: ApprovalAction) {
+  return role === "owner" || (role === "pricing_manager" && action === "price_change")
+}
@@ -0,0 +1,499 @@
+// Server-side rollback jobs.
+//
+// A job restores every variant of a discount batch, of all batches in a date range, or of a live
+// campaign. It finds them from recorded history (lib/discount-batches, lib/campaigns) rather than from
+// a selection in the browser. rollbackJobs/{id} holds the job (scope, status, progress counters) and
+// rollbackJobs/{id}/items/{variantId} one row per variant: the prices to restore and what happened,
+// which is also the downloadable report. Jobs run in chunks of RUN_CHUNK_SIZE variants per
+// /api/rollback-jobs/[id] POST, so a large job outlives request timeouts and reports progress as it goes.
+import {
+  addDoc,
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  increment,
+  limit,
+  query,
+  runTransaction,
+  where,
+  writeBatch,
+} from "firebase/firestore"
+import { db } from "@/db/db"
+import type { StoreAuth } from "@/lib/api-auth"
+import { claimCampaign, finishCampaignRevert, getCampaign, getCampaignItems, type CampaignItem } from "@/lib/campaigns"
+import {
+  getDiscountBatch,
+  getDiscountBatchItems,
+  listDiscountBatches,
+  type DiscountBatchItem,
+} from "@/lib/discount-batches"
+import { cancelSchedules, findDiscountConflicts, type DiscountConflict } from "@/lib/discounts"
+import { shopifyRestFetch } from "@/lib/shopify"
+import { toCsv } from "@/lib/spreadsheet"
+import { samePrice } from "@/lib/variant-writes"
+
+export type RollbackScope =
+  | { type: "batch"; batchId: string }
+  | { type: "date_range"; from: string; to: string } // ISO timestamps, inclusive
+  | { type: "campaign"; campaignId: string }
+
+export type RollbackJobStatus = "running" | "completed"
+
+export type RollbackItemStatus = "pending" | "reverted" | "skipped" | "failed"
+
+export interface RollbackJobItem {
+  variantId: string
+  productTitle: string
+  variantTitle: string
+  historyKeys: string[] // discount_history entries being rolled back, oldest first
+  restorePrice: string
+  restoreCompareAtPrice: string | null
+  // Prices the rolled-back discounts left; a variant priced differently now was edited since and is skipped
+  expectedPrice: string
+  expectedCompareAtPrice: string | null
+  status: RollbackItemStatus
+  currentPrice?: string // Live prices when the job reached the variant
+  currentCompareAtPrice?: string | null
+  error?: string
+  processedAt?: string
+}
+
+export interface RollbackJob {
+  id: string
+  teamId: string
+  ownerId: string
+  storeId: string
+  scope: RollbackScope
+  label: string
+  status: RollbackJobStatus
+  total: number
+  processed: number
+  reverted: number
+  skipped: number
+  failed: number
+  createdBy: { uid: string; email: string | null }
+  createdAt: string
+  updatedAt: string
+  finishedAt?: string
+  leaseUntil?: string | null // A chunk is running until then
+  leaseId?: string | null // The chunk holding the lease
+  error?: string // Why the job stopped before restoring anything
+}
+
+// Each variant takes a few Shopify calls; this keeps one chunk well inside a request timeout
+const RUN_CHUNK_SIZE = 25
+const LEASE_MS = 2 * 60 * 1000
+// Firestore allows 500 writes per batch
+const WRITE_BATCH_SIZE = 400
+
+function teamIdFor(auth: Pick<StoreAuth, "ownerId" | "storeId">) {
+  return `${auth.ownerId}_${auth.storeId}`
+}
+
+function jobRef(jobId: string) {
+  return doc(db, "rollbackJobs", jobId)
+}
+
+function itemsRef(jobId: string) {
+  return collection(db, "rollbackJobs", jobId, "items")
+}
+
+async function getUserEmail(uid: string) {
+  const snap = await getDoc(doc(db, "users", uid))
+  return snap.exists() ? (snap.data().email as string) || null : null
+}
+
+async function writeItems(jobId: string, items: RollbackJobItem[]) {
+  for (let i = 0; i < items.length; i += WRITE_BATCH_SIZE) {
+    const batch = writeBatch(db)
+    for (const item of items.slice(i, i + WRITE_BATCH_SIZE)) {
+      // Firestore rejects undefined fields
+      batch.set(doc(itemsRef(jobId), item.variantId.split("/").pop() as string), JSON.parse(JSON.stringify(item)))
+    }
+    await batch.commit()
+  }
+}
+
+// Check a scope's fields; returns an error message or null
+export function validateRollbackScope(scope: RollbackScope | undefined) {
+  switch (scope?.type) {
+    case "batch":
+      return scope.batchId ? null : "Batch ID is required"
+    case "campaign":
+      return scope.campaignId ? null : "Choose a campaign"
+    case "date_range":
+      if (Number.isNaN(Date.parse(scope.from)) || Number.isNaN(Date.parse(scope.to))) {
+        return "Date range needs a valid start and end"
+      }
+      return new Date(scope.from) <= new Date(scope.to) ? null : "Start of the range must be before its end"
+    default:
+      return "Choose a batch, date range or campaign to roll back"
+  }
+}
+
+// One item per variant across batches given oldest first: restore the prices from before the first
+// batch that touched it, expecting the prices the last one left
+function mergeBatchItems(batches: DiscountBatchItem[][]) {
+  const byVariant = new Map<string, RollbackJobItem>()
+  for (const items of batches) {
+    for (const item of items) {
+      const existing = byVariant.get(item.variantId)
+      if (existing) {
+        existing.historyKeys.push(item.historyKey)
+        existing.expectedPrice = item.discountedPrice
+        existing.expectedCompareAtPrice = item.discountedCompareAtPrice
+        continue
+      }
+      byVariant.set(item.variantId, {
+        variantId: item.variantId,
+        productTitle: item.productTitle,
+        variantTitle: item.variantTitle,
+        historyKeys: [item.historyKey],
+        restorePrice: item.originalPrice,
+        restoreCompareAtPrice: item.originalCompareAtPrice,
+        expectedPrice: item.discountedPrice,
+        expectedCompareAtPrice: item.discountedCompareAtPrice,
+        status: "pending",
+      })
+    }
+  }
+  return Array.from(byVariant.values())
+}
+
+function fromCampaignItem(item: CampaignItem): RollbackJobItem {
+  return {
+    variantId: item.variantId,
+    productTitle: item.productTitle,
+    variantTitle: item.variantTitle,
+    historyKeys: item.historyKey ? [item.historyKey] : [],
+    restorePrice: item.originalPrice as string,
+    restoreCompareAtPrice: item.originalCompareAtPrice ?? null,
+    expectedPrice: item.discountedPrice as string,
+    expectedCompareAtPrice: item.discountedCompareAtPrice ?? null,
+    status: "pending",
+  }
+}
+
+/**
+ * The variants a scope covers and what each goes back to, without writing anything.
+ * Returns null when the batch or campaign does not exist in this store.
+ */
+export async function resolveRollbackScope(
+  auth: Pick<StoreAuth, "ownerId" | "storeId">,
+  scope: RollbackScope,
+): Promise<{ label: string; items: RollbackJobItem[] } | null> {
+  if (scope.type === "batch") {
+    const batch = await getDiscountBatch(auth, scope.batchId)
+    if (!batch) return null
+    return {
+      label: `${batch.label} (${batch.createdAt.slice(0, 10)})`,
+      items: mergeBatchItems([await getDiscountBatchItems(batch.id)]),
+    }
+  }
+
+  if (scope.type === "date_range") {
+    const batches = (await listDiscountBatches(auth, { from: scope.from, to: scope.to })).reverse()
+    const items: DiscountBatchItem[][] = []
+    for (const batch of batches) {
+      items.push(await getDiscountBatchItems(batch.id))
+    }
+    return {
+      label: `Discounts from ${scope.from.slice(0, 10)} to ${scope.to.slice(0, 10)}`,
+      items: mergeBatchItems(items),
+    }
+  }
+
+  const campaign = await getCampaign(auth, scope.campaignId)
+  if (!campaign) return null
+  // Only a live campaign still has discounted variants
+  const items = campaign.status === "live" ? await getCampaignItems(campaign.id) : []
+  return {
+    label: `Campaign "${campaign.name}"`,
+    items: items.filter((item) => item.status === "applied").map(fromCampaignItem),
+  }
+}
+
+export async function createRollbackJob(
+  auth: StoreAuth,
+  scope: RollbackScope,
+  resolved: { label: string; items: RollbackJobItem[] },
+): Promise<RollbackJob> {
+  const now = new Date().toISOString()
+  const job: Omit<RollbackJob, "id"> = {
+    teamId: teamIdFor(auth),
+    ownerId: auth.ownerId,
+    storeId: auth.storeId,
+    scope,
+    label: resolved.label,
+    status: "running",
+    total: resolved.items.length,
+    processed: 0,
+    reverted: 0,
+    skipped: 0,
+    failed: 0,
+    createdBy: { uid: auth.uid, email: await getUserEmail(auth.uid) },
+    createdAt: now,
+    updatedAt: now,
+    leaseUntil: null,
+  }
+  const ref = await addDoc(collection(db, "rollbackJobs"), job)
+  await writeItems(ref.id, resolved.items)
+
+  console.log(`Rollback job ${ref.id} created for ${job.label}: ${job.total} variants`)
+  return { id: ref.id, ...job }
+}
+
+export async function listRollbackJobs(auth: Pick<StoreAuth, "ownerId" | "storeId">): Promise<RollbackJob[]> {
+  const snap = await getDocs(query(collection(db, "rollbackJobs"), where("teamId", "==", teamIdFor(auth))))
+  return snap.docs
+    .map((jobDoc) => ({ id: jobDoc.id, ...(jobDoc.data() as Omit<RollbackJob, "id">) }))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+}
+
+export async function getRollbackJob(auth: Pick<StoreAuth, "ownerId" | "storeId">, jobId: string) {
+  const snap = await getDoc(jobRef(jobId))
+  if (!snap.exists() || snap.data().teamId !== teamIdFor(auth)) {
+    return null
+  }
+  return { id: snap.id, ...(snap.data() as Omit<RollbackJob, "id">) }
+}
+
+export async function getRollbackJobItems(jobId: string): Promise<RollbackJobItem[]> {
+  const snap = await getDocs(itemsRef(jobId))
+  return snap.docs.map((itemDoc) => itemDoc.data() as RollbackJobItem)
+}
+
+// Restore one variant, unless its price changed since the discount being rolled back
+async function revertItem(job: RollbackJob, item: RollbackJobItem, conflict?: DiscountConflict): Promise<RollbackJobItem> {
+  const numericVariantId = item.variantId.split("/").pop()
+  const variantResponse = await shopifyRestFetch(`variants/${numericVariantId}.json`)
+  if (variantResponse.status !== 200) {
+    return { ...item, status: "failed", error: variantResponse.error || "Failed to fetch variant" }
+  }
+
+  const current = variantResponse.body.variant
+  const seen: RollbackJobItem = {
+    ...item,
+    currentPrice: current.price,
+    currentCompareAtPrice: current.compare_at_price,
+    processedAt: new Date().toISOString(),
+  }
+  if (samePrice(current.price, item.restorePrice) && samePrice(current.compare_at_price, item.restoreCompareAtPrice)) {
+    return { ...seen, status: "skipped", error: "Already at the restored prices" }
+  }
+  if (!samePrice(current.price, item.expectedPrice) || !samePrice(current.compare_at_price, item.expectedCompareAtPrice)) {
+    return { ...seen, status: "skipped", error: `Price changed since the discount (now ${current.price}); left as is` }
+  }
+
+  const updateResponse = await shopifyRestFetch(`variants/${numericVariantId}.json`, {
+    method: "PUT",
+    body: JSON.stringify({
+      variant: { id: current.id, price: item.restorePrice, compare_at_price: item.restoreCompareAtPrice },
+    }),
+  })
+  if (updateResponse.status !== 200) {
+    return { ...seen, status: "failed", error: updateResponse.error || "Failed to restore price" }
+  }
+
+  await shopifyRestFetch(`variants/${numericVariantId}/metafields.json`, {
+    method: "POST",
+    body: JSON.stringify({
+      metafield: {
+        namespace: "discount_history",
+        key: `rollback_${Date.now()}`,
+        value: JSON.stringify({
+          action: `Rolled back ${job.label}`,
+          date: new Date().toISOString(),
+          rolled_back_key: item.historyKeys[item.historyKeys.length - 1],
+          rollback_job: job.id,
+          reverted_to_price: item.restorePrice,
+          reverted_to_compare_at_price: item.restoreCompareAtPrice,
+        }),
+        type: "json",
+      },
+    }),
+  })
+
+  // Prices matched what the discount left, so any pending reversion belongs to it and is now moot
+  if (conflict && conflict.pendingSchedules.length > 0) {
+    await cancelSchedules(conflict, "Rolled back by a rollback job")
+  }
+  return { ...seen, status: "reverted", error: undefined }
+}
+
+// A campaign job takes the campaign over (live → reverting) when it starts running, so the campaign's own end or
+// rollback cannot run alongside; later chunks find it already held. Returns false when the campaign is no longer live
+async function holdCampaign(auth: StoreAuth, job: RollbackJob) {
+  if (job.scope.type !== "campaign") return true
+  const campaign = await getCampaign(auth, job.scope.campaignId)
+  if (campaign?.status === "reverting" && campaign.claimedBy === job.id) return true
+  return (await claimCampaign(job.scope.campaignId, ["live"], "reverting", { claimedBy: job.id })) !== null
+}
+
+// Hand the results back to the campaign the job took over
+async function finishCampaign(auth: StoreAuth, job: RollbackJob) {
+  if (job.scope.type !== "campaign") return
+  const campaign = await getCampaign(auth, job.scope.campaignId)
+  if (!campaign) return
+
+  const results = new Map((await getRollbackJobItems(job.id)).map((item) => [item.variantId, item]))
+  const reverted: CampaignItem[] = (await getCampaignItems(campaign.id))
+    .filter((item) => item.status === "applied")
+    .map((item) => {
+      const result = results.get(item.variantId)
+      if (result?.status === "reverted" || result?.status === "skipped") {
+        return { ...item, status: result.status, error: result.error }
+      }
+      return { ...item, error: result?.error }
+    })
+  await finishCampaignRevert(campaign, reverted, "rolled_back")
+}
+
+// End the chunk's lease with `update`. Returns the updated job, or null when another chunk has taken the job
+// over since; that chunk settles the job then.
+async function releaseLease(
+  jobId: string,
+  leaseId: string,
+  update: Partial<RollbackJob>,
+): Promise<RollbackJob | null> {
+  return runTransaction(db, async (transaction) => {
+    const snap = await transaction.get(jobRef(jobId))
+    const current = { id: snap.id, ...(snap.data() as Omit<RollbackJob, "id">) }
+    if (current.leaseId !== leaseId) {
+      return null
+    }
+    const released = { ...update, updatedAt: new Date().toISOString(), leaseUntil: null, leaseId: null }
+    transaction.update(jobRef(jobId), released)
+    return { ...current, ...released }
+  })
+}
+
+/**
+ * Restore the job's next chunk of pending variants in the store in scope.
+ * Returns the job with updated progress (unchanged while another chunk holds the lease),
+ * or null when it does not exist in this store.
+ */
+export async function runRollbackJob(auth: StoreAuth, jobId: string): Promise<RollbackJob | null> {
+  const now = new Date()
+  const leased = await runTransaction(db, async (transaction) => {
+    const snap = await transaction.get(jobRef(jobId))
+    if (!snap.exists() || snap.data().teamId !== teamIdFor(auth)) {
+      return null
+    }
+    const job = { id: snap.id, ...(snap.data() as Omit<RollbackJob, "id">) }
+    if (job.status !== "running" || (job.leaseUntil && new Date(job.leaseUntil) > now)) {
+      return { job, leaseId: null }
+    }
+    const leaseId = doc(collection(db, "rollbackJobs")).id
+    transaction.update(jobRef(jobId), { leaseUntil: new Date(now.getTime() + LEASE_MS).toISOString(), leaseId })
+    return { job, leaseId }
+  })
+  if (!leased?.leaseId) {
+    return leased?.job ?? null
+  }
+
+  const { job, leaseId } = leased
+  if (!(await holdCampaign(auth, job))) {
+    const stopped = await releaseLease(jobId, leaseId, {
+      status: "completed",
+      error: "Campaign is no longer live",
+      finishedAt: new Date().toISOString(),
+    })
+    return stopped ?? getRollbackJob(auth, jobId)
+  }
+
+  // Each variant's result and counters are written as soon as it is restored, under the lease, so a chunk that
+  // dies midway or loses its lease to a retry leaves neither redone items nor counters overwritten from stale reads
+  const record = async (item: RollbackJobItem) => {
+    const held = await runTransaction(db, async (transaction) => {
+      const snap = await transaction.get(jobRef(jobId))
+      if (snap.data()?.leaseId !== leaseId) {
+        return false
+      }
+      // Firestore rejects undefined fields
+      transaction.set(doc(itemsRef(jobId), item.variantId.split("/").pop() as string), JSON.parse(JSON.stringify(item)))
+      transaction.update(jobRef(jobId), {
+        processed: increment(1),
+        [item.status as "reverted" | "skipped" | "failed"]: increment(1),
+        leaseUntil: new Date(Date.now() + LEASE_MS).toISOString(),
+        updatedAt: new Date().toISOString(),
+      })
+      return true
+    })
+    if (!held) {
+      throw new Error(`Rollback job ${jobId} was taken over by another run`)
+    }
+  }
+
+  const pending = (await getDocs(query(itemsRef(jobId), where("status", "==", "pending"), limit(RUN_CHUNK_SIZE)))).docs.map(
+    (itemDoc) => itemDoc.data() as RollbackJobItem,
+  )
+  const finished = pending.length < RUN_CHUNK_SIZE
+  try {
+    const conflicts = pending.length > 0 ? await findDiscountConflicts(pending.map((item) => item.variantId)) : new Map()
+    for (const item of pending) {
+      let done: RollbackJobItem
+      try {
+        done = await revertItem(job, item, conflicts.get(item.variantId))
+      } catch (error) {
+        done = { ...item, status: "failed", error: error instanceof Error ? error.message : "Unknown error" }
+      }
+      await record(done)
+    }
+    // Only the run still holding the lease hands the campaign back
+    if (finished && (await getDoc(jobRef(jobId))).data()?.leaseId === leaseId) {
+      await finishCampaign(auth, job)
+    }
+  } catch (error) {
+    await releaseLease(jobId, leaseId, {})
+    throw error
+  }
+
+  const updated = await releaseLease(
+    jobId,
+    leaseId,
+    finished ? { status: "completed", finishedAt: new Date().toISOString() } : {},
+  )
+  if (!updated) {
+    return getRollbackJob(auth, jobId)
+  }
+
+  if (finished) {
+    console.log(`Rollback job ${jobId} completed: ${updated.reverted} reverted, ${updated.skipped} skipped, ${updated.failed} failed`)
+  }
+  return updated
+}
+
+// One row per variant: what it was priced at when the job reached it, what it was restored to, and why not
+export function rollbackReportCsv(items: RollbackJobItem[]) {
+  const header = [
+    "Variant ID",
+    "Product",
+    "Variant",
+    "Status",
+    "Price Before",
+    "Compare At Before",
+    "Restored Price",
+    "Restored Compare At",
+    "History Entries",
+    "Processed At",
+    "Message",
+  ]
+  const rows = items
+    .sort((a, b) => a.productTitle.localeCompare(b.productTitle) || a.variantTitle.localeCompare(b.variantTitle))
+    .map((item) => [
+      item.variantId,
+      item.productTitle,
+      item.variantTitle,
+      item.status,
+      item.currentPrice,
+      item.currentCompareAtPrice,
+      item.restorePrice,
+      item.restoreCompareAtPrice,
+      item.historyKeys.join(" "),
+      item.processedAt,
+      item.error,
+    ])
+  return toCsv([header, ...rows])
+}
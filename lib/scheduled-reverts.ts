@@ -0,0 +1,407 @@
+// Ends expiring discounts: restores the prices saved in `discount_schedule` variant metafields
+// (written by apply-discount-enhanced) once their expiry date has passed.
+//
+// Schedules live on Shopify and are indexed by expiry in Firestore discountSchedules/{storeDomain}/pending
+// when they are written, so a run reads the due ones directly instead of scanning the catalog. Schedules
+// written before the index existed are added by a one-off scan that resumes across runs. Firestore
+// scheduledReverts/{storeDomain}_{metafieldId} is the claim that keeps two overlapping runs (cron retries,
+// a manual run) from processing the same schedule.
+import {
+  collection,
+  deleteDoc,
+  doc,
+  getDoc,
+  getDocs,
+  limit,
+  orderBy,
+  query,
+  runTransaction,
+  setDoc,
+  where,
+} from "firebase/firestore"
+import { db } from "@/db/db"
+import {
+  getShopifyConfig,
+  getVariantPrices,
+  shopifyAdminFetch,
+  shopifyRestFetch,
+  type LiveVariantPrice,
+} from "@/lib/shopify"
+import { isOwnVariantWrite, samePrice } from "@/lib/variant-writes"
+
+// A claim older than this belongs to a run that died; let the next run retry it
+const CLAIM_TIMEOUT_MS = 15 * 60 * 1000
+// Due schedules read per run; the next run takes the rest
+const DUE_LIMIT = 200
+
+const SCHEDULE_METAFIELDS_QUERY = `
+  query scheduleMetafields($ids: [ID!]!) {
+    nodes(ids: $ids) {
+      ... on Metafield {
+        id
+        value
+      }
+    }
+  }
+`
+
+const SCHEDULED_VARIANTS_PAGE_QUERY = `
+  query scheduledVariants($first: Int!, $after: String) {
+    productVariants(first: $first, after: $after) {
+      pageInfo {
+        hasNextPage
+        endCursor
+      }
+      edges {
+        node {
+          id
+          metafields(namespace: "discount_schedule", first: 10) {
+            edges {
+              node {
+                id
+                value
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+`
+
+export interface DiscountSchedule {
+  variant_id: string
+  expiry_date: string
+  original_price: string
+  original_compare_at_price: string | null
+  // Prices the discount set; absent on schedules written before they were recorded
+  discounted_price?: string
+  discounted_compare_at_price?: string | null
+  scheduled_at: string
+  status?: "scheduled" | "reverted" | "skipped"
+  processed_at?: string
+  reason?: string
+}
+
+export interface RevertResult {
+  variantId: string
+  productTitle: string
+  variantTitle: string
+  sku: string
+  status: "reverted" | "skipped" | "failed"
+  reason?: string
+  restoredPrice?: string
+  restoredCompareAtPrice?: string | null
+  currentPrice?: string
+  currentCompareAtPrice?: string | null
+}
+
+export interface RevertReport {
+  storeDomain: string
+  due: number
+  reverted: number
+  skipped: number
+  failed: number
+  results: RevertResult[]
+}
+
+interface DueSchedule {
+  metafieldId: string
+  schedule: DiscountSchedule
+  variant: { id: string; title: string; sku: string; price: string; compareAtPrice: string | null; productTitle: string }
+}
+
+function numericId(gid: string) {
+  return gid.split("/").pop() as string
+}
+
+function toScheduleVariant(node: LiveVariantPrice): DueSchedule["variant"] {
+  return {
+    id: node.id,
+    title: node.title,
+    sku: node.sku || "",
+    price: node.price,
+    compareAtPrice: node.compareAtPrice,
+    productTitle: node.product?.title || "Unknown Product",
+  }
+}
+
+function parseSchedule(metafield: { id: string; value: string }): DiscountSchedule | null {
+  try {
+    return JSON.parse(metafield.value)
+  } catch {
+    console.warn("Ignoring unreadable discount schedule:", metafield.id)
+    return null
+  }
+}
+
+function isPending(schedule: DiscountSchedule) {
+  return !schedule.status || schedule.status === "scheduled"
+}
+
+function indexRef(storeDomain: string) {
+  return collection(db, "discountSchedules", storeDomain, "pending")
+}
+
+interface IndexedSchedule {
+  metafieldId: string // Metafield GID
+  variantId: string // Variant GID
+  expiryDate: string // ISO, so it orders and compares as text
+}
+
+// Add a pending schedule to the store's expiry index; called when the schedule metafield is written
+export async function indexSchedule(storeDomain: string, metafieldId: string, schedule: DiscountSchedule) {
+  if (Number.isNaN(Date.parse(schedule.expiry_date))) {
+    console.warn("Not indexing discount schedule without a valid expiry date:", metafieldId)
+    return
+  }
+  const entry: IndexedSchedule = {
+    metafieldId: `gid://shopify/Metafield/${numericId(metafieldId)}`,
+    variantId: `gid://shopify/ProductVariant/${numericId(schedule.variant_id)}`,
+    expiryDate: new Date(schedule.expiry_date).toISOString(),
+  }
+  await setDoc(doc(indexRef(storeDomain), numericId(metafieldId)), entry)
+}
+
+async function unindexSchedule(storeDomain: string, metafieldId: string) {
+  await deleteDoc(doc(indexRef(storeDomain), numericId(metafieldId)))
+}
+
+// Index the pending schedules written before the index existed, page by page from where the last run
+// stopped, until `deadline`. Returns whether the scan is complete.
+async function backfillScheduleIndex(storeDomain: string, deadline: number) {
+  const stateRef = doc(db, "discountSchedules", storeDomain)
+  const state = await getDoc(stateRef)
+  if (state.exists() && state.data().backfilledAt) {
+    return true
+  }
+
+  let after: string | null = state.exists() ? state.data().backfillCursor ?? null : null
+  while (Date.now() < deadline) {
+    const response = await shopifyAdminFetch({ query: SCHEDULED_VARIANTS_PAGE_QUERY, variables: { first: 100, after } })
+    if (response.status !== 200 || response.body?.errors) {
+      throw new Error(response.error || "Failed to fetch discount schedules")
+    }
+
+    const { edges, pageInfo } = response.body.data.productVariants
+    for (const { node } of edges) {
+      for (const { node: metafield } of node.metafields.edges) {
+        const schedule = parseSchedule(metafield)
+        if (schedule && isPending(schedule)) {
+          await indexSchedule(storeDomain, metafield.id, { ...schedule, variant_id: node.id })
+        }
+      }
+    }
+
+    if (!pageInfo.hasNextPage) {
+      await setDoc(stateRef, { backfilledAt: new Date().toISOString(), backfillCursor: null })
+      return true
+    }
+    after = pageInfo.endCursor
+    await setDoc(stateRef, { backfillCursor: after }, { merge: true })
+  }
+  return false
+}
+
+async function getScheduleMetafields(metafieldIds: string[]) {
+  const metafields = new Map<string, { id: string; value: string }>()
+  for (let i = 0; i < metafieldIds.length; i += 50) {
+    const response = await shopifyAdminFetch({
+      query: SCHEDULE_METAFIELDS_QUERY,
+      variables: { ids: metafieldIds.slice(i, i + 50) },
+    })
+    if (response.error || response.body?.errors) {
+      throw new Error(response.error || response.body.errors[0]?.message || "Failed to fetch discount schedules")
+    }
+    for (const node of response.body?.data?.nodes || []) {
+      if (node?.id) metafields.set(node.id, node)
+    }
+  }
+  return metafields
+}
+
+// Due schedules from the index, with their current metafield value and variant. Entries whose schedule
+// was cancelled, processed or deleted since are dropped from the index.
+async function findDueSchedules(storeDomain: string, now: Date): Promise<DueSchedule[]> {
+  const snap = await getDocs(
+    query(indexRef(storeDomain), where("expiryDate", "<=", now.toISOString()), orderBy("expiryDate"), limit(DUE_LIMIT)),
+  )
+  const entries = snap.docs.map((entryDoc) => entryDoc.data() as IndexedSchedule)
+  if (entries.length === 0) {
+    return []
+  }
+
+  const [metafields, variants] = await Promise.all([
+    getScheduleMetafields(entries.map((entry) => entry.metafieldId)),
+    getVariantPrices(entries.map((entry) => entry.variantId)),
+  ])
+  const due: DueSchedule[] = []
+  for (const entry of entries) {
+    const metafield = metafields.get(entry.metafieldId)
+    const variant = variants.get(entry.variantId)
+    const schedule = metafield ? parseSchedule(metafield) : null
+    if (!variant || !schedule || !isPending(schedule)) {
+      await unindexSchedule(storeDomain, entry.metafieldId)
+      continue
+    }
+    due.push({ metafieldId: entry.metafieldId, schedule, variant: toScheduleVariant(variant) })
+  }
+  return due
+}
+
+// Take the schedule for this run; false when another run has it or already finished it
+async function claimSchedule(storeDomain: string, metafieldId: string) {
+  const ref = doc(db, "scheduledReverts", `${storeDomain}_${numericId(metafieldId)}`)
+  return runTransaction(db, async (transaction) => {
+    const snap = await transaction.get(ref)
+    const claim = snap.exists() ? snap.data() : null
+    if (claim?.status === "done") {
+      return false
+    }
+    if (claim?.status === "processing" && Date.now() - Date.parse(claim.claimedAt) < CLAIM_TIMEOUT_MS) {
+      return false
+    }
+    transaction.set(ref, { storeDomain, metafieldId, status: "processing", claimedAt: new Date().toISOString() })
+    return true
+  })
+}
+
+async function releaseSchedule(storeDomain: string, metafieldId: string, result: RevertResult) {
+  const ref = doc(db, "scheduledReverts", `${storeDomain}_${numericId(metafieldId)}`)
+  // Failed reverts are released so the next run retries them
+  await setDoc(ref, {
+    storeDomain,
+    metafieldId,
+    status: result.status === "failed" ? "failed" : "done",
+    finishedAt: new Date().toISOString(),
+    result: JSON.parse(JSON.stringify(result)),
+  })
+}
+
+// Whether the variant still carries the discount we applied
+async function isUnchangedSinceDiscount(storeDomain: string, schedule: DiscountSchedule, current: any) {
+  if (schedule.discounted_price !== undefined) {
+    return (
+      samePrice(current.price, schedule.discounted_price) &&
+      samePrice(current.compare_at_price, schedule.discounted_compare_at_price ?? null)
+    )
+  }
+  // Older schedules: fall back to the prices this app last wrote to the variant
+  return isOwnVariantWrite(storeDomain, `gid://shopify/ProductVariant/${current.id}`, {
+    price: current.price,
+    compareAtPrice: current.compare_at_price,
+  })
+}
+
+async function markScheduleProcessed(
+  storeDomain: string,
+  metafieldId: string,
+  schedule: DiscountSchedule,
+  status: "reverted" | "skipped",
+  reason?: string,
+) {
+  const value: DiscountSchedule = { ...schedule, status, processed_at: new Date().toISOString(), reason }
+  const response = await shopifyRestFetch(`metafields/${numericId(metafieldId)}.json`, {
+    method: "PUT",
+    body: JSON.stringify({ metafield: { id: Number(numericId(metafieldId)), value: JSON.stringify(value), type: "json" } }),
+  })
+  if (response.status !== 200) {
+    console.error("Failed to mark discount schedule processed:", response.error)
+  }
+  await unindexSchedule(storeDomain, metafieldId)
+}
+
+async function processSchedule(storeDomain: string, { metafieldId, schedule, variant }: DueSchedule) {
+  const result: RevertResult = {
+    variantId: variant.id,
+    productTitle: variant.productTitle,
+    variantTitle: variant.title,
+    sku: variant.sku,
+    status: "failed",
+  }
+
+  // Re-read the variant right before writing over it
+  const variantResponse = await shopifyRestFetch(`variants/${numericId(variant.id)}.json`)
+  if (variantResponse.status !== 200) {
+    return { ...result, reason: variantResponse.error || "Failed to fetch variant" }
+  }
+  const current = variantResponse.body.variant
+  result.currentPrice = current.price
+  result.currentCompareAtPrice = current.compare_at_price
+
+  if (!(await isUnchangedSinceDiscount(storeDomain, schedule, current))) {
+    const reason = "Price changed since the discount was applied; left as is"
+    await markScheduleProcessed(storeDomain, metafieldId, schedule, "skipped", reason)
+    return { ...result, status: "skipped" as const, reason }
+  }
+
+  const updateResponse = await shopifyRestFetch(`variants/${current.id}.json`, {
+    method: "PUT",
+    body: JSON.stringify({
+      variant: {
+        id: current.id,
+        price: schedule.original_price,
+        compare_at_price: schedule.original_compare_at_price,
+      },
+    }),
+  })
+  if (updateResponse.status !== 200) {
+    return { ...result, reason: updateResponse.error || "Failed to restore price" }
+  }
+
+  await markScheduleProcessed(storeDomain, metafieldId, schedule, "reverted")
+  return {
+    ...result,
+    status: "reverted" as const,
+    restoredPrice: schedule.original_price,
+    restoredCompareAtPrice: schedule.original_compare_at_price,
+  }
+}
+
+// Revert the due discount schedules of the store in scope, starting none after `deadline` (epoch ms)
+export async function processDueReverts(deadline: number, now = new Date()): Promise<RevertReport> {
+  const { storeDomain } = await getShopifyConfig()
+  if (!(await backfillScheduleIndex(storeDomain, deadline))) {
+    console.log(`Still indexing existing discount schedules for ${storeDomain}`)
+  }
+  const due = await findDueSchedules(storeDomain, now)
+  const results: RevertResult[] = []
+
+  console.log(`Found ${due.length} due discount schedules for ${storeDomain}`)
+
+  for (const item of due) {
+    if (Date.now() >= deadline) {
+      break // The next run picks up the rest
+    }
+    if (!(await claimSchedule(storeDomain, item.metafieldId))) {
+      console.log("Discount schedule already claimed by another run:", item.metafieldId)
+      continue
+    }
+
+    let result: RevertResult
+    try {
+      result = await processSchedule(storeDomain, item)
+    } catch (error) {
+      result = {
+        variantId: item.variant.id,
+        productTitle: item.variant.productTitle,
+        variantTitle: item.variant.title,
+        sku: item.variant.sku,
+        status: "failed",
+        reason: error instanceof Error ? error.message : "Unknown error",
+      }
+    }
+
+    await releaseSchedule(storeDomain, item.metafieldId, result)
+    results.push(result)
+  }
+
+  return {
+    storeDomain,
+    due: due.length,
+    reverted: results.filter((r) => r.status === "reverted").length,
+    skipped: results.filter((r) => r.status === "skipped").length,
+    failed: results.filter((r) => r.status === "failed").length,
+    results,
+  }
+}
@@ -0,0 +1,111 @@
+// Shopify OAuth app install flow: authorize URL, HMAC checks and token exchange
+import crypto from "node:crypto"
+
+// Scopes the app needs for products, pricing, discounts and inventory
+export const SHOPIFY_SCOPES = process.env.SHOPIFY_SCOPES || "read_products,write_products,read_inventory"
+
+export const OAUTH_STATE_COOKIE = "shopify_oauth_state"
+
+export interface OAuthState {
+  nonce: string
+  shop: string
+  userId: string
+  storeId: string
+}
+
+export function getAppCredentials() {
+  return {
+    apiKey: process.env.SHOPIFY_API_KEY || "",
+    apiSecret: process.env.SHOPIFY_API_SECRET || "",
+  }
+}
+
+// Only accept real myshopify.com hostnames as the `shop` parameter
+export function isValidShopDomain(shop: string | null): shop is string {
+  return !!shop && /^[a-z0-9][a-z0-9-]*\.myshopify\.com$/i.test(shop)
+}
+
+// SHOPIFY_OAUTH_BASE_URL points the flow at a local fake OAuth server for testing
+function getOAuthBaseUrl(shop: string) {
+  return (process.env.SHOPIFY_OAUTH_BASE_URL || `https://${shop}`).replace(/\/$/, "")
+}
+
+export function buildAuthorizeUrl(shop: string, state: string, redirectUri: string) {
+  const { apiKey } = getAppCredentials()
+  const params = new URLSearchParams({
+    client_id: apiKey,
+    scope: SHOPIFY_SCOPES,
+    redirect_uri: redirectUri,
+    state,
+  })
+  // No grant_options[]=per-user, so Shopify issues an offline token
+  return `${getOAuthBaseUrl(shop)}/admin/oauth/authorize?${params.toString()}`
+}
+
+export function createNonce() {
+  return crypto.randomBytes(16).toString("hex")
+}
+
+function safeCompare(a: string, b: string) {
+  const bufferA = Buffer.from(a)
+  const bufferB = Buffer.from(b)
+  return bufferA.length === bufferB.length && crypto.timingSafeEqual(bufferA, bufferB)
+}
+
+// Verify the `hmac` query parameter Shopify adds to the OAuth callback
+export function verifyOAuthHmac(searchParams: URLSearchParams, secret: string) {
+  const hmac = searchParams.get("hmac")
+  if (!hmac || !secret) {
+    return false
+  }
+
+  const message = Array.from(searchParams.entries())
+    .filter(([key]) => key !== "hmac" && key !== "signature")
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, value]) => `${key}=${value}`)
+    .join("&")
+
+  const digest = crypto.createHmac("sha256", secret).update(message).digest("hex")
+  return safeCompare(digest, hmac)
+}
+
+// Verify the X-Shopify-Hmac-Sha256 header on webhook deliveries
+export function verifyWebhookHmac(rawBody: string, hmacHeader: string | null, secret: string) {
+  if (!hmacHeader || !secret) {
+    return false
+  }
+  const digest = crypto.createHmac("sha256", secret).update(rawBody, "utf8").digest("base64")
+  return safeCompare(digest, hmacHeader)
+}
+
+// Exchange the authorization code for an offline access token
+export async function exchangeCodeForToken(shop: string, code: string) {
+  const { apiKey, apiSecret } = getAppCredentials()
+
+  try {
+    const response = await fetch(`${getOAuthBaseUrl(shop)}/admin/oauth/access_token`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Accept: "application/json" },
+      body: JSON.stringify({ client_id: apiKey, client_secret: apiSecret, code }),
+    })
+
+    const responseText = await response.text()
+    if (!response.ok) {
+      console.error("Token exchange failed:", response.status, responseText)
+      return { status: response.status, error: `HTTP ${response.status}: ${responseText}` }
+    }
+
+    const body = JSON.parse(responseText)
+    if (!body.access_token) {
+      return { status: 500, error: "No access token in Shopify response" }
+    }
+
+    return {
+      status: 200,
+      body: { accessToken: body.access_token as string, scope: (body.scope as string) || "" },
+    }
+  } catch (error) {
+    console.error("Token exchange error:", error)
+    return { status: 500, error: error instanceof Error ? error.message : "Token exchange failed" }
+  }
+}
@@ -0,0 +1,165 @@
+// Per-store rate limiting for the Shopify Admin API.
+//
+// GraphQL uses a cost-based leaky bucket (reported in extensions.cost.throttleStatus);
+// REST uses a request-count bucket (reported in X-Shopify-Shop-Api-Call-Limit, e.g. "32/40").
+// We mirror both buckets per store from the latest responses and wait before sending a call
+// the store could not afford, so bulk work runs as fast as the store's plan allows.
+
+export const MAX_RETRIES = 5
+
+const BASE_RETRY_DELAY_MS = 500
+const MAX_RETRY_DELAY_MS = 20_000
+
+// Until a store has answered once, assume the standard plan limits
+const DEFAULT_GRAPHQL_BUCKET = { maximumAvailable: 1000, restoreRate: 50 }
+const DEFAULT_REST_BUCKET = { max: 40 }
+const DEFAULT_QUERY_COST = 10
+
+interface GraphqlBucket {
+  available: number
+  maximumAvailable: number
+  restoreRate: number // points per second
+  updatedAt: number
+}
+
+interface RestBucket {
+  used: number
+  max: number
+  updatedAt: number
+}
+
+export interface ThrottleStatus {
+  maximumAvailable: number
+  currentlyAvailable: number
+  restoreRate: number
+}
+
+export interface QueryCost {
+  requestedQueryCost: number
+  actualQueryCost: number | null
+  throttleStatus: ThrottleStatus
+}
+
+const graphqlBuckets = new Map<string, GraphqlBucket>()
+const restBuckets = new Map<string, RestBucket>()
+
+// Last actual cost per query text, used to estimate the next call of the same query
+const queryCosts = new Map<string, number>()
+
+export function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+// Exponential backoff with full jitter, never shorter than what the server asked for
+export function getRetryDelay(attempt: number, minimumMs = 0) {
+  const ceiling = Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * 2 ** attempt)
+  return Math.max(minimumMs, Math.round(Math.random() * ceiling))
+}
+
+// Retry-After is given in (possibly fractional) seconds
+export function getRetryAfterMs(headers: Headers) {
+  const retryAfter = Number.parseFloat(headers.get("retry-after") || "")
+  return Number.isFinite(retryAfter) ? retryAfter * 1000 : 0
+}
+
+// A 429 means Shopify turned the call away. A 5xx may come after a write was applied, so only calls that are
+// safe to repeat (queries, idempotent REST methods) retry on it.
+export function isRetryableStatus(status: number, idempotent = true) {
+  return status === 429 || (idempotent && status >= 500)
+}
+
+const IDEMPOTENT_REST_METHODS = ["GET", "HEAD", "PUT", "DELETE"]
+
+export function isIdempotentRestMethod(method = "GET") {
+  return IDEMPOTENT_REST_METHODS.includes(method.toUpperCase())
+}
+
+function getGraphqlBucket(storeDomain: string) {
+  let bucket = graphqlBuckets.get(storeDomain)
+  if (!bucket) {
+    bucket = { ...DEFAULT_GRAPHQL_BUCKET, available: DEFAULT_GRAPHQL_BUCKET.maximumAvailable, updatedAt: Date.now() }
+    graphqlBuckets.set(storeDomain, bucket)
+  }
+
+  // Refill for the time since we last looked
+  const now = Date.now()
+  bucket.available = Math.min(bucket.maximumAvailable, bucket.available + ((now - bucket.updatedAt) / 1000) * bucket.restoreRate)
+  bucket.updatedAt = now
+  return bucket
+}
+
+function getRestBucket(storeDomain: string) {
+  let bucket = restBuckets.get(storeDomain)
+  if (!bucket) {
+    bucket = { used: 0, max: DEFAULT_REST_BUCKET.max, updatedAt: Date.now() }
+    restBuckets.set(storeDomain, bucket)
+  }
+
+  // Shopify leaks the REST bucket at max/20 requests per second (2/s standard, 20/s Plus)
+  const now = Date.now()
+  bucket.used = Math.max(0, bucket.used - ((now - bucket.updatedAt) / 1000) * (bucket.max / 20))
+  bucket.updatedAt = now
+  return bucket
+}
+
+// Wait until the store's GraphQL bucket can cover the query's estimated cost, then reserve it
+export async function acquireGraphqlBudget(storeDomain: string, query: string) {
+  const estimate = queryCosts.get(query) ?? DEFAULT_QUERY_COST
+
+  for (;;) {
+    const bucket = getGraphqlBucket(storeDomain)
+    const cost = Math.min(estimate, bucket.maximumAvailable)
+    if (bucket.available >= cost) {
+      bucket.available -= cost
+      return
+    }
+    await sleep(Math.ceil(((cost - bucket.available) / bucket.restoreRate) * 1000))
+  }
+}
+
+// Sync our mirror of the bucket with what Shopify reported
+export function recordGraphqlCost(storeDomain: string, query: string, cost?: QueryCost | null) {
+  if (!cost?.throttleStatus) return
+
+  const { maximumAvailable, currentlyAvailable, restoreRate } = cost.throttleStatus
+  graphqlBuckets.set(storeDomain, {
+    available: currentlyAvailable,
+    maximumAvailable,
+    restoreRate,
+    updatedAt: Date.now(),
+  })
+
+  queryCosts.set(query, cost.actualQueryCost ?? cost.requestedQueryCost)
+}
+
+// How long a THROTTLED query should wait before the bucket can cover it
+export function getGraphqlThrottleDelay(cost?: QueryCost | null) {
+  if (!cost?.throttleStatus) return 0
+  const { currentlyAvailable, restoreRate } = cost.throttleStatus
+  return Math.max(0, Math.ceil(((cost.requestedQueryCost - currentlyAvailable) / restoreRate) * 1000))
+}
+
+export function isGraphqlThrottled(body: any) {
+  return !!body?.errors?.some?.((e: any) => e?.extensions?.code === "THROTTLED")
+}
+
+// Wait for a free slot in the store's REST bucket, then take it
+export async function acquireRestBudget(storeDomain: string) {
+  for (;;) {
+    const bucket = getRestBucket(storeDomain)
+    // Keep one slot spare for calls made outside this process (webhooks, other instances)
+    if (bucket.used + 1 <= bucket.max - 1) {
+      bucket.used += 1
+      return
+    }
+    await sleep(Math.ceil(((bucket.used + 2 - bucket.max) / (bucket.max / 20)) * 1000))
+  }
+}
+
+// X-Shopify-Shop-Api-Call-Limit: "<used>/<max>"
+export function recordRestCallLimit(storeDomain: string, header: string | null) {
+  const match = /^(\d+)\/(\d+)$/.exec(header?.trim() || "")
+  if (!match) return
+
+  restBuckets.set(storeDomain, { used: Number(match[1]), max: Number(match[2]), updatedAt: Date.now() })
+}
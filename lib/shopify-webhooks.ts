@@ -0,0 +1,96 @@
+// Shopify webhook subscriptions and delivery verification (app/api/webhooks/shopify)
+import { shopifyRestFetch, withShopifyStore, type ShopifyConfig } from "@/lib/shopify"
+import { getAppCredentials, verifyWebhookHmac } from "@/lib/shopify-oauth"
+import {
+  findStoreByShop,
+  getStoreConfig,
+  getUserStores,
+  markWebhooksRegistered,
+  normalizeStoreDomain,
+  storeRecordToConfig,
+  type StoredStoreRecord,
+} from "@/lib/store-credentials"
+
+export const WEBHOOK_PATH = "/api/webhooks/shopify"
+
+export const WEBHOOK_TOPICS = [
+  "products/update",
+  "products/delete",
+  "collections/update",
+  "inventory_levels/update",
+  "app/uninstalled",
+] as const
+
+export type WebhookTopic = (typeof WEBHOOK_TOPICS)[number]
+
+export function isWebhookTopic(topic: string | null): topic is WebhookTopic {
+  return WEBHOOK_TOPICS.includes(topic as WebhookTopic)
+}
+
+// Subscribe the store in scope to every topic; returns the topics that failed
+export async function registerWebhooks(appUrl: string) {
+  const failed: string[] = []
+  for (const topic of WEBHOOK_TOPICS) {
+    const response = await shopifyRestFetch("webhooks.json", {
+      method: "POST",
+      body: JSON.stringify({ webhook: { topic, address: `${appUrl}${WEBHOOK_PATH}`, format: "json" } }),
+    })
+    // 422 means the subscription already exists
+    if (response.status !== 201 && response.status !== 200 && !response.error?.includes("status: 422")) {
+      console.error(`Failed to register ${topic} webhook:`, response.error)
+      failed.push(topic)
+    }
+  }
+  return failed
+}
+
+// Stores connected with their own access token (/api/store-add) never pass the OAuth callback, so they are
+// subscribed when added, and stores added before that the next time the store list loads. Failures are
+// logged and retried on the next call rather than failing the caller.
+export async function ensureWebhooks(userId: string, storeId: string, record: StoredStoreRecord, appUrl: string) {
+  if (record.webhooksRegisteredAt || record.uninstalledAt || !record.SHOPIFY_ADMIN_SESSION) return
+
+  try {
+    const failed = await withShopifyStore(storeRecordToConfig(record), () => registerWebhooks(appUrl))
+    if (failed.length === 0) {
+      await markWebhooksRegistered(userId, storeId)
+    }
+  } catch (error) {
+    console.error(`Failed to register webhooks for store ${storeId}:`, error)
+  }
+}
+
+export interface WebhookStore {
+  storeDomain: string
+  owner: { userId: string; storeId: string } | null
+  config: ShopifyConfig | null
+}
+
+/**
+ * Find the store a delivery belongs to and check its signature against that store alone. OAuth installs
+ * sign with the app secret; stores connected with their own custom app sign with that app's secret, which
+ * is only trusted once the store's token was shown to work against the shop (claimShop). Returns null when
+ * the shop is not connected or the signature does not match.
+ */
+export async function verifyWebhookStore(
+  shopDomain: string,
+  rawBody: string,
+  hmacHeader: string | null,
+): Promise<WebhookStore | null> {
+  const storeDomain = normalizeStoreDomain(shopDomain)
+  const mapping = await findStoreByShop(storeDomain)
+  const record = mapping ? (await getUserStores(mapping.userId))[mapping.storeId] : undefined
+  if (!mapping || !record) {
+    return null
+  }
+
+  // Mappings written before the install method was recorded go by the store record's
+  const installMethod = mapping.installMethod ?? record.installMethod
+  const config = await getStoreConfig(mapping.userId, mapping.storeId)
+  const secret =
+    installMethod === "oauth" ? getAppCredentials().apiSecret : mapping.verifiedAt ? config?.apiSecret : undefined
+  if (!secret || !verifyWebhookHmac(rawBody, hmacHeader, secret)) {
+    return null
+  }
+  return { storeDomain, owner: { userId: mapping.userId, storeId: mapping.storeId }, config }
+}
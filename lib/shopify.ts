@@ -1,4 +1,23 @@
 // Shopify API integration utilities using your Pure Jewels store
+import { AsyncLocalStorage } from "node:async_hooks"
+import { normalizeStoreDomain } from "@/lib/store-credentials"
+import {
+  MAX_RETRIES,
+  acquireGraphqlBudget,
+  acquireRestBudget,
+  getGraphqlThrottleDelay,
+  getRetryAfterMs,
+  getRetryDelay,
+  isGraphqlThrottled,
+  isIdempotentRestMethod,
+  isRetryableStatus,
+  recordGraphqlCost,
+  recordRestCallLimit,
+  sleep,
+} from "@/lib/shopify-throttle"
+import { extractVariantWrites, recordVariantWrites } from "@/lib/variant-writes"
+import type { MetalLink } from "@/lib/pricing"
+
 export interface ShopifyConfig {
   storeDomain: string
   adminAccessToken: string
@@ -6,17 +25,36 @@ export interface ShopifyConfig {
   apiSecret: string
 }
 
+// Store scope set per request by withStoreAuth (lib/api-auth), or explicitly by cron/webhook work
+const storeScope = new AsyncLocalStorage<ShopifyConfig>()
+
+export function withShopifyStore<T>(config: ShopifyConfig, fn: () => Promise<T>): Promise<T> {
+  return storeScope.run(config, fn)
+}
+
 function getStoreDomain() {
   // Try different environment variable formats
-  const domain =
-    process.env.SHOPIFY_STORE_DOMAIN ||
-    process.env.SHOPIFY_STORE_URL?.replace(/https?:\/\//, "").replace(/\/$/, "") ||
-    ""
+  const domain = process.env.SHOPIFY_STORE_DOMAIN || normalizeStoreDomain(process.env.SHOPIFY_STORE_URL)
 
   console.log("Store domain resolved:", domain)
   return domain
 }
 
+// Resolve credentials: the current store scope, else env (single-store deployments)
+export async function getShopifyConfig(): Promise<ShopifyConfig> {
+  const scoped = storeScope.getStore()
+  if (scoped) {
+    return scoped
+  }
+
+  return {
+    storeDomain: getStoreDomain(),
+    adminAccessToken: process.env.SHOPIFY_ADMIN_SESSION || "",
+    apiKey: process.env.SHOPIFY_API_KEY || "",
+    apiSecret: process.env.SHOPIFY_API_SECRET || "",
+  }
+}
+
 export async function shopifyAdminFetch({
   query,
   variables = {},
@@ -24,12 +62,11 @@ export async function shopifyAdminFetch({
   query: string
   variables?: Record<string, any>
 }) {
-  const storeDomain = getStoreDomain()
-  const token = process.env.SHOPIFY_ADMIN_SESSION
+  const { storeDomain, adminAccessToken: token } = await getShopifyConfig()
 
-  // Validate required environment variables
+  // Validate resolved store credentials
   if (!storeDomain) {
-    console.error("Missing SHOPIFY_STORE_DOMAIN")
+    console.error("Missing store domain (no store selected and SHOPIFY_STORE_DOMAIN unset)")
     return {
       status: 500,
       error: "Missing store domain configuration",
@@ -37,7 +74,7 @@ export async function shopifyAdminFetch({
   }
 
   if (!token) {
-    console.error("Missing SHOPIFY_ADMIN_SESSION")
+    console.error("Missing admin access token for store:", storeDomain)
     return {
       status: 500,
       error: "Missing admin access token",
@@ -52,113 +89,189 @@ export async function shopifyAdminFetch({
     variablesKeys: Object.keys(variables),
   })
 
-  try {
-    const result = await fetch(endpoint, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        "X-Shopify-Access-Token": token,
-      },
-      body: JSON.stringify({ query, variables }),
-    })
+  // Mutations such as productCreate would run twice if a lost response were retried; they only retry
+  // when Shopify throttled them before accepting the call
+  const idempotent = !query.trim().startsWith("mutation")
 
-    const responseText = await result.text()
-    console.log("Shopify raw response:", {
-      status: result.status,
-      ok: result.ok,
-      responseLength: responseText.length,
-      headers: Object.fromEntries(result.headers.entries()),
-    })
+  for (let attempt = 0; ; attempt++) {
+    const canRetry = attempt < MAX_RETRIES
 
-    if (!result.ok) {
-      console.error("HTTP error response:", responseText)
-      return {
+    try {
+      // Wait for the store's cost budget instead of fixed sleeps in the callers
+      await acquireGraphqlBudget(storeDomain, query)
+
+      const result = await fetch(endpoint, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "X-Shopify-Access-Token": token,
+        },
+        body: JSON.stringify({ query, variables }),
+      })
+
+      const responseText = await result.text()
+      console.log("Shopify raw response:", {
         status: result.status,
-        error: `HTTP ${result.status}: ${responseText}`,
+        ok: result.ok,
+        responseLength: responseText.length,
+        attempt,
+      })
+
+      if (!result.ok) {
+        if (isRetryableStatus(result.status, idempotent) && canRetry) {
+          const delay = getRetryDelay(attempt, getRetryAfterMs(result.headers))
+          console.warn(`Shopify GraphQL HTTP ${result.status}, retrying in ${delay}ms`)
+          await sleep(delay)
+          continue
+        }
+
+        console.error("HTTP error response:", responseText)
+        return {
+          status: result.status,
+          error: `HTTP ${result.status}: ${responseText}`,
+        }
       }
-    }
 
-    let parsedBody
-    try {
-      parsedBody = JSON.parse(responseText)
-    } catch (parseError) {
-      console.error("JSON parse error:", parseError)
-      return {
-        status: 500,
-        error: `Invalid JSON response: ${responseText.substring(0, 200)}...`,
+      let parsedBody
+      try {
+        parsedBody = JSON.parse(responseText)
+      } catch (parseError) {
+        console.error("JSON parse error:", parseError)
+        return {
+          status: 500,
+          error: `Invalid JSON response: ${responseText.substring(0, 200)}...`,
+        }
+      }
+
+      recordGraphqlCost(storeDomain, query, parsedBody.extensions?.cost)
+
+      // Throttled queries come back as 200 with a THROTTLED error; wait until the bucket refills
+      if (isGraphqlThrottled(parsedBody) && canRetry) {
+        const delay = getRetryDelay(attempt, getGraphqlThrottleDelay(parsedBody.extensions?.cost))
+        console.warn(`Shopify GraphQL throttled, retrying in ${delay}ms`)
+        await sleep(delay)
+        continue
+      }
+
+      // Check for GraphQL errors
+      if (parsedBody.errors && parsedBody.errors.length > 0) {
+        console.error("GraphQL errors:", parsedBody.errors)
+        return {
+          status: 400,
+          error: `GraphQL errors: ${parsedBody.errors.map((e: any) => e.message).join(", ")}`,
+          body: parsedBody,
+        }
+      }
+
+      // Remember prices we set so change detection doesn't report them as external edits
+      if (query.trim().startsWith("mutation")) {
+        await recordVariantWrites(storeDomain, extractVariantWrites(parsedBody))
       }
-    }
 
-    // Check for GraphQL errors
-    if (parsedBody.errors && parsedBody.errors.length > 0) {
-      console.error("GraphQL errors:", parsedBody.errors)
       return {
-        status: 400,
-        error: `GraphQL errors: ${parsedBody.errors.map((e) => e.message).join(", ")}`,
+        status: result.status,
         body: parsedBody,
       }
-    }
+    } catch (error) {
+      if (canRetry && idempotent) {
+        const delay = getRetryDelay(attempt)
+        console.warn(`Shopify GraphQL network error, retrying in ${delay}ms:`, error)
+        await sleep(delay)
+        continue
+      }
 
-    return {
-      status: result.status,
-      body: parsedBody,
-    }
-  } catch (error) {
-    console.error("Shopify Admin API Error:", error)
-    return {
-      status: 500,
-      error: error instanceof Error ? error.message : "Network error",
+      console.error("Shopify Admin API Error:", error)
+      return {
+        status: 500,
+        error: error instanceof Error ? error.message : "Network error",
+      }
     }
   }
 }
 
 // REST API function for uploading images (more reliable than GraphQL for images)
 export async function shopifyRestFetch(endpoint: string, options: RequestInit = {}) {
-  const storeDomain = getStoreDomain()
-  const token = process.env.SHOPIFY_ADMIN_SESSION
+  const { storeDomain, adminAccessToken: token } = await getShopifyConfig()
   const url = `https://${storeDomain}/admin/api/2024-01/${endpoint}`
 
   console.log("Shopify REST API call:", { url, method: options.method || "GET" })
 
-  try {
-    const result = await fetch(url, {
-      ...options,
-      headers: {
-        "X-Shopify-Access-Token": token || "",
-        "Content-Type": "application/json",
-        ...options.headers,
-      },
-    })
-
-    const responseText = await result.text()
-    console.log("Shopify REST response:", {
-      status: result.status,
-      ok: result.ok,
-      responseLength: responseText.length,
-    })
+  // POSTs (metafields, images) create records, so a lost response must not be retried
+  const idempotent = isIdempotentRestMethod(options.method)
 
-    if (!result.ok) {
-      console.error("REST API error response:", responseText)
-      throw new Error(`HTTP error! status: ${result.status}, body: ${responseText}`)
-    }
+  for (let attempt = 0; ; attempt++) {
+    const canRetry = attempt < MAX_RETRIES
 
-    let parsedBody
     try {
-      parsedBody = JSON.parse(responseText)
-    } catch (parseError) {
-      console.error("JSON parse error:", parseError)
-      throw new Error(`Invalid JSON response: ${responseText}`)
-    }
+      await acquireRestBudget(storeDomain)
 
-    return {
-      status: result.status,
-      body: parsedBody,
-    }
-  } catch (error) {
-    console.error("Shopify REST API Error:", error)
-    return {
-      status: 500,
-      error: error instanceof Error ? error.message : "Unknown error",
+      const result = await fetch(url, {
+        ...options,
+        headers: {
+          "X-Shopify-Access-Token": token || "",
+          "Content-Type": "application/json",
+          ...options.headers,
+        },
+      })
+
+      recordRestCallLimit(storeDomain, result.headers.get("x-shopify-shop-api-call-limit"))
+
+      const responseText = await result.text()
+      console.log("Shopify REST response:", {
+        status: result.status,
+        ok: result.ok,
+        responseLength: responseText.length,
+        attempt,
+      })
+
+      if (!result.ok) {
+        if (isRetryableStatus(result.status, idempotent) && canRetry) {
+          const delay = getRetryDelay(attempt, getRetryAfterMs(result.headers))
+          console.warn(`Shopify REST HTTP ${result.status}, retrying in ${delay}ms`)
+          await sleep(delay)
+          continue
+        }
+
+        console.error("REST API error response:", responseText)
+        return {
+          status: 500,
+          error: `HTTP error! status: ${result.status}, body: ${responseText}`,
+        }
+      }
+
+      let parsedBody
+      try {
+        parsedBody = JSON.parse(responseText)
+      } catch (parseError) {
+        console.error("JSON parse error:", parseError)
+        return {
+          status: 500,
+          error: `Invalid JSON response: ${responseText}`,
+        }
+      }
+
+      if (options.method && options.method !== "GET") {
+        await recordVariantWrites(storeDomain, extractVariantWrites(parsedBody))
+      }
+
+      return {
+        status: result.status,
+        body: parsedBody,
+      }
+    } catch (error) {
+      // Network failure; HTTP errors were handled above
+      if (canRetry && idempotent) {
+        const delay = getRetryDelay(attempt)
+        console.warn(`Shopify REST network error, retrying in ${delay}ms:`, error)
+        await sleep(delay)
+        continue
+      }
+
+      console.error("Shopify REST API Error:", error)
+      return {
+        status: 500,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
     }
   }
 }
@@ -185,6 +298,10 @@ export const GET_ALL_PRODUCTS_ADMIN = `
           productType
           vendor
           totalInventory
+          seo {
+            title
+            description
+          }
           collections(first: 10) {
             edges {
               node {
@@ -215,6 +332,11 @@ export const GET_ALL_PRODUCTS_ADMIN = `
                 inventoryQuantity
                 availableForSale
                 sku
+                inventoryItem {
+                  unitCost {
+                    amount
+                  }
+                }
                 selectedOptions {
                   name
                   value
@@ -253,6 +375,10 @@ export const GET_PRODUCTS_BY_COLLECTION = `
             productType
             vendor
             totalInventory
+            seo {
+              title
+              description
+            }
             collections(first: 10) {
               edges {
                 node {
@@ -283,6 +409,11 @@ export const GET_PRODUCTS_BY_COLLECTION = `
                   inventoryQuantity
                   availableForSale
                   sku
+                  inventoryItem {
+                    unitCost {
+                      amount
+                    }
+                  }
                   selectedOptions {
                     name
                     value
@@ -375,92 +506,852 @@ export const DELETE_PRODUCT = `
   }
 `
 
-// Function to get ALL products from your Pure Jewels store (with pagination)
-export async function getAllProducts() {
-  let allProducts: any[] = []
-  let hasNextPage = true
-  let cursor = null
-
-  try {
-    while (hasNextPage) {
-      const response = await shopifyAdminFetch({
-        query: GET_ALL_PRODUCTS_ADMIN,
-        variables: { first: 50, after: cursor },
-      })
-
-      if (response.status !== 200 || response.body.errors) {
-        throw new Error(response.error || "GraphQL errors")
+// Bulk export of the whole catalog. Bulk queries take no page sizes, so nothing is capped
+// the way GET_ALL_PRODUCTS_ADMIN caps variants, images and collections per product.
+export const BULK_PRODUCTS_QUERY = `
+  {
+    products {
+      edges {
+        node {
+          id
+          title
+          description
+          descriptionHtml
+          handle
+          status
+          createdAt
+          updatedAt
+          tags
+          productType
+          vendor
+          totalInventory
+          seo {
+            title
+            description
+          }
+          collections {
+            edges {
+              node {
+                id
+                title
+                handle
+              }
+            }
+          }
+          images {
+            edges {
+              node {
+                id
+                url
+                altText
+                width
+                height
+              }
+            }
+          }
+          variants {
+            edges {
+              node {
+                id
+                title
+                price
+                compareAtPrice
+                inventoryQuantity
+                availableForSale
+                sku
+                inventoryItem {
+                  unitCost {
+                    amount
+                  }
+                }
+                selectedOptions {
+                  name
+                  value
+                }
+              }
+            }
+          }
+        }
       }
-
-      const products = response.body.data.products.edges
-      allProducts = [...allProducts, ...products]
-
-      hasNextPage = response.body.data.products.pageInfo.hasNextPage
-      cursor = response.body.data.products.pageInfo.endCursor
     }
+  }
+`
 
-    return {
-      status: 200,
-      body: {
-        data: {
-          products: {
-            edges: allProducts,
-          },
-        },
-      },
+// Product fields for cache updates (lib/product-cache): generous nested limits, since only a few
+// products are fetched at a time (100 variants is the Admin API maximum per product)
+const FULL_PRODUCT_FIELDS = `
+  id
+  title
+  description
+  descriptionHtml
+  handle
+  status
+  createdAt
+  updatedAt
+  tags
+  productType
+  vendor
+  totalInventory
+  seo {
+    title
+    description
+  }
+  collections(first: 25) {
+    edges {
+      node {
+        id
+        title
+        handle
+      }
     }
-  } catch (error) {
-    return {
-      status: 500,
-      error: error instanceof Error ? error.message : "Unknown error",
+  }
+  images(first: 50) {
+    edges {
+      node {
+        id
+        url
+        altText
+        width
+        height
+      }
     }
   }
-}
-
-// Function to get products by collection ID
-export async function getProductsByCollection(collectionId: string) {
-  let allProducts: any[] = []
-  let hasNextPage = true
-  let cursor = null
-
-  try {
-    while (hasNextPage) {
-      const response = await shopifyAdminFetch({
-        query: GET_PRODUCTS_BY_COLLECTION,
-        variables: { collectionId, first: 50, after: cursor },
-      })
-
-      if (response.status !== 200 || response.body.errors) {
-        throw new Error(response.error || "GraphQL errors")
+  variants(first: 100) {
+    edges {
+      node {
+        id
+        title
+        price
+        compareAtPrice
+        inventoryQuantity
+        availableForSale
+        sku
+        inventoryItem {
+          unitCost {
+            amount
+          }
+        }
+        selectedOptions {
+          name
+          value
+        }
       }
+    }
+  }
+`
 
-      if (!response.body.data.collection) {
-        throw new Error("Collection not found")
+// Products changed since a point in time, for incremental cache syncs
+export const GET_UPDATED_PRODUCTS = `
+  query getUpdatedProducts($first: Int!, $after: String, $query: String!) {
+    products(first: $first, after: $after, query: $query, sortKey: UPDATED_AT) {
+      pageInfo {
+        hasNextPage
+        endCursor
+      }
+      edges {
+        node {
+          ${FULL_PRODUCT_FIELDS}
+        }
       }
+    }
+  }
+`
 
-      const products = response.body.data.collection.products.edges
-      allProducts = [...allProducts, ...products]
+// One product, for webhook-driven cache updates
+export const GET_PRODUCT_NODE = `
+  query getProductNode($id: ID!) {
+    product(id: $id) {
+      ${FULL_PRODUCT_FIELDS}
+    }
+  }
+`
 
-      hasNextPage = response.body.data.collection.products.pageInfo.hasNextPage
-      cursor = response.body.data.collection.products.pageInfo.endCursor
+// The product an inventory item belongs to (inventory_levels/update webhooks only carry the item id)
+export const GET_INVENTORY_ITEM_PRODUCT = `
+  query getInventoryItemProduct($id: ID!) {
+    inventoryItem(id: $id) {
+      variant {
+        product {
+          id
+        }
+      }
     }
+  }
+`
 
-    return {
-      status: 200,
-      body: {
-        data: {
-          products: {
-            edges: allProducts,
-          },
-        },
-      },
+// Unit cost and the product's tags and collections for price guardrails (lib/price-guardrails)
+export const GET_VARIANT_COST_CONTEXTS = `
+  query getVariantCostContexts($ids: [ID!]!) {
+    nodes(ids: $ids) {
+      ... on ProductVariant {
+        id
+        inventoryItem {
+          unitCost {
+            amount
+          }
+        }
+        product {
+          id
+          tags
+          collections(first: 25) {
+            edges {
+              node {
+                id
+              }
+            }
+          }
+        }
+      }
     }
-  } catch (error) {
-    return {
-      status: 500,
-      error: error instanceof Error ? error.message : "Unknown error",
+  }
+`
+
+// What price formulas read for each variant (lib/price-formula): cost, stock, the product's tags, and
+// the metafields the formula names, on the variant or else on its product. Aliased per metafield, so
+// the query is built for the formula at hand.
+function variantFormulaInputsQuery(metafields: Array<{ namespace: string; key: string }>) {
+  const fields = metafields
+    .map(
+      ({ namespace, key }, i) =>
+        `m${i}: metafield(namespace: ${JSON.stringify(namespace)}, key: ${JSON.stringify(key)}) { value }`,
+    )
+    .join("\n")
+  return `
+  query getVariantFormulaInputs($ids: [ID!]!) {
+    nodes(ids: $ids) {
+      ... on ProductVariant {
+        id
+        inventoryQuantity
+        inventoryItem {
+          unitCost {
+            amount
+          }
+        }
+        ${fields}
+        product {
+          id
+          tags
+          ${fields}
+        }
+      }
     }
   }
+`
+}
+
+// Metafields that link a jewellery variant's price to metal rates (lib/metal-rates). Weight is in grams,
+// making charges an amount in the store currency; variants without a metal type and weight are not linked.
+const METAL_LINK_FIELDS = `
+  metalType: metafield(namespace: "custom", key: "metal_type") { value }
+  metalWeight: metafield(namespace: "custom", key: "metal_weight_grams") { value }
+  makingCharges: metafield(namespace: "custom", key: "making_charges") { value }
+`
+
+export const GET_VARIANT_METAL_LINKS = `
+  query getVariantMetalLinks($ids: [ID!]!) {
+    nodes(ids: $ids) {
+      ... on ProductVariant {
+        id
+        ${METAL_LINK_FIELDS}
+      }
+    }
+  }
+`
+
+// Every variant with its metal metafields, for metal rate repricing; run as a bulk operation
+export const BULK_METAL_VARIANTS_QUERY = `
+  {
+    productVariants {
+      edges {
+        node {
+          id
+          title
+          sku
+          price
+          compareAtPrice
+          product {
+            id
+            title
+          }
+          ${METAL_LINK_FIELDS}
+        }
+      }
+    }
+  }
+`
+
+// Live prices for bulk price updates (lib/bulk-price-update)
+export const GET_VARIANT_PRICES = `
+  query getVariantPrices($ids: [ID!]!) {
+    nodes(ids: $ids) {
+      ... on ProductVariant {
+        id
+        title
+        sku
+        price
+        compareAtPrice
+        product {
+          id
+          title
+        }
+      }
+    }
+  }
+`
+
+// Live inventory and inventory items for catalog imports (lib/catalog-import)
+export const GET_VARIANT_INVENTORY = `
+  query getVariantInventory($ids: [ID!]!) {
+    nodes(ids: $ids) {
+      ... on ProductVariant {
+        id
+        inventoryQuantity
+        inventoryItem {
+          id
+        }
+      }
+    }
+  }
+`
+
+export const GET_LOCATIONS = `
+  query getLocations($first: Int!) {
+    locations(first: $first) {
+      edges {
+        node {
+          id
+          name
+        }
+      }
+    }
+  }
+`
+
+export const UPDATE_PRODUCT_VARIANT = `
+  mutation productVariantUpdate($input: ProductVariantInput!) {
+    productVariantUpdate(input: $input) {
+      productVariant {
+        id
+        price
+        compareAtPrice
+        sku
+      }
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+`
+
+export const ADJUST_INVENTORY_QUANTITIES = `
+  mutation adjustInventoryQuantities($input: InventoryAdjustQuantitiesInput!) {
+    inventoryAdjustQuantities(input: $input) {
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+`
+
+export const CREATE_PRODUCT_MEDIA = `
+  mutation productCreateMedia($productId: ID!, $media: [CreateMediaInput!]!) {
+    productCreateMedia(productId: $productId, media: $media) {
+      media {
+        id
+      }
+      mediaUserErrors {
+        field
+        message
+      }
+    }
+  }
+`
+
+export const RUN_BULK_QUERY = `
+  mutation runBulkQuery($query: String!) {
+    bulkOperationRunQuery(query: $query) {
+      bulkOperation {
+        id
+        status
+      }
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+`
+
+export const GET_BULK_OPERATION = `
+  query getBulkOperation($id: ID!) {
+    node(id: $id) {
+      ... on BulkOperation {
+        id
+        status
+        errorCode
+        objectCount
+        url
+      }
+    }
+  }
+`
+
+// Per-product limits in GET_ALL_PRODUCTS_ADMIN / GET_PRODUCTS_BY_COLLECTION
+const PAGE_LIMITS = { collections: 10, images: 5, variants: 10 }
+
+const BULK_POLL_MIN_MS = 1000
+const BULK_POLL_MAX_MS = 5000
+const BULK_TIMEOUT_MS = 10 * 60 * 1000
+
+// A product at any of the page limits may have been cut short
+function isPossiblyTruncated(edge: any) {
+  const node = edge.node
+  return (
+    (node.collections?.edges?.length || 0) >= PAGE_LIMITS.collections ||
+    (node.images?.edges?.length || 0) >= PAGE_LIMITS.images ||
+    (node.variants?.edges?.length || 0) >= PAGE_LIMITS.variants
+  )
+}
+
+// Same shape as a shopifyAdminFetch result for GET_ALL_PRODUCTS_ADMIN, with every page merged
+export interface ProductsResponse {
+  status: number
+  body?: any
+  error?: string
+}
+
+function toProductsResponse(edges: any[]): ProductsResponse {
+  return {
+    status: 200,
+    body: {
+      data: {
+        products: {
+          edges,
+        },
+      },
+    },
+  }
+}
+
+// Start a bulk query and wait for it to finish; resolves to the JSONL URL (null when there is no data)
+export async function runBulkQuery(query: string): Promise<string | null> {
+  const started = await shopifyAdminFetch({ query: RUN_BULK_QUERY, variables: { query } })
+  if (started.status !== 200) {
+    throw new Error(started.error || "Failed to start bulk operation")
+  }
+
+  const { bulkOperation, userErrors } = started.body.data.bulkOperationRunQuery
+  if (userErrors?.length) {
+    throw new Error(userErrors.map((e: any) => e.message).join(", "))
+  }
+
+  const deadline = Date.now() + BULK_TIMEOUT_MS
+  let pollDelay = BULK_POLL_MIN_MS
+
+  while (Date.now() < deadline) {
+    await sleep(pollDelay)
+    pollDelay = Math.min(BULK_POLL_MAX_MS, pollDelay * 1.5)
+
+    const polled = await shopifyAdminFetch({ query: GET_BULK_OPERATION, variables: { id: bulkOperation.id } })
+    if (polled.status !== 200) {
+      throw new Error(polled.error || "Failed to poll bulk operation")
+    }
+
+    const operation = polled.body.data.node
+    console.log("Bulk operation status:", {
+      id: operation.id,
+      status: operation.status,
+      objectCount: operation.objectCount,
+    })
+
+    if (operation.status === "COMPLETED") {
+      return operation.url
+    }
+    if (["FAILED", "CANCELED", "CANCELING", "EXPIRED"].includes(operation.status)) {
+      throw new Error(`Bulk operation ${operation.status.toLowerCase()}${operation.errorCode ? `: ${operation.errorCode}` : ""}`)
+    }
+  }
+
+  throw new Error("Timed out waiting for bulk operation")
+}
+
+// Stream a bulk operation result line by line instead of buffering the whole file
+export async function* readJsonl(url: string): AsyncGenerator<any> {
+  const response = await fetch(url)
+  if (!response.ok || !response.body) {
+    throw new Error(`Failed to download bulk operation result: HTTP ${response.status}`)
+  }
+
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  let buffered = ""
+
+  for (;;) {
+    const { done, value } = await reader.read()
+    buffered += decoder.decode(value, { stream: !done })
+
+    const lines = buffered.split("\n")
+    buffered = done ? "" : lines.pop() || ""
+
+    for (const line of lines) {
+      if (line.trim()) {
+        yield JSON.parse(line)
+      }
+    }
+
+    if (done) return
+  }
+}
+
+// Rebuild product edges from JSONL, where nested objects follow their product with a __parentId
+export async function exportProductsInBulk() {
+  const url = await runBulkQuery(BULK_PRODUCTS_QUERY)
+  if (!url) {
+    return []
+  }
+
+  const products = new Map<string, any>()
+
+  for await (const row of readJsonl(url)) {
+    const { __parentId: parentId, ...node } = row
+
+    if (!parentId) {
+      products.set(node.id, {
+        node: { ...node, collections: { edges: [] }, images: { edges: [] }, variants: { edges: [] } },
+      })
+      continue
+    }
+
+    const product = products.get(parentId)?.node
+    if (!product) continue
+
+    if (node.id.startsWith("gid://shopify/ProductVariant/")) {
+      product.variants.edges.push({ node })
+    } else if (node.id.startsWith("gid://shopify/Collection/")) {
+      product.collections.edges.push({ node })
+    } else {
+      product.images.edges.push({ node })
+    }
+  }
+
+  console.log(`Bulk export returned ${products.size} products`)
+  return Array.from(products.values())
+}
+
+// Function to get ALL products from your Pure Jewels store.
+// Small catalogs fit in one page; larger ones (or any product at a page limit) use a bulk export,
+// with cursor pagination kept as the fallback if the bulk operation cannot run.
+export async function getAllProducts(): Promise<ProductsResponse> {
+  try {
+    const firstPage = await shopifyAdminFetch({
+      query: GET_ALL_PRODUCTS_ADMIN,
+      variables: { first: 50, after: null },
+    })
+
+    if (firstPage.status !== 200 || firstPage.body.errors) {
+      throw new Error(firstPage.error || "GraphQL errors")
+    }
+
+    let allProducts: any[] = firstPage.body.data.products.edges
+    let hasNextPage = firstPage.body.data.products.pageInfo.hasNextPage
+    let cursor = firstPage.body.data.products.pageInfo.endCursor
+
+    if (!hasNextPage && !allProducts.some(isPossiblyTruncated)) {
+      return toProductsResponse(allProducts)
+    }
+
+    try {
+      return toProductsResponse(await exportProductsInBulk())
+    } catch (bulkError) {
+      console.warn("Bulk product export failed, falling back to pagination:", bulkError)
+    }
+
+    while (hasNextPage) {
+      const response = await shopifyAdminFetch({
+        query: GET_ALL_PRODUCTS_ADMIN,
+        variables: { first: 50, after: cursor },
+      })
+
+      if (response.status !== 200 || response.body.errors) {
+        throw new Error(response.error || "GraphQL errors")
+      }
+
+      const products = response.body.data.products.edges
+      allProducts = [...allProducts, ...products]
+
+      hasNextPage = response.body.data.products.pageInfo.hasNextPage
+      cursor = response.body.data.products.pageInfo.endCursor
+    }
+
+    return toProductsResponse(allProducts)
+  } catch (error) {
+    return {
+      status: 500,
+      error: error instanceof Error ? error.message : "Unknown error",
+    }
+  }
+}
+
+// Function to get products by collection ID.
+// Large collections come from the bulk catalog export, filtered by collection membership.
+export async function getProductsByCollection(collectionId: string): Promise<ProductsResponse> {
+  try {
+    const firstPage = await shopifyAdminFetch({
+      query: GET_PRODUCTS_BY_COLLECTION,
+      variables: { collectionId, first: 50, after: null },
+    })
+
+    if (firstPage.status !== 200 || firstPage.body.errors) {
+      throw new Error(firstPage.error || "GraphQL errors")
+    }
+
+    if (!firstPage.body.data.collection) {
+      throw new Error("Collection not found")
+    }
+
+    let allProducts: any[] = firstPage.body.data.collection.products.edges
+    let hasNextPage = firstPage.body.data.collection.products.pageInfo.hasNextPage
+    let cursor = firstPage.body.data.collection.products.pageInfo.endCursor
+
+    if (!hasNextPage && !allProducts.some(isPossiblyTruncated)) {
+      return toProductsResponse(allProducts)
+    }
+
+    try {
+      const exported = await exportProductsInBulk()
+      return toProductsResponse(
+        exported.filter((edge) => edge.node.collections.edges.some((c: any) => c.node.id === collectionId)),
+      )
+    } catch (bulkError) {
+      console.warn("Bulk product export failed, falling back to pagination:", bulkError)
+    }
+
+    while (hasNextPage) {
+      const response = await shopifyAdminFetch({
+        query: GET_PRODUCTS_BY_COLLECTION,
+        variables: { collectionId, first: 50, after: cursor },
+      })
+
+      if (response.status !== 200 || response.body.errors) {
+        throw new Error(response.error || "GraphQL errors")
+      }
+
+      const products = response.body.data.collection.products.edges
+      allProducts = [...allProducts, ...products]
+
+      hasNextPage = response.body.data.collection.products.pageInfo.hasNextPage
+      cursor = response.body.data.collection.products.pageInfo.endCursor
+    }
+
+    return toProductsResponse(allProducts)
+  } catch (error) {
+    return {
+      status: 500,
+      error: error instanceof Error ? error.message : "Unknown error",
+    }
+  }
+}
+
+// Products whose updated_at is after `since` (ISO timestamp), every page merged
+export async function getProductsUpdatedSince(since: string): Promise<ProductsResponse> {
+  try {
+    let allProducts: any[] = []
+    let hasNextPage = true
+    let cursor: string | null = null
+
+    while (hasNextPage) {
+      const response = await shopifyAdminFetch({
+        query: GET_UPDATED_PRODUCTS,
+        variables: { first: 5, after: cursor, query: `updated_at:>'${since}'` },
+      })
+
+      if (response.status !== 200 || response.body.errors) {
+        throw new Error(response.error || "GraphQL errors")
+      }
+
+      allProducts = [...allProducts, ...response.body.data.products.edges]
+      hasNextPage = response.body.data.products.pageInfo.hasNextPage
+      cursor = response.body.data.products.pageInfo.endCursor
+    }
+
+    return toProductsResponse(allProducts)
+  } catch (error) {
+    return {
+      status: 500,
+      error: error instanceof Error ? error.message : "Unknown error",
+    }
+  }
+}
+
+// A single product in the same node shape as the product cache
+export async function getProductNode(productId: string) {
+  return shopifyAdminFetch({
+    query: GET_PRODUCT_NODE,
+    variables: { id: productId },
+  })
+}
+
+export async function getInventoryItemProductId(inventoryItemId: string): Promise<string | null> {
+  const response = await shopifyAdminFetch({
+    query: GET_INVENTORY_ITEM_PRODUCT,
+    variables: { id: inventoryItemId },
+  })
+  return response.body?.data?.inventoryItem?.variant?.product?.id || null
+}
+
+export interface VariantCostContext {
+  unitCost: number | null
+  tags: string[]
+  collectionIds: string[]
+}
+
+// Cost context for each variant GID, fetched 50 at a time; variants Shopify does not return are left out
+export async function getVariantCostContexts(variantIds: string[]): Promise<Map<string, VariantCostContext>> {
+  const contexts = new Map<string, VariantCostContext>()
+  const ids = variantIds.map((id) => (id.startsWith("gid://") ? id : `gid://shopify/ProductVariant/${id}`))
+  for (let i = 0; i < ids.length; i += 50) {
+    const response = await shopifyAdminFetch({
+      query: GET_VARIANT_COST_CONTEXTS,
+      variables: { ids: ids.slice(i, i + 50) },
+    })
+    if (response.error || response.body?.errors) {
+      throw new Error(response.error || response.body.errors[0]?.message || "Failed to fetch variant costs")
+    }
+    for (const node of response.body?.data?.nodes || []) {
+      if (!node?.id) continue
+      const amount = node.inventoryItem?.unitCost?.amount
+      contexts.set(node.id, {
+        unitCost: amount != null ? Number.parseFloat(amount) : null,
+        tags: node.product?.tags || [],
+        collectionIds: (node.product?.collections?.edges || []).map((edge: any) => edge.node.id),
+      })
+    }
+  }
+  return contexts
+}
+
+export interface LiveVariantPrice {
+  id: string
+  title: string
+  sku: string | null
+  price: string
+  compareAtPrice: string | null
+  product: { id: string; title: string }
+}
+
+// Current prices for each variant GID, fetched 50 at a time; variants Shopify does not return are left out
+export async function getVariantPrices(variantIds: string[]): Promise<Map<string, LiveVariantPrice>> {
+  const variants = new Map<string, LiveVariantPrice>()
+  const ids = variantIds.map((id) => (id.startsWith("gid://") ? id : `gid://shopify/ProductVariant/${id}`))
+  for (let i = 0; i < ids.length; i += 50) {
+    const response = await shopifyAdminFetch({
+      query: GET_VARIANT_PRICES,
+      variables: { ids: ids.slice(i, i + 50) },
+    })
+    if (response.error || response.body?.errors) {
+      throw new Error(response.error || response.body.errors[0]?.message || "Failed to fetch variant prices")
+    }
+    for (const node of response.body?.data?.nodes || []) {
+      if (node?.id) variants.set(node.id, node)
+    }
+  }
+  return variants
+}
+
+export interface VariantFormulaInputs {
+  cost: number | null
+  inventory: number | null
+  tags: string[]
+  metafields: Record<string, number | null> // "namespace.key"; null when unset or not a number
+}
+
+// Formula inputs for each variant GID, fetched 50 at a time; variants Shopify does not return are left out
+export async function getVariantFormulaInputs(
+  variantIds: string[],
+  metafields: Array<{ namespace: string; key: string }>,
+): Promise<Map<string, VariantFormulaInputs>> {
+  const inputs = new Map<string, VariantFormulaInputs>()
+  const ids = variantIds.map((id) => (id.startsWith("gid://") ? id : `gid://shopify/ProductVariant/${id}`))
+  const query = variantFormulaInputsQuery(metafields)
+  for (let i = 0; i < ids.length; i += 50) {
+    const response = await shopifyAdminFetch({ query, variables: { ids: ids.slice(i, i + 50) } })
+    if (response.error || response.body?.errors) {
+      throw new Error(response.error || response.body.errors[0]?.message || "Failed to fetch variant details")
+    }
+    for (const node of response.body?.data?.nodes || []) {
+      if (!node?.id) continue
+      const amount = node.inventoryItem?.unitCost?.amount
+      const values: Record<string, number | null> = {}
+      metafields.forEach(({ namespace, key }, index) => {
+        const raw = node[`m${index}`]?.value ?? node.product?.[`m${index}`]?.value
+        const value = raw == null ? Number.NaN : Number.parseFloat(raw)
+        values[`${namespace}.${key}`] = Number.isFinite(value) ? value : null
+      })
+      inputs.set(node.id, {
+        cost: amount != null ? Number.parseFloat(amount) : null,
+        inventory: typeof node.inventoryQuantity === "number" ? node.inventoryQuantity : null,
+        tags: node.product?.tags || [],
+        metafields: values,
+      })
+    }
+  }
+  return inputs
+}
+
+// "Gold 22K" -> "gold_22k", so rates and metafields written by hand still match
+export function normalizeMetalType(value: string) {
+  return value.trim().toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_|_$/g, "")
+}
+
+// A variant's metal link from the aliased metafields, or null when it has no metal type or weight
+function toMetalLink(node: any): MetalLink | null {
+  const metalType = normalizeMetalType(node.metalType?.value ?? "")
+  const weightGrams = Number.parseFloat(node.metalWeight?.value ?? "")
+  const makingCharges = Number.parseFloat(node.makingCharges?.value ?? "")
+  if (!metalType || !(weightGrams > 0)) {
+    return null
+  }
+  return { metalType, weightGrams, makingCharges: makingCharges > 0 ? makingCharges : 0 }
+}
+
+// Metal link for each variant GID, fetched 50 at a time; variants Shopify does not return are left out
+export async function getVariantMetalLinks(variantIds: string[]): Promise<Map<string, MetalLink | null>> {
+  const links = new Map<string, MetalLink | null>()
+  const ids = variantIds.map((id) => (id.startsWith("gid://") ? id : `gid://shopify/ProductVariant/${id}`))
+  for (let i = 0; i < ids.length; i += 50) {
+    const response = await shopifyAdminFetch({
+      query: GET_VARIANT_METAL_LINKS,
+      variables: { ids: ids.slice(i, i + 50) },
+    })
+    if (response.error || response.body?.errors) {
+      throw new Error(response.error || response.body.errors[0]?.message || "Failed to fetch metal metafields")
+    }
+    for (const node of response.body?.data?.nodes || []) {
+      if (node?.id) links.set(node.id, toMetalLink(node))
+    }
+  }
+  return links
+}
+
+export interface MetalLinkedVariant extends LiveVariantPrice {
+  metal: MetalLink
+}
+
+// All variants of the store linked to metal rates
+export async function findMetalLinkedVariants(): Promise<MetalLinkedVariant[]> {
+  const url = await runBulkQuery(BULK_METAL_VARIANTS_QUERY)
+  if (!url) {
+    return []
+  }
+
+  const variants: MetalLinkedVariant[] = []
+  for await (const { metalType, metalWeight, makingCharges, ...node } of readJsonl(url)) {
+    const metal = toMetalLink({ metalType, metalWeight, makingCharges })
+    if (metal) variants.push({ ...node, metal })
+  }
+  return variants
 }
 
 // Function to get all collections
@@ -487,6 +1378,84 @@ export async function updateProduct(productData: any) {
   })
 }
 
+// Update one variant (ProductVariantInput: sku, price, compareAtPrice, inventoryItem.cost, ...)
+export async function updateProductVariant(input: any) {
+  return shopifyAdminFetch({
+    query: UPDATE_PRODUCT_VARIANT,
+    variables: { input },
+  })
+}
+
+// Inventory item and total quantity for each variant GID, fetched 50 at a time
+export async function getVariantInventory(
+  variantIds: string[],
+): Promise<Map<string, { inventoryItemId: string; quantity: number }>> {
+  const inventory = new Map<string, { inventoryItemId: string; quantity: number }>()
+  for (let i = 0; i < variantIds.length; i += 50) {
+    const response = await shopifyAdminFetch({
+      query: GET_VARIANT_INVENTORY,
+      variables: { ids: variantIds.slice(i, i + 50) },
+    })
+    if (response.error || response.body?.errors) {
+      throw new Error(response.error || response.body.errors[0]?.message || "Failed to fetch variant inventory")
+    }
+    for (const node of response.body?.data?.nodes || []) {
+      if (node?.inventoryItem?.id) {
+        inventory.set(node.id, { inventoryItemId: node.inventoryItem.id, quantity: node.inventoryQuantity ?? 0 })
+      }
+    }
+  }
+  return inventory
+}
+
+// The store's first location, where imported inventory changes are applied
+export async function getDefaultLocationId(): Promise<string | null> {
+  const response = await shopifyAdminFetch({ query: GET_LOCATIONS, variables: { first: 1 } })
+  return response.body?.data?.locations?.edges?.[0]?.node?.id || null
+}
+
+// Change available quantities at one location by the given deltas
+export async function adjustInventoryQuantities(
+  locationId: string,
+  changes: Array<{ inventoryItemId: string; delta: number }>,
+) {
+  return shopifyAdminFetch({
+    query: ADJUST_INVENTORY_QUANTITIES,
+    variables: {
+      input: {
+        reason: "correction",
+        name: "available",
+        changes: changes.map(({ inventoryItemId, delta }) => ({ inventoryItemId, delta, locationId })),
+      },
+    },
+  })
+}
+
+// Attach images by URL; Shopify downloads them in the background
+export async function addProductImages(productId: string, images: Array<{ url: string; altText: string | null }>) {
+  return shopifyAdminFetch({
+    query: CREATE_PRODUCT_MEDIA,
+    variables: {
+      productId,
+      media: images.map((image) => ({
+        originalSource: image.url,
+        alt: image.altText || undefined,
+        mediaContentType: "IMAGE",
+      })),
+    },
+  })
+}
+
+// First userErrors/GraphQL error message of a mutation response, or null when it succeeded
+export function mutationError(response: { status: number; body?: any; error?: string }, payloadKey: string) {
+  if (response.status !== 200) {
+    return response.error || `HTTP ${response.status}`
+  }
+  const payload = response.body?.data?.[payloadKey]
+  const errors = [...(response.body?.errors || []), ...(payload?.userErrors || []), ...(payload?.mediaUserErrors || [])]
+  return errors.length > 0 ? errors.map((e: any) => e.message).join(", ") : null
+}
+
 // Delete product function
 export async function deleteProduct(productId: string) {
   return shopifyAdminFetch({
@@ -517,69 +1486,76 @@ export async function uploadProductImage(
   })
 }
 
-// Alternative: Upload image using staged uploads (for larger files)
-export async function uploadProductImageStaged(productId: string, imageFile: File) {
-  console.log("Starting staged upload for product:", productId)
-
-  try {
-    // Step 1: Create staged upload
-    const stagedUploadQuery = `
-      mutation stagedUploadsCreate($input: [StagedUploadInput!]!) {
-        stagedUploadsCreate(input: $input) {
-          stagedTargets {
-            url
-            resourceUrl
-            parameters {
-              name
-              value
-            }
-          }
-          userErrors {
-            field
-            message
+// Upload a file to Shopify's staged storage; returns the resourceUrl that media inputs take as originalSource
+export async function stageImageFile(imageFile: File): Promise<string> {
+  // Step 1: Create staged upload
+  const stagedUploadQuery = `
+    mutation stagedUploadsCreate($input: [StagedUploadInput!]!) {
+      stagedUploadsCreate(input: $input) {
+        stagedTargets {
+          url
+          resourceUrl
+          parameters {
+            name
+            value
           }
         }
+        userErrors {
+          field
+          message
+        }
       }
-    `
+    }
+  `
 
-    const stagedUploadResponse = await shopifyAdminFetch({
-      query: stagedUploadQuery,
-      variables: {
-        input: [
-          {
-            resource: "IMAGE",
-            filename: imageFile.name,
-            mimeType: imageFile.type,
-            httpMethod: "POST",
-          },
-        ],
-      },
-    })
+  const stagedUploadResponse = await shopifyAdminFetch({
+    query: stagedUploadQuery,
+    variables: {
+      input: [
+        {
+          resource: "IMAGE",
+          filename: imageFile.name,
+          mimeType: imageFile.type,
+          httpMethod: "POST",
+        },
+      ],
+    },
+  })
 
-    if (stagedUploadResponse.status !== 200 || stagedUploadResponse.body.errors) {
-      throw new Error("Failed to create staged upload")
-    }
+  if (stagedUploadResponse.status !== 200 || stagedUploadResponse.body.errors) {
+    throw new Error("Failed to create staged upload")
+  }
 
-    const stagedTarget = stagedUploadResponse.body.data.stagedUploadsCreate.stagedTargets[0]
-    if (!stagedTarget) {
-      throw new Error("No staged target returned")
-    }
+  const stagedTarget = stagedUploadResponse.body.data.stagedUploadsCreate.stagedTargets[0]
+  if (!stagedTarget) {
+    throw new Error("No staged target returned")
+  }
 
-    // Step 2: Upload file to staged URL
-    const formData = new FormData()
-    stagedTarget.parameters.forEach((param: any) => {
-      formData.append(param.name, param.value)
-    })
-    formData.append("file", imageFile)
+  // Step 2: Upload file to staged URL
+  const formData = new FormData()
+  stagedTarget.parameters.forEach((param: any) => {
+    formData.append(param.name, param.value)
+  })
+  formData.append("file", imageFile)
 
-    const uploadResponse = await fetch(stagedTarget.url, {
-      method: "POST",
-      body: formData,
-    })
+  const uploadResponse = await fetch(stagedTarget.url, {
+    method: "POST",
+    body: formData,
+  })
 
-    if (!uploadResponse.ok) {
-      throw new Error(`Upload failed: ${uploadResponse.status}`)
-    }
+  if (!uploadResponse.ok) {
+    throw new Error(`Upload failed: ${uploadResponse.status}`)
+  }
+
+  return stagedTarget.resourceUrl as string
+}
+
+// Alternative: Upload image using staged uploads (for larger files)
+export async function uploadProductImageStaged(productId: string, imageFile: File) {
+  console.log("Starting staged upload for product:", productId)
+
+  try {
+    const resourceUrl = await stageImageFile(imageFile)
 
     // Step 3: Create product image with staged URL
     const createImageQuery = `
@@ -608,7 +1584,7 @@ export async function uploadProductImageStaged(productId: string, imageFile: Fil
         productId,
         media: [
           {
-            originalSource: stagedTarget.resourceUrl,
+            originalSource: resourceUrl,
             alt: imageFile.name.replace(/\.[^/.]+$/, ""),
             mediaContentType: "IMAGE",
           },
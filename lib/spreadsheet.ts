@@ -0,0 +1,129 @@
+// CSV and XLSX reading/writing for price imports and reports. Sheets are plain string grids:
+// rows of cells, the first row usually the header. Blank rows are kept, so row numbers match the file.
+import JSZip from "jszip"
+
+function csvCell(value: string | number | null | undefined) {
+  const text = value === null || value === undefined ? "" : String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export function toCsv(rows: Array<Array<string | number | null | undefined>>) {
+  return rows.map((row) => row.map(csvCell).join(",")).join("\n")
+}
+
+// RFC 4180: quoted cells may hold commas, quotes ("") and line breaks; a leading BOM is dropped
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ""
+  let quoted = false
+  const source = text.replace(/^\uFEFF/, "")
+
+  for (let i = 0; i < source.length; i++) {
+    const ch = source[i]
+    if (quoted) {
+      if (ch === '"' && source[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (ch === '"') {
+        quoted = false
+      } else {
+        cell += ch
+      }
+    } else if (ch === '"') {
+      quoted = true
+    } else if (ch === ",") {
+      row.push(cell)
+      cell = ""
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && source[i + 1] === "\n") i++
+      row.push(cell)
+      rows.push(row)
+      row = []
+      cell = ""
+    } else {
+      cell += ch
+    }
+  }
+  if (cell !== "" || row.length > 0) {
+    row.push(cell)
+    rows.push(row)
+  }
+  return rows
+}
+
+// "AB12" -> 27
+function columnIndex(cellRef: string) {
+  const letters = /^[A-Z]+/.exec(cellRef)?.[0] ?? ""
+  return [...letters].reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1
+}
+
+function textOf(node: Element) {
+  return Array.from(node.getElementsByTagNameNS("*", "t"))
+    .map((t) => t.textContent ?? "")
+    .join("")
+}
+
+const RELATIONSHIPS_NS = "http://schemas.openxmlformats.org/officeDocument/2006/relationships"
+
+// First worksheet of an .xlsx workbook. Runs in the browser (DOMParser).
+async function parseXlsx(data: ArrayBuffer): Promise<string[][]> {
+  const zip = await JSZip.loadAsync(data)
+  const parser = new DOMParser()
+  const readXml = async (path: string) => {
+    const file = zip.file(path)
+    return file ? parser.parseFromString(await file.async("string"), "application/xml") : null
+  }
+
+  // The first sheet in workbook order, which need not be sheet1.xml
+  let sheetPath = "xl/worksheets/sheet1.xml"
+  const workbook = await readXml("xl/workbook.xml")
+  const rels = await readXml("xl/_rels/workbook.xml.rels")
+  const firstSheet = workbook?.getElementsByTagNameNS("*", "sheet")[0]
+  const relId = firstSheet?.getAttributeNS(RELATIONSHIPS_NS, "id")
+  const target = Array.from(rels?.getElementsByTagNameNS("*", "Relationship") ?? [])
+    .find((rel) => rel.getAttribute("Id") === relId)
+    ?.getAttribute("Target")
+  if (target) {
+    sheetPath = target.startsWith("/") ? target.slice(1) : `xl/${target}`
+  }
+
+  const sheet = await readXml(sheetPath)
+  if (!sheet) {
+    throw new Error("The workbook has no worksheet")
+  }
+  const strings = await readXml("xl/sharedStrings.xml")
+  const sharedStrings = Array.from(strings?.getElementsByTagNameNS("*", "si") ?? []).map(textOf)
+
+  const rows: string[][] = []
+  for (const rowNode of Array.from(sheet.getElementsByTagNameNS("*", "row"))) {
+    // Rows without cells are left out of the file; pad them back in
+    const rowNumber = Number(rowNode.getAttribute("r")) || rows.length + 1
+    while (rows.length < rowNumber - 1) rows.push([])
+    const row: string[] = []
+    for (const cellNode of Array.from(rowNode.getElementsByTagNameNS("*", "c"))) {
+      const type = cellNode.getAttribute("t")
+      const value = cellNode.getElementsByTagNameNS("*", "v")[0]?.textContent ?? ""
+      const text =
+        type === "s" ? sharedStrings[Number(value)] ?? "" : type === "inlineStr" ? textOf(cellNode) : value
+      const ref = cellNode.getAttribute("r")
+      const index = ref ? columnIndex(ref) : row.length
+      while (row.length < index) row.push("")
+      row[index] = text
+    }
+    rows.push(row)
+  }
+  return rows
+}
+
+// Rows of an uploaded .csv or .xlsx file
+export async function readSpreadsheet(file: File): Promise<string[][]> {
+  const name = file.name.toLowerCase()
+  if (name.endsWith(".xlsx")) {
+    return parseXlsx(await file.arrayBuffer())
+  }
+  if (name.endsWith(".csv") || file.type === "text/csv") {
+    return parseCsv(await file.text())
+  }
+  throw new Error("Upload a .csv or .xlsx file")
+}
@@ -0,0 +1,12 @@
+// Cookie names shared by the browser (auth + store switcher) and the API routes (server)
+export const AUTH_TOKEN_COOKIE = "rank_optim_token"
+export const STORE_COOKIE = "rank_optim_store"
+
+// Write a cookie that is sent with every same-origin /api request
+export function setSelectionCookie(name: string, value: string, maxAgeSeconds = 60 * 60 * 24 * 365) {
+  document.cookie = `${name}=${encodeURIComponent(value)}; path=/; max-age=${maxAgeSeconds}; SameSite=Lax`
+}
+
+export function clearSelectionCookie(name: string) {
+  document.cookie = `${name}=; path=/; max-age=0; SameSite=Lax`
+}
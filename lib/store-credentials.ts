@@ -0,0 +1,247 @@
+// Resolve Shopify credentials for the signed-in user's selected store
+import { collection, doc, getDoc, getDocs, runTransaction, updateDoc } from "firebase/firestore"
+import { db } from "@/db/db"
+import { decryptSecret, encryptSecret, needsRotation, rotateSecret, type EncryptedSecret } from "@/lib/encryption"
+import type { ShopifyConfig } from "@/lib/shopify"
+import type { StoreRole } from "@/lib/roles"
+
+// Plaintext store credentials as submitted by /api/store-add or the OAuth callback
+export interface StoreRecord {
+  SHOPIFY_STORE_NAME: string
+  SHOPIFY_API_KEY: string
+  SHOPIFY_API_SECRET: string
+  SHOPIFY_STORE_URL: string
+  SHOPIFY_ADMIN_SESSION: string
+  createdAt: string
+  installMethod?: "manual" | "oauth"
+  scopes?: string
+  uninstalledAt?: string
+  webhooksRegisteredAt?: string
+}
+
+// Same record as persisted under users/{uid}.stores.{storeId}, with secrets encrypted.
+// Plaintext strings are still accepted for stores saved before encryption was added.
+export interface StoredStoreRecord extends Omit<StoreRecord, "SHOPIFY_API_SECRET" | "SHOPIFY_ADMIN_SESSION"> {
+  SHOPIFY_API_SECRET: EncryptedSecret | string
+  SHOPIFY_ADMIN_SESSION: EncryptedSecret | string
+}
+
+// Masked metadata that is safe to send to the browser
+export interface StoreSummary {
+  id: string
+  name: string
+  domain: string
+  createdAt: string
+  health: "connected" | "unauthorized" | "uninstalled" | "error"
+  role: StoreRole // The requesting user's role; "owner" for their own stores
+}
+
+const SECRET_FIELDS = ["SHOPIFY_API_SECRET", "SHOPIFY_ADMIN_SESSION"] as const
+
+// Bulk routes call Shopify hundreds of times per request, so keep resolved
+// credentials briefly instead of reading Firestore on every call
+const CACHE_TTL_MS = 60 * 1000
+const credentialCache = new Map<string, { config: ShopifyConfig; expiresAt: number }>()
+
+export function normalizeStoreDomain(url?: string | null) {
+  return (url || "").replace(/https?:\/\//, "").replace(/\/$/, "")
+}
+
+export function storeRecordToConfig(record: StoredStoreRecord): ShopifyConfig {
+  return {
+    storeDomain: normalizeStoreDomain(record.SHOPIFY_STORE_URL),
+    adminAccessToken: decryptSecret(record.SHOPIFY_ADMIN_SESSION),
+    apiKey: record.SHOPIFY_API_KEY,
+    apiSecret: decryptSecret(record.SHOPIFY_API_SECRET),
+  }
+}
+
+export function encryptStoreRecord(record: StoreRecord): StoredStoreRecord {
+  return {
+    ...record,
+    SHOPIFY_API_SECRET: record.SHOPIFY_API_SECRET ? encryptSecret(record.SHOPIFY_API_SECRET) : "",
+    SHOPIFY_ADMIN_SESSION: record.SHOPIFY_ADMIN_SESSION ? encryptSecret(record.SHOPIFY_ADMIN_SESSION) : "",
+  }
+}
+
+export function toStoreSummary(
+  id: string,
+  record: StoredStoreRecord,
+  health: StoreSummary["health"],
+  role: StoreRole = "owner",
+): StoreSummary {
+  return {
+    id,
+    name: record.SHOPIFY_STORE_NAME || id,
+    domain: normalizeStoreDomain(record.SHOPIFY_STORE_URL),
+    createdAt: record.createdAt,
+    health,
+    role,
+  }
+}
+
+// Read all stores saved for a user
+export async function getUserStores(userId: string): Promise<Record<string, StoredStoreRecord>> {
+  const userSnap = await getDoc(doc(db, "users", userId))
+  if (!userSnap.exists()) {
+    return {}
+  }
+  return (userSnap.data().stores || {}) as Record<string, StoredStoreRecord>
+}
+
+// Re-encrypt any secret that is plaintext or wrapped with a retired key
+async function rotateStoreRecord(userId: string, storeId: string, record: StoredStoreRecord) {
+  const updates: Record<string, EncryptedSecret> = {}
+  for (const field of SECRET_FIELDS) {
+    const value = record[field]
+    if (value && needsRotation(value)) {
+      updates[`stores.${storeId}.${field}`] = rotateSecret(value)
+    }
+  }
+
+  if (Object.keys(updates).length === 0) {
+    return false
+  }
+
+  await updateDoc(doc(db, "users", userId), updates)
+  return true
+}
+
+// Rotate every store a user owns onto the active encryption key
+export async function rotateUserStoreSecrets(userId: string) {
+  const stores = await getUserStores(userId)
+  let rotated = 0
+  for (const [storeId, record] of Object.entries(stores)) {
+    if (await rotateStoreRecord(userId, storeId, record)) {
+      rotated++
+    }
+  }
+  return { total: Object.keys(stores).length, rotated }
+}
+
+// Load credentials for one store owned by a user
+export async function getStoreConfig(userId: string, storeId: string): Promise<ShopifyConfig | null> {
+  const cacheKey = `${userId}:${storeId}`
+  const cached = credentialCache.get(cacheKey)
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.config
+  }
+
+  const stores = await getUserStores(userId)
+  const record = stores[storeId]
+  if (!record) {
+    credentialCache.delete(cacheKey)
+    return null
+  }
+
+  const config = storeRecordToConfig(record)
+
+  // Migrate legacy plaintext or old-key secrets the first time they are used
+  rotateStoreRecord(userId, storeId, record).catch((error) => {
+    console.error("Failed to rotate store secrets:", error)
+  })
+
+  credentialCache.set(cacheKey, { config, expiresAt: Date.now() + CACHE_TTL_MS })
+  return config
+}
+
+// Drop cached credentials after a store is added, updated or removed
+export function invalidateStoreConfig(userId: string, storeId: string) {
+  credentialCache.delete(`${userId}:${storeId}`)
+}
+
+// shops/{domain}: the user/store Shopify callbacks, webhooks and the scheduler resolve a shop domain to
+export interface ShopMapping {
+  userId: string
+  storeId: string
+  installMethod?: "manual" | "oauth" // Absent on mappings written before it was recorded
+  verifiedAt?: string // When the store's credentials were last shown to work against the shop
+  updatedAt: string
+}
+
+/**
+ * Point a shop domain at a user's store once its ownership is shown: by the HMAC-verified OAuth callback,
+ * or by the store's own access token working against the shop. A domain mapped to another user's store
+ * is only taken over by an OAuth install, or by a verified store when the existing mapping never was.
+ * Returns an error message or null.
+ */
+export async function claimShop(
+  userId: string,
+  storeId: string,
+  shopDomain: string,
+  installMethod: "manual" | "oauth",
+): Promise<string | null> {
+  const ref = doc(db, "shops", normalizeStoreDomain(shopDomain))
+  return runTransaction(db, async (transaction) => {
+    const snap = await transaction.get(ref)
+    const current = snap.exists() ? (snap.data() as ShopMapping) : null
+    const otherStore = current && (current.userId !== userId || current.storeId !== storeId)
+    const owned = current?.installMethod === "oauth" || !!current?.verifiedAt
+    if (otherStore && owned && installMethod !== "oauth") {
+      return "This shop is already connected to another account"
+    }
+    const now = new Date().toISOString()
+    transaction.set(ref, { userId, storeId, installMethod, verifiedAt: now, updatedAt: now })
+    return null
+  })
+}
+
+/**
+ * Encrypt and write a store record, indexed by shop domain so Shopify callbacks can find its owner.
+ * Callers show the shop's ownership first (see claimShop); returns an error message, with nothing
+ * written, when the domain belongs to another account.
+ */
+export async function saveUserStore(userId: string, storeId: string, record: StoreRecord): Promise<string | null> {
+  const shopDomain = normalizeStoreDomain(record.SHOPIFY_STORE_URL)
+  if (shopDomain) {
+    const error = await claimShop(userId, storeId, shopDomain, record.installMethod ?? "manual")
+    if (error) return error
+  }
+
+  await updateDoc(doc(db, "users", userId), {
+    [`stores.${storeId}`]: encryptStoreRecord(record),
+  })
+
+  invalidateStoreConfig(userId, storeId)
+  return null
+}
+
+// Look up which user/store a shop domain belongs to
+export async function findStoreByShop(shopDomain: string): Promise<ShopMapping | null> {
+  const shopSnap = await getDoc(doc(db, "shops", normalizeStoreDomain(shopDomain)))
+  if (!shopSnap.exists()) {
+    return null
+  }
+  return shopSnap.data() as ShopMapping
+}
+
+// Every connected shop, for background work that runs without a signed-in user (cron)
+export async function listConnectedShops(): Promise<Array<{ shopDomain: string; userId: string; storeId: string }>> {
+  const snap = await getDocs(collection(db, "shops"))
+  return snap.docs.map((shopDoc) => ({
+    shopDomain: shopDoc.id,
+    userId: shopDoc.data().userId,
+    storeId: shopDoc.data().storeId,
+  }))
+}
+
+export async function markWebhooksRegistered(userId: string, storeId: string) {
+  await updateDoc(doc(db, "users", userId), {
+    [`stores.${storeId}.webhooksRegisteredAt`]: new Date().toISOString(),
+  })
+}
+
+// Revoke a store's token after the app is uninstalled from Shopify
+export async function markStoreUninstalled(shopDomain: string) {
+  const owner = await findStoreByShop(shopDomain)
+  if (!owner) {
+    return null
+  }
+
+  await updateDoc(doc(db, "users", owner.userId), {
+    [`stores.${owner.storeId}.SHOPIFY_ADMIN_SESSION`]: "",
+    [`stores.${owner.storeId}.uninstalledAt`]: new Date().toISOString(),
+  })
+  invalidateStoreConfig(owner.userId, owner.storeId)
+  return owner
+}
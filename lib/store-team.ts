@@ -0,0 +1,140 @@
+// Store teams: who besides the owner can access a store, with which role, and the store's approval policy.
+// Persisted as storeTeams/{ownerId}_{storeId}; the owner is implicit and never listed as a member.
+import { collection, deleteField, doc, getDoc, getDocs, limit, query, setDoc, updateDoc, where } from "firebase/firestore"
+import { db } from "@/db/db"
+import type { MemberRole, StoreRole } from "@/lib/roles"
+
+export interface TeamMember {
+  uid: string
+  email: string
+  role: StoreRole
+  addedAt: string
+  addedBy: string
+}
+
+export interface ApprovalPolicy {
+  // Price changes larger than this (in either direction) need approval; null turns the check off
+  priceChangeThresholdPercent: number | null
+  requireBulkDeleteApproval: boolean
+}
+
+export interface StoreTeam {
+  ownerId: string
+  storeId: string
+  members: Record<string, TeamMember>
+  memberIds: string[] // Mirrors the members map so shared stores can be queried with array-contains
+  approvalPolicy: ApprovalPolicy
+}
+
+export interface StoreAccess {
+  ownerId: string
+  storeId: string
+  role: StoreRole
+}
+
+export const DEFAULT_APPROVAL_POLICY: ApprovalPolicy = {
+  priceChangeThresholdPercent: 20,
+  requireBulkDeleteApproval: true,
+}
+
+function teamRef(ownerId: string, storeId: string) {
+  return doc(db, "storeTeams", `${ownerId}_${storeId}`)
+}
+
+// Stores shared with a user are selected as "ownerId/storeId"; their own stores keep the plain storeId
+export function toStoreKey(uid: string, ownerId: string, storeId: string) {
+  return ownerId === uid ? storeId : `${ownerId}/${storeId}`
+}
+
+export function parseStoreKey(uid: string, storeKey: string) {
+  const separator = storeKey.indexOf("/")
+  if (separator === -1) {
+    return { ownerId: uid, storeId: storeKey }
+  }
+  return { ownerId: storeKey.slice(0, separator), storeId: storeKey.slice(separator + 1) }
+}
+
+export async function getStoreTeam(ownerId: string, storeId: string): Promise<StoreTeam> {
+  const snap = await getDoc(teamRef(ownerId, storeId))
+  const data = snap.exists() ? snap.data() : {}
+  return {
+    ownerId,
+    storeId,
+    members: data.members || {},
+    memberIds: data.memberIds || [],
+    approvalPolicy: { ...DEFAULT_APPROVAL_POLICY, ...data.approvalPolicy },
+  }
+}
+
+// Work out which store a selection key points at and the caller's role there
+export async function resolveStoreAccess(uid: string, storeKey: string): Promise<StoreAccess | null> {
+  const { ownerId, storeId } = parseStoreKey(uid, storeKey)
+  if (ownerId === uid) {
+    return { ownerId, storeId, role: "owner" }
+  }
+
+  const team = await getStoreTeam(ownerId, storeId)
+  const member = team.members[uid]
+  return member ? { ownerId, storeId, role: member.role } : null
+}
+
+// Stores other users have shared with this user
+export async function getSharedStores(uid: string): Promise<StoreAccess[]> {
+  const snap = await getDocs(query(collection(db, "storeTeams"), where("memberIds", "array-contains", uid)))
+  return snap.docs.flatMap((teamDoc) => {
+    const { ownerId, storeId, members } = teamDoc.data()
+    const member = members?.[uid]
+    return member ? [{ ownerId, storeId, role: member.role as StoreRole }] : []
+  })
+}
+
+async function findUserByEmail(email: string) {
+  const snap = await getDocs(query(collection(db, "users"), where("email", "==", email), limit(1)))
+  return snap.empty ? null : { uid: snap.docs[0].id, email: snap.docs[0].data().email as string }
+}
+
+// Members must have signed in once so their users/{uid} document exists
+export async function addTeamMember(ownerId: string, storeId: string, email: string, role: MemberRole, addedBy: string) {
+  const user = await findUserByEmail(email.trim().toLowerCase())
+  if (!user) {
+    throw new Error(`No user with email ${email} has signed in yet`)
+  }
+  if (user.uid === ownerId) {
+    throw new Error("The store owner is already part of the team")
+  }
+
+  const team = await getStoreTeam(ownerId, storeId)
+  const member: TeamMember = { uid: user.uid, email: user.email, role, addedAt: new Date().toISOString(), addedBy }
+
+  await setDoc(
+    teamRef(ownerId, storeId),
+    {
+      ownerId,
+      storeId,
+      members: { ...team.members, [user.uid]: member },
+      memberIds: Array.from(new Set([...team.memberIds, user.uid])),
+    },
+    { merge: true },
+  )
+  return member
+}
+
+export async function updateTeamMemberRole(ownerId: string, storeId: string, uid: string, role: MemberRole) {
+  const team = await getStoreTeam(ownerId, storeId)
+  if (!team.members[uid]) {
+    throw new Error("Team member not found")
+  }
+  await updateDoc(teamRef(ownerId, storeId), { [`members.${uid}.role`]: role })
+}
+
+export async function removeTeamMember(ownerId: string, storeId: string, uid: string) {
+  const team = await getStoreTeam(ownerId, storeId)
+  await updateDoc(teamRef(ownerId, storeId), {
+    [`members.${uid}`]: deleteField(),
+    memberIds: team.memberIds.filter((id) => id !== uid),
+  })
+}
+
+export async function updateApprovalPolicy(ownerId: string, storeId: string, policy: ApprovalPolicy) {
+  await setDoc(teamRef(ownerId, storeId), { ownerId, storeId, approvalPolicy: policy }, { merge: true })
+}
@@ -11,6 +11,7 @@ export interface UniversalHistoryEntry {
     | "bulk_discount"
     | "image_upload"
     | "collection_update"
+    | "external_change" // Made in Shopify admin or another app, reported by the server
   category: "product" | "pricing" | "images" | "bulk" | "collections"
   productId?: string
   productTitle?: string
@@ -53,6 +54,8 @@ export interface UniversalHistoryEntry {
     affectedVariants?: string[]
     fileNames?: string[]
     imageUrls?: string[]
+    externalChangeId?: string
+    originalEntryId?: string
     bulkOperationSummary?: {
       totalItems: number
       successfulItems: number
@@ -80,6 +83,31 @@ export interface RollbackResult {
   message: string
   affectedEntries: string[]
   errors?: string[]
+  externalChanges?: UniversalHistoryEntry[] // Newer edits made outside the app that a rollback would overwrite
+}
+
+// Shape returned by /api/external-changes (lib/external-changes)
+interface ExternalChange {
+  id: string
+  kind: "price_change" | "product_delete" | "collection_update" | "app_uninstalled"
+  detectedAt: string
+  description: string
+  productId?: string
+  productTitle?: string
+  variantId?: string
+  variantTitle?: string
+  sku?: string
+  collectionId?: string
+  collectionTitle?: string
+  oldValues?: Record<string, any>
+  newValues?: Record<string, any>
+}
+
+const EXTERNAL_CHANGE_CATEGORIES: Record<ExternalChange["kind"], UniversalHistoryEntry["category"]> = {
+  price_change: "pricing",
+  product_delete: "product",
+  collection_update: "collections",
+  app_uninstalled: "product",
 }
 
 class UniversalHistoryManager {
@@ -182,6 +210,73 @@ class UniversalHistoryManager {
     return { batchId, entries }
   }
 
+  // Pull changes made outside the app for the selected store; returns how many were new
+  async syncExternalChanges(): Promise<number> {
+    try {
+      const response = await fetch("/api/external-changes")
+      if (!response.ok) return 0
+      const { changes } = (await response.json()) as { changes: ExternalChange[] }
+
+      const entries = this.getAllEntries()
+      const known = new Set(entries.map((entry) => entry.metadata?.externalChangeId).filter(Boolean))
+      const added: UniversalHistoryEntry[] = changes
+        .filter((change) => !known.has(change.id))
+        .map((change) => ({
+          id: `hist_ext_${change.id}`,
+          timestamp: change.detectedAt,
+          operationType: "external_change",
+          category: EXTERNAL_CHANGE_CATEGORIES[change.kind],
+          productId: change.productId,
+          productTitle: change.productTitle,
+          variantId: change.variantId,
+          variantTitle: change.variantTitle,
+          sku: change.sku,
+          collectionId: change.collectionId,
+          collectionTitle: change.collectionTitle,
+          description: change.description,
+          status: "warning",
+          operationData: {
+            action: change.kind,
+            oldValues: change.oldValues,
+            newValues: change.newValues,
+          },
+          rollbackData: {
+            canRollback: false,
+            rollbackType: "api_call",
+          },
+          metadata: {
+            externalChangeId: change.id,
+          },
+        }))
+
+      if (added.length > 0) {
+        const merged = [...added, ...entries]
+          .sort((a, b) => b.timestamp.localeCompare(a.timestamp))
+          .slice(0, this.MAX_ENTRIES)
+        localStorage.setItem(this.STORAGE_KEY, JSON.stringify(merged))
+      }
+      return added.length
+    } catch (error) {
+      console.error("Failed to sync external changes:", error)
+      return 0
+    }
+  }
+
+  // External changes to the entry's products/variants made after it, which a rollback would overwrite
+  getExternalChangesAfter(entry: UniversalHistoryEntry): UniversalHistoryEntry[] {
+    const items = entry.operationData.batchId ? this.getBulkOperationItems(entry.operationData.batchId) : []
+    const variantIds = new Set([entry.variantId, ...items.map((item) => item.variantId)].filter(Boolean))
+    const productIds = new Set([entry.productId, ...items.map((item) => item.productId)].filter(Boolean))
+
+    return this.getAllEntries().filter(
+      (candidate) =>
+        candidate.operationType === "external_change" &&
+        candidate.timestamp > entry.timestamp &&
+        (variantIds.has(candidate.variantId) ||
+          (candidate.operationData.action === "product_delete" && productIds.has(candidate.productId))),
+    )
+  }
+
   // Save entry to storage
   private saveEntry(entry: UniversalHistoryEntry): void {
     const entries = this.getAllEntries()
@@ -283,8 +378,8 @@ class UniversalHistoryManager {
     return this.getAllEntries().filter((entry) => entry.operationData.parentBatchId === batchId)
   }
 
-  // Rollback an operation
-  async rollbackOperation(entryId: string): Promise<RollbackResult> {
+  // Rollback an operation. Unless forced, refuses when the items were changed outside the app since.
+  async rollbackOperation(entryId: string, { force = false }: { force?: boolean } = {}): Promise<RollbackResult> {
     const entry = this.getAllEntries().find((e) => e.id === entryId)
 
     if (!entry) {
@@ -303,6 +398,19 @@ class UniversalHistoryManager {
       }
     }
 
+    if (!force) {
+      await this.syncExternalChanges()
+      const externalChanges = this.getExternalChangesAfter(entry)
+      if (externalChanges.length > 0) {
+        return {
+          success: false,
+          message: `${externalChanges.length} change(s) were made in Shopify outside this app after this operation. Rolling back would overwrite them.`,
+          affectedEntries: [],
+          externalChanges,
+        }
+      }
+    }
+
     try {
       const result = await this.executeRollback(entry)
 
@@ -382,10 +490,23 @@ class UniversalHistoryManager {
         }
 
       case "bulk_price_update":
+        // Items of a batch carry one variant's old prices ({ id, price, compareAtPrice })
         const priceResponse = await fetch("/api/bulk-price-rollback", {
           method: "POST",
           headers: { "Content-Type": "application/json" },
-          body: JSON.stringify(rollbackPayload),
+          body: JSON.stringify(
+            rollbackPayload?.variants
+              ? rollbackPayload
+              : {
+                  variants: [
+                    {
+                      variantId: rollbackPayload.id,
+                      originalPrice: rollbackPayload.price,
+                      originalCompareAtPrice: rollbackPayload.compareAtPrice,
+                    },
+                  ],
+                },
+          ),
         })
 
         if (priceResponse.ok) {
@@ -405,6 +526,11 @@ class UniversalHistoryManager {
           body: JSON.stringify(rollbackPayload),
         })
 
+        if (discountResponse.status === 202) {
+          // Parked for a reviewer; runs once approved
+          const { message } = await discountResponse.json()
+          return { success: false, message, affectedEntries: [] }
+        }
         if (discountResponse.ok) {
           return {
             success: true,
@@ -0,0 +1,76 @@
+// Ledger of the variant prices this app wrote, per store.
+// Change detection (product cache syncs, webhooks) compares against it to tell our own edits
+// apart from edits made in Shopify admin or by other apps.
+import { doc, getDoc, writeBatch } from "firebase/firestore"
+import { db } from "@/db/db"
+
+export interface VariantWrite {
+  variantId: string // gid://shopify/ProductVariant/...
+  price: string | null
+  compareAtPrice: string | null
+}
+
+function writeRef(storeDomain: string, variantId: string) {
+  return doc(db, "productCache", storeDomain, "variantWrites", variantId.split("/").pop() as string)
+}
+
+// Prices compared as numbers ("10.00" equals 10), empty meaning no price
+export function samePrice(a: string | number | null | undefined, b: string | number | null | undefined) {
+  const left = a === null || a === undefined || a === "" ? null : Number(a)
+  const right = b === null || b === undefined || b === "" ? null : Number(b)
+  return left === right
+}
+
+// Prices from a successful variant mutation: REST `variant` bodies and GraphQL productVariantUpdate /
+// productVariantsBulkUpdate payloads
+export function extractVariantWrites(body: any): VariantWrite[] {
+  const restVariant = body?.variant
+  if (restVariant?.id && "price" in restVariant) {
+    return [
+      {
+        variantId: `gid://shopify/ProductVariant/${restVariant.id}`,
+        price: restVariant.price ?? null,
+        compareAtPrice: restVariant.compare_at_price ?? null,
+      },
+    ]
+  }
+
+  const variants = [
+    body?.data?.productVariantUpdate?.productVariant,
+    ...(body?.data?.productVariantsBulkUpdate?.productVariants || []),
+  ]
+  return variants
+    .filter((variant) => variant?.id && "price" in variant)
+    .map((variant) => ({
+      variantId: variant.id,
+      price: variant.price ?? null,
+      compareAtPrice: variant.compareAtPrice ?? null,
+    }))
+}
+
+// Failures are only logged: the Shopify write already happened and must not be reported as failed
+export async function recordVariantWrites(storeDomain: string, writes: VariantWrite[]) {
+  if (writes.length === 0) return
+  try {
+    const batch = writeBatch(db)
+    const writtenAt = new Date().toISOString()
+    writes.forEach((write) => batch.set(writeRef(storeDomain, write.variantId), { ...write, writtenAt }))
+    await batch.commit()
+  } catch (error) {
+    console.error("Failed to record variant writes:", error)
+  }
+}
+
+// Whether the variant's current prices are the ones this app last wrote
+export async function isOwnVariantWrite(
+  storeDomain: string,
+  variantId: string,
+  current: { price: string | null; compareAtPrice: string | null },
+) {
+  const snap = await getDoc(writeRef(storeDomain, variantId))
+  if (!snap.exists()) {
+    return false
+  }
+  const write = snap.data() as VariantWrite
+  return samePrice(write.price, current.price) && samePrice(write.compareAtPrice, current.compareAtPrice)
+}
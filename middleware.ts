@@ -0,0 +1,48 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { VERIFIED_UID_HEADER, verifyFirebaseIdToken } from "@/lib/firebase-auth"
+import { AUTH_TOKEN_COOKIE } from "@/lib/store-cookies"
+
+// Routes Shopify calls directly; they verify their own HMAC signatures
+const SHOPIFY_ROUTES = ["/api/shopify/callback", "/api/shopify/uninstalled", "/api/webhooks/shopify"]
+
+// Routes called by the scheduler with `Authorization: Bearer $CRON_SECRET`
+const CRON_ROUTES = ["/api/process-scheduled-reverts", "/api/process-jobs"]
+
+function getBearerToken(request: NextRequest) {
+  const header = request.headers.get("authorization")
+  return header?.startsWith("Bearer ") ? header.slice(7) : null
+}
+
+// Every /api request must carry a valid Firebase ID token (Authorization header or auth cookie).
+// Route handlers then use withUserAuth/withStoreAuth from lib/api-auth for store ownership.
+export async function middleware(request: NextRequest) {
+  const { pathname } = request.nextUrl
+  const headers = new Headers(request.headers)
+  headers.delete(VERIFIED_UID_HEADER)
+
+  if (SHOPIFY_ROUTES.includes(pathname)) {
+    return NextResponse.next({ request: { headers } })
+  }
+
+  if (CRON_ROUTES.includes(pathname) && process.env.CRON_SECRET && getBearerToken(request) === process.env.CRON_SECRET) {
+    return NextResponse.next({ request: { headers } })
+  }
+
+  const token = getBearerToken(request) || request.cookies.get(AUTH_TOKEN_COOKIE)?.value
+  if (!token) {
+    return NextResponse.json({ error: "Authentication required" }, { status: 401 })
+  }
+
+  try {
+    const user = await verifyFirebaseIdToken(decodeURIComponent(token))
+    headers.set(VERIFIED_UID_HEADER, user.uid)
+    return NextResponse.next({ request: { headers } })
+  } catch (error) {
+    console.error("ID token verification failed:", error)
+    return NextResponse.json({ error: "Invalid or expired authentication token" }, { status: 401 })
+  }
+}
+
+export const config = {
+  matcher: "/api/:path*",
+}